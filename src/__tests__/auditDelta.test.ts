@@ -0,0 +1,139 @@
+/**
+ * Audit Delta - Unit Tests
+ * Tests for merging live re-audit updates into a completed audit result
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyAuditDelta } from '@/ui/utils/auditDelta';
+import { calculateOptimizedMetrics } from '@/ui/utils/metricsCalculator';
+import type { StyleAuditDelta, StyleGovernanceAuditResult } from '@/shared/types';
+import { createMockLayer, createMockStyle, createMockToken } from './fixtures';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+const primaryBinding = {
+  property: 'fills' as const,
+  tokenId: 'V:primary',
+  tokenName: 'color/primary',
+  tokenValue: '#000000',
+};
+
+const createMockResult = (): StyleGovernanceAuditResult => {
+  const layers = [
+    createMockLayer({ id: '1:1' }),
+    createMockLayer({ id: '1:2' }),
+    createMockLayer({
+      id: '1:3',
+      name: 'Body',
+      assignmentStatus: 'unstyled',
+      styleId: undefined,
+      styleName: undefined,
+      styleSource: undefined,
+      tokens: [primaryBinding],
+    }),
+  ];
+  const result: StyleGovernanceAuditResult = {
+    timestamp: new Date('2024-05-01T12:00:00Z'),
+    documentName: 'Design System',
+    documentId: 'abc123',
+    totalPages: 1,
+    totalTextLayers: layers.length,
+    styles: [createMockStyle({ usageCount: 2 })],
+    tokens: [
+      createMockToken({
+        id: 'V:primary',
+        name: 'color/primary',
+        collectionName: 'Colors',
+        usageCount: 1,
+        layerIds: ['1:3'],
+        propertyTypes: ['fills'],
+      }),
+    ],
+    layers,
+    libraries: [],
+    styleHierarchy: [],
+    styledLayers: layers.filter((l) => l.assignmentStatus !== 'unstyled'),
+    unstyledLayers: layers.filter((l) => l.assignmentStatus === 'unstyled'),
+    metrics: {} as StyleGovernanceAuditResult['metrics'],
+    layersWithMissingFonts: 0,
+    missingFontLayerNames: [],
+    missingFontLayerIds: [],
+    isStale: false,
+    auditDuration: 1000,
+  };
+  result.metrics = calculateOptimizedMetrics(result);
+  return result;
+};
+
+const emptyDelta = (overrides?: Partial<StyleAuditDelta>): StyleAuditDelta => ({
+  updatedLayers: [],
+  removedLayerIds: [],
+  updatedStyles: [],
+  updatedTokens: [],
+  updatedLibraries: [],
+  ...overrides,
+});
+
+// ============================================================================
+// applyAuditDelta() Tests
+// ============================================================================
+
+describe('applyAuditDelta', () => {
+  it('replaces updated layers in place, removes deleted ones and appends new ones', () => {
+    const result = applyAuditDelta(
+      createMockResult(),
+      emptyDelta({
+        updatedLayers: [
+          createMockLayer({ id: '1:2', name: 'Renamed' }),
+          createMockLayer({ id: '1:4', name: 'New' }),
+        ],
+        removedLayerIds: ['1:1'],
+      })
+    );
+
+    expect(result.layers.map((l) => l.id)).toEqual(['1:2', '1:3', '1:4']);
+    expect(result.layers[0].name).toBe('Renamed');
+    expect(result.totalTextLayers).toBe(3);
+  });
+
+  it('keeps incremental metrics in line with a full recalculation', () => {
+    const result = applyAuditDelta(
+      createMockResult(),
+      emptyDelta({
+        // Styling the body layer and dropping its token binding
+        updatedLayers: [createMockLayer({ id: '1:3', name: 'Body' })],
+        removedLayerIds: ['1:1'],
+      })
+    );
+    const full = calculateOptimizedMetrics(result);
+
+    // topStyles is only refreshed by a full recalculation
+    expect({ ...result.metrics, topStyles: [] }).toEqual({ ...full, topStyles: [] });
+    expect(result.unstyledLayers).toHaveLength(0);
+  });
+
+  it('moves style usage and token bindings from previous to updated layers', () => {
+    const result = applyAuditDelta(
+      createMockResult(),
+      emptyDelta({
+        updatedLayers: [createMockLayer({ id: '1:3', name: 'Body' })],
+        updatedStyles: [createMockStyle({ fontSize: 36, usageCount: 0 })],
+      })
+    );
+
+    expect(result.styles[0].usageCount).toBe(3);
+    expect(result.styles[0].fontSize).toBe(36);
+    expect(result.tokens[0].usageCount).toBe(0);
+    expect(result.tokens[0].layerIds).toEqual([]);
+  });
+
+  it('ignores removals of layers outside the result', () => {
+    const original = createMockResult();
+    const result = applyAuditDelta(original, emptyDelta({ removedLayerIds: ['9:9'] }));
+
+    expect(result.layers).toEqual(original.layers);
+    expect(result.metrics).toEqual(original.metrics);
+  });
+});
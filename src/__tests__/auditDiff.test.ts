@@ -0,0 +1,240 @@
+/**
+ * Audit Diff - Unit Tests
+ * Tests for comparing audits and the diff exports
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  diffAudits,
+  generateAuditJSON,
+  hasAuditChanges,
+  parseAuditJSON,
+  sourceFromAuditResult,
+  sourceFromSnapshot,
+} from '@/ui/utils/auditDiff';
+import { createAuditSnapshot } from '@/ui/utils/auditSnapshot';
+import { generateDiffCSV } from '@/ui/utils/csvExport';
+import { calculateOptimizedMetrics } from '@/ui/utils/metricsCalculator';
+import type {
+  DesignToken,
+  LibrarySource,
+  StyleGovernanceAuditResult,
+  TextLayer,
+} from '@/shared/types';
+import { createMockLayer, createMockStyle } from './fixtures';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+const unstyled: Partial<TextLayer> = {
+  assignmentStatus: 'unstyled',
+  styleId: undefined,
+  styleName: undefined,
+  styleSource: undefined,
+};
+
+const primaryToken = {
+  id: 'V:primary',
+  name: 'color/primary',
+  collectionName: 'Brand',
+} as DesignToken;
+
+const primaryBinding = {
+  property: 'fills' as const,
+  tokenId: 'V:primary',
+  tokenName: 'color/primary',
+  tokenValue: '#000000',
+};
+
+const createMockLibrary = (name: string): LibrarySource => ({
+  id: name,
+  name,
+  type: 'team_library',
+  isEnabled: true,
+  isAvailable: true,
+  styleCount: 1,
+  styleIds: [],
+  totalUsageCount: 1,
+  usagePercentage: 100,
+});
+
+const createMockResult = (
+  layers: TextLayer[],
+  overrides?: Partial<StyleGovernanceAuditResult>
+): StyleGovernanceAuditResult => {
+  const result: StyleGovernanceAuditResult = {
+    timestamp: new Date('2024-05-01T12:00:00Z'),
+    documentName: 'Design System',
+    documentId: 'abc123',
+    totalPages: 1,
+    totalTextLayers: layers.length,
+    styles: [],
+    tokens: [primaryToken],
+    layers,
+    libraries: [],
+    styleHierarchy: [],
+    styledLayers: layers.filter((l) => l.assignmentStatus !== 'unstyled'),
+    unstyledLayers: layers.filter((l) => l.assignmentStatus === 'unstyled'),
+    metrics: {} as StyleGovernanceAuditResult['metrics'],
+    layersWithMissingFonts: 0,
+    missingFontLayerNames: [],
+    missingFontLayerIds: [],
+    isStale: false,
+    auditDuration: 1000,
+    ...overrides,
+  };
+  result.metrics = calculateOptimizedMetrics(result);
+  return result;
+};
+
+const baseResult = createMockResult(
+  [
+    createMockLayer({ id: '1:1' }),
+    createMockLayer({ id: '1:2', styleId: 'S:old', styleName: 'Legacy/Title' }),
+    createMockLayer({ id: '1:3', name: 'Body', ...unstyled }),
+  ],
+  { libraries: [createMockLibrary('Core')] }
+);
+
+const branchResult = createMockResult(
+  [
+    createMockLayer({ id: '1:1', ...unstyled }),
+    createMockLayer({ id: '1:2', styleId: 'S:new', styleName: 'Display/Title' }),
+    createMockLayer({
+      id: '1:3',
+      name: 'Body',
+      styleId: 'S:new',
+      styleName: 'Display/Title',
+      tokens: [primaryBinding],
+    }),
+  ],
+  {
+    timestamp: new Date('2024-05-02T12:00:00Z'),
+    libraries: [createMockLibrary('Core'), createMockLibrary('Marketing')],
+  }
+);
+
+// ============================================================================
+// diffAudits() Tests
+// ============================================================================
+
+describe('diffAudits', () => {
+  const diff = diffAudits(
+    sourceFromAuditResult(baseResult, 'main'),
+    sourceFromAuditResult(branchResult, 'branch')
+  );
+
+  it('lists styles that appeared, disappeared or changed usage', () => {
+    expect(diff.styles.added).toEqual([
+      { styleId: 'S:new', styleName: 'Display/Title', before: 0, after: 2, change: 2 },
+    ]);
+    expect(diff.styles.removed.map((s) => s.styleName)).toEqual(['Heading/H1', 'Legacy/Title']);
+    expect(diff.styles.changed).toEqual([]);
+  });
+
+  it('lists layers whose styling status flipped', () => {
+    expect(diff.layers?.becameUnstyled).toEqual([
+      expect.objectContaining({ layerId: '1:1', before: 'fully-styled', styleName: 'Heading/H1' }),
+    ]);
+    expect(diff.layers?.becameStyled).toEqual([
+      expect.objectContaining({
+        layerId: '1:3',
+        after: 'fully-styled',
+        styleName: 'Display/Title',
+      }),
+    ]);
+  });
+
+  it('reports new libraries and token bindings per collection', () => {
+    expect(diff.libraries).toEqual({ added: ['Marketing'], removed: [] });
+    expect(diff.tokenCollections).toEqual([
+      { label: 'Brand', before: 0, after: 1, change: 1, higherIsBetter: true },
+    ]);
+    expect(diff.metrics.find((m) => m.label === 'Token Bindings')?.change).toBe(1);
+    expect(hasAuditChanges(diff)).toBe(true);
+  });
+
+  it('omits layer changes when a side is a snapshot', () => {
+    const snapshotDiff = diffAudits(
+      sourceFromSnapshot(createAuditSnapshot(baseResult)),
+      sourceFromAuditResult(branchResult, 'branch')
+    );
+
+    expect(snapshotDiff.layers).toBeNull();
+    expect(snapshotDiff.styles.added).toHaveLength(1);
+  });
+
+  it('matches styles across documents by key, then by name', () => {
+    const layers = (styleId: string, count: number) =>
+      Array.from({ length: count }, (_, index) =>
+        createMockLayer({ id: `${styleId}-${index}`, styleId, styleName: undefined })
+      );
+    const otherFile = createMockResult([...layers('S:lib-h1,2:1', 1), ...layers('S:body-b', 2)], {
+      documentId: 'other',
+      styles: [
+        createMockStyle({ id: 'S:lib-h1,2:1', key: 'lib-h1', name: 'Heading/H1' }),
+        createMockStyle({ id: 'S:body-b', key: 'body-b', name: 'Body' }),
+      ],
+    });
+    const thisFile = createMockResult([...layers('S:lib-h1,9:4', 3), ...layers('S:body-a', 2)], {
+      styles: [
+        createMockStyle({ id: 'S:lib-h1,9:4', key: 'lib-h1', name: 'Headings/H1' }),
+        createMockStyle({ id: 'S:body-a', key: 'body-a', name: 'body' }),
+      ],
+    });
+
+    const crossFile = diffAudits(
+      sourceFromAuditResult(otherFile, 'other file'),
+      sourceFromAuditResult(thisFile, 'this file')
+    );
+
+    expect(crossFile.styles.added).toEqual([]);
+    expect(crossFile.styles.removed).toEqual([]);
+    expect(crossFile.styles.changed).toEqual([
+      { styleId: 'S:lib-h1,9:4', styleName: 'Headings/H1', before: 1, after: 3, change: 2 },
+    ]);
+  });
+
+  it('finds no changes between identical audits', () => {
+    const source = sourceFromAuditResult(baseResult, 'main');
+    expect(hasAuditChanges(diffAudits(source, source))).toBe(false);
+  });
+});
+
+// ============================================================================
+// Export / Import Tests
+// ============================================================================
+
+describe('audit JSON', () => {
+  it('round-trips an audit for cross-file comparison', () => {
+    const { filename, content } = generateAuditJSON(baseResult);
+    const parsed = parseAuditJSON(content);
+
+    expect(filename).toMatch(/^design-system-typography-audit-\d{4}-\d{2}-\d{2}\.json$/);
+    expect(parsed.timestamp).toEqual(baseResult.timestamp);
+    expect(parsed.layers).toHaveLength(3);
+  });
+
+  it('rejects files that are not audit exports', () => {
+    expect(() => parseAuditJSON('not json')).toThrow('not valid JSON');
+    expect(() => parseAuditJSON('{"layers": []}')).toThrow('not a Typescope audit export');
+  });
+});
+
+describe('generateDiffCSV', () => {
+  it('emits one row per change', () => {
+    const diff = diffAudits(
+      sourceFromAuditResult(baseResult, 'main'),
+      sourceFromAuditResult(branchResult, 'branch')
+    );
+    const file = generateDiffCSV(diff);
+    const lines = file.content.split('\r\n');
+
+    expect(file.filename).toMatch(/-typography-audit-diff-\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(lines[0]).toBe('Section,Item,Page,Before,After,Change');
+    expect(lines).toContain('Layer Became Unstyled,Heading,Home,fully-styled,unstyled,');
+    expect(lines).toContain('Library Added,Marketing,,,,');
+    expect(lines).toHaveLength(file.rowCount + 1);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Contrast - Unit Tests
+ * Tests for WCAG contrast ratios and the large-text thresholds
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkContrast,
+  formatContrastRatio,
+  getContrastRatio,
+  getRequiredContrast,
+  isLargeText,
+} from '@/shared/contrast';
+import type { RGBA } from '@/shared/types';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+const gray = (value: number, a = 1): RGBA => ({ r: value, g: value, b: value, a });
+
+const black = gray(0);
+const white = gray(1);
+
+// ============================================================================
+// getContrastRatio() Tests
+// ============================================================================
+
+describe('getContrastRatio', () => {
+  it('ranges from 1:1 to 21:1', () => {
+    expect(getContrastRatio(black, white)).toBeCloseTo(21);
+    expect(getContrastRatio(white, white)).toBeCloseTo(1);
+  });
+
+  it('does not depend on which colour is the text', () => {
+    const blue: RGBA = { r: 0, g: 0.4, b: 0.8, a: 1 };
+    expect(getContrastRatio(blue, white)).toBeCloseTo(getContrastRatio(white, blue));
+  });
+
+  it('composites translucent text over the background', () => {
+    // 50% black on white renders as mid grey
+    expect(getContrastRatio(gray(0, 0.5), white)).toBeCloseTo(getContrastRatio(gray(0.5), white));
+  });
+});
+
+// ============================================================================
+// Threshold Tests
+// ============================================================================
+
+describe('WCAG thresholds', () => {
+  it('treats 24px, or 18.66px bold, as large text', () => {
+    expect(isLargeText(24, 400)).toBe(true);
+    expect(isLargeText(19, 700)).toBe(true);
+    expect(isLargeText(19, 600)).toBe(false);
+    expect(isLargeText(18, 700)).toBe(false);
+  });
+
+  it('requires lower ratios for large text at each level', () => {
+    expect(getRequiredContrast('AA', false)).toBe(4.5);
+    expect(getRequiredContrast('AA', true)).toBe(3);
+    expect(getRequiredContrast('AAA', false)).toBe(7);
+    expect(getRequiredContrast('AAA', true)).toBe(4.5);
+  });
+
+  it('lists the levels a sample fails', () => {
+    const sample = { foreground: gray(0.45), background: white, fontSize: 14, fontWeight: 400 };
+
+    expect(checkContrast(sample).failedLevels).toEqual(['AAA']);
+    expect(checkContrast({ ...sample, foreground: gray(0.6) }).failedLevels).toEqual(['AA', 'AAA']);
+    expect(checkContrast({ ...sample, foreground: gray(0.6), fontSize: 32 }).largeText).toBe(true);
+  });
+
+  it('never rounds a failing ratio up to a pass', () => {
+    expect(formatContrastRatio(4.4999)).toBe('4.49:1');
+    expect(formatContrastRatio(21)).toBe('21.00:1');
+  });
+});
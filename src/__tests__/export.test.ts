@@ -0,0 +1,283 @@
+/**
+ * Export - Unit Tests
+ * Tests for audit report generation (PDF, CSV) and export helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generatePDFReport } from '@/ui/utils/pdfExport';
+import { generateCSVExport, generateTrendCSV } from '@/ui/utils/csvExport';
+import { buildExportFilename, toDate } from '@/ui/utils/exportUtils';
+import { createAuditSnapshot } from '@/ui/utils/auditSnapshot';
+import type { AuditMetrics, StyleGovernanceAuditResult, TextLayer } from '@/shared/types';
+import { createMockLayer } from './fixtures';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+const createMockMetrics = (overrides?: Partial<AuditMetrics>): AuditMetrics => ({
+  styleAdoptionRate: 66.7,
+  fullyStyledCount: 1,
+  partiallyStyledCount: 1,
+  unstyledCount: 1,
+  mixedStyleCount: 0,
+  libraryDistribution: { Local: 2 },
+  tokenAdoptionRate: 0,
+  tokenCoverageRate: 0,
+  totalTokenCount: 0,
+  uniqueTokensUsed: 0,
+  unusedTokenCount: 0,
+  totalTokenBindings: 0,
+  tokensByCollection: {},
+  elementCount: 3,
+  elementsWithTokens: 0,
+  elementsWithoutTokens: 3,
+  fullTokenCoverageCount: 0,
+  fullTokenCoverageRate: 0,
+  partialTokenCoverageCount: 0,
+  partialTokenCoverageRate: 0,
+  noTokenCoverageCount: 3,
+  noTokenCoverageRate: 100,
+  tokenUsageCount: 0,
+  mixedUsageCount: 0,
+  topStyles: [{ styleId: 'S:heading', styleName: 'Heading/H1', usageCount: 2 }],
+  deprecatedStyleCount: 0,
+  ...overrides,
+});
+
+const createMockAuditResult = (
+  overrides?: Partial<StyleGovernanceAuditResult>
+): StyleGovernanceAuditResult => {
+  const font: Partial<TextLayer> = { fontFamily: 'Inter', fontSize: 32, fontWeight: 700 };
+  const layers = [
+    createMockLayer({ id: '1:1', ...font }),
+    createMockLayer({
+      id: '1:2',
+      ...font,
+      assignmentStatus: 'partially-styled',
+      hasOverrides: true,
+      overriddenProperties: ['fontSize'],
+    }),
+    createMockLayer({
+      id: '1:3',
+      ...font,
+      name: 'Body',
+      assignmentStatus: 'unstyled',
+      styleId: undefined,
+      styleName: undefined,
+      fontSize: 14,
+      fontWeight: 400,
+    }),
+  ];
+
+  return {
+    timestamp: new Date('2024-05-01T10:00:00Z'),
+    documentName: 'Marketing Site',
+    documentId: 'doc-1',
+    totalPages: 1,
+    totalTextLayers: layers.length,
+    styles: [],
+    tokens: [],
+    layers,
+    libraries: [],
+    styleHierarchy: [],
+    styledLayers: layers.filter((l) => l.assignmentStatus !== 'unstyled'),
+    unstyledLayers: layers.filter((l) => l.assignmentStatus === 'unstyled'),
+    metrics: createMockMetrics(),
+    layersWithMissingFonts: 0,
+    missingFontLayerNames: [],
+    missingFontLayerIds: [],
+    isStale: false,
+    auditDuration: 1200,
+    ...overrides,
+  };
+};
+
+const decode = (data: Uint8Array): string => new TextDecoder('latin1').decode(data);
+
+// ============================================================================
+// generatePDFReport() Tests
+// ============================================================================
+
+describe('generatePDFReport', () => {
+  it('produces a PDF document with matching size', () => {
+    const report = generatePDFReport(createMockAuditResult(), {}, '1.4.0');
+
+    expect(decode(report.data.slice(0, 5))).toBe('%PDF-');
+    expect(report.fileSize).toBe(report.data.byteLength);
+    expect(report.filename).toMatch(/^marketing-site-typography-audit-\d{4}-\d{2}-\d{2}\.pdf$/);
+  });
+
+  it('fills export metadata from the audit result', () => {
+    const report = generatePDFReport(createMockAuditResult(), {}, '1.4.0');
+
+    expect(report.metadata.documentName).toBe('Marketing Site');
+    expect(report.metadata.totalTextLayers).toBe(3);
+    expect(report.metadata.pluginVersion).toBe('1.4.0');
+    expect(report.metadata.auditTimestamp.toISOString()).toBe('2024-05-01T10:00:00.000Z');
+  });
+
+  it('accepts a serialized timestamp', () => {
+    const auditResult = createMockAuditResult({
+      timestamp: '2024-05-01T10:00:00Z' as unknown as Date,
+    });
+
+    const report = generatePDFReport(auditResult);
+    expect(report.metadata.auditTimestamp.getTime()).toBe(Date.parse('2024-05-01T10:00:00Z'));
+  });
+
+  it('honours page orientation', () => {
+    const portrait = decode(generatePDFReport(createMockAuditResult()).data);
+    const landscape = decode(
+      generatePDFReport(createMockAuditResult(), { pageOrientation: 'landscape' }).data
+    );
+
+    expect(portrait).toMatch(/\/MediaBox \[0 0 595\.\d+ 841\.\d+\]/);
+    expect(landscape).toMatch(/\/MediaBox \[0 0 841\.\d+ 595\.\d+\]/);
+  });
+
+  it('omits detailed tables when disabled', () => {
+    const withTables = generatePDFReport(createMockAuditResult());
+    const withoutTables = generatePDFReport(createMockAuditResult(), {
+      includeDetailedTables: false,
+      includeCharts: false,
+    });
+
+    expect(withoutTables.fileSize).toBeLessThan(withTables.fileSize);
+  });
+
+  it('handles an empty audit', () => {
+    const auditResult = createMockAuditResult({
+      layers: [],
+      totalTextLayers: 0,
+      metrics: createMockMetrics({
+        fullyStyledCount: 0,
+        partiallyStyledCount: 0,
+        unstyledCount: 0,
+        libraryDistribution: {},
+        topStyles: [],
+      }),
+    });
+
+    expect(() => generatePDFReport(auditResult)).not.toThrow();
+  });
+});
+
+// ============================================================================
+// Export Helper Tests
+// ============================================================================
+
+describe('buildExportFilename', () => {
+  const timestamp = new Date('2024-05-01T10:00:00Z');
+
+  it('slugifies the document name', () => {
+    expect(buildExportFilename('Marketing Site (v2)', timestamp, 'pdf')).toBe(
+      'marketing-site-v2-typography-audit-2024-05-01.pdf'
+    );
+  });
+
+  it('falls back for names without usable characters', () => {
+    expect(buildExportFilename('🎨', timestamp, 'pdf')).toBe(
+      'untitled-typography-audit-2024-05-01.pdf'
+    );
+  });
+
+  it('includes an optional suffix', () => {
+    expect(buildExportFilename('Site', timestamp, 'csv', 'layers')).toBe(
+      'site-typography-audit-layers-2024-05-01.csv'
+    );
+  });
+});
+
+describe('toDate', () => {
+  it('returns Date instances unchanged', () => {
+    const date = new Date('2024-05-01T10:00:00Z');
+    expect(toDate(date)).toBe(date);
+  });
+
+  it('parses ISO strings', () => {
+    expect(toDate('2024-05-01T10:00:00Z').toISOString()).toBe('2024-05-01T10:00:00.000Z');
+  });
+});
+
+// ============================================================================
+// generateCSVExport() Tests
+// ============================================================================
+
+describe('generateCSVExport', () => {
+  it('emits one file per entity', () => {
+    const files = generateCSVExport(createMockAuditResult());
+
+    expect(files.map((file) => file.entity)).toEqual(['layers', 'styles', 'tokens', 'libraries']);
+    expect(files[0].filename).toMatch(
+      /^marketing-site-typography-audit-layers-\d{4}-\d{2}-\d{2}\.csv$/
+    );
+    expect(files[0].rowCount).toBe(3);
+  });
+
+  it('includes a header row by default', () => {
+    const [layers] = generateCSVExport(createMockAuditResult());
+    const lines = layers.content.split('\r\n');
+
+    expect(lines[0]).toMatch(/^Layer ID,Layer Name,Page,/);
+    expect(lines).toHaveLength(4);
+  });
+
+  it('honours includeHeaders and delimiter', () => {
+    const [layers] = generateCSVExport(createMockAuditResult(), {
+      includeHeaders: false,
+      delimiter: ';',
+    });
+    const lines = layers.content.split('\r\n');
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).not.toContain('Layer ID');
+    expect(lines[0].split(';')[1]).toBe('Heading');
+  });
+
+  it('escapes values that spreadsheets would evaluate as formulas', () => {
+    const auditResult = createMockAuditResult({
+      layers: [createMockLayer({ name: '=HYPERLINK("x")' })],
+    });
+    const [layers] = generateCSVExport(auditResult, { includeHeaders: false });
+
+    expect(layers.content).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+});
+
+// ============================================================================
+// Audit Snapshot / Trend Tests
+// ============================================================================
+
+describe('createAuditSnapshot', () => {
+  it('keeps the tracked metrics and counts style usage', () => {
+    const snapshot = createAuditSnapshot(createMockAuditResult());
+
+    expect(snapshot.timestamp).toBe('2024-05-01T10:00:00.000Z');
+    expect(snapshot.metrics.styleAdoptionRate).toBe(66.7);
+    expect(snapshot.metrics.unstyledCount).toBe(1);
+    expect(snapshot.metrics).not.toHaveProperty('topStyles');
+    expect(snapshot.styleUsage).toEqual([
+      { styleId: 'S:heading', styleName: 'Heading/H1', usageCount: 2 },
+    ]);
+  });
+});
+
+describe('generateTrendCSV', () => {
+  it('emits one row per snapshot', () => {
+    const first = createAuditSnapshot(createMockAuditResult());
+    const second = createAuditSnapshot(
+      createMockAuditResult({
+        timestamp: new Date('2024-05-02T10:00:00Z'),
+        metrics: createMockMetrics({ styleAdoptionRate: 100, unstyledCount: 0 }),
+      })
+    );
+    const file = generateTrendCSV([first, second], 'Marketing Site');
+    const lines = file.content.split('\r\n');
+
+    expect(file.filename).toMatch(/^marketing-site-typography-audit-trend-\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(file.rowCount).toBe(2);
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toContain('2024-05-02T10:00:00.000Z');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Shared Test Fixtures
+ * Mock layers, styles and tokens with neutral defaults; tests override the
+ * fields they rely on
+ */
+
+import type { DesignToken, TextLayer, TextStyle } from '@/shared/types';
+
+/**
+ * Fully styled heading layer on the Home page
+ */
+export const createMockLayer = (overrides?: Partial<TextLayer>): TextLayer => ({
+  id: '1:1',
+  name: 'Heading',
+  textContent: 'Welcome back',
+  characters: 12,
+  pageId: '0:1',
+  pageName: 'Home',
+  parentType: 'FRAME',
+  assignmentStatus: 'fully-styled',
+  styleId: 'S:heading',
+  styleName: 'Heading/H1',
+  styleSource: 'Local',
+  tokens: [],
+  visible: true,
+  opacity: 1,
+  hasOverrides: false,
+  ...overrides,
+});
+
+/**
+ * Unused local heading style
+ */
+export const createMockStyle = (overrides?: Partial<TextStyle>): TextStyle => ({
+  id: 'S:heading',
+  name: 'Heading/H1',
+  key: 'heading',
+  hierarchyPath: ['Heading', 'H1'],
+  childStyleIds: [],
+  sourceType: 'local',
+  libraryName: 'Local',
+  usageCount: 0,
+  pageDistribution: [],
+  componentUsage: { mainComponentCount: 0, instanceCount: 0, plainLayerCount: 0, overrideCount: 0 },
+  isDeprecated: false,
+  fontFamily: 'Inter',
+  fontSize: 32,
+  fontWeight: 700,
+  lineHeight: { unit: 'AUTO' },
+  letterSpacing: { unit: 'PIXELS', value: 0 },
+  fills: [],
+  tokens: [],
+  ...overrides,
+});
+
+/**
+ * Unused local colour primitive
+ */
+export const createMockToken = (overrides?: Partial<DesignToken>): DesignToken => ({
+  id: 'V:gray-900',
+  name: 'gray/900',
+  key: 'local/V:gray-900',
+  type: 'color',
+  resolvedType: 'color',
+  currentValue: { r: 0.07, g: 0.07, b: 0.07, a: 1 },
+  value: 'rgb(17, 17, 17)',
+  collectionId: 'C:primitives',
+  collectionName: 'Primitives (local)',
+  collections: ['Primitives (local)'],
+  modeId: 'M:1',
+  modeName: 'Default',
+  valuesByMode: {},
+  modes: {},
+  isAlias: false,
+  usageCount: 0,
+  layerIds: [],
+  propertyTypes: [],
+  ...overrides,
+});
@@ -0,0 +1,105 @@
+/**
+ * Font Metadata - Unit Tests
+ * Tests for deciding when a multi-range text layer counts as mixed-style
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractTextSegments, hasMixedTextStyles } from '@/main/utils/fontMetadata';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+interface MockRange {
+  characters: string;
+  textStyleId?: string;
+  fontStyle?: string;
+  fontWeight?: number;
+  color?: RGB;
+}
+
+const BLACK: RGB = { r: 0, g: 0, b: 0 };
+const RED: RGB = { r: 1, g: 0, b: 0 };
+
+/**
+ * Text node whose getStyledTextSegments returns one segment per range
+ */
+const createMockTextNode = (ranges: MockRange[]): TextNode => {
+  let start = 0;
+  const segments = ranges.map((range) => {
+    const segment = {
+      start,
+      end: start + range.characters.length,
+      characters: range.characters,
+      textStyleId: range.textStyleId ?? '',
+      fontName: { family: 'Inter', style: range.fontStyle ?? 'Regular' },
+      fontSize: 16,
+      fontWeight: range.fontWeight ?? 400,
+      lineHeight: { unit: 'AUTO' },
+      letterSpacing: { value: 0, unit: 'PIXELS' },
+      fills: [{ type: 'SOLID', color: range.color ?? BLACK, opacity: 1, visible: true }],
+      boundVariables: {},
+    };
+    start = segment.end;
+    return segment;
+  });
+
+  return {
+    characters: ranges.map((range) => range.characters).join(''),
+    getStyledTextSegments: () => segments,
+  } as unknown as TextNode;
+};
+
+// ============================================================================
+// hasMixedTextStyles() Tests
+// ============================================================================
+
+describe('hasMixedTextStyles', () => {
+  it('keeps an unstyled layer with one bold word unstyled', () => {
+    const segments = extractTextSegments(
+      createMockTextNode([
+        { characters: 'Read the ' },
+        { characters: 'terms', fontStyle: 'Bold', fontWeight: 700 },
+        { characters: ' first' },
+      ])
+    );
+
+    expect(segments).toHaveLength(3);
+    expect(hasMixedTextStyles(segments)).toBe(false);
+  });
+
+  it('keeps a styled heading with one red word on its style', () => {
+    const segments = extractTextSegments(
+      createMockTextNode([
+        { characters: 'Ship ', textStyleId: 'S:h1' },
+        { characters: 'faster', textStyleId: 'S:h1', color: RED },
+      ])
+    );
+
+    expect(segments).toHaveLength(2);
+    expect(hasMixedTextStyles(segments)).toBe(false);
+  });
+
+  it('reports ranges with different styles, or styled and unstyled ranges, as mixed', () => {
+    expect(
+      hasMixedTextStyles(
+        extractTextSegments(
+          createMockTextNode([
+            { characters: 'Title ', textStyleId: 'S:h1' },
+            { characters: 'body', textStyleId: 'S:body' },
+          ])
+        )
+      )
+    ).toBe(true);
+    expect(
+      hasMixedTextStyles(
+        extractTextSegments(
+          createMockTextNode([
+            { characters: 'Title ', textStyleId: 'S:h1' },
+            { characters: 'note', fontStyle: 'Italic' },
+          ])
+        )
+      )
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Governance Config - Unit Tests
+ * Tests for validating, importing and applying the shared governance config
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_GOVERNANCE_CONFIG,
+  generateGovernanceConfigJSON,
+  getCoverageVariant,
+  isLibraryAllowed,
+  parseGovernanceConfig,
+  parseGovernanceConfigJSON,
+} from '@/ui/utils/governanceConfig';
+import { matchesAnyGlob } from '@/shared/glob';
+import type { GovernanceConfig } from '@/shared/types';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+const teamConfig: GovernanceConfig = {
+  ...DEFAULT_GOVERNANCE_CONFIG,
+  thresholds: {
+    ...DEFAULT_GOVERNANCE_CONFIG.thresholds,
+    styleAdoption: { good: 95, warning: 70 },
+  },
+  allowedLibraries: ['Core UI'],
+  deprecatedStylePatterns: ['Legacy/*'],
+  ignoredPages: ['Archive*'],
+  ignoredLayerNames: ['_*'],
+};
+
+// ============================================================================
+// parseGovernanceConfig() Tests
+// ============================================================================
+
+describe('parseGovernanceConfig', () => {
+  it('accepts a complete config', () => {
+    expect(parseGovernanceConfig(teamConfig)).toEqual(teamConfig);
+  });
+
+  it('fills missing settings from the defaults', () => {
+    const config = parseGovernanceConfig({
+      version: 1,
+      thresholds: { tokenCoverage: { good: 50, warning: 10 } },
+      ignoredPages: ['Drafts'],
+    });
+
+    expect(config.ignoredPages).toEqual(['Drafts']);
+    expect(config.thresholds.tokenCoverage).toEqual({ good: 50, warning: 10 });
+    expect(config.thresholds.styleAdoption).toEqual({ good: 80, warning: 50 });
+    expect(config.suggestionThreshold).toBe(80);
+    expect(config.lintRules).toEqual(DEFAULT_GOVERNANCE_CONFIG.lintRules);
+  });
+
+  it('reports every schema violation with its path', () => {
+    expect(() =>
+      parseGovernanceConfig({
+        version: 2,
+        thresholds: { styleAdoption: { good: 120, warning: 50 } },
+        ignoredPages: 'Archive',
+        strict: true,
+      })
+    ).toThrow(
+      'Invalid governance config: version must be 1; thresholds.styleAdoption.good must be ≤ 100; ' +
+        'ignoredPages must be a list; strict is not a known setting'
+    );
+  });
+
+  it('rejects lint rules with unknown conditions', () => {
+    const rule = {
+      ...DEFAULT_GOVERNANCE_CONFIG.lintRules[0],
+      condition: { type: 'no-comic-sans' },
+    };
+
+    expect(() => parseGovernanceConfig({ version: 1, lintRules: [rule] })).toThrow(
+      'lintRules[0].condition does not match any allowed shape'
+    );
+  });
+
+  it('rejects a warning threshold above the good threshold', () => {
+    expect(() =>
+      parseGovernanceConfig({
+        version: 1,
+        thresholds: { tokenAdoption: { good: 40, warning: 60 } },
+      })
+    ).toThrow('thresholds.tokenAdoption.warning must not exceed thresholds.tokenAdoption.good');
+  });
+});
+
+// ============================================================================
+// Import / Export Tests
+// ============================================================================
+
+describe('governance config JSON', () => {
+  it('round-trips a config between files', () => {
+    const { filename, content } = generateGovernanceConfigJSON(teamConfig, 'Design System');
+
+    expect(filename).toMatch(/^design-system-typography-audit-governance-\d{4}-\d{2}-\d{2}\.json$/);
+    expect(parseGovernanceConfigJSON(content)).toEqual(teamConfig);
+  });
+
+  it('rejects files that are not JSON', () => {
+    expect(() => parseGovernanceConfigJSON('thresholds: 80')).toThrow('File is not valid JSON');
+  });
+});
+
+// ============================================================================
+// Helper Tests
+// ============================================================================
+
+describe('getCoverageVariant', () => {
+  it('colours values against the configured bounds', () => {
+    const threshold = { good: 80, warning: 50 };
+
+    expect(getCoverageVariant(80, threshold)).toBe('success');
+    expect(getCoverageVariant(50, threshold)).toBe('warning');
+    expect(getCoverageVariant(49.9, threshold)).toBe('danger');
+  });
+});
+
+describe('isLibraryAllowed', () => {
+  it('allows every library when none are listed', () => {
+    expect(isLibraryAllowed('Marketing Kit', [])).toBe(true);
+  });
+
+  it('matches listed libraries case-insensitively and always allows local styles', () => {
+    expect(isLibraryAllowed('core ui', ['Core UI'])).toBe(true);
+    expect(isLibraryAllowed('Local', ['Core UI'])).toBe(true);
+    expect(isLibraryAllowed('Marketing Kit', ['Core UI'])).toBe(false);
+  });
+});
+
+describe('matchesAnyGlob', () => {
+  it('matches whole names with * wildcards, ignoring case', () => {
+    expect(matchesAnyGlob('Archive 2023', ['archive*'])).toBe(true);
+    expect(matchesAnyGlob('Legacy/Body (old)', ['Legacy/*'])).toBe(true);
+    expect(matchesAnyGlob('Page Archive', ['Archive*'])).toBe(false);
+    expect(matchesAnyGlob('_annotation', ['_*', 'Notes'])).toBe(true);
+    expect(matchesAnyGlob('Notes.v2', ['Notes'])).toBe(false);
+  });
+});
@@ -0,0 +1,413 @@
+/**
+ * Lint Engine - Unit Tests
+ * Tests for evaluating text layers against typography lint rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  countBySeverity,
+  DEFAULT_LINT_RULES,
+  groupViolations,
+  lintLayers,
+  lintStyles,
+} from '@/ui/utils/lintEngine';
+import { buildTokenLayering } from '@/ui/utils/tokenLayering';
+import type { LintRule, LintRuleCondition, TextSegment, TextStyle } from '@/shared/types';
+import { createMockLayer, createMockStyle, createMockToken } from './fixtures';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+const createMockSegment = (overrides?: Partial<TextSegment>): TextSegment => ({
+  start: 0,
+  end: 5,
+  characters: 'Hello',
+  styleId: 'S:heading',
+  fontFamily: 'Inter',
+  fontSize: 16,
+  fontWeight: 400,
+  lineHeight: { unit: 'PIXELS', value: 24 },
+  letterSpacing: { unit: 'PIXELS', value: 0 },
+  fills: [],
+  boundVariables: {},
+  ...overrides,
+});
+
+// Styles are small body text unless a test says otherwise
+const bodySmall: Partial<TextStyle> = {
+  id: 'S:body',
+  name: 'Body/Small',
+  key: 'body',
+  hierarchyPath: ['Body', 'Small'],
+  fontSize: 12,
+  fontWeight: 400,
+  lineHeight: { unit: 'PIXELS', value: 16 },
+};
+
+// Semantic "text/body" aliases primitive "gray/900"
+const layering = buildTokenLayering(
+  [
+    createMockToken(),
+    createMockToken({
+      id: 'V:text-body',
+      name: 'text/body',
+      collectionName: 'Semantic',
+      isAlias: true,
+      aliasChains: [
+        {
+          modeId: 'M:1',
+          modeName: 'Default',
+          references: [{ tokenId: 'V:gray-900', name: 'gray/900', collectionName: 'Primitives' }],
+          value: 'rgb(17, 17, 17)',
+        },
+      ],
+    }),
+  ],
+  { primitiveCollections: [], semanticCollections: [] }
+);
+
+const fillBinding = (tokenId: string) => ({
+  property: 'fills' as const,
+  tokenId,
+  tokenName: tokenId,
+  tokenValue: '',
+});
+
+const rule = (condition: LintRuleCondition, overrides?: Partial<LintRule>): LintRule => ({
+  id: 'test-rule',
+  name: 'Test rule',
+  severity: 'warning',
+  enabled: true,
+  condition,
+  ...overrides,
+});
+
+// ============================================================================
+// lintLayers() Tests
+// ============================================================================
+
+describe('lintLayers', () => {
+  it('flags unstyled text except on ignored pages', () => {
+    const layers = [
+      createMockLayer({ id: '1:1', assignmentStatus: 'unstyled', styleId: undefined }),
+      createMockLayer({
+        id: '1:2',
+        assignmentStatus: 'unstyled',
+        styleId: undefined,
+        pageName: 'Drafts / Explorations',
+      }),
+      createMockLayer({ id: '1:3', assignmentStatus: 'partially-styled' }),
+      createMockLayer({
+        id: '1:4',
+        assignmentStatus: 'unstyled',
+        styleId: undefined,
+        pageName: 'Old Drafts',
+      }),
+    ];
+
+    const violations = lintLayers(layers, [
+      rule({ type: 'require-style', allowPartial: true }, { ignoredPages: ['drafts*'] }),
+    ]);
+
+    expect(violations.map((v) => v.layerId)).toEqual(['1:1', '1:4']);
+    expect(violations[0]).toMatchObject({ ruleId: 'test-rule', severity: 'warning' });
+  });
+
+  it('flags unstyled ranges in mixed layers', () => {
+    const layer = createMockLayer({
+      assignmentStatus: 'mixed',
+      segments: [createMockSegment(), createMockSegment({ start: 5, end: 9, styleId: undefined })],
+    });
+
+    const [violation] = lintLayers([layer], [rule({ type: 'require-style', allowPartial: true })]);
+
+    expect(violation.message).toBe('1 of 2 text ranges have no text style');
+  });
+
+  it('requires token bindings on the listed properties', () => {
+    const layers = [
+      createMockLayer({ id: '1:1' }),
+      createMockLayer({
+        id: '1:2',
+        tokens: [{ property: 'fontSize', tokenId: 'V:1', tokenName: 'size/body', tokenValue: 16 }],
+      }),
+      createMockLayer({
+        id: '1:3',
+        assignmentStatus: 'mixed',
+        segments: [createMockSegment({ boundVariables: { fontSize: 'V:1' } })],
+      }),
+    ];
+
+    const violations = lintLayers(layers, [
+      rule({ type: 'require-token', properties: ['fontSize'] }),
+    ]);
+
+    expect(violations.map((v) => v.layerId)).toEqual(['1:1']);
+    expect(violations[0].message).toBe('fontSize not bound to a token');
+  });
+
+  it('flags styles from disallowed libraries', () => {
+    const layers = [
+      createMockLayer({ id: '1:1', styleSource: 'Legacy Kit' }),
+      createMockLayer({ id: '1:2' }),
+    ];
+
+    const violations = lintLayers(layers, [
+      rule({ type: 'disallow-library', libraries: ['legacy kit'] }),
+    ]);
+
+    expect(violations.map((v) => v.layerId)).toEqual(['1:1']);
+  });
+
+  it('checks line height against font size', () => {
+    const layers = [
+      createMockLayer({ id: '1:1', fontSize: 16, lineHeight: { unit: 'PIXELS', value: 16 } }),
+      createMockLayer({ id: '1:2', fontSize: 16, lineHeight: { unit: 'PIXELS', value: 19.2 } }),
+      createMockLayer({ id: '1:3', fontSize: 16, lineHeight: { unit: 'PERCENT', value: 110 } }),
+      createMockLayer({ id: '1:4', fontSize: 16, lineHeight: { unit: 'AUTO' } }),
+    ];
+
+    const violations = lintLayers(layers, [rule({ type: 'min-line-height', ratio: 1.2 })]);
+
+    expect(violations.map((v) => v.layerId)).toEqual(['1:1', '1:3']);
+    expect(violations[0].message).toBe('Line height is 1.00× font size (minimum 1.2×)');
+  });
+
+  it('only checks body text line height up to the font size limit', () => {
+    const layers = [
+      createMockLayer({ id: '1:1', fontSize: 16, lineHeight: { unit: 'PIXELS', value: 20 } }),
+      createMockLayer({ id: '1:2', fontSize: 32, lineHeight: { unit: 'PIXELS', value: 36 } }),
+    ];
+
+    const violations = lintLayers(layers, [
+      rule({ type: 'min-line-height', ratio: 1.5, maxFontSize: 18 }),
+    ]);
+
+    expect(violations.map((v) => v.layerId)).toEqual(['1:1']);
+  });
+
+  it('flags small text only in matching frames', () => {
+    const layers = [
+      createMockLayer({ id: '1:1', fontSize: 10, frameName: 'Checkout / Mobile' }),
+      createMockLayer({ id: '1:2', fontSize: 10, frameName: 'Checkout / Desktop' }),
+      createMockLayer({ id: '1:3', fontSize: 14, frameName: 'Checkout / Mobile' }),
+      createMockLayer({
+        id: '1:4',
+        frameName: 'iPhone 15',
+        segments: [createMockSegment({ fontSize: 16 }), createMockSegment({ fontSize: 11 })],
+      }),
+    ];
+
+    const violations = lintLayers(layers, [
+      rule({ type: 'min-font-size', size: 12, frames: ['*mobile*', 'iphone*'] }),
+    ]);
+
+    expect(violations.map((v) => v.layerId)).toEqual(['1:1', '1:4']);
+    expect(violations[1].message).toBe('Font size is 11px (minimum 12px)');
+    expect(
+      lintLayers(layers, [rule({ type: 'min-font-size', size: 12, frames: [] })])
+    ).toHaveLength(3);
+  });
+
+  it('flags negative letter spacing on small text', () => {
+    const layers = [
+      createMockLayer({ id: '1:1', fontSize: 12, letterSpacing: { unit: 'PIXELS', value: -0.5 } }),
+      createMockLayer({ id: '1:2', fontSize: 12, letterSpacing: { unit: 'PERCENT', value: -2 } }),
+      createMockLayer({ id: '1:3', fontSize: 48, letterSpacing: { unit: 'PIXELS', value: -1 } }),
+      createMockLayer({ id: '1:4', fontSize: 12, letterSpacing: { unit: 'PIXELS', value: 0.2 } }),
+    ];
+
+    const violations = lintLayers(layers, [
+      rule({ type: 'no-negative-letter-spacing', maxFontSize: 14 }),
+    ]);
+
+    expect(violations.map((v) => v.layerId)).toEqual(['1:1', '1:2']);
+    expect(violations[0].message).toBe('Letter spacing is -0.5px on 12px text');
+  });
+
+  it('flags local overrides on the listed properties', () => {
+    const layers = [
+      createMockLayer({
+        id: '1:1',
+        hasOverrides: true,
+        propertyOverrides: [
+          {
+            property: 'fills',
+            styleValue: null,
+            overrideValue: null,
+            displayStyleValue: '#000000',
+            displayOverrideValue: '#FF0000',
+          },
+        ],
+      }),
+      createMockLayer({ id: '1:2', hasOverrides: true, overriddenProperties: ['fontSize'] }),
+    ];
+
+    const violations = lintLayers(layers, [
+      rule({ type: 'disallow-overrides', properties: ['fills'] }),
+    ]);
+
+    expect(violations.map((v) => v.layerId)).toEqual(['1:1']);
+    expect(violations[0].message).toBe('Local override on fills');
+  });
+
+  it('checks contrast against the WCAG level for the text size', () => {
+    const grey = { r: 0x77 / 255, g: 0x77 / 255, b: 0x77 / 255, a: 1 };
+    const white = { r: 1, g: 1, b: 1, a: 1 };
+    const sample = { foreground: grey, background: white, fontSize: 16, fontWeight: 400 };
+    const layers = [
+      createMockLayer({ id: '1:1', contrast: sample }),
+      createMockLayer({ id: '1:2', contrast: { ...sample, fontSize: 24 } }),
+      createMockLayer({ id: '1:3' }),
+    ];
+
+    const aa = lintLayers(layers, [rule({ type: 'min-contrast', level: 'AA' })]);
+    const aaa = lintLayers(layers, [rule({ type: 'min-contrast', level: 'AAA' })]);
+
+    expect(aa.map((v) => v.layerId)).toEqual(['1:1']);
+    expect(aa[0].message).toBe(
+      'Contrast 4.47:1 fails WCAG AA and AAA (AA needs 4.5:1 for normal text)'
+    );
+    expect(aaa.map((v) => v.message)).toEqual([
+      'Contrast 4.47:1 fails WCAG AA and AAA (AAA needs 7:1 for normal text)',
+      'Contrast 4.47:1 fails WCAG AAA (AAA needs 4.5:1 for large text)',
+    ]);
+  });
+
+  it('flags bindings to primitive tokens with a semantic alternative', () => {
+    const layers = [
+      createMockLayer({ id: '1:1', tokens: [fillBinding('V:gray-900')] }),
+      createMockLayer({ id: '1:2', tokens: [fillBinding('V:text-body')] }),
+    ];
+    const semanticOnly = [rule({ type: 'semantic-tokens-only' })];
+
+    const violations = lintLayers(layers, semanticOnly, layering);
+
+    expect(violations.map((v) => v.layerId)).toEqual(['1:1']);
+    expect(violations[0].message).toBe('fills uses primitive gray/900; bind text/body instead');
+    expect(lintLayers(layers, semanticOnly)).toEqual([]);
+  });
+
+  it('skips disabled rules and orders violations by severity', () => {
+    const layer = createMockLayer({
+      assignmentStatus: 'unstyled',
+      styleId: undefined,
+      fontSize: 16,
+      lineHeight: { unit: 'PIXELS', value: 12 },
+    });
+
+    const violations = lintLayers(
+      [layer],
+      [
+        rule({ type: 'min-line-height', ratio: 1.2 }, { id: 'line-height', severity: 'info' }),
+        rule({ type: 'require-style', allowPartial: true }, { id: 'style', severity: 'error' }),
+        rule({ type: 'require-token', properties: ['fills'] }, { id: 'off', enabled: false }),
+      ]
+    );
+
+    expect(violations.map((v) => v.ruleId)).toEqual(['style', 'line-height']);
+    expect(countBySeverity(violations)).toEqual({ error: 1, warning: 0, info: 1 });
+  });
+
+  it('passes a fully styled layer with the default rules', () => {
+    expect(lintLayers([createMockLayer()], DEFAULT_LINT_RULES)).toEqual([]);
+  });
+});
+
+// ============================================================================
+// lintStyles() Tests
+// ============================================================================
+
+describe('lintStyles', () => {
+  const layers = [
+    createMockLayer({ id: '1:1', styleId: 'S:body', frameName: 'Mobile' }),
+    createMockLayer({ id: '1:2', styleId: 'S:body', frameName: 'Desktop' }),
+    createMockLayer({ id: '1:3', styleId: 'S:caption', frameName: 'Desktop' }),
+  ];
+
+  it('flags the style itself with the number of layers using it', () => {
+    const violations = lintStyles(
+      [
+        createMockStyle(bodySmall),
+        createMockStyle({ ...bodySmall, id: 'S:caption', lineHeight: { unit: 'AUTO' } }),
+      ],
+      layers,
+      [rule({ type: 'min-line-height', ratio: 1.5 })]
+    );
+
+    expect(violations).toEqual([
+      {
+        ruleId: 'test-rule',
+        severity: 'warning',
+        styleId: 'S:body',
+        styleName: 'Body/Small',
+        layerCount: 2,
+        message: 'Line height is 1.33× font size (minimum 1.5×)',
+      },
+    ]);
+  });
+
+  it('only flags styles used in the frames a rule is limited to', () => {
+    const styles = [
+      createMockStyle({ ...bodySmall, fontSize: 10 }),
+      createMockStyle({ ...bodySmall, id: 'S:caption', name: 'Caption', fontSize: 10 }),
+    ];
+
+    const violations = lintStyles(styles, layers, [
+      rule({ type: 'min-font-size', size: 12, frames: ['mobile'] }),
+    ]);
+
+    expect(violations.map((v) => [v.styleId, v.layerCount])).toEqual([['S:body', 1]]);
+  });
+
+  it('flags styles bound to primitive tokens', () => {
+    const styles = [
+      createMockStyle({ ...bodySmall, tokens: [fillBinding('V:gray-900')] }),
+      createMockStyle({ ...bodySmall, id: 'S:caption', tokens: [fillBinding('V:text-body')] }),
+    ];
+
+    const violations = lintStyles(
+      styles,
+      layers,
+      [rule({ type: 'semantic-tokens-only' })],
+      layering
+    );
+
+    expect(violations.map((v) => [v.styleId, v.layerCount])).toEqual([['S:body', 2]]);
+  });
+
+  it('ignores rules that do not look at typography or token layering', () => {
+    expect(
+      lintStyles([createMockStyle(bodySmall)], layers, [
+        rule({ type: 'require-style', allowPartial: true }),
+      ])
+    ).toEqual([]);
+  });
+});
+
+// ============================================================================
+// groupViolations() Tests
+// ============================================================================
+
+describe('groupViolations', () => {
+  const violations = lintLayers(
+    [
+      createMockLayer({ id: '1:1', pageName: 'Home', fontSize: 10 }),
+      createMockLayer({ id: '1:2', pageName: 'Settings', fontSize: 10, styleName: undefined }),
+      createMockLayer({ id: '1:3', pageName: 'Home', fontSize: 10, styleName: 'Caption' }),
+    ],
+    [rule({ type: 'min-font-size', size: 12, frames: [] })]
+  );
+
+  it('groups by page or style name, in violation order', () => {
+    expect(Array.from(groupViolations(violations, 'page').keys())).toEqual(['Home', 'Settings']);
+    expect(
+      Array.from(groupViolations(violations, 'style'), ([key, group]) => [key, group.length])
+    ).toEqual([
+      ['Heading/H1', 1],
+      ['Caption', 1],
+      ['No text style', 1],
+    ]);
+  });
+});
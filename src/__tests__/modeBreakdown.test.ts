@@ -0,0 +1,106 @@
+/**
+ * Mode Breakdown - Unit Tests
+ * Tests for counting layers per collection and the variable mode their bindings resolve under
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getModeBreakdown } from '@/ui/utils/modeBreakdown';
+import type { TokenBinding } from '@/shared/types';
+import { createMockLayer, createMockToken } from './fixtures';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+const binding = (
+  tokenId: string,
+  modeName: string,
+  overrides?: Partial<TokenBinding>
+): TokenBinding => ({
+  property: 'fills',
+  tokenId,
+  tokenName: tokenId,
+  tokenValue: '',
+  modeId: `M:${modeName.toLowerCase()}`,
+  modeName,
+  explicitMode: false,
+  ...overrides,
+});
+
+const tokens = [
+  createMockToken({ id: 'V:ink', name: 'V:ink', collectionId: 'Theme', collectionName: 'Theme' }),
+  createMockToken({
+    id: 'V:size',
+    name: 'V:size',
+    collectionId: 'Type scale',
+    collectionName: 'Type scale',
+  }),
+  createMockToken({
+    id: 'V:gap',
+    name: 'V:gap',
+    collectionId: 'Density',
+    collectionName: 'Density',
+  }),
+];
+
+// ============================================================================
+// getModeBreakdown() Tests
+// ============================================================================
+
+describe('getModeBreakdown', () => {
+  it('counts layers per mode, and those whose mode is set by a frame', () => {
+    const layers = [
+      createMockLayer({ id: '1:1', tokens: [binding('V:ink', 'Light')] }),
+      createMockLayer({
+        id: '1:2',
+        pageName: 'Settings',
+        tokens: [
+          binding('V:ink', 'Dark', { explicitMode: true }),
+          binding('V:ink', 'Dark', { property: 'fontSize', explicitMode: true }),
+        ],
+      }),
+      createMockLayer({
+        id: '1:3',
+        tokens: [binding('V:ink', 'Dark', { explicitMode: true })],
+      }),
+      createMockLayer({ id: '1:4', tokens: [binding('V:ink', 'Light')] }),
+      createMockLayer({ id: '1:5', tokens: [binding('V:ink', 'Light')] }),
+    ];
+
+    expect(getModeBreakdown(layers, tokens)).toEqual([
+      {
+        collectionName: 'Theme',
+        modes: [
+          {
+            modeId: 'M:light',
+            modeName: 'Light',
+            layerCount: 3,
+            explicitLayerCount: 0,
+            pageNames: ['Home'],
+          },
+          {
+            modeId: 'M:dark',
+            modeName: 'Dark',
+            layerCount: 2,
+            explicitLayerCount: 2,
+            pageNames: ['Home', 'Settings'],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('leaves out collections that only ever resolve under their default mode', () => {
+    const layers = [
+      createMockLayer({
+        tokens: [
+          binding('V:size', 'Default'),
+          binding('V:gap', 'Compact', { explicitMode: true }),
+          binding('V:ink', 'Light', { modeId: undefined }),
+        ],
+      }),
+    ];
+
+    expect(getModeBreakdown(layers, tokens).map((c) => c.collectionName)).toEqual(['Density']);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Override Preservation - Unit Tests
+ * Tests for capturing per-range overrides before a style swap and writing them back
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  captureOverrides,
+  getPreservedProperties,
+  reapplyOverrides,
+} from '@/main/replacement/overrides';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+interface MockRange {
+  characters: string;
+  fontStyle?: string;
+  fontWeight?: number;
+  fontSize?: number;
+}
+
+const bodyStyle = {
+  id: 'S:body',
+  type: 'TEXT',
+  name: 'Body',
+  fontName: { family: 'Inter', style: 'Regular' },
+  fontSize: 16,
+  lineHeight: { unit: 'AUTO' },
+  letterSpacing: { unit: 'PIXELS', value: 0 },
+} as unknown as TextStyle;
+
+/**
+ * Text node whose getStyledTextSegments returns the requested fields of each range
+ */
+const createMockTextNode = (ranges: MockRange[]) => {
+  let start = 0;
+  const segments = ranges.map((range) => {
+    const segment: Record<string, unknown> = {
+      start,
+      end: start + range.characters.length,
+      characters: range.characters,
+      textStyleId: 'S:body',
+      fontName: { family: 'Inter', style: range.fontStyle ?? 'Regular' },
+      fontSize: range.fontSize ?? 16,
+      fontWeight: range.fontWeight ?? 400,
+      lineHeight: { unit: 'AUTO' },
+      letterSpacing: { unit: 'PIXELS', value: 0 },
+      fills: [],
+      boundVariables: {},
+    };
+    start = segment.end as number;
+    return segment;
+  });
+
+  return {
+    characters: ranges.map((range) => range.characters).join(''),
+    getStyledTextSegments: (fields: string[]) =>
+      segments.map((segment) => {
+        const picked: Record<string, unknown> = {
+          start: segment.start,
+          end: segment.end,
+          characters: segment.characters,
+        };
+        for (const field of fields) picked[field] = segment[field];
+        return picked;
+      }),
+    setRangeFontName: vi.fn(),
+    setRangeFontSize: vi.fn(),
+    setRangeLineHeight: vi.fn(),
+    setRangeLetterSpacing: vi.fn(),
+  };
+};
+
+const asTextNode = (node: ReturnType<typeof createMockTextNode>) => node as unknown as TextNode;
+
+// ============================================================================
+// captureOverrides() Tests
+// ============================================================================
+
+describe('captureOverrides', () => {
+  it('captures an override on a later range, not only the first character', () => {
+    const node = createMockTextNode([
+      { characters: 'Read the ' },
+      { characters: 'terms', fontStyle: 'Bold', fontWeight: 700 },
+      { characters: ' first' },
+    ]);
+
+    const capture = captureOverrides(asTextNode(node), bodyStyle);
+
+    expect(capture?.fields).toEqual(['fontName']);
+    expect(capture?.segments[1]).toMatchObject({
+      start: 9,
+      end: 14,
+      fontName: { family: 'Inter', style: 'Bold' },
+    });
+    expect(getPreservedProperties(asTextNode(node), bodyStyle)).toEqual([
+      'fontFamily',
+      'fontStyle',
+    ]);
+  });
+
+  it('returns null when every range matches the style', () => {
+    const node = createMockTextNode([{ characters: 'Read the ' }, { characters: 'terms' }]);
+
+    expect(captureOverrides(asTextNode(node), bodyStyle)).toBeNull();
+  });
+});
+
+// ============================================================================
+// reapplyOverrides() Tests
+// ============================================================================
+
+describe('reapplyOverrides', () => {
+  beforeEach(() => {
+    vi.stubGlobal('figma', { loadFontAsync: vi.fn().mockResolvedValue(undefined) });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('writes each captured range back with its own value', async () => {
+    const node = createMockTextNode([{ characters: 'Price ' }, { characters: '$9', fontSize: 24 }]);
+    const capture = captureOverrides(asTextNode(node), bodyStyle);
+
+    expect(capture?.fields).toEqual(['fontSize']);
+    await reapplyOverrides(asTextNode(node), capture!);
+
+    expect(node.setRangeFontSize).toHaveBeenCalledWith(0, 6, 16);
+    expect(node.setRangeFontSize).toHaveBeenCalledWith(6, 8, 24);
+    expect(node.setRangeFontName).not.toHaveBeenCalled();
+    expect(figma.loadFontAsync).not.toHaveBeenCalled();
+  });
+
+  it('loads the font of each range before restoring a font override', async () => {
+    const node = createMockTextNode([
+      { characters: 'Read the ' },
+      { characters: 'terms', fontStyle: 'Bold', fontWeight: 700 },
+    ]);
+
+    await reapplyOverrides(asTextNode(node), captureOverrides(asTextNode(node), bodyStyle)!);
+
+    expect(figma.loadFontAsync).toHaveBeenCalledWith({ family: 'Inter', style: 'Bold' });
+    expect(node.setRangeFontName).toHaveBeenCalledWith(9, 14, { family: 'Inter', style: 'Bold' });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Replacement Preflight - Unit Tests
+ * Tests for dry-run change detection and report aggregation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createDryRunReport,
+  getTypographyChanges,
+  type TypographyValues,
+} from '@/main/replacement/preflight';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+const createTypography = (overrides?: Partial<TypographyValues>): TypographyValues => ({
+  fontFamily: 'Inter',
+  fontStyle: 'Regular',
+  fontSize: 16,
+  lineHeight: { unit: 'AUTO' },
+  letterSpacing: { unit: 'PIXELS', value: 0 },
+  textCase: 'ORIGINAL',
+  textDecoration: 'NONE',
+  paragraphSpacing: 0,
+  ...overrides,
+});
+
+// ============================================================================
+// getTypographyChanges() Tests
+// ============================================================================
+
+describe('getTypographyChanges', () => {
+  it('returns no changes for identical typography', () => {
+    expect(getTypographyChanges(createTypography(), createTypography())).toEqual([]);
+  });
+
+  it('compares object values by content', () => {
+    const changes = getTypographyChanges(
+      createTypography({ lineHeight: { unit: 'PERCENT', value: 150 } }),
+      createTypography({ lineHeight: { unit: 'PERCENT', value: 150 }, fontSize: 18 })
+    );
+
+    expect(changes).toEqual(['fontSize']);
+  });
+
+  it('treats mixed values as changed', () => {
+    const mixed = Symbol('mixed');
+    const changes = getTypographyChanges(
+      createTypography({ fontFamily: mixed, fontStyle: mixed }),
+      createTypography()
+    );
+
+    expect(changes).toEqual(['fontFamily', 'fontStyle']);
+  });
+});
+
+// ============================================================================
+// createDryRunReport() Tests
+// ============================================================================
+
+describe('createDryRunReport', () => {
+  const report = createDryRunReport(
+    'style',
+    [
+      { layerId: '1:1', layerName: 'Title', changedProperties: ['fontSize', 'lineHeight'] },
+      { layerId: '1:2', layerName: 'Subtitle', changedProperties: ['fontSize'] },
+      { layerId: '1:3', layerName: 'Body', changedProperties: [] },
+      {
+        layerId: '1:4',
+        layerName: 'Legal',
+        blocker: { reason: 'locked', message: 'Layer is locked' },
+        changedProperties: [],
+      },
+      {
+        layerId: '1:5',
+        layerName: 'Footer',
+        blocker: { reason: 'locked', message: 'Inside locked layer "Footer"' },
+        changedProperties: [],
+      },
+    ],
+    12
+  );
+
+  it('counts layers that would succeed and visibly change', () => {
+    expect(report.totalLayers).toBe(5);
+    expect(report.wouldSucceed).toBe(3);
+    expect(report.wouldChange).toBe(2);
+    expect(report.propertyChanges).toEqual({ fontSize: 2, lineHeight: 1 });
+  });
+
+  it('lists failures and counts them by reason', () => {
+    expect(report.failures).toEqual([
+      { layerId: '1:4', layerName: 'Legal', reason: 'locked', message: 'Layer is locked' },
+      {
+        layerId: '1:5',
+        layerName: 'Footer',
+        reason: 'locked',
+        message: 'Inside locked layer "Footer"',
+      },
+    ]);
+    expect(report.failureCounts).toEqual({ locked: 2 });
+  });
+});
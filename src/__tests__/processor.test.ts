@@ -0,0 +1,97 @@
+/**
+ * Audit Processor - Unit Tests
+ * Tests for turning scanned text nodes into audited layers
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { processAuditData, type RawLayerInput } from '@/main/audit/processor';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+interface MockRange {
+  characters: string;
+  fontSize: number;
+}
+
+/**
+ * Unstyled text node whose getStyledTextSegments returns one segment per range
+ */
+const createMockTextNode = (ranges: MockRange[]): TextNode => {
+  let start = 0;
+  const segments = ranges.map((range) => {
+    const segment = {
+      start,
+      end: start + range.characters.length,
+      characters: range.characters,
+      textStyleId: '',
+      fontName: { family: 'Inter', style: 'Regular' },
+      fontSize: range.fontSize,
+      fontWeight: 400,
+      lineHeight: { unit: 'AUTO' },
+      letterSpacing: { value: 0, unit: 'PIXELS' },
+      fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 }, opacity: 1, visible: true }],
+      boundVariables: {},
+    };
+    start = segment.end;
+    return segment;
+  });
+
+  return {
+    id: '1:1',
+    name: 'Terms',
+    type: 'TEXT',
+    textStyleId: '',
+    characters: ranges.map((range) => range.characters).join(''),
+    opacity: 1,
+    parent: null,
+    getStyledTextSegments: () => segments,
+  } as unknown as TextNode;
+};
+
+const createRawLayer = (node: TextNode): RawLayerInput => ({
+  id: node.id,
+  name: node.name,
+  textContent: node.characters,
+  characters: node.characters.length,
+  pageId: '0:1',
+  pageName: 'Home',
+  parentType: 'FRAME',
+  visible: true,
+  opacity: 1,
+  _nodeRef: node,
+});
+
+// ============================================================================
+// processAuditData() Tests
+// ============================================================================
+
+describe('processAuditData', () => {
+  beforeAll(() => {
+    vi.stubGlobal('figma', { mixed: Symbol('mixed') });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps every range of an unstyled layer with two font sizes', async () => {
+    const node = createMockTextNode([
+      { characters: 'Terms apply. ', fontSize: 16 },
+      { characters: 'See footnote', fontSize: 10 },
+    ]);
+
+    const { layers } = await processAuditData({
+      textLayers: [createRawLayer(node)],
+      totalPages: 1,
+      options: {},
+    });
+
+    expect(layers[0].assignmentStatus).toBe('unstyled');
+    expect(layers[0].fontSize).toBe(16);
+    expect(layers[0].segments?.map((segment) => segment.fontSize)).toEqual([16, 10]);
+  });
+});
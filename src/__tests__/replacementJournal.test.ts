@@ -0,0 +1,97 @@
+/**
+ * Replacement Journal - Unit Tests
+ * Tests for deriving replacement history and status from undo journal entries
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildReplacementHistory, getJournalEntryStatus } from '@/ui/utils/replacementJournal';
+import type { ReplacementJournalEntry } from '@/shared/types';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+const createMockEntry = (
+  overrides?: Partial<ReplacementJournalEntry>
+): ReplacementJournalEntry => ({
+  id: '1700000000000',
+  operationType: 'style',
+  title: 'Style Replacement',
+  timestamp: '2024-01-01T10:00:00.000Z',
+  layerCount: 3,
+  checkpointTitle: 'Style Replacement - 2024-01-01 10:00:00',
+  completed: true,
+  styleChanges: [],
+  ...overrides,
+});
+
+const change = (fromStyleId: string, toStyleId: string, layerCount: number) => ({
+  fromStyleId,
+  toStyleId,
+  toStyleName: `Name of ${toStyleId}`,
+  layerCount,
+});
+
+// ============================================================================
+// buildReplacementHistory() Tests
+// ============================================================================
+
+describe('buildReplacementHistory', () => {
+  it('keys style changes by original style', () => {
+    const history = buildReplacementHistory([
+      createMockEntry({ styleChanges: [change('S:a', 'S:b', 2), change('S:c', 'S:d', 1)] }),
+    ]);
+
+    expect(history.get('S:a')).toEqual({
+      targetStyleId: 'S:b',
+      targetStyleName: 'Name of S:b',
+      count: 2,
+    });
+    expect(history.get('S:c')?.targetStyleId).toBe('S:d');
+  });
+
+  it('lets the latest operation set the target while counts add up', () => {
+    // Entries arrive newest first
+    const history = buildReplacementHistory([
+      createMockEntry({
+        id: '2',
+        timestamp: '2024-01-02T10:00:00.000Z',
+        styleChanges: [change('S:a', 'S:c', 1)],
+      }),
+      createMockEntry({ id: '1', styleChanges: [change('S:a', 'S:b', 2)] }),
+    ]);
+
+    expect(history.get('S:a')).toEqual({
+      targetStyleId: 'S:c',
+      targetStyleName: 'Name of S:c',
+      count: 3,
+    });
+  });
+
+  it('leaves out reverted operations', () => {
+    const history = buildReplacementHistory([
+      createMockEntry({
+        styleChanges: [change('S:a', 'S:b', 2)],
+        revertedAt: '2024-01-03T10:00:00.000Z',
+      }),
+    ]);
+
+    expect(history.size).toBe(0);
+  });
+});
+
+// ============================================================================
+// getJournalEntryStatus() Tests
+// ============================================================================
+
+describe('getJournalEntryStatus', () => {
+  it('reports applied, incomplete and reverted operations', () => {
+    expect(getJournalEntryStatus(createMockEntry())).toBe('applied');
+    expect(getJournalEntryStatus(createMockEntry({ completed: false }))).toBe('incomplete');
+    expect(
+      getJournalEntryStatus(
+        createMockEntry({ completed: false, revertedAt: '2024-01-03T10:00:00.000Z' })
+      )
+    ).toBe('reverted');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Replacement Scope - Unit Tests
+ * Tests for limiting a replacement to the selection, pages or component context
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { filterLayersByScope, isScopeSet } from '@/main/replacement/scope';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+interface MockNode {
+  id: string;
+  type: string;
+  name: string;
+  parent: MockNode | null;
+}
+
+const createNode = (id: string, type: string, name: string, parent: MockNode | null = null) => ({
+  id,
+  type,
+  name,
+  parent,
+});
+
+/**
+ * Two pages:
+ *   Home / Hero (FRAME) / heading
+ *   Home / Card (INSTANCE) / card title
+ *   Components / Button (COMPONENT_SET) / Primary (COMPONENT) / label
+ */
+const homePage = createNode('0:1', 'PAGE', 'Home');
+const componentsPage = createNode('0:2', 'PAGE', 'Components');
+const hero = createNode('1:1', 'FRAME', 'Hero', homePage);
+const card = createNode('1:2', 'INSTANCE', 'Card', homePage);
+const buttonSet = createNode('2:1', 'COMPONENT_SET', 'Button', componentsPage);
+const primary = createNode('2:2', 'COMPONENT', 'Primary', buttonSet);
+
+const heading = createNode('1:10', 'TEXT', 'Heading', hero);
+const cardTitle = createNode('1:20', 'TEXT', 'Card title', card);
+const buttonLabel = createNode('2:10', 'TEXT', 'Label', primary);
+
+const nodes = new Map<string, MockNode>(
+  [heading, cardTitle, buttonLabel, hero].map((node) => [node.id, node])
+);
+const allTextIds = [heading.id, cardTitle.id, buttonLabel.id];
+
+const stubFigma = (selection: MockNode[] = []) => {
+  vi.stubGlobal('figma', {
+    currentPage: { selection },
+    getNodeByIdAsync: vi.fn(async (id: string) => nodes.get(id) ?? null),
+  });
+};
+
+// ============================================================================
+// isScopeSet() Tests
+// ============================================================================
+
+describe('isScopeSet', () => {
+  it('treats a missing or empty scope as unrestricted', () => {
+    expect(isScopeSet(undefined)).toBe(false);
+    expect(isScopeSet({})).toBe(false);
+    expect(isScopeSet({ selectionOnly: false, componentPathPattern: '  ' })).toBe(false);
+  });
+
+  it('treats any restriction as set', () => {
+    expect(isScopeSet({ selectionOnly: true })).toBe(true);
+    expect(isScopeSet({ pageIds: [] })).toBe(true);
+    expect(isScopeSet({ componentContext: 'instance' })).toBe(true);
+    expect(isScopeSet({ componentPathPattern: 'Button*' })).toBe(true);
+  });
+});
+
+// ============================================================================
+// filterLayersByScope() Tests
+// ============================================================================
+
+describe('filterLayersByScope', () => {
+  beforeEach(() => {
+    stubFigma();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the layers unchanged without a scope', async () => {
+    const layerIds = [...allTextIds, 'missing'];
+
+    expect(await filterLayersByScope(layerIds, undefined)).toBe(layerIds);
+    expect(figma.getNodeByIdAsync).not.toHaveBeenCalled();
+  });
+
+  it('keeps layers inside a selected ancestor', async () => {
+    stubFigma([hero]);
+
+    expect(await filterLayersByScope(allTextIds, { selectionOnly: true })).toEqual([heading.id]);
+  });
+
+  it('keeps layers on the chosen pages', async () => {
+    expect(await filterLayersByScope(allTextIds, { pageIds: [componentsPage.id] })).toEqual([
+      buttonLabel.id,
+    ]);
+  });
+
+  it('keeps layers inside main components or instances', async () => {
+    expect(await filterLayersByScope(allTextIds, { componentContext: 'main_component' })).toEqual([
+      buttonLabel.id,
+    ]);
+    expect(await filterLayersByScope(allTextIds, { componentContext: 'instance' })).toEqual([
+      cardTitle.id,
+    ]);
+  });
+
+  it('matches the component path pattern against the audit component path', async () => {
+    expect(await filterLayersByScope(allTextIds, { componentPathPattern: 'Button / *' })).toEqual([
+      buttonLabel.id,
+    ]);
+    expect(await filterLayersByScope(allTextIds, { componentPathPattern: 'Card*' })).toEqual([]);
+  });
+
+  it('drops layers that no longer exist or are not text', async () => {
+    expect(
+      await filterLayersByScope(['missing', hero.id, heading.id], { pageIds: [homePage.id] })
+    ).toEqual([heading.id]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Style Cleanup - Unit Tests
+ * Tests for listing unused local text styles, what keeps them and reading cleanup backups
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findUnusedLocalStyles,
+  getStyleCleanupBlocker,
+  parseStyleBackup,
+} from '@/ui/utils/styleCleanup';
+import type { StyleCleanupBackup, StyleCleanupPreview } from '@/shared/types';
+import { createMockStyle } from './fixtures';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+const createMockPreview = (overrides?: Partial<StyleCleanupPreview>): StyleCleanupPreview => ({
+  styleId: 'S:heading',
+  consumerCount: 0,
+  publishStatus: 'UNPUBLISHED',
+  ...overrides,
+});
+
+const backup: StyleCleanupBackup = {
+  version: 1,
+  createdAt: '2026-10-19T09:00:00.000Z',
+  styles: [
+    {
+      id: 'S:caption',
+      key: 'caption',
+      name: 'Caption',
+      description: '',
+      fontName: { family: 'Inter', style: 'Regular' },
+      fontSize: 12,
+      lineHeight: { unit: 'AUTO' },
+      letterSpacing: { value: 0, unit: 'PIXELS' },
+      paragraphSpacing: 0,
+      paragraphIndent: 0,
+      listSpacing: 0,
+      textCase: 'ORIGINAL',
+      textDecoration: 'NONE',
+      leadingTrim: 'NONE',
+      hangingPunctuation: false,
+      hangingList: false,
+      boundVariables: { fontSize: 'V:size-sm' },
+    },
+  ],
+};
+
+// ============================================================================
+// findUnusedLocalStyles() Tests
+// ============================================================================
+
+describe('findUnusedLocalStyles', () => {
+  it('lists local styles no audited layer applies, by name', () => {
+    const unused = findUnusedLocalStyles([
+      createMockStyle({ id: 'S:title', name: 'Title' }),
+      createMockStyle({ id: 'S:body', name: 'Body', usageCount: 4 }),
+      createMockStyle({ id: 'S:caption', name: 'Caption' }),
+      createMockStyle({ id: 'lib', name: 'Brand/Display', sourceType: 'team_library' }),
+    ]);
+
+    expect(unused.map((style) => style.name)).toEqual(['Caption', 'Title']);
+  });
+});
+
+// ============================================================================
+// getStyleCleanupBlocker() Tests
+// ============================================================================
+
+describe('getStyleCleanupBlocker', () => {
+  const style = createMockStyle();
+
+  it('keeps styles applied on pages the audit skipped', () => {
+    expect(
+      getStyleCleanupBlocker(style, createMockPreview({ consumerCount: 3 }), 'delete', true)
+    ).toBe('applied to 3 layers');
+    expect(getStyleCleanupBlocker(style, undefined, 'delete', false)).toBe('not checked yet');
+  });
+
+  it('only deletes published styles when allowed, but always renames them', () => {
+    const published = createMockPreview({ publishStatus: 'CURRENT' });
+
+    expect(getStyleCleanupBlocker(style, published, 'delete', false)).toBe(
+      'published, so other files may use it'
+    );
+    expect(getStyleCleanupBlocker(style, published, 'delete', true)).toBeNull();
+    expect(getStyleCleanupBlocker(style, published, 'deprecate', false)).toBeNull();
+  });
+
+  it('does not rename a style twice', () => {
+    const deprecated = createMockStyle({ name: 'zz-deprecated/Body' });
+
+    expect(getStyleCleanupBlocker(deprecated, createMockPreview(), 'deprecate', false)).toBe(
+      'already deprecated'
+    );
+    expect(getStyleCleanupBlocker(deprecated, createMockPreview(), 'delete', false)).toBeNull();
+  });
+});
+
+// ============================================================================
+// parseStyleBackup() Tests
+// ============================================================================
+
+describe('parseStyleBackup', () => {
+  it('reads a downloaded backup', () => {
+    expect(parseStyleBackup(JSON.stringify(backup, null, 2))).toEqual(backup);
+  });
+
+  it('rejects files that are not cleanup backups', () => {
+    expect(() => parseStyleBackup('Caption')).toThrow('File is not valid JSON');
+    expect(() => parseStyleBackup(JSON.stringify({ ...backup, styles: undefined }))).toThrow(
+      'not a style cleanup backup'
+    );
+    expect(() =>
+      parseStyleBackup(JSON.stringify({ ...backup, styles: [{ name: 'Caption' }] }))
+    ).toThrow('Style 1 is missing its name, font or size');
+    expect(() => parseStyleBackup(JSON.stringify({ ...backup, styles: [] }))).toThrow('no styles');
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Style Matcher - Unit Tests
+ * Tests for the similarity engine behind style suggestions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  attachStyleMatches,
+  buildSuggestedAssignments,
+  findStyleMatches,
+  scoreStyleMatch,
+  scoreStyleSimilarity,
+} from '@/ui/utils/styleMatcher';
+import type { TextLayer, TextStyle } from '@/shared/types';
+import { createMockLayer, createMockStyle } from './fixtures';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+const BLACK = { r: 0, g: 0, b: 0, a: 1 };
+
+// Layers and styles are 16/24 black Inter body text unless a test says otherwise
+const bodyText: Partial<TextLayer> & Partial<TextStyle> = {
+  fontFamily: 'Inter',
+  fontSize: 16,
+  fontWeight: 400,
+  lineHeight: { unit: 'PIXELS', value: 24 },
+  letterSpacing: { unit: 'PIXELS', value: 0 },
+  fills: [BLACK],
+};
+
+const unstyledBody: Partial<TextLayer> = {
+  ...bodyText,
+  name: 'Body copy',
+  assignmentStatus: 'unstyled',
+  styleId: undefined,
+  styleName: undefined,
+  styleSource: undefined,
+};
+
+const bodyRegular: Partial<TextStyle> = {
+  ...bodyText,
+  id: 'S:body',
+  name: 'Body/Regular',
+  key: 'body',
+  hierarchyPath: ['Body', 'Regular'],
+};
+
+// ============================================================================
+// scoreStyleMatch() Tests
+// ============================================================================
+
+describe('scoreStyleMatch', () => {
+  it('scores identical properties as a perfect match', () => {
+    const result = scoreStyleMatch(createMockLayer(unstyledBody), createMockStyle(bodyRegular));
+
+    expect(result?.similarityScore).toBe(1);
+    expect(result?.matchingProperties).toHaveLength(6);
+    expect(result?.differingProperties).toEqual([]);
+  });
+
+  it('reports differing properties with display values', () => {
+    const result = scoreStyleMatch(
+      createMockLayer({ ...unstyledBody, fontSize: 14 }),
+      createMockStyle(bodyRegular)
+    );
+
+    expect(result?.similarityScore).toBeLessThan(1);
+    expect(result?.differingProperties).toContainEqual({
+      property: 'fontSize',
+      textValue: '14px',
+      styleValue: '16px',
+    });
+  });
+
+  it('treats percent and pixel line heights by their resolved size', () => {
+    const result = scoreStyleMatch(
+      createMockLayer({ ...unstyledBody, lineHeight: { unit: 'PERCENT', value: 150 } }),
+      createMockStyle(bodyRegular)
+    );
+
+    expect(result?.matchingProperties).toContain('lineHeight');
+  });
+
+  it('penalizes a different font family heavily', () => {
+    const result = scoreStyleMatch(
+      createMockLayer({ ...unstyledBody, fontFamily: 'Roboto' }),
+      createMockStyle(bodyRegular)
+    );
+
+    expect(result?.similarityScore).toBeCloseTo(0.7, 5);
+  });
+
+  it('ignores properties the layer does not report', () => {
+    const result = scoreStyleMatch(
+      createMockLayer({ ...unstyledBody, fills: undefined, letterSpacing: undefined }),
+      createMockStyle(bodyRegular)
+    );
+
+    expect(result?.similarityScore).toBe(1);
+    expect(result?.matchingProperties).not.toContain('color');
+  });
+
+  it('returns null when nothing can be compared', () => {
+    const layer = createMockLayer({
+      ...unstyledBody,
+      fontFamily: undefined,
+      fontSize: undefined,
+      fontWeight: undefined,
+      lineHeight: undefined,
+      letterSpacing: undefined,
+      fills: undefined,
+    });
+
+    expect(scoreStyleMatch(layer, createMockStyle(bodyRegular))).toBeNull();
+  });
+});
+
+// ============================================================================
+// findStyleMatches() Tests
+// ============================================================================
+
+describe('findStyleMatches', () => {
+  const styles = [
+    createMockStyle(bodyRegular),
+    createMockStyle({ ...bodyRegular, id: 'S:large', name: 'Body/Large', fontSize: 18 }),
+    createMockStyle({
+      ...bodyRegular,
+      id: 'S:heading',
+      name: 'Heading/H1',
+      fontSize: 32,
+      fontWeight: 700,
+    }),
+  ];
+
+  it('returns suggestions above the threshold ordered by score', () => {
+    const matches = findStyleMatches(createMockLayer(unstyledBody), styles);
+
+    expect(matches.map((m) => m.suggestedStyleId)).toEqual(['S:body', 'S:large']);
+  });
+
+  it('honours the threshold and maxSuggestions options', () => {
+    expect(findStyleMatches(createMockLayer(unstyledBody), styles, { threshold: 1 })).toHaveLength(
+      1
+    );
+    expect(
+      findStyleMatches(createMockLayer(unstyledBody), styles, { threshold: 0, maxSuggestions: 2 })
+    ).toHaveLength(2);
+  });
+
+  it('skips deprecated styles', () => {
+    const matches = findStyleMatches(createMockLayer(unstyledBody), [
+      createMockStyle({ ...bodyRegular, isDeprecated: true }),
+    ]);
+    expect(matches).toEqual([]);
+  });
+
+  it('skips the style already applied to a partially styled layer', () => {
+    const layer = createMockLayer({
+      ...unstyledBody,
+      assignmentStatus: 'partially-styled',
+      styleId: 'S:body',
+    });
+    const matches = findStyleMatches(layer, styles);
+
+    expect(matches.map((m) => m.suggestedStyleId)).not.toContain('S:body');
+  });
+
+  it('returns nothing for fully styled layers', () => {
+    const layer = createMockLayer({
+      ...unstyledBody,
+      assignmentStatus: 'fully-styled',
+      styleId: 'S:large',
+    });
+    expect(findStyleMatches(layer, styles)).toEqual([]);
+  });
+
+  it('returns nothing for mixed-style layers', () => {
+    const layer = createMockLayer({ ...unstyledBody, assignmentStatus: 'mixed' });
+    expect(findStyleMatches(layer, styles)).toEqual([]);
+  });
+});
+
+// ============================================================================
+// attachStyleMatches() Tests
+// ============================================================================
+
+describe('attachStyleMatches', () => {
+  it('populates suggestions in place and returns the matched count', () => {
+    const matched = createMockLayer(unstyledBody);
+    const unmatched = createMockLayer({
+      ...unstyledBody,
+      id: '1:2',
+      fontFamily: 'Courier',
+      fontSize: 64,
+    });
+    const layers = [matched, unmatched];
+
+    const count = attachStyleMatches(layers, [createMockStyle(bodyRegular)]);
+
+    expect(count).toBe(1);
+    expect(matched.matchSuggestions?.[0].suggestedStyleId).toBe('S:body');
+    expect(unmatched.matchSuggestions).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// buildSuggestedAssignments() Tests
+// ============================================================================
+
+describe('buildSuggestedAssignments', () => {
+  const styles = [
+    createMockStyle(bodyRegular),
+    createMockStyle({ ...bodyRegular, id: 'S:large', name: 'Body/Large', fontSize: 18 }),
+  ];
+
+  it('pairs unstyled layers with their best suggestion above the threshold', () => {
+    const exact = createMockLayer({ ...unstyledBody, id: '1:1' });
+    const close = createMockLayer({ ...unstyledBody, id: '1:2', fontSize: 17 });
+    attachStyleMatches([exact, close], styles);
+
+    const assignments = buildSuggestedAssignments([close, exact], 0.95);
+
+    expect(assignments.map((a) => a.layer.id)).toEqual(['1:1', '1:2']);
+    expect(assignments[0].suggestion.suggestedStyleId).toBe('S:body');
+    expect(buildSuggestedAssignments([close, exact], 1)).toHaveLength(1);
+  });
+
+  it('ignores partially styled layers', () => {
+    const layer = createMockLayer({
+      ...unstyledBody,
+      assignmentStatus: 'partially-styled',
+      styleId: 'S:large',
+    });
+    attachStyleMatches([layer], styles);
+
+    expect(layer.matchSuggestions).toBeDefined();
+    expect(buildSuggestedAssignments([layer])).toEqual([]);
+  });
+});
+
+// ============================================================================
+// scoreStyleSimilarity() Tests
+// ============================================================================
+
+describe('scoreStyleSimilarity', () => {
+  it('scores identical base properties as 1 regardless of colour', () => {
+    const result = scoreStyleSimilarity(
+      createMockStyle(bodyRegular),
+      createMockStyle({ ...bodyRegular, id: 'S:other', fills: [{ r: 1, g: 0, b: 0, a: 1 }] })
+    );
+
+    expect(result).toEqual({ similarityScore: 1, differingProperties: [] });
+  });
+
+  it('lists the properties that differ from the first style to the second', () => {
+    const result = scoreStyleSimilarity(
+      createMockStyle(bodyRegular),
+      createMockStyle({ ...bodyRegular, id: 'S:other', fontSize: 17, fontWeight: 500 })
+    );
+
+    expect(result.similarityScore).toBeLessThan(1);
+    expect(result.similarityScore).toBeGreaterThan(0.8);
+    expect(result.differingProperties.map((d) => d.property)).toEqual(['fontSize', 'fontWeight']);
+    expect(result.differingProperties[0]).toMatchObject({ textValue: '16px', styleValue: '17px' });
+  });
+});
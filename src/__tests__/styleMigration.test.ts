@@ -0,0 +1,298 @@
+/**
+ * Style Migration - Unit Tests
+ * Tests for proposing, importing and resolving style mapping tables
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getLayerIdsForStyle,
+  matchLibraryStyles,
+  parseStyleMappingTable,
+  proposeStyleMappings,
+  resolveStyleMappings,
+} from '@/ui/utils/styleMigration';
+import type { LibrarySource, TextLayer, TextStyle } from '@/shared/types';
+import { createMockStyle } from './fixtures';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+const v1Style = (id: string, name: string, usageCount = 1) =>
+  createMockStyle({
+    id,
+    key: id,
+    name,
+    hierarchyPath: name.split('/'),
+    sourceType: 'team_library',
+    libraryName: 'Core v1',
+    usageCount,
+  });
+
+const v2Style = (id: string, name: string) =>
+  createMockStyle({
+    id,
+    key: id,
+    name,
+    hierarchyPath: name.split('/'),
+    sourceType: 'team_library',
+    libraryName: 'Core v2',
+  });
+
+const styles: TextStyle[] = [
+  v1Style('S:v1-h1', 'Heading/H1'),
+  v1Style('S:v1-body', 'Typography/Body/Regular'),
+  v1Style('S:v1-caption', 'Caption'),
+  v1Style('S:v1-unused', 'Heading/H6', 0),
+  v2Style('S:v2-h1', 'heading / H1'),
+  v2Style('S:v2-body', 'Body/Regular'),
+  v2Style('S:v2-caption-a', 'Small/Caption'),
+  v2Style('S:v2-caption-b', 'Legal/Caption'),
+];
+
+// ============================================================================
+// proposeStyleMappings() Tests
+// ============================================================================
+
+describe('proposeStyleMappings', () => {
+  const proposals = proposeStyleMappings(styles, 'Core v1', 'Core v2');
+
+  it('matches names ignoring case and spacing around separators', () => {
+    expect(proposals).toContainEqual({
+      sourceStyleId: 'S:v1-h1',
+      targetStyleId: 'S:v2-h1',
+      matchedBy: 'name',
+    });
+  });
+
+  it('falls back to the longest unique hierarchy path suffix', () => {
+    expect(proposals).toContainEqual({
+      sourceStyleId: 'S:v1-body',
+      targetStyleId: 'S:v2-body',
+      matchedBy: 'path',
+    });
+  });
+
+  it('skips ambiguous and unused styles', () => {
+    const sources = proposals.map((p) => p.sourceStyleId);
+    expect(sources).not.toContain('S:v1-caption');
+    expect(sources).not.toContain('S:v1-unused');
+  });
+});
+
+// ============================================================================
+// matchLibraryStyles() Tests
+// ============================================================================
+
+describe('matchLibraryStyles', () => {
+  const createMockLibrary = (id: string, styleIds: string[]): LibrarySource => ({
+    id,
+    name: id,
+    type: 'team_library',
+    isEnabled: true,
+    isAvailable: true,
+    styleCount: styleIds.length,
+    styleIds,
+    totalUsageCount: 0,
+    usagePercentage: 0,
+  });
+
+  const libraryStyles: TextStyle[] = [
+    v1Style('S:a-h1', 'Heading/H1'),
+    v1Style('S:a-label', 'Label'),
+    createMockStyle({ id: 'S:a-display', name: 'Hero', hierarchyPath: ['Hero'], fontSize: 64 }),
+    createMockStyle({ id: 'S:a-code', name: 'Code', hierarchyPath: ['Code'], fontFamily: 'Mono' }),
+    v2Style('S:b-h1', 'Headings/H1'),
+    v2Style('S:b-label-sm', 'Small/Label'),
+    createMockStyle({
+      id: 'S:b-label-lg',
+      name: 'Large/Label',
+      hierarchyPath: ['Large', 'Label'],
+      fontSize: 20,
+    }),
+    createMockStyle({
+      id: 'S:b-display',
+      name: 'Display/XL',
+      hierarchyPath: ['Display', 'XL'],
+      fontSize: 64,
+    }),
+    createMockStyle({
+      id: 'S:b-display-alt',
+      name: 'Display/XL Alt',
+      hierarchyPath: ['Display', 'XL Alt'],
+      fontSize: 64,
+      fontWeight: 400,
+    }),
+  ];
+
+  const result = matchLibraryStyles(
+    libraryStyles,
+    createMockLibrary('A', ['S:a-h1', 'S:a-label', 'S:a-display', 'S:a-code']),
+    createMockLibrary('B', [
+      'S:b-h1',
+      'S:b-label-sm',
+      'S:b-label-lg',
+      'S:b-display',
+      'S:b-display-alt',
+    ])
+  );
+
+  it('matches by hierarchy path, breaking ties with properties', () => {
+    expect(result.matches).toContainEqual({
+      sourceStyleId: 'S:a-h1',
+      targetStyleId: 'S:b-h1',
+      matchedBy: 'path',
+      similarity: 1,
+    });
+    expect(result.matches).toContainEqual(
+      expect.objectContaining({ sourceStyleId: 'S:a-label', targetStyleId: 'S:b-label-sm' })
+    );
+  });
+
+  it('matches by properties when no path is shared', () => {
+    expect(result.matches).toContainEqual({
+      sourceStyleId: 'S:a-display',
+      targetStyleId: 'S:b-display',
+      matchedBy: 'properties',
+      similarity: 1,
+    });
+  });
+
+  it('does not match on a single shared path segment when properties differ', () => {
+    const bold = matchLibraryStyles(
+      [
+        createMockStyle({
+          id: 'S:a-display-bold',
+          name: 'Display/Large/Bold',
+          hierarchyPath: ['Display', 'Large', 'Bold'],
+          fontSize: 48,
+        }),
+        createMockStyle({
+          id: 'S:b-caption-bold',
+          name: 'Caption/Bold',
+          hierarchyPath: ['Caption', 'Bold'],
+          fontSize: 12,
+        }),
+      ],
+      createMockLibrary('A', ['S:a-display-bold']),
+      createMockLibrary('B', ['S:b-caption-bold'])
+    );
+
+    expect(bold.matches).toEqual([]);
+  });
+
+  it('reports styles without a plausible counterpart as orphans', () => {
+    expect(result.orphans).toEqual(['S:a-code']);
+    expect(result.ambiguous).toEqual([]);
+  });
+
+  it('reports near ties for review with candidates best first', () => {
+    const tie = matchLibraryStyles(
+      [
+        v1Style('S:a-body', 'Body'),
+        v2Style('S:b-body-1', 'Text/One'),
+        v2Style('S:b-body-2', 'Text/Two'),
+      ],
+      createMockLibrary('A', ['S:a-body']),
+      createMockLibrary('B', ['S:b-body-1', 'S:b-body-2'])
+    );
+
+    expect(tie.matches).toEqual([]);
+    expect(tie.ambiguous).toEqual([
+      {
+        sourceStyleId: 'S:a-body',
+        candidates: [
+          { styleId: 'S:b-body-1', similarity: 1 },
+          { styleId: 'S:b-body-2', similarity: 1 },
+        ],
+      },
+    ]);
+  });
+});
+
+// ============================================================================
+// Import Tests
+// ============================================================================
+
+describe('parseStyleMappingTable', () => {
+  it('reads CSV with quoted fields and any column order', () => {
+    const rows = parseStyleMappingTable(
+      'Notes,Target,Source\r\n"renamed, see v2",Body/Regular,Typography/Body/Regular\r\n,S:v2-h1,S:v1-h1\r\n'
+    );
+
+    expect(rows).toEqual([
+      { source: 'Typography/Body/Regular', target: 'Body/Regular' },
+      { source: 'S:v1-h1', target: 'S:v2-h1' },
+    ]);
+  });
+
+  it('reads JSON lists and { mappings } objects', () => {
+    expect(parseStyleMappingTable('[{"source": "Caption", "target": "Small/Caption"}]')).toEqual([
+      { source: 'Caption', target: 'Small/Caption' },
+    ]);
+    expect(
+      parseStyleMappingTable(
+        '{"mappings": [{"sourceStyleId": "S:v1-h1", "targetStyleId": "S:v2-h1"}]}'
+      )
+    ).toEqual([{ source: 'S:v1-h1', target: 'S:v2-h1' }]);
+  });
+
+  it('rejects tables without the required columns or rows', () => {
+    expect(() => parseStyleMappingTable('From style,To style\nA,B')).toThrow(
+      'needs "Source" and "Target" columns'
+    );
+    expect(() => parseStyleMappingTable('[{"source": "A"}]')).toThrow('Mapping 1 needs');
+    expect(() => parseStyleMappingTable('[')).toThrow('not valid JSON');
+    expect(() => parseStyleMappingTable('Source,Target\n')).toThrow('no rows');
+  });
+});
+
+describe('resolveStyleMappings', () => {
+  it('resolves IDs, keys and names scoped to each library', () => {
+    const { mappings, errors } = resolveStyleMappings(
+      [
+        { source: 'Heading/H1', target: 'Heading/H1' },
+        { source: 'S:v1-caption', target: 'Small/Caption' },
+      ],
+      styles,
+      'Core v1',
+      'Core v2'
+    );
+
+    expect(errors).toEqual([]);
+    expect(mappings).toEqual([
+      { sourceStyleId: 'S:v1-h1', targetStyleId: 'S:v2-h1', matchedBy: 'imported' },
+      { sourceStyleId: 'S:v1-caption', targetStyleId: 'S:v2-caption-a', matchedBy: 'imported' },
+    ]);
+  });
+
+  it('reports unknown, ambiguous and self mappings per row', () => {
+    const { mappings, errors } = resolveStyleMappings(
+      [
+        { source: 'Missing', target: 'Body/Regular' },
+        { source: 'Heading/H1', target: 'Body/Regular' },
+        { source: 'S:v1-h1', target: 'S:v1-h1' },
+      ],
+      styles
+    );
+
+    expect(mappings).toEqual([]);
+    expect(errors).toEqual([
+      'Row 1: Style "Missing" not found',
+      'Row 2: "Heading/H1" matches 2 styles',
+      'Row 3: "S:v1-h1" maps to itself',
+    ]);
+  });
+});
+
+describe('getLayerIdsForStyle', () => {
+  it('returns layers directly assigned the style', () => {
+    const layers = [
+      { id: '1:1', styleId: 'S:v1-h1' },
+      { id: '1:2', styleId: 'S:v1-body' },
+      { id: '1:3', styleId: 'S:v1-h1' },
+    ] as TextLayer[];
+
+    expect(getLayerIdsForStyle(layers, 'S:v1-h1')).toEqual(['1:1', '1:3']);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Text Contrast - Unit Tests
+ * Tests for sampling the worst-contrast range of a text layer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getTextContrastSample } from '@/main/utils/textContrast';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+interface MockRange {
+  characters: string;
+  color?: RGB;
+  fontSize?: number;
+  fontWeight?: number;
+  fills?: Paint[];
+}
+
+const BLACK: RGB = { r: 0, g: 0, b: 0 };
+const LIGHT_GREY: RGB = { r: 0.75, g: 0.75, b: 0.75 };
+const MID_GREY: RGB = { r: 0.5, g: 0.5, b: 0.5 };
+
+/**
+ * Text node on a white page whose getStyledTextSegments returns one segment per range
+ */
+const createMockTextNode = (ranges: MockRange[]): TextNode => {
+  const page = {
+    type: 'PAGE',
+    backgrounds: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 }, opacity: 1, visible: true }],
+    parent: null,
+  };
+  const segments = ranges.map((range) => ({
+    characters: range.characters,
+    fills: range.fills ?? [
+      { type: 'SOLID', color: range.color ?? BLACK, opacity: 1, visible: true },
+    ],
+    fontSize: range.fontSize ?? 16,
+    fontWeight: range.fontWeight ?? 400,
+  }));
+
+  return {
+    characters: ranges.map((range) => range.characters).join(''),
+    opacity: 1,
+    parent: page,
+    getStyledTextSegments: () => segments,
+  } as unknown as TextNode;
+};
+
+// ============================================================================
+// getTextContrastSample() Tests
+// ============================================================================
+
+describe('getTextContrastSample', () => {
+  it('reports the lowest-contrast range, not the first one', () => {
+    const sample = getTextContrastSample(
+      createMockTextNode([
+        { characters: 'Terms apply. ' },
+        { characters: 'See footnote', color: LIGHT_GREY, fontSize: 12 },
+      ])
+    );
+
+    expect(sample?.foreground).toMatchObject(LIGHT_GREY);
+    expect(sample?.fontSize).toBe(12);
+  });
+
+  it('weighs each range against its own threshold', () => {
+    // Mid grey passes as large text but fails as body text
+    const sample = getTextContrastSample(
+      createMockTextNode([
+        { characters: 'Heading ', color: MID_GREY, fontSize: 32, fontWeight: 700 },
+        { characters: 'body copy', color: { r: 0.45, g: 0.45, b: 0.45 } },
+      ])
+    );
+
+    expect(sample?.fontSize).toBe(16);
+  });
+
+  it('ignores whitespace ranges', () => {
+    expect(
+      getTextContrastSample(
+        createMockTextNode([{ characters: 'Label' }, { characters: ' ', color: LIGHT_GREY }])
+      )?.foreground
+    ).toMatchObject(BLACK);
+  });
+
+  it('skips ranges that are not a solid colour and reports the worst solid one', () => {
+    const gradient = [{ type: 'GRADIENT_LINEAR' } as Paint];
+
+    expect(
+      getTextContrastSample(
+        createMockTextNode([
+          { characters: 'Label ' },
+          { characters: 'gradient', fills: gradient },
+          { characters: ' note', color: LIGHT_GREY },
+        ])
+      )?.foreground
+    ).toMatchObject(LIGHT_GREY);
+    expect(
+      getTextContrastSample(createMockTextNode([{ characters: 'gradient', fills: gradient }]))
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Token Aliases - Unit Tests
+ * Tests for reading resolved alias chains and the tokens aliasing a token
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getChainEnd, getReferencingTokens } from '@/ui/utils/tokenAliases';
+import type { DesignToken, TokenAliasChain } from '@/shared/types';
+import { createMockToken } from './fixtures';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+const chain = (overrides?: Partial<TokenAliasChain>): TokenAliasChain => ({
+  modeId: 'M:light',
+  modeName: 'Light',
+  references: [{ tokenId: 'V:gray-900', name: 'gray/900', collectionName: 'Primitives' }],
+  value: 'rgb(17, 17, 17)',
+  ...overrides,
+});
+
+const alias = (id: string, name: string, chains: TokenAliasChain[]): DesignToken =>
+  createMockToken({ id, name, isAlias: true, aliasChains: chains });
+
+// ============================================================================
+// getReferencingTokens() Tests
+// ============================================================================
+
+describe('getReferencingTokens', () => {
+  const primitive = createMockToken();
+
+  it('lists tokens aliasing the token directly in any mode, by name', () => {
+    const tokens = [
+      primitive,
+      alias('V:text-body', 'text/body', [chain()]),
+      alias('V:icon', 'icon/default', [
+        chain({ references: [{ tokenId: 'V:gray-100', name: 'gray/100', collectionName: 'P' }] }),
+        chain({ modeId: 'M:dark', modeName: 'Dark' }),
+      ]),
+      alias('V:link', 'text/link', [
+        chain({
+          references: [
+            { tokenId: 'V:text-body', name: 'text/body', collectionName: 'Semantic' },
+            { tokenId: 'V:gray-900', name: 'gray/900', collectionName: 'Primitives' },
+          ],
+        }),
+      ]),
+    ];
+
+    expect(getReferencingTokens(primitive, tokens).map((t) => t.name)).toEqual([
+      'icon/default',
+      'text/body',
+    ]);
+  });
+
+  it('lists a token stored under two keys once', () => {
+    const semantic = alias('V:text-body', 'text/body', [chain()]);
+    expect(getReferencingTokens(primitive, [semantic, semantic])).toHaveLength(1);
+  });
+});
+
+// ============================================================================
+// getChainEnd() Tests
+// ============================================================================
+
+describe('getChainEnd', () => {
+  it('shows the raw value, or why the chain stops', () => {
+    expect(getChainEnd(chain())).toBe('rgb(17, 17, 17)');
+    expect(getChainEnd(chain({ value: '', error: 'cycle' }))).toBe('Circular reference');
+    expect(getChainEnd(chain({ value: '', error: 'missing' }))).toBe('Missing variable');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Token Cleanup - Unit Tests
+ * Tests for listing unused local variables with their references and reading cleanup backups
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findUnusedLocalTokens,
+  getTokenCleanupBlocker,
+  parseTokenBackup,
+} from '@/ui/utils/tokenCleanup';
+import type { TokenCleanupBackup, TokenCleanupPreview } from '@/shared/types';
+import { createMockStyle, createMockToken } from './fixtures';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+const createMockPreview = (
+  tokenId: string,
+  overrides?: Partial<TokenCleanupPreview>
+): TokenCleanupPreview => ({
+  tokenId,
+  publishStatus: 'UNPUBLISHED',
+  ...overrides,
+});
+
+const backup: TokenCleanupBackup = {
+  version: 1,
+  createdAt: '2026-10-19T09:00:00.000Z',
+  action: 'delete',
+  variables: [
+    {
+      id: 'V:gray-100',
+      name: 'gray/100',
+      description: '',
+      resolvedType: 'COLOR',
+      scopes: ['ALL_SCOPES'],
+      hiddenFromPublishing: false,
+      codeSyntax: {},
+      collectionId: 'C:primitives',
+      collectionName: 'Primitives',
+      values: [{ modeId: 'M:1', modeName: 'Default', value: { r: 1, g: 1, b: 1, a: 1 } }],
+    },
+  ],
+};
+
+// ============================================================================
+// findUnusedLocalTokens() Tests
+// ============================================================================
+
+describe('findUnusedLocalTokens', () => {
+  const gray900 = createMockToken();
+  const gray100 = createMockToken({ id: 'V:gray-100', name: 'gray/100', key: 'local/V:gray-100' });
+  const accent = createMockToken({
+    id: 'V:accent',
+    name: 'accent',
+    key: 'local/V:accent',
+    collectionName: 'Brand (local)',
+  });
+  const textBody = createMockToken({
+    id: 'V:text-body',
+    name: 'text/body',
+    key: 'local/V:text-body',
+    collectionName: 'Semantic (local)',
+    isAlias: true,
+    usageCount: 12,
+    aliasChains: [
+      {
+        modeId: 'M:1',
+        modeName: 'Default',
+        references: [{ tokenId: 'V:gray-900', name: 'gray/900', collectionName: 'Primitives' }],
+        value: 'rgb(17, 17, 17)',
+      },
+    ],
+  });
+  const library = createMockToken({ id: 'lib-key', name: 'brand/blue', key: 'lib-key' });
+
+  it('lists unused local variables by collection, with what still references them', () => {
+    const unused = findUnusedLocalTokens(
+      [gray900, gray100, accent, textBody, library],
+      [
+        createMockStyle({
+          id: 'S:body',
+          name: 'Body',
+          tokens: [{ property: 'fills', tokenId: 'V:accent', tokenName: 'accent', tokenValue: '' }],
+        }),
+      ]
+    );
+
+    expect(unused.map((entry) => entry.token.name)).toEqual(['accent', 'gray/100', 'gray/900']);
+    expect(unused[0].boundByStyles.map((style) => style.name)).toEqual(['Body']);
+    expect(unused[2].aliasedBy.map((token) => token.name)).toEqual(['text/body']);
+    expect(
+      unused.map((entry) => getTokenCleanupBlocker(entry, createMockPreview(entry.token.id), false))
+    ).toEqual(['bound by style Body', null, 'aliased by text/body']);
+  });
+});
+
+// ============================================================================
+// getTokenCleanupBlocker() Tests
+// ============================================================================
+
+describe('getTokenCleanupBlocker', () => {
+  const [unused] = findUnusedLocalTokens([createMockToken()], []);
+
+  it('keeps variables bound outside the audited text layers', () => {
+    expect(
+      getTokenCleanupBlocker(
+        unused,
+        createMockPreview('V:gray-900', { blocker: 'bound to 2 layers' }),
+        true
+      )
+    ).toBe('bound to 2 layers');
+    expect(getTokenCleanupBlocker(unused, undefined, true)).toBe('not checked yet');
+  });
+
+  it('only removes published variables when allowed', () => {
+    const published = createMockPreview('V:gray-900', { publishStatus: 'CURRENT' });
+
+    expect(getTokenCleanupBlocker(unused, published, false)).toBe(
+      'published, so other files may use it'
+    );
+    expect(getTokenCleanupBlocker(unused, published, true)).toBeNull();
+  });
+});
+
+// ============================================================================
+// parseTokenBackup() Tests
+// ============================================================================
+
+describe('parseTokenBackup', () => {
+  it('reads a downloaded backup', () => {
+    expect(parseTokenBackup(JSON.stringify(backup, null, 2))).toEqual(backup);
+  });
+
+  it('rejects files that are not cleanup backups', () => {
+    expect(() => parseTokenBackup('gray/100')).toThrow('File is not valid JSON');
+    expect(() => parseTokenBackup('{"rules": []}')).toThrow('not a token cleanup backup');
+    expect(() =>
+      parseTokenBackup(JSON.stringify({ ...backup, variables: [{ id: 'V:1' }] }))
+    ).toThrow('Variable 1 is missing its name, collection or values');
+    expect(() => parseTokenBackup(JSON.stringify({ ...backup, variables: [] }))).toThrow(
+      'no variables'
+    );
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Token Layering - Unit Tests
+ * Tests for tagging token collections as primitive or semantic and flagging primitive bindings
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildTokenLayering,
+  findPrimitiveBinding,
+  getCollectionTiers,
+  inferCollectionTiers,
+} from '@/ui/utils/tokenLayering';
+import type { DesignToken, TokenBinding } from '@/shared/types';
+import { createMockToken } from './fixtures';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+/** Semantic token aliasing the given tokens, nearest first */
+const alias = (id: string, name: string, targets: string[], overrides?: Partial<DesignToken>) =>
+  createMockToken({
+    id,
+    name,
+    collectionId: 'C:semantic',
+    collectionName: 'Semantic (local)',
+    isAlias: true,
+    aliasChains: [
+      {
+        modeId: 'M:1',
+        modeName: 'Default',
+        references: targets.map((tokenId) => ({ tokenId, name: tokenId, collectionName: '' })),
+        value: 'rgb(17, 17, 17)',
+      },
+    ],
+    ...overrides,
+  });
+
+const binding = (tokenId: string, property: TokenBinding['property'] = 'fills'): TokenBinding => ({
+  property,
+  tokenId,
+  tokenName: tokenId,
+  tokenValue: '',
+});
+
+const gray900 = createMockToken();
+const gray100 = createMockToken({ id: 'V:gray-100', name: 'gray/100' });
+const textBody = alias('V:text-body', 'text/body', ['V:gray-900'], {
+  usageCount: 2,
+  propertyTypes: ['fills'],
+});
+const border = alias('V:border', 'border/strong', ['V:gray-900'], { usageCount: 40 });
+const link = alias('V:link', 'text/link', ['V:text-body', 'V:gray-900']);
+const tokens = [gray900, gray100, textBody, border, link];
+
+const noTiers = { primitiveCollections: [], semanticCollections: [] };
+
+// ============================================================================
+// Collection Tier Tests
+// ============================================================================
+
+describe('getCollectionTiers', () => {
+  it('infers tiers from the alias structure', () => {
+    expect(inferCollectionTiers(tokens)).toEqual(
+      new Map([
+        ['Primitives (local)', 'primitive'],
+        ['Semantic (local)', 'semantic'],
+      ])
+    );
+  });
+
+  it('leaves collections with no clear shape untiered', () => {
+    const brand = (id: string, isAlias: boolean) =>
+      createMockToken({ id, collectionName: 'Brand', isAlias });
+    const mixed = [gray100, brand('V:a', true), brand('V:b', false), brand('V:c', false)];
+    expect(inferCollectionTiers(mixed).size).toBe(0);
+  });
+
+  it('uses the configured globs instead of inferring', () => {
+    const tiers = getCollectionTiers(tokens, {
+      primitiveCollections: ['semantic'],
+      semanticCollections: [],
+    });
+    expect(tiers).toEqual(new Map([['Semantic (local)', 'primitive']]));
+  });
+});
+
+// ============================================================================
+// findPrimitiveBinding() Tests
+// ============================================================================
+
+describe('findPrimitiveBinding', () => {
+  const layering = buildTokenLayering(tokens, noTiers);
+
+  it('passes bindings to semantic tokens', () => {
+    expect(findPrimitiveBinding(binding('V:text-body'), layering)).toBeNull();
+  });
+
+  it('suggests aliases already used for the property, then direct ones, then by usage', () => {
+    const primitive = findPrimitiveBinding(binding('V:gray-900'), layering);
+
+    expect(primitive?.token.name).toBe('gray/900');
+    expect(primitive?.suggestions.map((t) => t.name)).toEqual([
+      'text/body',
+      'border/strong',
+      'text/link',
+    ]);
+    expect(
+      findPrimitiveBinding(binding('V:gray-900', 'fontSize'), layering)?.suggestions[0].name
+    ).toBe('border/strong');
+  });
+
+  it('reports primitives no semantic token aliases', () => {
+    expect(findPrimitiveBinding(binding('V:gray-100'), layering)?.suggestions).toEqual([]);
+  });
+});
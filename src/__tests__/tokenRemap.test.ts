@@ -0,0 +1,183 @@
+/**
+ * Token Remap - Unit Tests
+ * Tests for matching tokens across collections and comparing their per-mode values
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getTokenCollections, matchCollectionTokens } from '@/ui/utils/tokenRemap';
+import { compareModeValues, getRemapProblem } from '@/main/replacement/tokenRemap';
+import type { DesignToken } from '@/shared/types';
+import { createMockToken } from './fixtures';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+const legacy = (id: string, name: string, type: DesignToken['type'] = 'number') =>
+  createMockToken({
+    id,
+    name,
+    type,
+    collectionId: 'C:legacy',
+    collectionName: 'Typography (local)',
+  });
+
+const semantic = (id: string, name: string, type: DesignToken['type'] = 'number') =>
+  createMockToken({
+    id,
+    name,
+    type,
+    collectionId: 'C:semantic',
+    collectionName: 'Semantic (local)',
+  });
+
+const tokens: DesignToken[] = [
+  legacy('V:size', 'Typography/Body/Size'),
+  legacy('V:family', 'Body/Family', 'string'),
+  legacy('V:weight', 'Typography/Body/Weight'),
+  legacy('V:tracking', 'Tracking'),
+  legacy('V:legacy-only', 'Typography/Deprecated/Size'),
+  semantic('V:new-size', 'body / size'),
+  semantic('V:new-family', 'Text/Body/Family', 'string'),
+  semantic('V:new-weight', 'Body/Weight', 'string'),
+  semantic('V:new-tracking-a', 'Heading/Tracking'),
+  semantic('V:new-tracking-b', 'Body/Tracking'),
+];
+
+// ============================================================================
+// getTokenCollections() Tests
+// ============================================================================
+
+describe('getTokenCollections', () => {
+  it('lists each collection once with its token count', () => {
+    expect(getTokenCollections([...tokens, tokens[0]])).toEqual([
+      { id: 'C:legacy', name: 'Typography (local)', tokenCount: 5 },
+      { id: 'C:semantic', name: 'Semantic (local)', tokenCount: 5 },
+    ]);
+  });
+});
+
+// ============================================================================
+// matchCollectionTokens() Tests
+// ============================================================================
+
+describe('matchCollectionTokens', () => {
+  const result = matchCollectionTokens(tokens, 'C:legacy', 'C:semantic');
+
+  it('matches full names ignoring case and spacing around separators', () => {
+    const exact = matchCollectionTokens(
+      [legacy('V:a', 'Body/Size'), semantic('V:b', 'body / size')],
+      'C:legacy',
+      'C:semantic'
+    );
+
+    expect(exact.matches).toEqual([
+      { sourceTokenId: 'V:a', targetTokenId: 'V:b', matchedBy: 'name' },
+    ]);
+  });
+
+  it('falls back to a name path ending with the other', () => {
+    expect(result.matches).toEqual([
+      { sourceTokenId: 'V:size', targetTokenId: 'V:new-size', matchedBy: 'path' },
+      { sourceTokenId: 'V:family', targetTokenId: 'V:new-family', matchedBy: 'path' },
+    ]);
+  });
+
+  it('reports counterparts of another type instead of matching them', () => {
+    expect(result.typeMismatches).toEqual([
+      { sourceTokenId: 'V:weight', targetTokenId: 'V:new-weight' },
+    ]);
+  });
+
+  it('reports several same-type counterparts for review', () => {
+    expect(result.ambiguous).toEqual([
+      { sourceTokenId: 'V:tracking', candidateIds: ['V:new-tracking-a', 'V:new-tracking-b'] },
+    ]);
+  });
+
+  it('reports tokens without a counterpart as orphans', () => {
+    expect(result.orphans).toEqual(['V:legacy-only']);
+  });
+});
+
+// ============================================================================
+// compareModeValues() Tests
+// ============================================================================
+
+describe('compareModeValues', () => {
+  it('matches modes by name and flags changed values', () => {
+    const comparison = compareModeValues(
+      [
+        { modeName: 'Desktop', value: '16' },
+        { modeName: 'Mobile', value: '14' },
+      ],
+      [
+        { modeName: 'mobile', value: '14' },
+        { modeName: 'Desktop', value: '18' },
+      ]
+    );
+
+    expect(comparison).toEqual({
+      modes: [
+        { modeName: 'Desktop', sourceValue: '16', targetValue: '18', changed: true },
+        { modeName: 'Mobile', sourceValue: '14', targetValue: '14', changed: false },
+      ],
+      missingModes: [],
+    });
+  });
+
+  it('applies a single-mode target to every source mode', () => {
+    const comparison = compareModeValues(
+      [
+        { modeName: 'Desktop', value: '16' },
+        { modeName: 'Mobile', value: '14' },
+      ],
+      [{ modeName: 'Value', value: '16' }]
+    );
+
+    expect(comparison.missingModes).toEqual([]);
+    expect(comparison.modes.map((mode) => mode.changed)).toEqual([false, true]);
+  });
+
+  it('reports source modes the target has no value for', () => {
+    const comparison = compareModeValues(
+      [
+        { modeName: 'Light', value: '1' },
+        { modeName: 'Dark', value: '2' },
+      ],
+      [
+        { modeName: 'Light', value: '1' },
+        { modeName: 'High contrast', value: '3' },
+      ]
+    );
+
+    expect(comparison.missingModes).toEqual(['Dark']);
+    expect(comparison.modes[1]).toEqual({
+      modeName: 'Dark',
+      sourceValue: '2',
+      targetValue: null,
+      changed: true,
+    });
+  });
+});
+
+// ============================================================================
+// getRemapProblem() Tests
+// ============================================================================
+
+describe('getRemapProblem', () => {
+  const preview = { sourceTokenId: 'V:a', targetTokenId: 'V:b', modes: [], missingModes: [] };
+
+  it('accepts pairs with matching types and every mode covered', () => {
+    expect(getRemapProblem(preview)).toBeNull();
+  });
+
+  it('explains type mismatches and missing modes', () => {
+    expect(
+      getRemapProblem({ ...preview, typeMismatch: { sourceType: 'FLOAT', targetType: 'STRING' } })
+    ).toBe('FLOAT token cannot be remapped to a STRING token');
+    expect(getRemapProblem({ ...preview, missingModes: ['Dark', 'Dim'] })).toBe(
+      'Target has no value for "Dark", "Dim"'
+    );
+  });
+});
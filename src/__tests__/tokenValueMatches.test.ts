@@ -0,0 +1,206 @@
+/**
+ * Token Value Matches - Unit Tests
+ * Tests for flagging hard-coded values that equal a token and grouping them for bulk binding
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findTokenValueMatches, type TokenValueCandidate } from '@/main/utils/tokenDetection';
+import {
+  countLayersWithTokenValueMatches,
+  getGroupBindings,
+  groupTokenValueMatches,
+} from '@/ui/utils/tokenValueMatches';
+import type { DesignToken, TextLayer } from '@/shared/types';
+import { createMockLayer, createMockToken } from './fixtures';
+
+// ============================================================================
+// Test Fixtures / Mock Data
+// ============================================================================
+
+// Unstyled 16/24 Inter body text with a dark grey fill
+const unstyledBody: Partial<TextLayer> = {
+  name: 'Body',
+  assignmentStatus: 'unstyled',
+  styleId: undefined,
+  styleName: undefined,
+  styleSource: undefined,
+  fontFamily: 'Inter',
+  fontSize: 16,
+  lineHeight: { value: 24, unit: 'PIXELS' },
+  letterSpacing: { value: 0, unit: 'PERCENT' },
+  fills: [{ r: 0.2, g: 0.2, b: 0.2, a: 1 }],
+};
+
+// Candidates are font size tokens unless a test says otherwise
+const candidate = (value: unknown, overrides?: Partial<DesignToken>): TokenValueCandidate => ({
+  token: createMockToken({
+    id: 'V:1',
+    name: 'Body/Size',
+    type: 'number',
+    resolvedType: 'number',
+    scopes: ['FONT_SIZE'],
+    ...overrides,
+  }),
+  value,
+});
+
+// ============================================================================
+// findTokenValueMatches() Tests
+// ============================================================================
+
+describe('findTokenValueMatches', () => {
+  it('matches each unbound property against tokens of the right type', () => {
+    const matches = findTokenValueMatches(createMockLayer(unstyledBody), [
+      candidate(16),
+      candidate('Inter', { id: 'V:family', type: 'string', scopes: ['FONT_FAMILY'] }),
+      candidate(24, { id: 'V:leading', scopes: ['LINE_HEIGHT'] }),
+      candidate(
+        { r: 0.2, g: 0.2, b: 0.2, a: 1 },
+        { id: 'V:ink', type: 'color', scopes: ['TEXT_FILL'] }
+      ),
+    ]);
+
+    expect(matches).toEqual([
+      { property: 'fontFamily', value: 'Inter', tokenIds: ['V:family'] },
+      { property: 'fontSize', value: '16', tokenIds: ['V:1'] },
+      { property: 'lineHeight', value: '24', tokenIds: ['V:leading'] },
+      { property: 'fills', value: 'rgb(51, 51, 51)', tokenIds: ['V:ink'] },
+    ]);
+  });
+
+  it('ignores tokens whose scopes exclude the property', () => {
+    const matches = findTokenValueMatches(createMockLayer(unstyledBody), [
+      candidate(16, { id: 'V:gap', scopes: ['GAP'] }),
+      candidate(16, { id: 'V:any', scopes: ['ALL_SCOPES'] }),
+    ]);
+
+    expect(matches).toEqual([{ property: 'fontSize', value: '16', tokenIds: ['V:any'] }]);
+  });
+
+  it('ranks property-scoped tokens first, then by usage', () => {
+    const matches = findTokenValueMatches(
+      createMockLayer({ ...unstyledBody, fontFamily: undefined }),
+      [
+        candidate(16, { id: 'V:any', name: 'Any', scopes: ['ALL_SCOPES'], usageCount: 50 }),
+        candidate(16, { id: 'V:rare', name: 'Rare', usageCount: 1 }),
+        candidate(16, { id: 'V:common', name: 'Common', usageCount: 9 }),
+      ]
+    );
+
+    expect(matches[0].tokenIds).toEqual(['V:common', 'V:rare', 'V:any']);
+  });
+
+  it('compares numbers and colors after rounding', () => {
+    const matches = findTokenValueMatches(
+      createMockLayer({
+        ...unstyledBody,
+        fontSize: 15.999,
+        fills: [{ r: 0.2, g: 0.2, b: 0.2, a: 0.501 }],
+      }),
+      [
+        candidate(16),
+        candidate(
+          { r: 0.201, g: 0.2, b: 0.199, a: 0.5 },
+          { id: 'V:ink', type: 'color', scopes: ['ALL_FILLS'] }
+        ),
+      ]
+    );
+
+    expect(matches.map((m) => m.tokenIds)).toEqual([['V:1'], ['V:ink']]);
+  });
+
+  it('skips bound properties, percent units and styled values', () => {
+    const tokens = [
+      candidate(16),
+      candidate(0, { id: 'V:tracking', scopes: ['LETTER_SPACING'] }),
+      candidate(24, { id: 'V:leading', scopes: ['LINE_HEIGHT'] }),
+    ];
+
+    expect(
+      findTokenValueMatches(
+        createMockLayer({
+          ...unstyledBody,
+          tokens: [
+            { property: 'fontSize', tokenId: 'V:1', tokenName: 'Body/Size', tokenValue: 16 },
+          ],
+        }),
+        tokens
+      ).map((m) => m.property)
+    ).toEqual(['lineHeight']);
+
+    expect(
+      findTokenValueMatches(
+        createMockLayer({
+          ...unstyledBody,
+          assignmentStatus: 'partially-styled',
+          propertyOverrides: [
+            {
+              property: 'fontSize',
+              styleValue: 14,
+              overrideValue: 16,
+              displayStyleValue: '14px',
+              displayOverrideValue: '16px',
+            },
+          ],
+        }),
+        tokens
+      ).map((m) => m.property)
+    ).toEqual(['fontSize']);
+
+    expect(
+      findTokenValueMatches(
+        createMockLayer({ ...unstyledBody, assignmentStatus: 'fully-styled' }),
+        tokens
+      )
+    ).toEqual([]);
+  });
+});
+
+// ============================================================================
+// groupTokenValueMatches() Tests
+// ============================================================================
+
+describe('groupTokenValueMatches', () => {
+  const layers = [
+    createMockLayer({
+      ...unstyledBody,
+      id: '1:1',
+      tokenValueMatches: [
+        { property: 'fills', value: 'rgb(0, 0, 0)', tokenIds: ['V:ink'] },
+        { property: 'fontSize', value: '16', tokenIds: ['V:body', 'V:any'] },
+      ],
+    }),
+    createMockLayer({
+      ...unstyledBody,
+      id: '1:2',
+      tokenValueMatches: [{ property: 'fontSize', value: '16', tokenIds: ['V:any'] }],
+    }),
+    createMockLayer({
+      ...unstyledBody,
+      id: '1:3',
+      tokenValueMatches: [{ property: 'fontSize', value: '12', tokenIds: ['V:small'] }],
+    }),
+    createMockLayer({ ...unstyledBody, id: '1:4' }),
+  ];
+  const groups = groupTokenValueMatches(layers);
+
+  it('groups layers by property and value, most common value first', () => {
+    expect(groups.map((g) => [g.key, g.layers.length])).toEqual([
+      ['fontSize|16', 2],
+      ['fontSize|12', 1],
+      ['fills|rgb(0, 0, 0)', 1],
+    ]);
+    expect(groups[0].tokenIds).toEqual(['V:body', 'V:any']);
+  });
+
+  it('only binds layers whose own mode matches the token', () => {
+    expect(getGroupBindings(groups[0], 'V:body')).toEqual([
+      { layerId: '1:1', property: 'fontSize', tokenId: 'V:body' },
+    ]);
+    expect(getGroupBindings(groups[0], 'V:any').map((b) => b.layerId)).toEqual(['1:1', '1:2']);
+  });
+
+  it('counts layers with at least one match', () => {
+    expect(countLayersWithTokenValueMatches(layers)).toBe(3);
+  });
+});
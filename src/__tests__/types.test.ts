@@ -94,6 +94,7 @@ describe('Message Protocol Types', () => {
           fullyStyledCount: 60,
           partiallyStyledCount: 15,
           unstyledCount: 25,
+          mixedStyleCount: 0,
           libraryDistribution: {},
           tokenAdoptionRate: 50,
           tokenCoverageRate: 40,
@@ -1,6 +1,8 @@
 import type { AuditState, StyleGovernanceAuditResult, MainToUIMessage } from '@/shared/types';
 import { processAuditData, createAuditResult } from './processor';
 import { traverseTextNodes } from '@/main/utils/traversal';
+import { matchesAnyGlob } from '@/shared/glob';
+import { getSnapshotDocumentId } from '@/main/utils/snapshotStorage';
 
 // Figma Plugin API types
 declare global {
@@ -73,6 +75,9 @@ export class AuditEngine {
       includeHiddenLayers?: boolean;
       includeTokens?: boolean;
       pageIds?: string[];
+      ignoredPages?: string[];
+      ignoredLayerNames?: string[];
+      deprecatedStylePatterns?: string[];
     } = {}
   ): Promise<StyleGovernanceAuditResult> {
     // Reset cancellation flag
@@ -437,6 +442,9 @@ export class AuditEngine {
     includeHiddenLayers?: boolean;
     includeTokens?: boolean;
     pageIds?: string[];
+    ignoredPages?: string[];
+    ignoredLayerNames?: string[];
+    deprecatedStylePatterns?: string[];
   }): Promise<StyleGovernanceAuditResult> {
     // CRITICAL: Do NOT accumulate on main thread - causes OOM
     // Only track metadata for final result
@@ -464,6 +472,13 @@ export class AuditEngine {
         const pageIdSet = new Set(options.pageIds);
         allPages = allPages.filter((page: any) => pageIdSet.has(page.id));
       }
+
+      // Pages excluded by the document's governance config
+      if (options.ignoredPages && options.ignoredPages.length > 0) {
+        allPages = allPages.filter(
+          (page: { name: string }) => !matchesAnyGlob(page.name, options.ignoredPages)
+        );
+      }
       totalPages = allPages.length;
 
       console.log(`[Performance] Starting streaming scan of ${totalPages} pages (non-accumulating mode)`);
@@ -519,6 +534,11 @@ export class AuditEngine {
               continue;
             }
 
+            // Skip layers excluded by the document's governance config
+            if (matchesAnyGlob(node.name, options.ignoredLayerNames)) {
+              continue;
+            }
+
             // Track layers with missing fonts (only if document has any)
             // OPTIMIZATION: Skip check if documentHasMissingFonts is false
             const hasMissingFont = documentHasMissingFonts ? (node.hasMissingFont || false) : false;
@@ -663,7 +683,7 @@ export class AuditEngine {
         },
         {
           documentName: figma.root ? figma.root.name : figma.currentPage.name || 'Untitled',
-          documentId: figma.fileKey || 'unknown',
+          documentId: getSnapshotDocumentId(),
           totalPages,
           layersWithMissingFonts,
           missingFontLayerNames,
@@ -952,7 +972,7 @@ export class AuditEngine {
         processed,
         {
           documentName: figma.root ? figma.root.name : figma.currentPage.name || 'Untitled',
-          documentId: figma.fileKey || 'unknown',
+          documentId: getSnapshotDocumentId(),
           totalPages,
         },
         Date.now() - this.startTime
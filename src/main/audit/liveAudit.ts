@@ -0,0 +1,333 @@
+import type { DesignToken, MainToUIMessage, StyleAuditDelta } from '@/shared/types';
+import { processAuditData, type RawLayerInput } from './processor';
+import { matchesAnyGlob } from '@/shared/glob';
+
+/**
+ * Live Re-Audit Tracker
+ *
+ * Keeps a completed style audit current while the document is edited.
+ * Subscribes to `documentchange` and `stylechange`, collects the text layers
+ * touched by each edit and, once edits settle, re-processes only those layers
+ * through the regular processor. The result is sent to the UI as a
+ * STYLE_AUDIT_DELTA, which merges it into the existing audit result.
+ *
+ * Edits that cannot be expressed as a delta (deleted containers or styles,
+ * very large changes) fall back to STYLE_AUDIT_INVALIDATED so the UI can
+ * offer a full re-run instead.
+ */
+
+export interface LiveAuditOptions {
+  includeHiddenLayers?: boolean;
+  includeTokens?: boolean;
+  pageIds?: string[];
+  ignoredPages?: string[];
+  ignoredLayerNames?: string[];
+  deprecatedStylePatterns?: string[];
+}
+
+/** Wait for edits to settle before re-processing (typing emits one change per keystroke) */
+const FLUSH_DEBOUNCE_MS = 750;
+
+/** Beyond this many changed layers a full re-audit is cheaper than a delta */
+const MAX_DELTA_LAYERS = 2000;
+
+/** Node types whose deletion can remove text layers we cannot enumerate afterwards */
+const CONTAINER_TYPES = new Set([
+  'FRAME',
+  'GROUP',
+  'SECTION',
+  'COMPONENT',
+  'COMPONENT_SET',
+  'INSTANCE',
+  'BOOLEAN_OPERATION',
+  'PAGE',
+]);
+
+export class LiveAuditTracker {
+  private active = false;
+  private options: LiveAuditOptions = {};
+  private pendingNodeIds = new Set<string>();
+  private pendingStyleIds = new Set<string>();
+  private pendingInvalidation: 'document_modified' | 'style_changed' | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing = false;
+  private readonly shouldDefer: () => boolean;
+
+  /**
+   * @param shouldDefer - Returns true while another operation (e.g. a bulk
+   * replacement) is editing the document; flushes wait until it finishes
+   */
+  constructor(shouldDefer: () => boolean = () => false) {
+    this.shouldDefer = shouldDefer;
+  }
+
+  /**
+   * Start tracking changes against an audit run with the given options
+   */
+  start(options: LiveAuditOptions): void {
+    this.stop();
+    this.options = options;
+    this.active = true;
+    figma.on('documentchange', this.handleDocumentChange);
+    figma.on('stylechange', this.handleStyleChange);
+    console.log('[LiveAudit] Tracking document changes');
+  }
+
+  /**
+   * Stop tracking and drop any pending changes
+   */
+  stop(): void {
+    if (!this.active) return;
+
+    figma.off('documentchange', this.handleDocumentChange);
+    figma.off('stylechange', this.handleStyleChange);
+    if (this.flushTimer !== null) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.pendingNodeIds.clear();
+    this.pendingStyleIds.clear();
+    this.pendingInvalidation = null;
+    this.active = false;
+  }
+
+  // ============================================================================
+  // Event Handlers
+  // ============================================================================
+
+  private handleDocumentChange = (event: DocumentChangeEvent): void => {
+    for (const change of event.documentChanges) {
+      switch (change.type) {
+        case 'CREATE':
+          this.pendingNodeIds.add(change.id);
+          break;
+
+        case 'DELETE':
+          if (CONTAINER_TYPES.has(change.node.type)) {
+            this.pendingInvalidation = 'document_modified';
+          } else if (change.node.type === 'TEXT') {
+            this.pendingNodeIds.add(change.id);
+          }
+          break;
+
+        case 'PROPERTY_CHANGE':
+          // Plugin data writes never affect the audit
+          if (change.properties.some((property) => property !== 'pluginData')) {
+            this.pendingNodeIds.add(change.id);
+          }
+          break;
+
+        default:
+          // Style changes are handled by the stylechange listener
+          break;
+      }
+    }
+
+    this.scheduleFlush();
+  };
+
+  private handleStyleChange = (event: StyleChangeEvent): void => {
+    for (const change of event.styleChanges) {
+      if (change.type === 'STYLE_DELETE') {
+        // Layers that used the style cannot be located once it is gone
+        this.pendingInvalidation = 'style_changed';
+      } else if (change.type === 'STYLE_PROPERTY_CHANGE') {
+        this.pendingStyleIds.add(change.id);
+      }
+    }
+
+    this.scheduleFlush();
+  };
+
+  // ============================================================================
+  // Delta Processing
+  // ============================================================================
+
+  private scheduleFlush(): void {
+    if (this.flushTimer !== null) {
+      clearTimeout(this.flushTimer);
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, FLUSH_DEBOUNCE_MS);
+  }
+
+  private async flush(): Promise<void> {
+    if (!this.active) return;
+
+    if (this.flushing || this.shouldDefer()) {
+      this.scheduleFlush();
+      return;
+    }
+
+    if (this.pendingInvalidation) {
+      this.invalidate(this.pendingInvalidation);
+      return;
+    }
+
+    const nodeIds = Array.from(this.pendingNodeIds);
+    const styleIds = Array.from(this.pendingStyleIds);
+    this.pendingNodeIds.clear();
+    this.pendingStyleIds.clear();
+
+    if (nodeIds.length === 0 && styleIds.length === 0) return;
+
+    this.flushing = true;
+    try {
+      const delta = await this.buildDelta(nodeIds, styleIds);
+      if (!delta) return;
+
+      if (delta.updatedLayers.length > 0 || delta.removedLayerIds.length > 0) {
+        this.sendMessage({ type: 'STYLE_AUDIT_DELTA', payload: delta });
+        console.log(
+          `[LiveAudit] Sent delta: ${delta.updatedLayers.length} updated, ` +
+            `${delta.removedLayerIds.length} removed`
+        );
+      }
+    } catch (error) {
+      console.error('[LiveAudit] Failed to build delta:', error);
+      this.invalidate(
+        'document_modified',
+        error instanceof Error ? error.message : 'Incremental update failed'
+      );
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  /**
+   * Re-process the text layers behind the changed nodes and styles
+   *
+   * @returns The delta, or null when the change was too large and the audit
+   * was invalidated instead
+   */
+  private async buildDelta(nodeIds: string[], styleIds: string[]): Promise<StyleAuditDelta | null> {
+    const textNodes = new Map<string, TextNode>();
+    const removedLayerIds = new Set<string>();
+
+    // Every layer using an edited text style picks up its new properties
+    for (const styleId of styleIds) {
+      const style = await figma.getStyleByIdAsync(styleId);
+      if (!style || style.type !== 'TEXT') continue;
+
+      const consumers = await style.getStyleConsumersAsync();
+      for (const consumer of consumers) {
+        if (consumer.node.type === 'TEXT') {
+          textNodes.set(consumer.node.id, consumer.node);
+        }
+      }
+    }
+
+    for (const nodeId of nodeIds) {
+      const node = await figma.getNodeByIdAsync(nodeId);
+      if (!node) {
+        removedLayerIds.add(nodeId);
+      } else if (node.type === 'TEXT') {
+        textNodes.set(node.id, node);
+      } else if ('findAllWithCriteria' in node) {
+        // Created or pasted containers bring their text layers with them
+        for (const textNode of node.findAllWithCriteria({ types: ['TEXT'] })) {
+          textNodes.set(textNode.id, textNode);
+        }
+      }
+    }
+
+    if (textNodes.size + removedLayerIds.size > MAX_DELTA_LAYERS) {
+      this.invalidate('document_modified', `${textNodes.size} layers changed`);
+      return null;
+    }
+
+    const documentHasMissingFonts = figma.hasMissingFont;
+    const rawLayers: RawLayerInput[] = [];
+
+    for (const node of textNodes.values()) {
+      const page = findPage(node);
+
+      // Layers the full audit would skip are dropped from the results
+      if (
+        !page ||
+        (this.options.pageIds?.length && !this.options.pageIds.includes(page.id)) ||
+        matchesAnyGlob(page.name, this.options.ignoredPages) ||
+        matchesAnyGlob(node.name, this.options.ignoredLayerNames) ||
+        node.characters.length === 0 ||
+        (!this.options.includeHiddenLayers && !node.visible)
+      ) {
+        removedLayerIds.add(node.id);
+        continue;
+      }
+
+      // Same shape as the layers collected by AuditEngine.streamScanAndProcess
+      rawLayers.push({
+        id: node.id,
+        name: node.name,
+        characters: node.characters.length,
+        textContent: node.characters.substring(0, 50),
+        pageId: page.id,
+        pageName: page.name,
+        visible: node.visible,
+        opacity: node.opacity,
+        textStyleId: node.textStyleId,
+        hasMissingFont: documentHasMissingFonts ? node.hasMissingFont || false : false,
+        _nodeRef: node,
+      });
+    }
+
+    if (rawLayers.length === 0) {
+      return {
+        updatedLayers: [],
+        removedLayerIds: Array.from(removedLayerIds),
+        updatedStyles: [],
+        updatedTokens: [],
+        updatedLibraries: [],
+      };
+    }
+
+    const processed = await processAuditData({
+      textLayers: rawLayers,
+      totalPages: 1,
+      options: this.options,
+    });
+
+    // Only send tokens the updated layers are bound to, not the whole inventory
+    const boundTokenIds = new Set(
+      processed.layers.flatMap((layer) => layer.tokens.map((token) => token.tokenId))
+    );
+    const updatedTokens: DesignToken[] = processed.tokens.filter((token) =>
+      boundTokenIds.has(token.id)
+    );
+
+    return {
+      updatedLayers: processed.layers,
+      removedLayerIds: Array.from(removedLayerIds),
+      updatedStyles: processed.styles,
+      updatedTokens,
+      updatedLibraries: processed.libraries,
+    };
+  }
+
+  private invalidate(reason: 'document_modified' | 'style_changed', changeDetails?: string): void {
+    // Results are stale until the next full audit, which restarts tracking
+    this.sendMessage({
+      type: 'STYLE_AUDIT_INVALIDATED',
+      payload: { reason, changeDetails },
+    });
+    console.log('[LiveAudit] Audit invalidated:', reason, changeDetails ?? '');
+    this.stop();
+  }
+
+  private sendMessage(message: MainToUIMessage): void {
+    figma.ui.postMessage(message);
+  }
+}
+
+/**
+ * Find the page a node lives on
+ */
+function findPage(node: BaseNode): PageNode | null {
+  let current: BaseNode | null = node.parent;
+  while (current && current.type !== 'PAGE') {
+    current = current.parent;
+  }
+  return current as PageNode | null;
+}
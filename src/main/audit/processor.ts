@@ -10,13 +10,26 @@ import type {
   LineHeight,
   LetterSpacing,
   TokenBinding,
+  TextSegment,
 } from '@/shared/types';
 
 import { detectStyleAssignment } from '@/main/utils/styleDetection';
+import { extractTextSegments, hasMixedTextStyles } from '@/main/utils/fontMetadata';
+import { getTextContrastSample } from '@/main/utils/textContrast';
 import { getAvailableStyles } from '@/main/utils/styleLibrary';
-import { getAllDocumentTokens, integrateTokenUsageIntoLayers } from '@/main/utils/tokenDetection';
+import {
+  detectHardcodedTokenValues,
+  getAllDocumentTokens,
+  integrateTokenUsageIntoLayers,
+  resolveAliasFields,
+} from '@/main/utils/tokenDetection';
 import { calculateOptimizedMetrics } from '@/main/utils/summaryOptimized';
 import { getLibraryMap, clearLibraryCache } from '@/main/utils/libraryCache';
+import { matchesAnyGlob } from '@/shared/glob';
+import type { RawTextLayer } from './scanner';
+
+/** Figma's TextStyle (the name is taken by our TextStyle entity here) */
+type FigmaTextStyle = Extract<BaseStyle, { type: 'TEXT' }>;
 
 /**
  * Metadata Processor for Style Governance Audit
@@ -25,12 +38,23 @@ import { getLibraryMap, clearLibraryCache } from '@/main/utils/libraryCache';
  * Simplified implementation to avoid conflicts.
  */
 
+/**
+ * Raw layer as collected by the scanner, the streaming audit or the live re-audit
+ * (the streaming paths skip the hierarchy walk, so those fields are optional)
+ */
+export type RawLayerInput = Omit<RawTextLayer, 'parentType' | 'depth' | 'textStyleId'> &
+  Partial<Pick<RawTextLayer, 'parentType' | 'depth'>> & {
+    textStyleId?: string | PluginAPI['mixed'];
+    hasMissingFont?: boolean;
+  };
+
 export interface ProcessorInput {
-  textLayers: any[]; // Raw output from scanner
+  textLayers: RawLayerInput[]; // Raw output from scanner
   totalPages: number;
   options: {
     includeHiddenLayers?: boolean;
     includeTokens?: boolean;
+    deprecatedStylePatterns?: string[]; // Style name globs from the governance config
   };
 }
 
@@ -86,7 +110,7 @@ export async function processAuditData(
     const styleIdSamples: { layerName: string; styleId: string }[] = [];
     for (const layer of textLayers) {
       // Scanner stores style ID as 'textStyleId'
-      const styleId = layer.textStyleId || layer.styleId;
+      const styleId = layer.textStyleId;
       if (styleId && typeof styleId === 'string') {
         usedStyleIds.add(styleId);
         // Sample first 10 for debugging
@@ -168,6 +192,13 @@ export async function processAuditData(
     console.log(
       `Loaded ${styles.length} styles: ${localCount} local, ${remoteCount} remote, ${failedCount} failed`
     );
+
+    // Styles matching the governance config's deprecated patterns
+    if (options.deprecatedStylePatterns && options.deprecatedStylePatterns.length > 0) {
+      for (const style of styles) {
+        style.isDeprecated = matchesAnyGlob(style.name, options.deprecatedStylePatterns);
+      }
+    }
     output.styles = styles;
 
     // Step 3: Build library sources (55-60%)
@@ -232,6 +263,9 @@ export async function processAuditData(
 
       // Propagate style token usage to layers using those styles
       propagateStyleTokenUsageToLayers(output.layers, output.styles, output.tokens);
+
+      // Flag unbound values that already equal a token
+      await detectHardcodedTokenValues(output.layers, output.tokens);
     }
 
     // Step 7: Categorize layers (88-90%)
@@ -284,6 +318,18 @@ async function processTextLayer(rawLayer: any, allStyles: TextStyle[]): Promise<
   // Detect style assignment
   const styleAssignment = await detectStyleAssignment(textNode);
 
+  // Split multi-range text into segments (several styles, fonts or token bindings)
+  let segments: TextSegment[] = [];
+  if (textNode.type === 'TEXT' && textNode.characters.length > 1) {
+    try {
+      segments = extractTextSegments(textNode);
+    } catch (error) {
+      console.warn(`Failed to extract text segments for layer ${textNode.name}:`, error);
+    }
+  }
+  const hasSegments = segments.length > 1;
+  const isMixed = hasMixedTextStyles(segments);
+
   // Extract font properties from text node (Phase 3: Complete property extraction)
   // OPTIMIZATION: Only extract properties for unstyled/partially-styled layers (3x fewer calls)
   let fontFamily = undefined;
@@ -298,44 +344,21 @@ async function processTextLayer(rawLayer: any, allStyles: TextStyle[]): Promise<
     styleAssignment.assignmentStatus === 'unstyled' ||
     styleAssignment.assignmentStatus === 'partially-styled';
 
-  if (needsPropertyExtraction && textNode.type === 'TEXT' && textNode.characters.length > 0) {
-    try {
-      // Extract font name (family)
-      const fontName = textNode.getRangeFontName(0, 1);
-      if (fontName !== figma.mixed) {
-        fontFamily = fontName.family;
-      }
-
-      // Extract font size
-      const rawFontSize = textNode.getRangeFontSize(0, 1);
-      if (rawFontSize !== figma.mixed && typeof rawFontSize === 'number') {
-        fontSize = rawFontSize;
-      }
-
-      // Extract font weight
-      const rawFontWeight = textNode.getRangeFontWeight(0, 1);
-      if (rawFontWeight !== figma.mixed && typeof rawFontWeight === 'number') {
-        fontWeight = rawFontWeight;
-      }
-
-      // Extract line height
-      const rawLineHeight = textNode.getRangeLineHeight(0, 1);
-      if (rawLineHeight !== figma.mixed) {
-        lineHeight = extractLineHeight(rawLineHeight);
-      }
-
-      // Extract letter spacing
-      const rawLetterSpacing = textNode.getRangeLetterSpacing(0, 1);
-      if (rawLetterSpacing !== figma.mixed) {
-        letterSpacing = extractLetterSpacing(rawLetterSpacing);
-      }
-
-      // Extract fills (color)
-      const rawFills = textNode.getRangeFills(0, 1);
-      if (rawFills !== figma.mixed && Array.isArray(rawFills)) {
-        fills = extractFills(rawFills);
-      }
+  if (hasSegments) {
+    await resolveSegmentStyleNames(segments, allStyles);
+  }
 
+  if (hasSegments && (isMixed || needsPropertyExtraction)) {
+    // Layer-level properties describe the first segment; the rest live in segments
+    ({ fontFamily, fontSize, fontWeight, lineHeight, letterSpacing, fills } = segments[0]);
+  } else if (
+    needsPropertyExtraction &&
+    textNode.type === 'TEXT' &&
+    textNode.characters.length > 0
+  ) {
+    try {
+      ({ fontFamily, fontSize, fontWeight, lineHeight, letterSpacing, fills } =
+        extractLayerFontProperties(textNode));
     } catch (error) {
       console.warn(`Failed to extract font properties for layer ${textNode.name}:`, error);
     }
@@ -356,9 +379,10 @@ async function processTextLayer(rawLayer: any, allStyles: TextStyle[]): Promise<
     pageName: rawLayer.pageName,
     parentType: rawLayer.parentType,
     componentPath: rawLayer.componentPath,
+    frameName: rawLayer.frameName,
 
     // Style Assignment
-    assignmentStatus: styleAssignment.assignmentStatus,
+    assignmentStatus: isMixed ? 'mixed' : styleAssignment.assignmentStatus,
     styleId: styleAssignment.styleId,
     styleName: styleAssignment.styleName,
     styleSource: styleAssignment.libraryName,
@@ -383,6 +407,19 @@ async function processTextLayer(rawLayer: any, allStyles: TextStyle[]): Promise<
     fills,
   };
 
+  if (hasSegments) {
+    textLayer.segments = segments;
+  }
+
+  // Text colour comes from the layer, not the style, so every layer is sampled
+  if (textNode.type === 'TEXT') {
+    try {
+      textLayer.contrast = getTextContrastSample(textNode);
+    } catch (error) {
+      console.warn(`Failed to sample contrast for layer ${textNode.name}:`, error);
+    }
+  }
+
   // Calculate property overrides (Phase 4)
   // Compare layer properties vs style base properties
   if (textLayer.styleId && allStyles.length > 0) {
@@ -399,6 +436,32 @@ async function processTextLayer(rawLayer: any, allStyles: TextStyle[]): Promise<
   return textLayer;
 }
 
+/**
+ * Fill in style names for segments, falling back to the API for styles that
+ * are only applied to part of a layer (and so were not collected up front)
+ */
+async function resolveSegmentStyleNames(
+  segments: TextSegment[],
+  allStyles: TextStyle[]
+): Promise<void> {
+  for (const segment of segments) {
+    if (!segment.styleId) continue;
+
+    const known = allStyles.find((s) => s.id === segment.styleId);
+    if (known) {
+      segment.styleName = known.name;
+      continue;
+    }
+
+    try {
+      const style = await figma.getStyleByIdAsync(segment.styleId);
+      segment.styleName = style?.name;
+    } catch (error) {
+      console.warn(`Failed to resolve segment style ${segment.styleId}:`, error);
+    }
+  }
+}
+
 /**
  * Convert style summaries to TextStyle entities
  *
@@ -524,7 +587,8 @@ function calculateAuditMetrics(
   const partiallyStyledCount = layers.filter(
     (l) => l.assignmentStatus === 'partially-styled'
   ).length;
-  const fullyStyledCount = styledCount - partiallyStyledCount;
+  const mixedStyleCount = layers.filter((l) => l.assignmentStatus === 'mixed').length;
+  const fullyStyledCount = styledCount - partiallyStyledCount - mixedStyleCount;
   const styleAdoptionRate = layers.length > 0 ? Math.round((styledCount / layers.length) * 100) : 0;
 
   // Token properties that can be bound
@@ -631,6 +695,7 @@ function calculateAuditMetrics(
     fullyStyledCount,
     partiallyStyledCount,
     unstyledCount,
+    mixedStyleCount,
     libraryDistribution: { Local: styledCount }, // Simplified
     tokenAdoptionRate,
     tokenCoverageRate,
@@ -655,6 +720,93 @@ function calculateAuditMetrics(
   };
 }
 
+/**
+ * Extract the base font properties of a text layer from its first character
+ * (the values property overrides are compared on)
+ *
+ * @param textNode - Figma text node with at least one character
+ * @returns Font properties (undefined where the range value is mixed)
+ */
+function extractLayerFontProperties(textNode: TextNode) {
+  let fontFamily: string | undefined;
+  let fontSize: number | undefined;
+  let fontWeight: number | undefined;
+  let lineHeight: LineHeight | undefined;
+  let letterSpacing: LetterSpacing | undefined;
+  let fills: RGBA[] | undefined;
+
+  // Extract font name (family)
+  const fontName = textNode.getRangeFontName(0, 1);
+  if (fontName !== figma.mixed) {
+    fontFamily = (fontName as FontName).family;
+  }
+
+  // Extract font size
+  const rawFontSize = textNode.getRangeFontSize(0, 1);
+  if (rawFontSize !== figma.mixed && typeof rawFontSize === 'number') {
+    fontSize = rawFontSize;
+  }
+
+  // Extract font weight
+  const rawFontWeight = textNode.getRangeFontWeight(0, 1);
+  if (rawFontWeight !== figma.mixed && typeof rawFontWeight === 'number') {
+    fontWeight = rawFontWeight;
+  }
+
+  // Extract line height
+  const rawLineHeight = textNode.getRangeLineHeight(0, 1);
+  if (rawLineHeight !== figma.mixed) {
+    lineHeight = extractLineHeight(rawLineHeight);
+  }
+
+  // Extract letter spacing
+  const rawLetterSpacing = textNode.getRangeLetterSpacing(0, 1);
+  if (rawLetterSpacing !== figma.mixed) {
+    letterSpacing = extractLetterSpacing(rawLetterSpacing);
+  }
+
+  // Extract fills (color)
+  const rawFills = textNode.getRangeFills(0, 1);
+  if (rawFills !== figma.mixed && Array.isArray(rawFills)) {
+    fills = extractFills(rawFills);
+  }
+
+  return { fontFamily, fontSize, fontWeight, lineHeight, letterSpacing, fills };
+}
+
+/**
+ * Extract the base font properties of a text style
+ * Note: TextStyle properties are accessed directly, not via range methods
+ *
+ * @param figmaStyle - Figma text style object
+ * @returns Font properties with defaults for missing values
+ */
+export function extractStyleFontProperties(figmaStyle: FigmaTextStyle) {
+  const fontFamily: string = figmaStyle.fontName?.family || 'Unknown';
+  const fontSize: number = figmaStyle.fontSize || 16;
+  const fontWeight = figmaStyle.fontName?.style ? parseFontWeight(figmaStyle.fontName.style) : 400;
+  const lineHeight: LineHeight = figmaStyle.lineHeight ? extractLineHeight(figmaStyle.lineHeight) : { unit: 'AUTO' as const };
+  const letterSpacing: LetterSpacing = figmaStyle.letterSpacing ? extractLetterSpacing(figmaStyle.letterSpacing) : { unit: 'PIXELS' as const, value: 0 };
+
+  // Extract fills (text color)
+  const fills: RGBA[] = [];
+  // Text styles carry no paints today; kept for styles that do
+  if ('paints' in figmaStyle && Array.isArray(figmaStyle.paints)) {
+    for (const paint of figmaStyle.paints as Paint[]) {
+      if (paint.type === 'SOLID' && paint.visible !== false) {
+        fills.push({
+          r: paint.color.r,
+          g: paint.color.g,
+          b: paint.color.b,
+          a: paint.opacity ?? 1,
+        });
+      }
+    }
+  }
+
+  return { fontFamily, fontSize, fontWeight, lineHeight, letterSpacing, fills };
+}
+
 /**
  * Convert Figma TextStyle to our TextStyle entity with library resolution
  *
@@ -709,27 +861,8 @@ async function convertFigmaStyleToTextStyle(
   }
 
   // Extract base font properties from style (Phase 4)
-  // Note: TextStyle properties are accessed directly, not via range methods
-  const fontFamily = figmaStyle.fontName?.family || 'Unknown';
-  const fontSize = figmaStyle.fontSize || 16;
-  const fontWeight = figmaStyle.fontName?.style ? parseFontWeight(figmaStyle.fontName.style) : 400;
-  const lineHeight = figmaStyle.lineHeight ? extractLineHeight(figmaStyle.lineHeight) : { unit: 'AUTO' as const };
-  const letterSpacing = figmaStyle.letterSpacing ? extractLetterSpacing(figmaStyle.letterSpacing) : { unit: 'PIXELS' as const, value: 0 };
-
-  // Extract fills (text color)
-  const fills: RGBA[] = [];
-  if (figmaStyle.paints && Array.isArray(figmaStyle.paints)) {
-    for (const paint of figmaStyle.paints) {
-      if (paint.type === 'SOLID' && paint.visible !== false) {
-        fills.push({
-          r: paint.color.r,
-          g: paint.color.g,
-          b: paint.color.b,
-          a: paint.opacity ?? 1,
-        });
-      }
-    }
-  }
+  const { fontFamily, fontSize, fontWeight, lineHeight, letterSpacing, fills } =
+    extractStyleFontProperties(figmaStyle);
 
   return {
     id: figmaStyle.id,
@@ -1106,6 +1239,7 @@ async function integrateTokenUsageIntoStyles(
                     usageCount: 0,
                     layerIds: [],
                     propertyTypes: [],
+                    ...(await resolveAliasFields(variable)),
                   };
 
                   // Add to token map for future lookups (using bindingId as key)
@@ -1257,7 +1391,7 @@ function propagateStyleTokenUsageToLayers(
  * @param style - TextStyle with base properties
  * @returns Array of PropertyOverride objects (empty if no overrides)
  */
-function calculatePropertyOverrides(layer: any, style: any): any[] {
+export function calculatePropertyOverrides(layer: any, style: any): any[] {
   const overrides: any[] = [];
 
   // Helper to format values for display
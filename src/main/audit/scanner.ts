@@ -35,6 +35,7 @@ export interface RawTextLayer {
   pageName: string;
   parentType: 'MAIN_COMPONENT' | 'INSTANCE' | 'FRAME' | 'GROUP';
   componentPath?: string;
+  frameName?: string; // Outermost frame containing the layer
 
   // Basic properties
   visible: boolean;
@@ -196,6 +197,7 @@ function extractTextLayerData(textNode: TextNode, page: PageNode): RawTextLayer
     pageName: page.name,
     parentType: parentContext.type,
     componentPath: parentContext.componentPath,
+    frameName: parentContext.frameName,
 
     // Basic properties
     visible: textNode.visible,
@@ -215,16 +217,18 @@ function extractTextLayerData(textNode: TextNode, page: PageNode): RawTextLayer
  * Get parent context information for a text node
  *
  * @param node - The text node to analyze
- * @returns Parent context with type and component path
+ * @returns Parent context with type, component path and outermost frame
  */
-function getParentContext(node: TextNode): {
+export function getParentContext(node: TextNode): {
   type: 'MAIN_COMPONENT' | 'INSTANCE' | 'FRAME' | 'GROUP';
   componentPath?: string;
+  frameName?: string;
   depth: number;
 } {
   let current: BaseNode | null = node;
   let depth = 0;
   const componentPath: string[] = [];
+  let frameName: string | undefined;
 
   // Walk up the parent hierarchy
   while (current && current.parent) {
@@ -237,6 +241,11 @@ function getParentContext(node: TextNode): {
         componentPath.unshift(current.name);
       }
 
+      // Screens are usually the outermost frame (sections and groups aside)
+      if (current.type === 'FRAME') {
+        frameName = current.name;
+      }
+
       // Stop at page level
       if (current.type === 'PAGE') {
         break;
@@ -263,6 +272,7 @@ function getParentContext(node: TextNode): {
   return {
     type: parentType,
     componentPath: componentPath.length > 0 ? componentPath.join(' / ') : undefined,
+    frameName,
     depth,
   };
 }
@@ -1,11 +1,40 @@
-import type { UIToMainMessage, MainToUIMessage, AuditResult, TextLayerData } from '@/shared/types';
+import type {
+  UIToMainMessage,
+  MainToUIMessage,
+  AuditResult,
+  ReplacementDryRunReport,
+  ReplacementResult,
+  ReplacementScope,
+  AuditSnapshot,
+  GovernanceConfig,
+  StyleCleanupAction,
+  StyleCleanupBackup,
+  StyleMapping,
+  TokenCleanupAction,
+  TokenCleanupBackup,
+  TokenMapping,
+  TokenValueBinding,
+  TextLayerData,
+} from '@/shared/types';
 import { getTextNodesFromScope } from './utils/traversal';
 import { extractFontMetadata } from './utils/fontMetadata';
 import { detectStyleAssignment } from './utils/styleDetection';
 import { calculateSummary } from './utils/summary';
 import { AuditEngine } from './audit/auditEngine';
+import { LiveAuditTracker } from './audit/liveAudit';
 import { ReplacementEngine } from './replacement/replacementEngine';
+import { loadJournalEntries, loadJournalEntry } from './replacement/undoJournal';
 import { convertStylesToLocal } from './conversion/conversionEngine';
+import {
+  getSnapshotDocumentId,
+  loadAuditSnapshots,
+  saveAuditSnapshot,
+} from './utils/snapshotStorage';
+import {
+  getGovernanceAuditOptions,
+  loadGovernanceConfig,
+  saveGovernanceConfig,
+} from './utils/governanceConfig';
 
 // ============================================================================
 // Main Entry Point (Figma Sandbox Context)
@@ -18,6 +47,10 @@ import { convertStylesToLocal } from './conversion/conversionEngine';
 // Track current replacement engine for cancellation
 let currentReplacementEngine: ReplacementEngine | null = null;
 
+// Keeps the last style audit current as the document is edited
+// Deltas wait while a replacement is still writing to the document
+const liveAudit = new LiveAuditTracker(() => currentReplacementEngine !== null);
+
 // ============================================================================
 // Plugin Initialization
 // ============================================================================
@@ -61,9 +94,14 @@ figma.showUI(__html__, {
  * Routes messages to appropriate handlers:
  * - Legacy font audit (RUN_AUDIT, CANCEL_AUDIT)
  * - Style governance audit (RUN_STYLE_AUDIT, CANCEL_STYLE_AUDIT)
- * - Replacement operations (REPLACE_STYLE, REPLACE_TOKEN, ROLLBACK_TO_CHECKPOINT)
- * - Export operations (EXPORT_PDF)
+ * - Replacement operations (REPLACE_STYLE, REPLACE_TOKEN, APPLY_SUGGESTED_STYLES, MIGRATE_STYLES, ROLLBACK_TO_CHECKPOINT)
+ * - Token cleanup (PREVIEW_TOKEN_CLEANUP, CLEANUP_TOKENS, RESTORE_TOKEN_BACKUP)
+ * - Style cleanup (PREVIEW_STYLE_CLEANUP, CLEANUP_STYLES, RESTORE_STYLE_BACKUP)
+ * - Undo journal (GET_REPLACEMENT_JOURNAL, REVERT_OPERATION)
+ * - Export operations (EXPORT_PDF, EXPORT_CSV)
  * - Navigation (NAVIGATE_TO_LAYER)
+ * - Audit history (GET_AUDIT_SNAPSHOTS, SAVE_AUDIT_SNAPSHOT)
+ * - Governance config (GET_GOVERNANCE_CONFIG, SAVE_GOVERNANCE_CONFIG)
  */
 figma.ui.onmessage = async (msg: UIToMainMessage) => {
   try {
@@ -94,25 +132,107 @@ figma.ui.onmessage = async (msg: UIToMainMessage) => {
       // Replacement Operations
       // ==================================================================
       case 'REPLACE_STYLE':
+        if (msg.payload.dryRun) {
+          await handleDryRun('style', (engine) =>
+            engine.dryRunStyleReplacement({
+              ...msg.payload,
+              preserveOverrides: msg.payload.preserveOverrides ?? true,
+            })
+          );
+          break;
+        }
         await handleReplaceStyle(
           msg.payload.sourceStyleId,
           msg.payload.targetStyleId,
-          msg.payload.affectedLayerIds
+          msg.payload.affectedLayerIds,
+          {
+            preserveOverrides: msg.payload.preserveOverrides ?? true,
+            skipComponentInstances: msg.payload.skipComponentInstances ?? false,
+            scope: msg.payload.scope,
+          }
         );
         break;
 
       case 'REPLACE_TOKEN':
+        if (msg.payload.dryRun) {
+          await handleDryRun('token', (engine) => engine.dryRunTokenReplacement(msg.payload));
+          break;
+        }
         await handleReplaceToken(
           msg.payload.sourceTokenId,
           msg.payload.targetTokenId,
-          msg.payload.affectedLayerIds
+          msg.payload.affectedLayerIds,
+          msg.payload.scope
+        );
+        break;
+
+      case 'APPLY_SUGGESTED_STYLES':
+        await handleApplySuggestedStyles(msg.payload.assignments);
+        break;
+
+      case 'MIGRATE_STYLES':
+        await handleMigrateStyles(msg.payload.mappings);
+        break;
+
+      case 'PREVIEW_TOKEN_REMAP':
+        await handlePreviewTokenRemap(msg.payload.mappings);
+        break;
+
+      case 'REMAP_TOKENS':
+        await handleRemapTokens(msg.payload.mappings);
+        break;
+
+      case 'BIND_TOKENS':
+        await handleBindTokens(msg.payload.bindings);
+        break;
+
+      case 'PREVIEW_TOKEN_CLEANUP':
+        await handlePreviewTokenCleanup(msg.payload.tokenIds);
+        break;
+
+      case 'CLEANUP_TOKENS':
+        await handleCleanupTokens(
+          msg.payload.tokenIds,
+          msg.payload.action,
+          msg.payload.includePublished
         );
         break;
 
+      case 'RESTORE_TOKEN_BACKUP':
+        await handleRestoreTokenBackup(msg.payload.backup);
+        break;
+
+      case 'PREVIEW_STYLE_CLEANUP':
+        await handlePreviewStyleCleanup(msg.payload.styleIds);
+        break;
+
+      case 'CLEANUP_STYLES':
+        await handleCleanupStyles(
+          msg.payload.styleIds,
+          msg.payload.action,
+          msg.payload.includePublished
+        );
+        break;
+
+      case 'RESTORE_STYLE_BACKUP':
+        await handleRestoreStyleBackup(msg.payload.backup);
+        break;
+
       case 'CANCEL_REPLACEMENT':
         handleCancelReplacement();
         break;
 
+      // ==================================================================
+      // Undo Journal
+      // ==================================================================
+      case 'GET_REPLACEMENT_JOURNAL':
+        handleGetReplacementJournal();
+        break;
+
+      case 'REVERT_OPERATION':
+        await handleRevertOperation(msg.payload.entryId);
+        break;
+
       // ==================================================================
       // Conversion Operations
       // ==================================================================
@@ -124,7 +244,11 @@ figma.ui.onmessage = async (msg: UIToMainMessage) => {
       // Export Operations
       // ==================================================================
       case 'EXPORT_PDF':
-        await handleExportPDF(msg.payload.auditResult);
+        handleExportPDF(msg.payload);
+        break;
+
+      case 'EXPORT_CSV':
+        handleExportCSV(msg.payload);
         break;
 
       // ==================================================================
@@ -152,6 +276,28 @@ figma.ui.onmessage = async (msg: UIToMainMessage) => {
         handleGetPages();
         break;
 
+      // ==================================================================
+      // Audit History
+      // ==================================================================
+      case 'GET_AUDIT_SNAPSHOTS':
+        handleGetAuditSnapshots();
+        break;
+
+      case 'SAVE_AUDIT_SNAPSHOT':
+        handleSaveAuditSnapshot(msg.payload.snapshot);
+        break;
+
+      // ==================================================================
+      // Governance Config
+      // ==================================================================
+      case 'GET_GOVERNANCE_CONFIG':
+        handleGetGovernanceConfig();
+        break;
+
+      case 'SAVE_GOVERNANCE_CONFIG':
+        handleSaveGovernanceConfig(msg.payload.config);
+        break;
+
       default:
         console.warn('Unknown message type:', (msg as { type: string }).type);
     }
@@ -226,7 +372,6 @@ async function handleRunAudit(scope: 'page' | 'selection'): Promise<void> {
         const textLayer: TextLayerData = {
           ...metadata,
           styleAssignment,
-          // matchSuggestions will be added in Phase 6 (User Story 3)
         };
 
         textLayers.push(textLayer);
@@ -392,7 +537,11 @@ function handleCancelAudit(): void {
 async function handleRunStyleAudit(payload?: {
   includeHiddenLayers?: boolean;
   includeTokens?: boolean;
+  pageIds?: string[];
 }): Promise<void> {
+  // Changes made during the audit are picked up by the scan itself
+  liveAudit.stop();
+
   try {
     console.log('[StyleAudit] Starting audit with options:', payload);
 
@@ -408,13 +557,19 @@ async function handleRunStyleAudit(payload?: {
       },
     });
 
+    // Ignore globs and deprecated patterns come from the document's shared config
+    const options = { ...getGovernanceAuditOptions(), ...payload };
+
     // Create audit engine instance
     const auditEngine = new AuditEngine();
 
     // Run the audit
-    await auditEngine.runAudit(payload || {});
+    await auditEngine.runAudit(options);
 
     console.log('[StyleAudit] Audit completed successfully');
+
+    // Push incremental updates for subsequent edits instead of requiring a re-run
+    liveAudit.start(options);
   } catch (error) {
     console.error('[StyleAudit] Audit failed:', error);
 
@@ -443,240 +598,449 @@ function handleCancelStyleAudit(): void {
 // ============================================================================
 
 /**
- * Handle REPLACE_STYLE message
+ * Forward engine progress to the UI as REPLACEMENT_* messages
+ * Processing updates are throttled to avoid UI blocking (max one per 150ms)
  */
-async function handleReplaceStyle(
-  sourceStyleId: string,
-  targetStyleId: string,
-  affectedLayerIds: string[]
-): Promise<void> {
-  console.log('[Replacement] Starting style replacement:', {
-    sourceStyleId,
-    targetStyleId,
-    affectedLayerCount: affectedLayerIds.length,
-  });
-
-  try {
-    const engine = new ReplacementEngine();
-    currentReplacementEngine = engine;
-
-    // Throttle progress updates to avoid UI blocking (max one update per 150ms)
-    let lastProgressUpdate = 0;
-    const PROGRESS_THROTTLE_MS = 150;
-
-    // Setup progress callbacks
-    engine.onProgress((progress) => {
-      if (progress.state === 'processing') {
-        const now = Date.now();
-        // Only send progress updates if enough time has passed or if we're at 100%
-        if (now - lastProgressUpdate >= PROGRESS_THROTTLE_MS || progress.percentage === 100) {
-          lastProgressUpdate = now;
-          sendMessage({
-            type: 'REPLACEMENT_PROGRESS',
-            payload: {
-              state: 'processing',
-              progress: progress.percentage,
-              currentBatch: progress.currentBatch,
-              totalBatches: progress.totalBatches,
-              currentBatchSize: progress.currentBatchSize,
-              layersProcessed: progress.layersProcessed,
-              failedLayers: progress.failedLayers,
-            },
-          });
-        }
-      } else if (progress.state === 'creating_checkpoint' && progress.checkpointTitle) {
+function forwardReplacementProgress(engine: ReplacementEngine): void {
+  let lastProgressUpdate = 0;
+  const PROGRESS_THROTTLE_MS = 150;
+
+  engine.onProgress((progress) => {
+    if (progress.state === 'processing') {
+      const now = Date.now();
+      // Only send progress updates if enough time has passed or if we're at 100%
+      if (now - lastProgressUpdate >= PROGRESS_THROTTLE_MS || progress.percentage === 100) {
+        lastProgressUpdate = now;
         sendMessage({
-          type: 'REPLACEMENT_CHECKPOINT_CREATED',
+          type: 'REPLACEMENT_PROGRESS',
           payload: {
-            checkpointTitle: progress.checkpointTitle,
-            timestamp: new Date(),
+            state: 'processing',
+            progress: progress.percentage,
+            currentBatch: progress.currentBatch,
+            totalBatches: progress.totalBatches,
+            currentBatchSize: progress.currentBatchSize,
+            layersProcessed: progress.layersProcessed,
+            failedLayers: progress.failedLayers,
           },
         });
       }
-    });
-
-    // Send start message
-    sendMessage({
-      type: 'REPLACEMENT_STARTED',
-      payload: {
-        operationType: 'style',
-        state: 'validating',
-        sourceId: sourceStyleId,
-        targetId: targetStyleId,
-        affectedLayerCount: affectedLayerIds.length,
-      },
-    });
-
-    // Execute replacement
-    const result = await engine.replaceStyle({
-      sourceStyleId,
-      targetStyleId,
-      affectedLayerIds,
-      preserveOverrides: true,
-    });
-
-    // Send completion message
-    sendMessage({
-      type: 'REPLACEMENT_COMPLETE',
-      payload: {
-        operationType: 'style',
-        layersUpdated: result.layersUpdated,
-        failedLayers: result.failedLayers,
-        duration: result.duration,
-        hasWarnings: result.hasWarnings,
-      },
-    });
+    } else if (progress.state === 'creating_checkpoint' && progress.checkpointTitle) {
+      sendMessage({
+        type: 'REPLACEMENT_CHECKPOINT_CREATED',
+        payload: {
+          checkpointTitle: progress.checkpointTitle,
+          timestamp: new Date(),
+        },
+      });
+    }
+  });
+}
 
-    // Clean up
-    engine.dispose();
-    currentReplacementEngine = null;
+type ReplacementCompletePayload = Extract<
+  MainToUIMessage,
+  { type: 'REPLACEMENT_COMPLETE' }
+>['payload'];
 
-    console.log('[Replacement] Style replacement complete:', {
-      updated: result.layersUpdated,
-      failed: result.layersFailed,
-      checkpoint: result.checkpointTitle,
-    });
-  } catch (error) {
-    console.error('[Replacement] Style replacement failed:', error);
+/**
+ * Create the handler of an operation that runs on its own engine
+ * Reports REPLACEMENT_STARTED, then REPLACEMENT_COMPLETE, REPLACEMENT_CANCELLED
+ * or REPLACEMENT_ERROR. Journaled operations refresh the UI's journal list when done.
+ */
+function createOperationHandler<
+  TArgs extends unknown[],
+  TResult extends ReplacementResult,
+>(operation: {
+  operationType: 'style' | 'token' | ((...args: TArgs) => 'style' | 'token');
+  name: string; // For the console, e.g. "token cleanup"
+  journaled: boolean;
+  describe: (...args: TArgs) => {
+    affectedLayerCount: number;
+    sourceId?: string;
+    targetId?: string;
+  } & Record<string, unknown>;
+  run: (engine: ReplacementEngine, ...args: TArgs) => Promise<TResult>;
+  completePayload?: (
+    result: TResult
+  ) => Pick<ReplacementCompletePayload, 'migrationResults' | 'tokenBackup' | 'styleBackup'>;
+}): (...args: TArgs) => Promise<void> {
+  const { name, journaled } = operation;
+  const title = name.charAt(0).toUpperCase() + name.slice(1);
+
+  return async (...args) => {
+    const operationType =
+      typeof operation.operationType === 'function'
+        ? operation.operationType(...args)
+        : operation.operationType;
+    const details = operation.describe(...args);
+    console.log(`[Replacement] Starting ${name}:`, details);
+
+    try {
+      const engine = new ReplacementEngine();
+      currentReplacementEngine = engine;
+
+      forwardReplacementProgress(engine);
 
-    // Check if this was a cancellation
-    if (error instanceof Error && error.message === 'Replacement cancelled by user') {
       sendMessage({
-        type: 'REPLACEMENT_CANCELLED',
+        type: 'REPLACEMENT_STARTED',
         payload: {
-          operationType: 'style',
-          layersProcessed: 0, // TODO: track actual progress
+          operationType,
+          state: 'validating',
+          sourceId: details.sourceId,
+          targetId: details.targetId,
+          affectedLayerCount: details.affectedLayerCount,
         },
       });
-    } else {
+
+      const result = await operation.run(engine, ...args);
+
       sendMessage({
-        type: 'REPLACEMENT_ERROR',
+        type: 'REPLACEMENT_COMPLETE',
         payload: {
-          operationType: 'style',
-          error: error instanceof Error ? error.message : 'Unknown error',
-          errorType: 'processing',
-          checkpointTitle: undefined,
-          canRollback: true,
+          operationType,
+          layersUpdated: result.layersUpdated,
+          failedLayers: result.failedLayers,
+          duration: result.duration,
+          hasWarnings: result.hasWarnings,
+          ...operation.completePayload?.(result),
         },
       });
+
+      engine.dispose();
+
+      console.log(`[Replacement] ${title} complete:`, {
+        updated: result.layersUpdated,
+        failed: result.layersFailed,
+        checkpoint: result.checkpointTitle,
+      });
+    } catch (error) {
+      console.error(`[Replacement] ${title} failed:`, error);
+
+      if (error instanceof Error && error.message === 'Replacement cancelled by user') {
+        sendMessage({
+          type: 'REPLACEMENT_CANCELLED',
+          payload: {
+            operationType,
+            layersProcessed: 0,
+          },
+        });
+      } else {
+        sendMessage({
+          type: 'REPLACEMENT_ERROR',
+          payload: {
+            operationType,
+            error: error instanceof Error ? error.message : String(error),
+            errorType: 'processing',
+            canRollback: true,
+          },
+        });
+      }
     }
 
     currentReplacementEngine = null;
-  }
+    if (journaled) {
+      handleGetReplacementJournal();
+    }
+  };
 }
 
+/**
+ * Handle REPLACE_STYLE message
+ */
+const handleReplaceStyle = createOperationHandler({
+  operationType: 'style',
+  name: 'style replacement',
+  journaled: true,
+  describe: (
+    sourceStyleId: string,
+    targetStyleId: string,
+    affectedLayerIds: string[],
+    layerOptions: {
+      preserveOverrides: boolean;
+      skipComponentInstances: boolean;
+      scope?: ReplacementScope;
+    }
+  ) => ({
+    sourceId: sourceStyleId,
+    targetId: targetStyleId,
+    affectedLayerCount: affectedLayerIds.length,
+    ...layerOptions,
+  }),
+  run: (engine, sourceStyleId, targetStyleId, affectedLayerIds, layerOptions) =>
+    engine.replaceStyle({ sourceStyleId, targetStyleId, affectedLayerIds, ...layerOptions }),
+});
+
 /**
  * Handle REPLACE_TOKEN message
  */
-async function handleReplaceToken(
-  sourceTokenId: string,
-  targetTokenId: string,
-  affectedLayerIds: string[]
-): Promise<void> {
-  console.log('[Replacement] Starting token replacement:', {
-    sourceTokenId,
-    targetTokenId,
+const handleReplaceToken = createOperationHandler({
+  operationType: 'token',
+  name: 'token replacement',
+  journaled: true,
+  describe: (
+    sourceTokenId: string,
+    targetTokenId: string,
+    affectedLayerIds: string[],
+    scope?: ReplacementScope
+  ) => ({
+    sourceId: sourceTokenId,
+    targetId: targetTokenId,
     affectedLayerCount: affectedLayerIds.length,
-  });
+    scope,
+  }),
+  run: (engine, sourceTokenId, targetTokenId, affectedLayerIds, scope) =>
+    engine.replaceToken({ sourceTokenId, targetTokenId, affectedLayerIds, scope }),
+});
+
+/**
+ * Handle REPLACE_STYLE / REPLACE_TOKEN messages with dryRun set
+ * Runs on its own engine: nothing is written, so there is nothing to cancel or journal
+ */
+async function handleDryRun(
+  operationType: 'style' | 'token',
+  run: (engine: ReplacementEngine) => Promise<ReplacementDryRunReport>
+): Promise<void> {
+  const engine = new ReplacementEngine();
 
   try {
-    const engine = new ReplacementEngine();
-    currentReplacementEngine = engine;
-
-    // Throttle progress updates to avoid UI blocking (max one update per 150ms)
-    let lastProgressUpdate = 0;
-    const PROGRESS_THROTTLE_MS = 150;
-
-    // Setup progress callbacks
-    engine.onProgress((progress) => {
-      if (progress.state === 'processing') {
-        const now = Date.now();
-        // Only send progress updates if enough time has passed or if we're at 100%
-        if (now - lastProgressUpdate >= PROGRESS_THROTTLE_MS || progress.percentage === 100) {
-          lastProgressUpdate = now;
-          sendMessage({
-            type: 'REPLACEMENT_PROGRESS',
-            payload: {
-              state: 'processing',
-              progress: progress.percentage,
-              currentBatch: progress.currentBatch,
-              totalBatches: progress.totalBatches,
-              currentBatchSize: progress.currentBatchSize,
-              layersProcessed: progress.layersProcessed,
-              failedLayers: progress.failedLayers,
-            },
-          });
-        }
-      } else if (progress.state === 'creating_checkpoint' && progress.checkpointTitle) {
-        sendMessage({
-          type: 'REPLACEMENT_CHECKPOINT_CREATED',
-          payload: {
-            checkpointTitle: progress.checkpointTitle,
-            timestamp: new Date(),
-          },
-        });
-      }
-    });
+    const report = await run(engine);
+    sendMessage({ type: 'REPLACEMENT_DRY_RUN_COMPLETE', payload: { report } });
 
-    // Send start message
+    console.log('[Replacement] Dry run complete:', {
+      operationType,
+      wouldSucceed: report.wouldSucceed,
+      wouldFail: report.failures.length,
+    });
+  } catch (error) {
+    console.error('[Replacement] Dry run failed:', error);
     sendMessage({
-      type: 'REPLACEMENT_STARTED',
+      type: 'REPLACEMENT_DRY_RUN_ERROR',
       payload: {
-        operationType: 'token',
-        state: 'validating',
-        sourceId: sourceTokenId,
-        targetId: targetTokenId,
-        affectedLayerCount: affectedLayerIds.length,
+        operationType,
+        error: error instanceof Error ? error.message : 'Unknown error',
       },
     });
+  } finally {
+    engine.dispose();
+  }
+}
 
-    // Execute replacement
-    const result = await engine.replaceToken({
-      sourceTokenId,
-      targetTokenId,
-      affectedLayerIds,
-    });
+/**
+ * Handle APPLY_SUGGESTED_STYLES message
+ * Assigns each layer its accepted style suggestion under a single checkpoint
+ */
+const handleApplySuggestedStyles = createOperationHandler({
+  operationType: 'style',
+  name: 'applying suggested styles',
+  journaled: true,
+  describe: (assignments: Array<{ layerId: string; styleId: string }>) => ({
+    affectedLayerCount: assignments.length,
+  }),
+  run: (engine, assignments) => engine.applyStyles({ assignments }),
+});
+
+/**
+ * Handle MIGRATE_STYLES message
+ * Replaces every mapped source style with its target under a single checkpoint
+ */
+const handleMigrateStyles = createOperationHandler({
+  operationType: 'style',
+  name: 'style migration',
+  journaled: true,
+  describe: (mappings: Array<StyleMapping & { affectedLayerIds: string[] }>) => ({
+    mappingCount: mappings.length,
+    affectedLayerCount: mappings.reduce((sum, m) => sum + m.affectedLayerIds.length, 0),
+  }),
+  run: (engine, mappings) => engine.migrateStyles({ mappings }),
+  completePayload: (result) => ({ migrationResults: result.pairs }),
+});
 
-    // Send completion message
+/**
+ * Handle PREVIEW_TOKEN_REMAP message
+ * Compares the per-mode values of each pair without writing anything
+ */
+async function handlePreviewTokenRemap(mappings: TokenMapping[]): Promise<void> {
+  const engine = new ReplacementEngine();
+
+  try {
+    const previews = await engine.previewTokenRemap(mappings);
+    sendMessage({ type: 'TOKEN_REMAP_PREVIEW', payload: { previews } });
+  } catch (error) {
+    console.error('[Replacement] Token remap preview failed:', error);
     sendMessage({
-      type: 'REPLACEMENT_COMPLETE',
-      payload: {
-        operationType: 'token',
-        layersUpdated: result.layersUpdated,
-        failedLayers: result.failedLayers || [],
-        duration: result.duration,
-        hasWarnings: result.hasWarnings,
-      },
+      type: 'TOKEN_REMAP_PREVIEW_ERROR',
+      payload: { error: error instanceof Error ? error.message : 'Unknown error' },
     });
+  } finally {
+    engine.dispose();
+  }
+}
+
+/**
+ * Handle REMAP_TOKENS message
+ * Rebinds every pair of a collection-to-collection token remap under a single checkpoint
+ */
+const handleRemapTokens = createOperationHandler({
+  operationType: 'token',
+  name: 'token remap',
+  journaled: true,
+  describe: (mappings: Array<TokenMapping & { affectedLayerIds: string[] }>) => ({
+    mappingCount: mappings.length,
+    affectedLayerCount: mappings.reduce((sum, m) => sum + m.affectedLayerIds.length, 0),
+  }),
+  run: (engine, mappings) => engine.remapTokens({ mappings }),
+});
+
+/**
+ * Handle BIND_TOKENS message
+ * Binds hard-coded layer values to the tokens that already hold them
+ */
+const handleBindTokens = createOperationHandler({
+  operationType: 'token',
+  name: 'token binding',
+  journaled: true,
+  describe: (bindings: TokenValueBinding[]) => ({
+    bindingCount: bindings.length,
+    affectedLayerCount: new Set(bindings.map((b) => b.layerId)).size,
+  }),
+  run: (engine, bindings) => engine.bindTokens({ bindings }),
+});
+
+/**
+ * Handle PREVIEW_TOKEN_CLEANUP message
+ * Finds what still references each variable anywhere in the document and reads its publish status
+ */
+async function handlePreviewTokenCleanup(tokenIds: string[]): Promise<void> {
+  const engine = new ReplacementEngine();
 
-    // Cleanup
+  try {
+    const previews = await engine.previewTokenCleanup(tokenIds);
+    sendMessage({ type: 'TOKEN_CLEANUP_PREVIEW', payload: { previews } });
+  } catch (error) {
+    console.error('[Replacement] Token cleanup preview failed:', error);
+    sendMessage({
+      type: 'TOKEN_CLEANUP_PREVIEW_ERROR',
+      payload: { error: error instanceof Error ? error.message : 'Unknown error' },
+    });
+  } finally {
     engine.dispose();
-    currentReplacementEngine = null;
+  }
+}
+
+/**
+ * Handle CLEANUP_TOKENS message
+ * Deletes or deprecates unused local variables and sends back a backup of them
+ */
+const handleCleanupTokens = createOperationHandler({
+  operationType: 'token',
+  name: 'token cleanup',
+  journaled: false,
+  describe: (tokenIds: string[], action: TokenCleanupAction, includePublished?: boolean) => ({
+    affectedLayerCount: tokenIds.length,
+    action,
+    includePublished,
+  }),
+  run: (engine, tokenIds, action, includePublished) =>
+    engine.cleanupTokens({ tokenIds, action, includePublished }),
+  completePayload: (result) => ({ tokenBackup: result.backup }),
+});
+
+/**
+ * Handle RESTORE_TOKEN_BACKUP message
+ * Re-creates the variables removed by an earlier token cleanup
+ */
+const handleRestoreTokenBackup = createOperationHandler({
+  operationType: 'token',
+  name: 'token restore',
+  journaled: false,
+  describe: (backup: TokenCleanupBackup) => ({
+    affectedLayerCount: backup?.variables?.length ?? 0,
+  }),
+  run: (engine, backup) => engine.restoreTokens({ backup }),
+});
+
+/**
+ * Handle PREVIEW_STYLE_CLEANUP message
+ * Counts each style's consumers across the document and reads its publish status
+ */
+async function handlePreviewStyleCleanup(styleIds: string[]): Promise<void> {
+  const engine = new ReplacementEngine();
+
+  try {
+    const previews = await engine.previewStyleCleanup(styleIds);
+    sendMessage({ type: 'STYLE_CLEANUP_PREVIEW', payload: { previews } });
   } catch (error) {
-    console.error('[Replacement] Token replacement error:', error);
+    console.error('[Replacement] Style cleanup preview failed:', error);
+    sendMessage({
+      type: 'STYLE_CLEANUP_PREVIEW_ERROR',
+      payload: { error: error instanceof Error ? error.message : 'Unknown error' },
+    });
+  } finally {
+    engine.dispose();
+  }
+}
 
-    // Check if this was a cancellation
-    if (error instanceof Error && error.message === 'Replacement cancelled by user') {
-      sendMessage({
-        type: 'REPLACEMENT_CANCELLED',
-        payload: {
-          operationType: 'token',
-          layersProcessed: 0, // TODO: track actual progress
-        },
-      });
-    } else {
-      sendMessage({
-        type: 'REPLACEMENT_ERROR',
-        payload: {
-          operationType: 'token',
-          error: error instanceof Error ? error.message : String(error),
-          errorType: 'processing',
-          canRollback: true,
-        },
-      });
-    }
+/**
+ * Handle CLEANUP_STYLES message
+ * Deletes or renames unused local text styles and sends back a backup of the deleted ones
+ */
+const handleCleanupStyles = createOperationHandler({
+  operationType: 'style',
+  name: 'style cleanup',
+  journaled: false,
+  describe: (styleIds: string[], action: StyleCleanupAction, includePublished?: boolean) => ({
+    affectedLayerCount: styleIds.length,
+    action,
+    includePublished,
+  }),
+  run: (engine, styleIds, action, includePublished) =>
+    engine.cleanupStyles({ styleIds, action, includePublished }),
+  completePayload: (result) => ({ styleBackup: result.backup }),
+});
 
-    currentReplacementEngine = null;
+/**
+ * Handle RESTORE_STYLE_BACKUP message
+ * Re-creates the text styles deleted by an earlier style cleanup
+ */
+const handleRestoreStyleBackup = createOperationHandler({
+  operationType: 'style',
+  name: 'style restore',
+  journaled: false,
+  describe: (backup: StyleCleanupBackup) => ({
+    affectedLayerCount: backup?.styles?.length ?? 0,
+  }),
+  run: (engine, backup) => engine.restoreStyles({ backup }),
+});
+
+/**
+ * Handle REVERT_OPERATION message
+ * Restores the layers recorded in the undo journal for one operation
+ */
+const handleRevertOperation = createOperationHandler({
+  operationType: (entryId: string) => loadJournalEntry(entryId)?.operationType ?? 'style',
+  name: 'revert',
+  journaled: true,
+  describe: (entryId: string) => {
+    const entry = loadJournalEntry(entryId);
+    return { entryId, title: entry?.title, affectedLayerCount: entry?.layerCount ?? 0 };
+  },
+  run: (engine, entryId) => engine.revertOperation({ entryId }),
+});
+
+/**
+ * Handle GET_REPLACEMENT_JOURNAL message - send the document's operation log
+ */
+function handleGetReplacementJournal(): void {
+  try {
+    sendMessage({
+      type: 'REPLACEMENT_JOURNAL_LOADED',
+      payload: { entries: loadJournalEntries() },
+    });
+  } catch (error) {
+    console.error('[Journal] Failed to load operation log:', error);
+    sendMessage({
+      type: 'REPLACEMENT_JOURNAL_LOADED',
+      payload: { entries: [] },
+    });
   }
 }
 
@@ -749,20 +1113,54 @@ async function handleConvertToLocalStyles(
 }
 
 // ============================================================================
-// Export Handler (Feature 002 - Phase 4)
+// Export Handlers
 // ============================================================================
 
 /**
  * Handle EXPORT_PDF message
- * PLACEHOLDER: Will be implemented in Phase 7 (Export)
+ * The UI generates and downloads the report (the sandbox cannot download files);
+ * this acknowledges the export, or reports an empty one as failed
+ */
+function handleExportPDF(
+  payload: Extract<UIToMainMessage, { type: 'EXPORT_PDF' }>['payload']
+): void {
+  if (!payload.filename || payload.fileSize <= 0) {
+    sendMessage({
+      type: 'EXPORT_ERROR',
+      payload: { exportType: 'pdf', error: 'The PDF report is empty' },
+    });
+    return;
+  }
+
+  console.log('[Export] PDF report exported:', payload);
+  sendMessage({
+    type: 'EXPORT_PDF_COMPLETE',
+    payload: { filename: payload.filename, fileSize: payload.fileSize },
+  });
+}
+
+/**
+ * Handle EXPORT_CSV message
+ * Acknowledges the per-entity CSV files the UI generated and downloaded
  */
-async function handleExportPDF(_auditResult: any): Promise<void> {
-  console.log('[Export] PDF export placeholder called');
+function handleExportCSV(
+  payload: Extract<UIToMainMessage, { type: 'EXPORT_CSV' }>['payload']
+): void {
+  if (payload.files.length === 0) {
+    sendMessage({
+      type: 'EXPORT_ERROR',
+      payload: { exportType: 'csv', error: 'No CSV files were generated' },
+    });
+    return;
+  }
+
+  console.log('[Export] CSV files exported:', payload);
   sendMessage({
-    type: 'EXPORT_ERROR',
+    type: 'EXPORT_CSV_COMPLETE',
     payload: {
-      exportType: 'pdf',
-      error: 'PDF export not yet implemented (Phase 4)',
+      fileCount: payload.files.length,
+      fileSize: payload.files.reduce((sum, file) => sum + file.fileSize, 0),
+      rowCount: payload.files.reduce((sum, file) => sum + file.rowCount, 0),
     },
   });
 }
@@ -813,3 +1211,78 @@ async function handleSaveGroupByLibrary(enabled: boolean): Promise<void> {
     });
   }
 }
+
+// ============================================================================
+// Audit History Handlers
+// ============================================================================
+
+/**
+ * Handle GET_AUDIT_SNAPSHOTS message - load the document's audit history
+ */
+function handleGetAuditSnapshots(): void {
+  try {
+    sendMessage({
+      type: 'AUDIT_SNAPSHOTS_LOADED',
+      payload: { snapshots: loadAuditSnapshots() },
+    });
+  } catch (error) {
+    console.error('[Snapshots] Failed to load audit history:', error);
+    sendMessage({
+      type: 'AUDIT_SNAPSHOTS_LOADED',
+      payload: { snapshots: [] },
+    });
+  }
+}
+
+/**
+ * Handle SAVE_AUDIT_SNAPSHOT message - persist a completed audit's summary
+ */
+function handleSaveAuditSnapshot(snapshot: AuditSnapshot): void {
+  try {
+    // The main context owns the document identity so saves and loads share a key
+    const snapshots = saveAuditSnapshot({
+      ...snapshot,
+      documentId: getSnapshotDocumentId(),
+      documentName: snapshot.documentName || figma.root.name,
+    });
+
+    sendMessage({
+      type: 'AUDIT_SNAPSHOTS_LOADED',
+      payload: { snapshots },
+    });
+  } catch (error) {
+    // History is best-effort; a failed save must not interrupt the audit
+    console.error('[Snapshots] Failed to save audit snapshot:', error);
+  }
+}
+
+// ============================================================================
+// Governance Config Handlers
+// ============================================================================
+
+/**
+ * Handle GET_GOVERNANCE_CONFIG message - load the document's shared config
+ *
+ * Sends null when no config was saved so the UI falls back to its defaults.
+ */
+function handleGetGovernanceConfig(): void {
+  sendMessage({
+    type: 'GOVERNANCE_CONFIG_LOADED',
+    payload: { config: loadGovernanceConfig() },
+  });
+}
+
+/**
+ * Handle SAVE_GOVERNANCE_CONFIG message - share the config with every collaborator
+ */
+function handleSaveGovernanceConfig(config: GovernanceConfig): void {
+  try {
+    saveGovernanceConfig(config);
+    sendMessage({
+      type: 'GOVERNANCE_CONFIG_LOADED',
+      payload: { config },
+    });
+  } catch (error) {
+    console.error('[Governance] Failed to save config:', error);
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Override Preservation - Keep per-layer overrides across a style swap
+ *
+ * Assigning a text style resets every typography property to the style's
+ * values. Overrides are found the way the audit finds them (each text range's
+ * properties against the layer's current style), recorded per range before
+ * the swap and written back afterwards.
+ *
+ * A font family or weight override keeps the layer's whole font, since
+ * Figma sets family and style together.
+ */
+
+import { calculatePropertyOverrides, extractStyleFontProperties } from '../audit/processor';
+import { extractTextSegments } from '../utils/fontMetadata';
+
+type OverrideField = 'fontName' | 'fontSize' | 'lineHeight' | 'letterSpacing';
+
+/**
+ * Text range fields holding each audited override property
+ * (fills are not part of a text style, so a swap leaves them alone)
+ */
+const OVERRIDE_FIELDS: Record<string, OverrideField | undefined> = {
+  fontFamily: 'fontName',
+  fontWeight: 'fontName',
+  fontSize: 'fontSize',
+  lineHeight: 'lineHeight',
+  letterSpacing: 'letterSpacing',
+};
+
+/**
+ * Overridden values of one layer, split into ranges with equal values
+ */
+export interface OverrideCapture {
+  fields: OverrideField[];
+  segments: Array<
+    Pick<StyledTextSegment, 'start' | 'end'> & Partial<Pick<StyledTextSegment, OverrideField>>
+  >;
+}
+
+/**
+ * Range fields any part of the layer overrides relative to a style
+ * (a bold word mid-sentence counts, not only the first character)
+ */
+function getOverriddenFields(node: TextNode, style: TextStyle): OverrideField[] {
+  const styleProperties = extractStyleFontProperties(style);
+
+  const fields = new Set<OverrideField>();
+  for (const segment of extractTextSegments(node)) {
+    for (const override of calculatePropertyOverrides(segment, styleProperties)) {
+      const field = OVERRIDE_FIELDS[override.property];
+      if (field) fields.add(field);
+    }
+  }
+  return Array.from(fields);
+}
+
+/**
+ * Typography properties (as named by dry runs) a style swap would keep
+ */
+export function getPreservedProperties(node: TextNode, style: TextStyle): string[] {
+  return getOverriddenFields(node, style).flatMap((field) =>
+    field === 'fontName' ? ['fontFamily', 'fontStyle'] : [field]
+  );
+}
+
+/**
+ * Record the layer's overrides before its style changes (null when it has none)
+ */
+export function captureOverrides(node: TextNode, sourceStyle: TextStyle): OverrideCapture | null {
+  const fields = getOverriddenFields(node, sourceStyle);
+  if (fields.length === 0) return null;
+
+  return { fields, segments: node.getStyledTextSegments(fields) };
+}
+
+/**
+ * Write recorded overrides back after the style swap, loading fonts as needed
+ */
+export async function reapplyOverrides(node: TextNode, capture: OverrideCapture): Promise<void> {
+  for (const segment of capture.segments) {
+    const { start, end } = segment;
+
+    if (segment.fontName) {
+      await figma.loadFontAsync(segment.fontName);
+      node.setRangeFontName(start, end, segment.fontName);
+    }
+    if (segment.fontSize !== undefined) node.setRangeFontSize(start, end, segment.fontSize);
+    if (segment.lineHeight) node.setRangeLineHeight(start, end, segment.lineHeight);
+    if (segment.letterSpacing) node.setRangeLetterSpacing(start, end, segment.letterSpacing);
+  }
+}
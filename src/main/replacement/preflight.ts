@@ -0,0 +1,247 @@
+/**
+ * Replacement Preflight - Read-only layer checks shared by dry runs and real runs
+ *
+ * A dry run inspects every affected layer without writing: whether it can be
+ * changed at all and which properties would visibly change. The real batch
+ * loop runs the same blocker check before each write, so a clean dry run
+ * means the replacement will not fail on those grounds.
+ */
+
+import type {
+  DryRunLayerFailure,
+  LayerBlockerReason,
+  ReplacementDryRunReport,
+} from '@/shared/types';
+
+/**
+ * Typography a text style assignment can visibly change
+ */
+export const TYPOGRAPHY_PROPERTIES = [
+  'fontFamily',
+  'fontStyle',
+  'fontSize',
+  'lineHeight',
+  'letterSpacing',
+  'textCase',
+  'textDecoration',
+  'paragraphSpacing',
+] as const;
+
+export type TypographyProperty = (typeof TYPOGRAPHY_PROPERTIES)[number];
+
+/**
+ * Typography values of a layer or style (mixed layer values are figma.mixed)
+ */
+export type TypographyValues = Record<TypographyProperty, unknown>;
+
+export interface LayerBlocker {
+  reason: LayerBlockerReason;
+  message: string;
+}
+
+export interface LayerCheckOptions {
+  skipComponentInstances?: boolean; // Treat text inside instances as blocked
+}
+
+/**
+ * Inspection result for one layer of a dry run
+ */
+export interface DryRunLayerResult {
+  layerId: string;
+  layerName: string;
+  blocker?: LayerBlocker;
+  changedProperties: string[];
+}
+
+// ============================================================================
+// Layer Checks
+// ============================================================================
+
+/**
+ * Find why a layer cannot be replaced, or null when it can
+ *
+ * Locked layers (or layers inside a locked parent) are skipped on purpose:
+ * the plugin API could write through the lock, but a bulk replacement
+ * should respect it. Layers inside remote components are read-only, and
+ * text inside instances is left alone when the caller asks to skip them.
+ */
+export function getLayerBlocker(
+  node: BaseNode | null,
+  options: LayerCheckOptions = {}
+): LayerBlocker | null {
+  if (!node) {
+    return { reason: 'not_found', message: 'Layer not found' };
+  }
+  if (node.type !== 'TEXT') {
+    return { reason: 'not_text', message: 'Not a text layer' };
+  }
+  if (node.hasMissingFont) {
+    return {
+      reason: 'missing_font',
+      message: 'Text node has missing fonts - cannot modify typography properties',
+    };
+  }
+
+  for (let current: BaseNode | null = node; current; current = current.parent) {
+    if ('locked' in current && current.locked) {
+      return {
+        reason: 'locked',
+        message: current === node ? 'Layer is locked' : `Inside locked layer "${current.name}"`,
+      };
+    }
+    if ((current.type === 'COMPONENT' || current.type === 'COMPONENT_SET') && current.remote) {
+      return {
+        reason: 'remote_component',
+        message: `Inside read-only remote component "${current.name}"`,
+      };
+    }
+    if (current.type === 'INSTANCE' && options.skipComponentInstances) {
+      return {
+        reason: 'component_instance',
+        message: `Inside component instance "${current.name}" (instances skipped)`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Throw the blocker's message unless the layer can be replaced (used before writes)
+ */
+export function assertLayerWritable(
+  node: BaseNode | null,
+  options: LayerCheckOptions = {}
+): asserts node is TextNode {
+  const blocker = getLayerBlocker(node, options);
+  if (blocker) {
+    throw new Error(blocker.message);
+  }
+}
+
+// ============================================================================
+// Visible Changes
+// ============================================================================
+
+export function readNodeTypography(node: TextNode): TypographyValues {
+  const fontName = node.fontName;
+  return {
+    fontFamily: typeof fontName === 'symbol' ? fontName : fontName.family,
+    fontStyle: typeof fontName === 'symbol' ? fontName : fontName.style,
+    fontSize: node.fontSize,
+    lineHeight: node.lineHeight,
+    letterSpacing: node.letterSpacing,
+    textCase: node.textCase,
+    textDecoration: node.textDecoration,
+    paragraphSpacing: node.paragraphSpacing,
+  };
+}
+
+export function readStyleTypography(style: TextStyle): TypographyValues {
+  return {
+    fontFamily: style.fontName.family,
+    fontStyle: style.fontName.style,
+    fontSize: style.fontSize,
+    lineHeight: style.lineHeight,
+    letterSpacing: style.letterSpacing,
+    textCase: style.textCase,
+    textDecoration: style.textDecoration,
+    paragraphSpacing: style.paragraphSpacing,
+  };
+}
+
+/**
+ * Properties whose value differs (a mixed current value always counts as a change)
+ */
+export function getTypographyChanges(
+  current: TypographyValues,
+  next: TypographyValues
+): TypographyProperty[] {
+  return TYPOGRAPHY_PROPERTIES.filter(
+    (property) =>
+      typeof current[property] === 'symbol' ||
+      JSON.stringify(current[property]) !== JSON.stringify(next[property])
+  );
+}
+
+/**
+ * Fields bound to a token on a layer, directly or through its text style
+ *
+ * Returns null when the layer does not use the token at all.
+ */
+export async function getTokenBoundFields(
+  node: TextNode,
+  tokenId: string
+): Promise<string[] | null> {
+  const fields = new Set<string>();
+  collectBoundFields(node.boundVariables ?? {}, tokenId, fields);
+
+  if (typeof node.textStyleId === 'string' && node.textStyleId) {
+    const style = await figma.getStyleByIdAsync(node.textStyleId);
+    if (style) collectBoundFields(style.boundVariables ?? {}, tokenId, fields);
+  }
+
+  return fields.size > 0 ? Array.from(fields) : null;
+}
+
+function collectBoundFields(boundVariables: object, tokenId: string, fields: Set<string>): void {
+  const entries = Object.entries(boundVariables) as Array<
+    [string, VariableAlias | VariableAlias[] | undefined]
+  >;
+  for (const [field, bindings] of entries) {
+    const aliases = Array.isArray(bindings) ? bindings : [bindings];
+    if (aliases.some((alias) => alias?.id === tokenId)) fields.add(field);
+  }
+}
+
+/**
+ * Whether two variables resolve to different values in their first mode
+ */
+export function variableValuesDiffer(a: Variable | null, b: Variable): boolean {
+  if (!a) return true;
+  const first = (variable: Variable) =>
+    variable.valuesByMode[Object.keys(variable.valuesByMode)[0]];
+  return JSON.stringify(first(a)) !== JSON.stringify(first(b));
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+/**
+ * Aggregate per-layer inspection results into a dry-run report
+ */
+export function createDryRunReport(
+  operationType: ReplacementDryRunReport['operationType'],
+  layers: DryRunLayerResult[],
+  duration: number
+): ReplacementDryRunReport {
+  const failures: DryRunLayerFailure[] = [];
+  const failureCounts: ReplacementDryRunReport['failureCounts'] = {};
+  const propertyChanges: Record<string, number> = {};
+  let wouldChange = 0;
+
+  for (const layer of layers) {
+    if (layer.blocker) {
+      failures.push({ layerId: layer.layerId, layerName: layer.layerName, ...layer.blocker });
+      failureCounts[layer.blocker.reason] = (failureCounts[layer.blocker.reason] ?? 0) + 1;
+      continue;
+    }
+
+    if (layer.changedProperties.length > 0) wouldChange++;
+    for (const property of layer.changedProperties) {
+      propertyChanges[property] = (propertyChanges[property] ?? 0) + 1;
+    }
+  }
+
+  return {
+    operationType,
+    totalLayers: layers.length,
+    wouldSucceed: layers.length - failures.length,
+    wouldChange,
+    failures,
+    failureCounts,
+    propertyChanges,
+    duration,
+  };
+}
@@ -1,6 +1,63 @@
-import type { ReplacementResult, FailedLayer } from '@/shared/types';
+import type {
+  ReplacementResult,
+  ReplacementDryRunReport,
+  ReplacementJournalEntry,
+  ReplacementScope,
+  FailedLayer,
+  StyleCleanupAction,
+  StyleCleanupBackup,
+  StyleCleanupPreview,
+  StyleMapping,
+  StyleMigrationPairResult,
+  TokenCleanupAction,
+  TokenCleanupBackup,
+  TokenCleanupPreview,
+  TokenMapping,
+  TokenRemapPairPreview,
+  TokenValueBinding,
+} from '@/shared/types';
 import { BatchProcessor } from './batchProcessor';
 import { retryWithBackoff, classifyError } from './errorRecovery';
+import {
+  assertLayerWritable,
+  createDryRunReport,
+  getLayerBlocker,
+  getTokenBoundFields,
+  getTypographyChanges,
+  readNodeTypography,
+  readStyleTypography,
+  variableValuesDiffer,
+  type DryRunLayerResult,
+  type LayerBlocker,
+  type LayerCheckOptions,
+} from './preflight';
+import { filterLayersByScope, isScopeSet } from './scope';
+import { captureOverrides, getPreservedProperties, reapplyOverrides } from './overrides';
+import { compareModeValues, getRemapProblem, readModeValues } from './tokenRemap';
+import {
+  backupTextStyle,
+  DEPRECATED_STYLE_PREFIX,
+  deprecateStyle,
+  inspectStyle,
+  restoreTextStyle,
+} from './styleCleanup';
+import {
+  backupVariable,
+  deprecateVariable,
+  getCleanupBlocker,
+  inspectVariable,
+  getDeprecatedCollection,
+  loadCleanupContext,
+  restoreVariable,
+} from './tokenCleanup';
+import {
+  JournalRecorder,
+  loadJournalEntry,
+  loadJournalLayers,
+  markJournalEntryReverted,
+  restoreLayer,
+  type LayerCapture,
+} from './undoJournal';
 
 /**
  * Replacement Engine for Style Governance
@@ -10,6 +67,12 @@ import { retryWithBackoff, classifyError } from './errorRecovery';
  * - Adaptive batch processing (100→25→100 on errors)
  * - Error recovery with exponential backoff
  * - Rollback support via version history
+ * - Per-operation undo journal, so a single operation can be reverted later
+ * - Dry runs that inspect every layer without writing or creating a checkpoint
+ * - Optional scope (selection, pages, component context) narrowing the affected layers
+ * - Token remaps between collections, checked per mode before anything is written
+ * - Binding hard-coded values to the tokens that already hold them
+ * - Removing unused local variables and text styles, with a backup to restore them from
  *
  * State Machine: idle → validating → creating_checkpoint → processing → complete/error
  * No cancellation after checkpoint (safety constraint)
@@ -33,6 +96,7 @@ export interface StyleReplacementOptions {
   affectedLayerIds: string[];
   preserveOverrides?: boolean;
   skipComponentInstances?: boolean;
+  scope?: ReplacementScope;
   progressCallback?: ReplacementProgressCallback;
 }
 
@@ -41,9 +105,96 @@ export interface TokenReplacementOptions {
   targetTokenId: string;
   affectedLayerIds: string[];
   propertyTypes?: string[];
+  scope?: ReplacementScope;
   progressCallback?: ReplacementProgressCallback;
 }
 
+export interface StyleAssignment {
+  layerId: string;
+  styleId: string;
+}
+
+export interface StyleAssignmentOptions {
+  assignments: StyleAssignment[];
+  progressCallback?: ReplacementProgressCallback;
+}
+
+export interface StyleMigrationOptions {
+  mappings: Array<StyleMapping & { affectedLayerIds: string[] }>;
+  progressCallback?: ReplacementProgressCallback;
+}
+
+export interface TokenRemapOptions {
+  mappings: Array<TokenMapping & { affectedLayerIds: string[] }>;
+  progressCallback?: ReplacementProgressCallback;
+}
+
+export interface TokenBindingOptions {
+  bindings: TokenValueBinding[];
+  progressCallback?: ReplacementProgressCallback;
+}
+
+export interface TokenCleanupOptions {
+  tokenIds: string[];
+  action: TokenCleanupAction;
+  includePublished?: boolean;
+  progressCallback?: ReplacementProgressCallback;
+}
+
+export interface TokenRestoreOptions {
+  backup: TokenCleanupBackup;
+  progressCallback?: ReplacementProgressCallback;
+}
+
+export interface StyleCleanupOptions {
+  styleIds: string[];
+  action: StyleCleanupAction;
+  includePublished?: boolean;
+  progressCallback?: ReplacementProgressCallback;
+}
+
+export interface StyleRestoreOptions {
+  backup: StyleCleanupBackup;
+  progressCallback?: ReplacementProgressCallback;
+}
+
+export interface RevertOperationOptions {
+  entryId: string; // Undo journal entry of the operation to revert
+  progressCallback?: ReplacementProgressCallback;
+}
+
+export interface StyleMigrationResult extends ReplacementResult {
+  pairs: StyleMigrationPairResult[];
+}
+
+export interface TokenRemapResult extends ReplacementResult {
+  pairs: Array<TokenMapping & { result: ReplacementResult }>;
+}
+
+/**
+ * Variables are reported as layers: the counts are variables removed or
+ * restored, and failures carry the variable's ID and name
+ */
+export interface TokenCleanupResult extends ReplacementResult {
+  backup: TokenCleanupBackup; // The variables actually removed
+}
+
+/**
+ * Styles are reported as layers, like variables in TokenCleanupResult
+ */
+export interface StyleCleanupResult extends ReplacementResult {
+  backup?: StyleCleanupBackup; // The styles actually deleted; renamed styles need none
+}
+
+/**
+ * Position of one pass within a larger operation, so progress covers the whole run
+ */
+interface ProgressOffset {
+  layersBefore: number;
+  failedBefore: number;
+  totalLayers: number;
+}
+
 export interface ReplacementProgress {
   state: ReplacementState;
   percentage: number;
@@ -71,6 +222,7 @@ export class ReplacementEngine {
   private stateChangeCallbacks: ReplacementStateChangeCallback[] = [];
   private checkpointTitle?: string;
   private cancelRequested: boolean = false;
+  private journal: JournalRecorder | null = null;
 
   /**
    * Get current state
@@ -115,7 +267,7 @@ export class ReplacementEngine {
   private async processStyleReplacement(
     options: StyleReplacementOptions
   ): Promise<Omit<ReplacementResult, 'checkpointTitle' | 'duration'>> {
-    const { affectedLayerIds, targetStyleId } = options;
+    const { affectedLayerIds, sourceStyleId, targetStyleId, preserveOverrides } = options;
 
     let layersUpdated = 0;
     let layersFailed = 0;
@@ -163,6 +315,18 @@ export class ReplacementEngine {
 
     console.log(`Processing ${totalLayers} layers with adaptive batching`);
 
+    // The target style's font must be loaded before it can be assigned
+    const targetStyle = await figma.getStyleByIdAsync(targetStyleId);
+    if (!targetStyle || targetStyle.type !== 'TEXT') {
+      throw new Error('Target style not found');
+    }
+    await figma.loadFontAsync((targetStyle as TextStyle).fontName);
+
+    // Overrides are measured against the style being replaced
+    const sourceStyle = preserveOverrides
+      ? ((await figma.getStyleByIdAsync(sourceStyleId)) as TextStyle | null)
+      : null;
+
     // Process layers with adaptive batching
     for await (const _batchResult of batchProcessor.processBatches(
       affectedLayerIds,
@@ -173,16 +337,26 @@ export class ReplacementEngine {
         }
 
         // Apply style replacement with retry logic
-        await retryWithBackoff(async () => {
+        const retry = await retryWithBackoff(async () => {
           const node = await figma.getNodeByIdAsync(layerId);
 
-          if (!node || node.type !== 'TEXT') {
-            throw new Error('Not a text layer');
-          }
+          assertLayerWritable(node, options);
+
+          const overrides = sourceStyle ? captureOverrides(node, sourceStyle) : null;
 
           // Apply new style
-          (node as TextNode).textStyleId = targetStyleId;
+          this.journal?.capture(node, targetStyleId);
+          node.textStyleId = targetStyleId;
+
+          if (overrides) {
+            await reapplyOverrides(node, overrides);
+          }
         });
+
+        // Surface the final failure so the batch processor records this layer
+        if (!retry.success) {
+          throw retry.error ?? new Error('Style replacement failed');
+        }
       }
     )) {
       // Batch processed - progress emitted via callback
@@ -203,39 +377,307 @@ export class ReplacementEngine {
    * Replace style across affected layers
    */
   async replaceStyle(options: StyleReplacementOptions): Promise<ReplacementResult> {
+    return this.runOperation(
+      'Style Replacement',
+      () => this.scopeStyleReplacement(options),
+      (scoped) => this.processStyleReplacement(scoped),
+      'style'
+    );
+  }
+
+  /**
+   * Assign a (possibly different) style to each layer, e.g. accepted match suggestions
+   */
+  async applyStyles(options: StyleAssignmentOptions): Promise<ReplacementResult> {
+    return this.runOperation(
+      'Apply Suggested Styles',
+      () => this.validateStyleAssignments(options),
+      () => this.processStyleAssignments(options),
+      'style'
+    );
+  }
+
+  /**
+   * Migrate many styles at once from a mapping table, under a single checkpoint
+   *
+   * Pairs are processed in order with progress aggregated across the whole
+   * migration. Each pair reports its own ReplacementResult; the returned
+   * totals cover every pair.
+   */
+  async migrateStyles(options: StyleMigrationOptions): Promise<StyleMigrationResult> {
+    return this.runOperation(
+      'Style Migration',
+      // Every pair, before anything is changed
+      () => this.validateStyleMigration(options),
+      async (_, checkpointTitle) => {
+        const offset: ProgressOffset = {
+          layersBefore: 0,
+          failedBefore: 0,
+          totalLayers: options.mappings.reduce((sum, m) => sum + m.affectedLayerIds.length, 0),
+        };
+        const pairs: StyleMigrationPairResult[] = [];
+
+        for (const mapping of options.mappings) {
+          if (this.cancelRequested) {
+            throw new Error('Replacement cancelled by user');
+          }
+
+          const pairStartTime = Date.now();
+          const result = await this.processStyleAssignments(
+            {
+              assignments: mapping.affectedLayerIds.map((layerId) => ({
+                layerId,
+                styleId: mapping.targetStyleId,
+              })),
+            },
+            { ...offset }
+          );
+
+          offset.layersBefore += result.layersUpdated + result.layersFailed;
+          offset.failedBefore += result.layersFailed;
+
+          pairs.push({
+            sourceStyleId: mapping.sourceStyleId,
+            targetStyleId: mapping.targetStyleId,
+            result: { ...result, checkpointTitle, duration: Date.now() - pairStartTime },
+          });
+        }
+
+        const failedLayers = pairs.flatMap((pair) => pair.result.failedLayers);
+        return {
+          success: failedLayers.length === 0,
+          layersUpdated: pairs.reduce((sum, pair) => sum + pair.result.layersUpdated, 0),
+          layersFailed: failedLayers.length,
+          failedLayers,
+          hasWarnings: failedLayers.length > 0,
+          pairs,
+        };
+      },
+      'style'
+    );
+  }
+
+  /**
+   * Remap tokens of one collection to their counterparts in another, under a single checkpoint
+   *
+   * Every pair is checked first (matching types, a target value for each
+   * source mode); one failing pair stops the remap before anything changes.
+   * A layer bound to several source tokens is listed under each of them.
+   */
+  async remapTokens(options: TokenRemapOptions): Promise<TokenRemapResult> {
+    return this.runOperation(
+      'Token Remap',
+      // Every pair, before anything is changed
+      () => this.validateTokenRemap(options),
+      async (_, checkpointTitle) => {
+        const offset: ProgressOffset = {
+          layersBefore: 0,
+          failedBefore: 0,
+          totalLayers: options.mappings.reduce((sum, m) => sum + m.affectedLayerIds.length, 0),
+        };
+        const pairs: TokenRemapResult['pairs'] = [];
+
+        for (const mapping of options.mappings) {
+          if (this.cancelRequested) {
+            throw new Error('Replacement cancelled by user');
+          }
+
+          const pairStartTime = Date.now();
+          const result = await this.processTokenReplacement(
+            {
+              sourceTokenId: mapping.sourceTokenId,
+              targetTokenId: mapping.targetTokenId,
+              affectedLayerIds: mapping.affectedLayerIds,
+            },
+            { ...offset }
+          );
+
+          offset.layersBefore += result.layersUpdated + result.layersFailed;
+          offset.failedBefore += result.layersFailed;
+
+          pairs.push({
+            sourceTokenId: mapping.sourceTokenId,
+            targetTokenId: mapping.targetTokenId,
+            result: { ...result, checkpointTitle, duration: Date.now() - pairStartTime },
+          });
+        }
+
+        const failedLayers = pairs.flatMap((pair) => pair.result.failedLayers);
+        return {
+          success: failedLayers.length === 0,
+          layersUpdated: pairs.reduce((sum, pair) => sum + pair.result.layersUpdated, 0),
+          layersFailed: failedLayers.length,
+          failedLayers,
+          hasWarnings: failedLayers.length > 0,
+          pairs,
+        };
+      },
+      'token'
+    );
+  }
+
+  /**
+   * Bind hard-coded layer values to the tokens that already hold them
+   *
+   * The values are unchanged, so this only adds variable bindings: text
+   * properties on the whole layer, fills on the layer's solid paint.
+   */
+  async bindTokens(options: TokenBindingOptions): Promise<ReplacementResult> {
+    return this.runOperation(
+      'Token Binding',
+      () => this.validateTokenBindings(options),
+      () => this.processTokenBindings(options),
+      'token'
+    );
+  }
+
+  /**
+   * Delete or deprecate unused local variables under a single checkpoint
+   *
+   * Every variable is checked first; one still bound to a layer or style, or
+   * aliased by another variable, stops the cleanup before anything changes.
+   * Cancelling is only possible until then, so the backup always covers every
+   * variable that was removed.
+   */
+  async cleanupTokens(options: TokenCleanupOptions): Promise<TokenCleanupResult> {
+    return this.runOperation(
+      options.action === 'deprecate' ? 'Token Deprecation' : 'Token Cleanup',
+      () => this.validateTokenCleanup(options),
+      async (variables, checkpointTitle) => {
+        const { backup, ...result } = await this.processTokenCleanup(variables, options.action);
+        return { ...result, backup: { ...backup, checkpointTitle } };
+      }
+    );
+  }
+
+  /**
+   * Re-create the variables of a token cleanup backup
+   *
+   * Variables whose collection already has one of the same name are reported
+   * as failed, so restoring the same backup twice adds nothing.
+   */
+  async restoreTokens(options: TokenRestoreOptions): Promise<ReplacementResult> {
+    return this.runOperation(
+      'Token Restore',
+      () => this.validateTokenRestore(options),
+      () => this.processTokenRestore(options.backup)
+    );
+  }
+
+  /**
+   * Delete unused local text styles, or rename them into the deprecated group,
+   * under a single checkpoint
+   *
+   * Every style is checked first, as for cleanupTokens; cancelling is only
+   * possible until then.
+   */
+  async cleanupStyles(options: StyleCleanupOptions): Promise<StyleCleanupResult> {
+    return this.runOperation(
+      options.action === 'deprecate' ? 'Style Deprecation' : 'Style Cleanup',
+      () => this.validateStyleCleanup(options),
+      async (styles, checkpointTitle) => {
+        const { backup, ...result } = await this.processStyleCleanup(styles, options.action);
+        return { ...result, backup: backup && { ...backup, checkpointTitle } };
+      }
+    );
+  }
+
+  /**
+   * Re-create the text styles of a style cleanup backup
+   *
+   * Styles whose name is taken by a local text style are reported as failed.
+   */
+  async restoreStyles(options: StyleRestoreOptions): Promise<ReplacementResult> {
+    return this.runOperation(
+      'Style Restore',
+      () => this.validateStyleRestore(options),
+      () => this.processStyleRestore(options.backup)
+    );
+  }
+
+  /**
+   * Replace token across affected layers
+   */
+  async replaceToken(options: TokenReplacementOptions): Promise<ReplacementResult> {
+    return this.runOperation(
+      'Token Replacement',
+      () => this.scopeTokenReplacement(options),
+      (scoped) => this.processTokenReplacement(scoped),
+      'token'
+    );
+  }
+
+  /**
+   * Revert a journaled operation by restoring the layers it recorded
+   *
+   * Layers that were deleted or had their text edited since are reported as
+   * failed and left untouched. Layers changed again by a later operation are
+   * restored too, undoing that change for them.
+   */
+  async revertOperation(options: RevertOperationOptions): Promise<ReplacementResult> {
+    return this.runOperation(
+      ({ title }) => `Revert ${title}`,
+      () => this.validateRevert(options),
+      async ({ captures }) => {
+        const result = await this.processRevert(captures);
+        markJournalEntryReverted(options.entryId);
+        return result;
+      }
+    );
+  }
+
+  /**
+   * Inspect a style replacement without writing anything or creating a checkpoint
+   *
+   * Runs the same validation and per-layer blocker checks as replaceStyle and
+   * reports which typography properties the target style would change.
+   */
+  async dryRunStyleReplacement(options: StyleReplacementOptions): Promise<ReplacementDryRunReport> {
     const startTime = Date.now();
 
     try {
-      // Step 1: Validation
       await this.transitionState('validating');
-      await this.validateStyleReplacement(options);
+      options = await this.scopeStyleReplacement(options);
 
-      // Step 2: Create checkpoint
-      await this.transitionState('creating_checkpoint');
-      this.checkpointTitle = await this.createCheckpoint('Style Replacement');
-      this.emitProgress({
-        state: 'creating_checkpoint',
-        percentage: 10,
-        currentBatch: 0,
-        totalBatches: 0,
-        currentBatchSize: 0,
-        layersProcessed: 0,
-        failedLayers: 0,
-        checkpointTitle: this.checkpointTitle,
-      });
+      const targetStyle = (await figma.getStyleByIdAsync(options.targetStyleId)) as TextStyle;
+      const targetTypography = readStyleTypography(targetStyle);
+
+      // A target font that cannot be loaded fails every layer
+      let fontBlocker: LayerBlocker | null = null;
+      try {
+        await figma.loadFontAsync(targetStyle.fontName);
+      } catch {
+        fontBlocker = {
+          reason: 'missing_font',
+          message: `Target style font "${targetStyle.fontName.family} ${targetStyle.fontName.style}" is not available`,
+        };
+      }
+
+      const sourceStyle = options.preserveOverrides
+        ? ((await figma.getStyleByIdAsync(options.sourceStyleId)) as TextStyle | null)
+        : null;
 
-      // Step 3: Processing
       await this.transitionState('processing');
-      const result = await this.processStyleReplacement(options);
+      const layers = await this.inspectLayers(
+        options.affectedLayerIds,
+        async (node) => {
+          if (fontBlocker) return { blocker: fontBlocker, changedProperties: [] };
+          if (node.textStyleId === options.targetStyleId) return { changedProperties: [] };
+
+          // Overrides written back after the swap do not change
+          const preserved = sourceStyle ? getPreservedProperties(node, sourceStyle) : [];
+          return {
+            changedProperties: getTypographyChanges(
+              readNodeTypography(node),
+              targetTypography
+            ).filter((property) => !preserved.includes(property)),
+          };
+        },
+        options
+      );
 
-      // Step 4: Complete
       await this.transitionState('complete');
-
-      return {
-        ...result,
-        checkpointTitle: this.checkpointTitle,
-        duration: Date.now() - startTime,
-      };
+      return createDryRunReport('style', layers, Date.now() - startTime);
     } catch (error) {
       await this.transitionState('error');
       throw error;
@@ -243,48 +685,79 @@ export class ReplacementEngine {
   }
 
   /**
-   * Replace token across affected layers
+   * Inspect a token replacement without writing anything or creating a checkpoint
+   *
+   * Bound fields count as visible changes only when the two tokens resolve to
+   * different values.
    */
-  async replaceToken(options: TokenReplacementOptions): Promise<ReplacementResult> {
+  async dryRunTokenReplacement(options: TokenReplacementOptions): Promise<ReplacementDryRunReport> {
     const startTime = Date.now();
 
     try {
-      // Step 1: Validation
       await this.transitionState('validating');
-      await this.validateTokenReplacement(options);
+      options = await this.scopeTokenReplacement(options);
 
-      // Step 2: Create checkpoint
-      await this.transitionState('creating_checkpoint');
-      this.checkpointTitle = await this.createCheckpoint('Token Replacement');
-      this.emitProgress({
-        state: 'creating_checkpoint',
-        percentage: 10,
-        currentBatch: 0,
-        totalBatches: 0,
-        currentBatchSize: 0,
-        layersProcessed: 0,
-        failedLayers: 0,
-        checkpointTitle: this.checkpointTitle,
-      });
+      const targetVariable = await this.resolveTargetVariable(options.targetTokenId);
+      const sourceVariable = await figma.variables.getVariableByIdAsync(options.sourceTokenId);
+      const valuesDiffer = variableValuesDiffer(sourceVariable, targetVariable);
 
-      // Step 3: Processing
       await this.transitionState('processing');
-      const result = await this.processTokenReplacement(options);
+      const layers = await this.inspectLayers(options.affectedLayerIds, async (node) => {
+        const fields = await getTokenBoundFields(node, options.sourceTokenId);
+        if (!fields) {
+          return {
+            blocker: {
+              reason: 'token_not_found',
+              message: 'Source token not found on layer (checked both direct bindings and style)',
+            },
+            changedProperties: [],
+          };
+        }
+        return { changedProperties: valuesDiffer ? fields : [] };
+      });
 
-      // Step 4: Complete
       await this.transitionState('complete');
-
-      return {
-        ...result,
-        checkpointTitle: this.checkpointTitle,
-        duration: Date.now() - startTime,
-      };
+      return createDryRunReport('token', layers, Date.now() - startTime);
     } catch (error) {
       await this.transitionState('error');
       throw error;
     }
   }
 
+  /**
+   * Compare the per-mode values of each token remap pair without writing anything
+   */
+  async previewTokenRemap(mappings: TokenMapping[]): Promise<TokenRemapPairPreview[]> {
+    const previews: TokenRemapPairPreview[] = [];
+    for (const mapping of mappings) {
+      previews.push(await this.inspectTokenPair(mapping));
+    }
+    return previews;
+  }
+
+  /**
+   * Check what references each variable and its publish status without writing anything
+   */
+  async previewTokenCleanup(tokenIds: string[]): Promise<TokenCleanupPreview[]> {
+    const context = await loadCleanupContext();
+    const previews: TokenCleanupPreview[] = [];
+    for (const tokenId of tokenIds) {
+      previews.push(await inspectVariable(tokenId, context));
+    }
+    return previews;
+  }
+
+  /**
+   * Check the document-wide consumers and publish status of each style without writing anything
+   */
+  async previewStyleCleanup(styleIds: string[]): Promise<StyleCleanupPreview[]> {
+    const previews: StyleCleanupPreview[] = [];
+    for (const styleId of styleIds) {
+      previews.push(await inspectStyle(styleId));
+    }
+    return previews;
+  }
+
   /**
    * Clone a text style (local or remote) to a new local style with token replacement
    * This ensures non-destructive editing - the original style is not modified
@@ -431,12 +904,89 @@ export class ReplacementEngine {
     this.stateChangeCallbacks = [];
     this.state = 'idle';
     this.checkpointTitle = undefined;
+    this.journal = null;
   }
 
   // ==========================================================================
   // Private Methods
   // ==========================================================================
 
+  /**
+   * Run an operation: validate, create a checkpoint, process, then complete
+   *
+   * Cancelling is honoured until validation ends. The title may depend on what
+   * validation returns. With a journal type the changed layers are journaled,
+   * and the journal is saved even on failure so they stay revertible. The
+   * result gains the checkpoint title and duration.
+   */
+  private async runOperation<TValidated, TResult extends object>(
+    title: string | ((validated: TValidated) => string),
+    validate: () => TValidated | Promise<TValidated>,
+    process: (validated: TValidated, checkpointTitle: string) => Promise<TResult>,
+    journalType?: ReplacementJournalEntry['operationType']
+  ): Promise<TResult & { checkpointTitle: string; duration: number }> {
+    const startTime = Date.now();
+
+    try {
+      // Step 1: Validation
+      await this.transitionState('validating');
+      const validated = await validate();
+      if (this.cancelRequested) {
+        throw new Error('Replacement cancelled by user');
+      }
+
+      // Step 2: Create checkpoint
+      await this.transitionState('creating_checkpoint');
+      const operationName = typeof title === 'function' ? title(validated) : title;
+      const checkpointTitle = await this.createCheckpoint(operationName);
+      this.checkpointTitle = checkpointTitle;
+      if (journalType) {
+        this.journal = new JournalRecorder(journalType, operationName);
+      }
+      this.emitProgress({
+        state: 'creating_checkpoint',
+        percentage: 10,
+        currentBatch: 0,
+        totalBatches: 0,
+        currentBatchSize: 0,
+        layersProcessed: 0,
+        failedLayers: 0,
+        checkpointTitle,
+      });
+
+      // Step 3: Processing
+      await this.transitionState('processing');
+      const result = await process(validated, checkpointTitle);
+
+      // Step 4: Complete
+      await this.saveJournal(true);
+      await this.transitionState('complete');
+
+      return { ...result, checkpointTitle, duration: Date.now() - startTime };
+    } catch (error) {
+      // Keep the layers already changed revertible
+      await this.saveJournal(false);
+      await this.transitionState('error');
+      throw error;
+    }
+  }
+
+  /**
+   * Persist the undo journal of the current operation
+   * Best-effort: a failed save is logged and never fails the operation itself
+   */
+  private async saveJournal(completed: boolean): Promise<void> {
+    const journal = this.journal;
+    this.journal = null;
+    if (!journal) return;
+
+    try {
+      await journal.save(this.checkpointTitle, completed);
+    } catch (error) {
+      console.error('[Journal] Failed to save operation:', error);
+    }
+  }
+
   /**
    * Transition to new state and notify callbacks
    */
@@ -469,9 +1019,13 @@ export class ReplacementEngine {
 
   /**
    * Process token replacement with adaptive batching and error recovery
+   *
+   * @param offset - Set when this is one pass of a larger operation (a token
+   * remap); progress is then reported against the whole operation
    */
   private async processTokenReplacement(
-    options: TokenReplacementOptions
+    options: TokenReplacementOptions,
+    offset?: ProgressOffset
   ): Promise<Omit<ReplacementResult, 'checkpointTitle' | 'duration'>> {
     const { affectedLayerIds, targetTokenId } = options;
 
@@ -480,6 +1034,8 @@ export class ReplacementEngine {
     const failedLayers: FailedLayer[] = [];
 
     const totalLayers = affectedLayerIds.length;
+    const { layersBefore = 0, failedBefore = 0, totalLayers: overallLayers = totalLayers } =
+      offset ?? {};
 
     // Document-level check for missing fonts
     if (figma.hasMissingFont) {
@@ -508,8 +1064,8 @@ export class ReplacementEngine {
         }
 
         // Emit progress
-        const totalProcessed = layersUpdated + layersFailed;
-        const percentage = Math.round((totalProcessed / totalLayers) * 90) + 10; // 10-100%
+        const totalProcessed = layersBefore + layersUpdated + layersFailed;
+        const percentage = Math.round((totalProcessed / overallLayers) * 90) + 10; // 10-100%
 
         this.emitProgress({
           state: 'processing',
@@ -518,7 +1074,7 @@ export class ReplacementEngine {
           totalBatches: Math.ceil(totalLayers / batchProcessor.getCurrentBatchSize()),
           currentBatchSize: result.batchSize,
           layersProcessed: totalProcessed,
-          failedLayers: layersFailed,
+          failedLayers: failedBefore + layersFailed,
           checkpointTitle: this.checkpointTitle,
         });
       },
@@ -531,69 +1087,31 @@ export class ReplacementEngine {
     const remoteToLocalStyleMap = new Map<string, string>();
 
     // Get the target variable node (required for new API)
-    let targetVariable = await figma.variables.getVariableByIdAsync(targetTokenId);
+    const targetVariable = await this.resolveTargetVariable(targetTokenId);
 
-    // If not found, try to import it as a library token
-    if (!targetVariable) {
-      console.log('[TokenReplacement] Token not found locally, attempting import:', targetTokenId);
+    // Process layers with adaptive batching
+    for await (const _ of batchProcessor.processBatches(affectedLayerIds, async (layerId) => {
+      // Check for cancellation before processing each layer
+      if (this.cancelRequested) {
+        throw new Error('Replacement cancelled by user');
+      }
 
-      // Try importing by key (library tokens)
       try {
-        targetVariable = await figma.variables.importVariableByKeyAsync(targetTokenId);
-        console.log('[TokenReplacement] Successfully imported library token by key');
-      } catch (importError) {
-        console.log('[TokenReplacement] Could not import by key:', importError);
+        // Get the text node
+        const node = await figma.getNodeByIdAsync(layerId);
 
-        // If it contains VariableID: prefix, try stripping it
-        if (targetTokenId.startsWith('VariableID:')) {
-          const keyPart = targetTokenId.replace('VariableID:', '');
-          console.log('[TokenReplacement] Trying with stripped key:', keyPart);
-          try {
-            targetVariable = await figma.variables.importVariableByKeyAsync(keyPart);
-            console.log('[TokenReplacement] Successfully imported with stripped key');
-          } catch (stripError) {
-            console.error('[TokenReplacement] Failed with stripped key:', stripError);
-          }
-        }
-      }
-    }
-
-    if (!targetVariable) {
-      throw new Error(
-        `Target token not found: ${targetTokenId}\n\n` +
-        `This usually means:\n` +
-        `1. The library containing this token is not enabled\n` +
-        `2. The token was deleted or moved\n` +
-        `3. You don't have access to the library\n\n` +
-        `Check Figma menu → Libraries to enable the required library.`
-      );
-    }
-
-    // Process layers with adaptive batching
-    for await (const _ of batchProcessor.processBatches(affectedLayerIds, async (layerId) => {
-      // Check for cancellation before processing each layer
-      if (this.cancelRequested) {
-        throw new Error('Replacement cancelled by user');
-      }
-
-      try {
-        // Get the text node
-        const node = await figma.getNodeByIdAsync(layerId);
-        if (!node || node.type !== 'TEXT') {
-          throw new Error('Layer is not a text node');
-        }
+        // Not text, locked, read-only or missing fonts - check before any font operations
+        assertLayerWritable(node);
 
         const textNode = node as TextNode;
 
-        // Check for missing fonts before attempting any font operations
-        if (textNode.hasMissingFont) {
-          throw new Error('Text node has missing fonts - cannot modify typography properties');
-        }
+        // Record the layer before its bindings or style change
+        this.journal?.capture(textNode);
 
         // DEBUG: Log layer info for investigation
 
         // Check if layer has direct token bindings
-        const boundVariables = node.boundVariables || {};
+        const boundVariables = textNode.boundVariables || {};
         let foundDirectToken = false;
         let foundInStyle = false;
         let replacementCount = 0;
@@ -816,11 +1334,7 @@ export class ReplacementEngine {
         if (!foundDirectToken && !foundInStyle) {
           // Get the actual fontFamily binding to see what token it has
           const fontFamilyBinding = boundVariables.fontFamily;
-          const fontFamilyTokenId = fontFamilyBinding && !Array.isArray(fontFamilyBinding) && 'id' in fontFamilyBinding
-            ? fontFamilyBinding.id
-            : Array.isArray(fontFamilyBinding) && fontFamilyBinding.length > 0 && 'id' in fontFamilyBinding[0]
-            ? fontFamilyBinding[0].id
-            : 'none';
+          const fontFamilyTokenId = fontFamilyBinding?.[0]?.id ?? 'none';
 
           console.error(`[TokenReplacement] FAILURE - Token not found anywhere:`, {
             layerId: layerId,
@@ -866,79 +1380,1034 @@ export class ReplacementEngine {
   }
 
   /**
-   * Validate style replacement options
+   * Narrow the affected layers to the requested scope
    */
-  private async validateStyleReplacement(options: StyleReplacementOptions): Promise<void> {
-    // Check source and target are different
-    if (options.sourceStyleId === options.targetStyleId) {
-      throw new Error('Source and target styles cannot be the same');
+  private async applyScope<T extends { affectedLayerIds: string[]; scope?: ReplacementScope }>(
+    options: T
+  ): Promise<T> {
+    if (!isScopeSet(options.scope)) return options;
+
+    const affectedLayerIds = await filterLayersByScope(options.affectedLayerIds, options.scope);
+    if (affectedLayerIds.length === 0) {
+      throw new Error('None of the affected layers are inside the chosen scope');
     }
 
-    // Verify source style exists
-    const sourceStyle = await figma.getStyleByIdAsync(options.sourceStyleId);
-    if (!sourceStyle || sourceStyle.type !== 'TEXT') {
-      throw new Error('Source style not found');
+    console.log(
+      `[Replacement] Scope kept ${affectedLayerIds.length} of ${options.affectedLayerIds.length} layers`
+    );
+    return { ...options, affectedLayerIds };
+  }
+
+  /**
+   * Narrow a style replacement to its scope, then validate it
+   * Shared by replaceStyle and its dry run, so both check the same layers
+   */
+  private async scopeStyleReplacement(
+    options: StyleReplacementOptions
+  ): Promise<StyleReplacementOptions> {
+    const scoped = await this.applyScope(options);
+    await this.validateStyleReplacement(scoped);
+    return scoped;
+  }
+
+  /**
+   * Narrow a token replacement to its scope, then validate it
+   */
+  private async scopeTokenReplacement(
+    options: TokenReplacementOptions
+  ): Promise<TokenReplacementOptions> {
+    const scoped = await this.applyScope(options);
+    await this.validateTokenReplacement(scoped);
+    return scoped;
+  }
+
+  /**
+   * Run the blocker check and an inspection on each layer, reporting progress
+   */
+  private async inspectLayers(
+    layerIds: string[],
+    inspect: (node: TextNode) => Promise<Omit<DryRunLayerResult, 'layerId' | 'layerName'>>,
+    checkOptions: LayerCheckOptions = {}
+  ): Promise<DryRunLayerResult[]> {
+    const results: DryRunLayerResult[] = [];
+    let blockedLayers = 0;
+
+    for (const layerId of layerIds) {
+      if (this.cancelRequested) {
+        throw new Error('Replacement cancelled by user');
+      }
+
+      const node = await figma.getNodeByIdAsync(layerId);
+      const layerName = node?.name ?? layerId;
+      const blocker = getLayerBlocker(node, checkOptions);
+      if (blocker) blockedLayers++;
+      results.push(
+        blocker
+          ? { layerId, layerName, blocker, changedProperties: [] }
+          : { layerId, layerName, ...(await inspect(node as TextNode)) }
+      );
+
+      this.emitProgress({
+        state: 'processing',
+        percentage: Math.round((results.length / layerIds.length) * 100),
+        currentBatch: 0,
+        totalBatches: 0,
+        currentBatchSize: 0,
+        layersProcessed: results.length,
+        failedLayers: blockedLayers,
+      });
     }
 
-    // Verify target style exists
-    const targetStyle = await figma.getStyleByIdAsync(options.targetStyleId);
-    if (!targetStyle || targetStyle.type !== 'TEXT') {
-      throw new Error('Target style not found');
+    return results;
+  }
+
+  /**
+   * Load both tokens of a remap pair and compare their type and per-mode values
+   */
+  private async inspectTokenPair(mapping: TokenMapping): Promise<TokenRemapPairPreview> {
+    const preview: TokenRemapPairPreview = { ...mapping, modes: [], missingModes: [] };
+
+    let source: Variable;
+    let target: Variable;
+    try {
+      source = await this.resolveTargetVariable(mapping.sourceTokenId);
+      target = await this.resolveTargetVariable(mapping.targetTokenId);
+    } catch (error) {
+      return { ...preview, error: error instanceof Error ? error.message : String(error) };
     }
 
-    // Check affected layers
-    if (!options.affectedLayerIds || options.affectedLayerIds.length === 0) {
-      throw new Error('No layers specified for replacement');
+    if (source.resolvedType !== target.resolvedType) {
+      return {
+        ...preview,
+        typeMismatch: { sourceType: source.resolvedType, targetType: target.resolvedType },
+      };
     }
 
-    // Check for missing fonts in the document and affected layers
-    if (figma.hasMissingFont) {
-      console.warn('[StyleReplacement] Document contains missing fonts');
+    return {
+      ...preview,
+      ...compareModeValues(await readModeValues(source), await readModeValues(target)),
+    };
+  }
 
-      // Scan affected layers to count how many have missing fonts
-      let layersWithMissingFonts = 0;
-      const missingFontLayers: string[] = [];
+  /**
+   * Load the target token, importing it by key when it comes from a library
+   */
+  private async resolveTargetVariable(targetTokenId: string): Promise<Variable> {
+    let targetVariable = await figma.variables.getVariableByIdAsync(targetTokenId);
 
-      for (const layerId of options.affectedLayerIds) {
-        const node = await figma.getNodeByIdAsync(layerId);
-        if (node && node.type === 'TEXT') {
-          const textNode = node as TextNode;
-          if (textNode.hasMissingFont) {
-            layersWithMissingFonts++;
-            missingFontLayers.push(textNode.name);
-            // Only collect first 5 for the warning message
-            if (missingFontLayers.length >= 5) break;
+    // If not found, try to import it as a library token
+    if (!targetVariable) {
+      console.log('[TokenReplacement] Token not found locally, attempting import:', targetTokenId);
+
+      // Try importing by key (library tokens)
+      try {
+        targetVariable = await figma.variables.importVariableByKeyAsync(targetTokenId);
+        console.log('[TokenReplacement] Successfully imported library token by key');
+      } catch (importError) {
+        console.log('[TokenReplacement] Could not import by key:', importError);
+
+        // If it contains VariableID: prefix, try stripping it
+        if (targetTokenId.startsWith('VariableID:')) {
+          const keyPart = targetTokenId.replace('VariableID:', '');
+          console.log('[TokenReplacement] Trying with stripped key:', keyPart);
+          try {
+            targetVariable = await figma.variables.importVariableByKeyAsync(keyPart);
+            console.log('[TokenReplacement] Successfully imported with stripped key');
+          } catch (stripError) {
+            console.error('[TokenReplacement] Failed with stripped key:', stripError);
           }
         }
       }
+    }
 
-      if (layersWithMissingFonts > 0) {
-        // figma.notify has 100 char limit!
-        figma.notify(
-          `⚠️ ${layersWithMissingFonts} selected layers have missing fonts - will fail`,
-          {
-            error: true,
-            timeout: 8000  // Show for 8 seconds
+    if (!targetVariable) {
+      throw new Error(
+        `Target token not found: ${targetTokenId}\n\n` +
+        `This usually means:\n` +
+        `1. The library containing this token is not enabled\n` +
+        `2. The token was deleted or moved\n` +
+        `3. You don't have access to the library\n\n` +
+        `Check Figma menu → Libraries to enable the required library.`
+      );
+    }
+
+    return targetVariable;
+  }
+
+  /**
+   * Process per-layer style assignments with adaptive batching and error recovery
+   *
+   * @param offset - Set when this is one pass of a larger operation (a style
+   * migration); progress is then reported against the whole operation
+   */
+  private async processStyleAssignments(
+    options: StyleAssignmentOptions,
+    offset?: ProgressOffset
+  ): Promise<Omit<ReplacementResult, 'checkpointTitle' | 'duration'>> {
+    const styleIdByLayer = new Map(options.assignments.map((a) => [a.layerId, a.styleId]));
+    const layerIds = Array.from(styleIdByLayer.keys());
+    const totalLayers = layerIds.length;
+    const { layersBefore = 0, failedBefore = 0, totalLayers: overallLayers = totalLayers } =
+      offset ?? {};
+
+    let layersUpdated = 0;
+    let layersFailed = 0;
+    const failedLayers: FailedLayer[] = [];
+
+    // Each target style's font only needs loading once
+    const fontLoads = new Map<string, Promise<void>>();
+    const loadStyleFont = (styleId: string): Promise<void> => {
+      let pending = fontLoads.get(styleId);
+      if (!pending) {
+        pending = (async () => {
+          const style = await figma.getStyleByIdAsync(styleId);
+          if (!style || style.type !== 'TEXT') {
+            throw new Error('Target style not found');
           }
-        );
+          await figma.loadFontAsync((style as TextStyle).fontName);
+        })();
+        fontLoads.set(styleId, pending);
+      }
+      return pending;
+    };
+
+    const batchProcessor = new BatchProcessor({
+      initialBatchSize: 100,
+      minBatchSize: 25,
+      maxBatchSize: 100,
+      successThreshold: 5,
+      onBatchComplete: (result) => {
+        layersUpdated += result.layersProcessed;
+        layersFailed += result.layersFailed;
+
+        for (const error of result.errors) {
+          failedLayers.push({
+            layerId: error.layerId,
+            layerName: error.layerName,
+            reason: error.error.message,
+            retryCount: error.retryCount,
+          });
+        }
+
+        const totalProcessed = layersBefore + layersUpdated + layersFailed;
+        const percentage = Math.round((totalProcessed / overallLayers) * 90) + 10; // 10-100%
+
+        this.emitProgress({
+          state: 'processing',
+          percentage,
+          currentBatch: result.batchNumber,
+          totalBatches: Math.ceil(totalLayers / batchProcessor.getCurrentBatchSize()),
+          currentBatchSize: result.batchSize,
+          layersProcessed: totalProcessed,
+          failedLayers: failedBefore + layersFailed,
+          checkpointTitle: this.checkpointTitle,
+        });
+      },
+    });
+
+    console.log(`Assigning styles to ${totalLayers} layers with adaptive batching`);
+
+    for await (const batchResult of batchProcessor.processBatches(layerIds, async (layerId) => {
+      if (this.cancelRequested) {
+        throw new Error('Replacement cancelled by user');
+      }
+
+      const styleId = styleIdByLayer.get(layerId)!;
+      const retry = await retryWithBackoff(async () => {
+        const node = await figma.getNodeByIdAsync(layerId);
+
+        assertLayerWritable(node);
+
+        await loadStyleFont(styleId);
+        this.journal?.capture(node, styleId);
+        node.textStyleId = styleId;
+      });
 
+      // Surface the final failure so the batch processor records this layer
+      if (!retry.success) {
+        throw retry.error ?? new Error('Style assignment failed');
+      }
+    })) {
+      // Progress emitted via callback; surface failing batches in the console
+      if (batchResult.layersFailed > 0) {
         console.warn(
-          `[StyleReplacement] ${layersWithMissingFonts} of ${options.affectedLayerIds.length} layers have missing fonts:`,
-          missingFontLayers
-        );
-      } else {
-        // Document has missing fonts, but not in affected layers
-        figma.notify(
-          'ℹ️ Document has missing fonts, but none in selected layers',
-          { timeout: 5000 }
+          `[StyleAssignment] Batch ${batchResult.batchNumber}: ${batchResult.layersFailed} layers failed`
         );
       }
     }
+
+    console.log(`Style assignment complete: ${layersUpdated} updated, ${layersFailed} failed`);
+
+    return {
+      success: layersFailed === 0,
+      layersUpdated,
+      layersFailed,
+      failedLayers,
+      hasWarnings: layersFailed > 0,
+    };
   }
 
   /**
-   * Validate token replacement options
+   * Bind each layer's properties with adaptive batching and error recovery
    */
+  private async processTokenBindings(
+    options: TokenBindingOptions
+  ): Promise<Omit<ReplacementResult, 'checkpointTitle' | 'duration'>> {
+    const bindingsByLayer = new Map<string, TokenValueBinding[]>();
+    for (const binding of options.bindings) {
+      const layerBindings = bindingsByLayer.get(binding.layerId) ?? [];
+      layerBindings.push(binding);
+      bindingsByLayer.set(binding.layerId, layerBindings);
+    }
+    const layerIds = Array.from(bindingsByLayer.keys());
+    const totalLayers = layerIds.length;
+
+    let layersUpdated = 0;
+    let layersFailed = 0;
+    const failedLayers: FailedLayer[] = [];
+
+    // Each token only needs resolving (or importing) once
+    const variables = new Map<string, Promise<Variable>>();
+    const getVariable = (tokenId: string): Promise<Variable> => {
+      let pending = variables.get(tokenId);
+      if (!pending) {
+        pending = this.resolveTargetVariable(tokenId);
+        variables.set(tokenId, pending);
+      }
+      return pending;
+    };
+
+    const batchProcessor = new BatchProcessor({
+      initialBatchSize: 100,
+      minBatchSize: 25,
+      maxBatchSize: 100,
+      successThreshold: 5,
+      onBatchComplete: (result) => {
+        layersUpdated += result.layersProcessed;
+        layersFailed += result.layersFailed;
+
+        for (const error of result.errors) {
+          failedLayers.push({
+            layerId: error.layerId,
+            layerName: error.layerName,
+            reason: error.error.message,
+            retryCount: error.retryCount,
+          });
+        }
+
+        const totalProcessed = layersUpdated + layersFailed;
+        const percentage = Math.round((totalProcessed / totalLayers) * 90) + 10; // 10-100%
+
+        this.emitProgress({
+          state: 'processing',
+          percentage,
+          currentBatch: result.batchNumber,
+          totalBatches: Math.ceil(totalLayers / batchProcessor.getCurrentBatchSize()),
+          currentBatchSize: result.batchSize,
+          layersProcessed: totalProcessed,
+          failedLayers: layersFailed,
+          checkpointTitle: this.checkpointTitle,
+        });
+      },
+    });
+
+    console.log(`Binding tokens on ${totalLayers} layers with adaptive batching`);
+
+    for await (const batchResult of batchProcessor.processBatches(layerIds, async (layerId) => {
+      if (this.cancelRequested) {
+        throw new Error('Replacement cancelled by user');
+      }
+
+      const retry = await retryWithBackoff(async () => {
+        const node = await figma.getNodeByIdAsync(layerId);
+
+        assertLayerWritable(node);
+        const textNode = node as TextNode;
+
+        // Binding a text property re-applies it, which needs the layer's fonts
+        await Promise.all(
+          textNode.getRangeAllFontNames(0, textNode.characters.length).map(figma.loadFontAsync)
+        );
+        this.journal?.capture(textNode);
+
+        for (const binding of bindingsByLayer.get(layerId)!) {
+          const variable = await getVariable(binding.tokenId);
+
+          if (binding.property !== 'fills') {
+            textNode.setBoundVariable(binding.property, variable);
+            continue;
+          }
+
+          if (typeof textNode.fills === 'symbol') {
+            throw new Error('Layer has mixed fills');
+          }
+          const solidIndex = textNode.fills.findIndex((paint: Paint) => paint.type === 'SOLID');
+          if (solidIndex === -1) {
+            throw new Error('Layer has no solid fill to bind');
+          }
+          const fills = [...textNode.fills];
+          fills[solidIndex] = figma.variables.setBoundVariableForPaint(
+            fills[solidIndex] as SolidPaint,
+            'color',
+            variable
+          );
+          textNode.fills = fills;
+        }
+      });
+
+      // Surface the final failure so the batch processor records this layer
+      if (!retry.success) {
+        throw retry.error ?? new Error('Token binding failed');
+      }
+    })) {
+      // Progress emitted via callback; surface failing batches in the console
+      if (batchResult.layersFailed > 0) {
+        console.warn(
+          `[TokenBinding] Batch ${batchResult.batchNumber}: ${batchResult.layersFailed} layers failed`
+        );
+      }
+    }
+
+    console.log(`Token binding complete: ${layersUpdated} updated, ${layersFailed} failed`);
+
+    return {
+      success: layersFailed === 0,
+      layersUpdated,
+      layersFailed,
+      failedLayers,
+      hasWarnings: layersFailed > 0,
+    };
+  }
+
+  /**
+   * Restore journaled layers with adaptive batching
+   */
+  private async processRevert(
+    captures: LayerCapture[]
+  ): Promise<Omit<ReplacementResult, 'checkpointTitle' | 'duration'>> {
+    const captureByLayer = new Map(captures.map((capture) => [capture.layerId, capture]));
+    const layerIds = Array.from(captureByLayer.keys());
+    const totalLayers = layerIds.length;
+
+    let layersUpdated = 0;
+    let layersFailed = 0;
+    const failedLayers: FailedLayer[] = [];
+
+    const batchProcessor = new BatchProcessor({
+      initialBatchSize: 100,
+      minBatchSize: 25,
+      maxBatchSize: 100,
+      successThreshold: 5,
+      onBatchComplete: (result) => {
+        layersUpdated += result.layersProcessed;
+        layersFailed += result.layersFailed;
+
+        for (const error of result.errors) {
+          failedLayers.push({
+            layerId: error.layerId,
+            layerName: captureByLayer.get(error.layerId)?.layerName ?? error.layerName,
+            reason: error.error.message,
+            retryCount: error.retryCount,
+          });
+        }
+
+        const totalProcessed = layersUpdated + layersFailed;
+        const percentage = Math.round((totalProcessed / totalLayers) * 90) + 10; // 10-100%
+
+        this.emitProgress({
+          state: 'processing',
+          percentage,
+          currentBatch: result.batchNumber,
+          totalBatches: Math.ceil(totalLayers / batchProcessor.getCurrentBatchSize()),
+          currentBatchSize: result.batchSize,
+          layersProcessed: totalProcessed,
+          failedLayers: layersFailed,
+          checkpointTitle: this.checkpointTitle,
+        });
+      },
+    });
+
+    console.log(`Reverting ${totalLayers} layers with adaptive batching`);
+
+    for await (const batchResult of batchProcessor.processBatches(layerIds, async (layerId) => {
+      if (this.cancelRequested) {
+        throw new Error('Replacement cancelled by user');
+      }
+
+      await restoreLayer(captureByLayer.get(layerId)!);
+    })) {
+      // Progress emitted via callback; surface failing batches in the console
+      if (batchResult.layersFailed > 0) {
+        console.warn(
+          `[Revert] Batch ${batchResult.batchNumber}: ${batchResult.layersFailed} layers failed`
+        );
+      }
+    }
+
+    console.log(`Revert complete: ${layersUpdated} restored, ${layersFailed} failed`);
+
+    return {
+      success: layersFailed === 0,
+      layersUpdated,
+      layersFailed,
+      failedLayers,
+      hasWarnings: layersFailed > 0,
+    };
+  }
+
+  /**
+   * Remove each variable, keeping a backup of those removed
+   *
+   * Failures are recorded per variable rather than retried: removing a
+   * variable does not touch layers, so there is nothing transient to wait out.
+   */
+  private async processTokenCleanup(
+    variables: Array<{ variable: Variable; collection: VariableCollection }>,
+    action: TokenCleanupAction
+  ): Promise<Omit<TokenCleanupResult, 'checkpointTitle' | 'duration'>> {
+    const backup: TokenCleanupBackup = {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      action,
+      variables: [],
+    };
+    const failedLayers: FailedLayer[] = [];
+    const deprecated = action === 'deprecate' ? await getDeprecatedCollection() : null;
+
+    for (const [index, { variable, collection }] of variables.entries()) {
+      try {
+        const variableBackup = backupVariable(variable, collection);
+        if (deprecated) {
+          await deprecateVariable(variableBackup, variable, deprecated);
+        } else {
+          variable.remove();
+        }
+        backup.variables.push(variableBackup);
+      } catch (error) {
+        failedLayers.push({
+          layerId: variable.id,
+          layerName: variable.name,
+          reason: error instanceof Error ? error.message : String(error),
+          retryCount: 0,
+        });
+      }
+
+      this.emitProgress({
+        state: 'processing',
+        percentage: Math.round(((index + 1) / variables.length) * 90) + 10, // 10-100%
+        currentBatch: 1,
+        totalBatches: 1,
+        currentBatchSize: variables.length,
+        layersProcessed: index + 1,
+        failedLayers: failedLayers.length,
+        checkpointTitle: this.checkpointTitle,
+      });
+    }
+
+    console.log(
+      `Token cleanup complete: ${backup.variables.length} removed, ${failedLayers.length} failed`
+    );
+
+    return {
+      success: failedLayers.length === 0,
+      layersUpdated: backup.variables.length,
+      layersFailed: failedLayers.length,
+      failedLayers,
+      hasWarnings: failedLayers.length > 0,
+      backup,
+    };
+  }
+
+  /**
+   * Re-create each backed-up variable
+   */
+  private async processTokenRestore(
+    backup: TokenCleanupBackup
+  ): Promise<Omit<ReplacementResult, 'checkpointTitle' | 'duration'>> {
+    const failedLayers: FailedLayer[] = [];
+    let restored = 0;
+
+    for (const [index, variable] of backup.variables.entries()) {
+      try {
+        if (await restoreVariable(variable)) {
+          restored++;
+        } else {
+          failedLayers.push({
+            layerId: variable.id,
+            layerName: variable.name,
+            reason: `${variable.collectionName} already has a variable named ${variable.name}`,
+            retryCount: 0,
+          });
+        }
+      } catch (error) {
+        failedLayers.push({
+          layerId: variable.id,
+          layerName: variable.name,
+          reason: error instanceof Error ? error.message : String(error),
+          retryCount: 0,
+        });
+      }
+
+      this.emitProgress({
+        state: 'processing',
+        percentage: Math.round(((index + 1) / backup.variables.length) * 90) + 10, // 10-100%
+        currentBatch: 1,
+        totalBatches: 1,
+        currentBatchSize: backup.variables.length,
+        layersProcessed: index + 1,
+        failedLayers: failedLayers.length,
+        checkpointTitle: this.checkpointTitle,
+      });
+    }
+
+    console.log(`Token restore complete: ${restored} restored, ${failedLayers.length} failed`);
+
+    return {
+      success: failedLayers.length === 0,
+      layersUpdated: restored,
+      layersFailed: failedLayers.length,
+      failedLayers,
+      hasWarnings: failedLayers.length > 0,
+    };
+  }
+
+  /**
+   * Delete or rename each style, keeping a backup of those deleted
+   */
+  private async processStyleCleanup(
+    styles: TextStyle[],
+    action: StyleCleanupAction
+  ): Promise<Omit<StyleCleanupResult, 'checkpointTitle' | 'duration'>> {
+    const backup: StyleCleanupBackup = {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      styles: [],
+    };
+    const failedLayers: FailedLayer[] = [];
+    let updated = 0;
+
+    for (const [index, style] of styles.entries()) {
+      try {
+        if (action === 'deprecate') {
+          deprecateStyle(style);
+        } else {
+          const styleBackup = backupTextStyle(style);
+          style.remove();
+          backup.styles.push(styleBackup);
+        }
+        updated++;
+      } catch (error) {
+        failedLayers.push({
+          layerId: style.id,
+          layerName: style.name,
+          reason: error instanceof Error ? error.message : String(error),
+          retryCount: 0,
+        });
+      }
+
+      this.emitProgress({
+        state: 'processing',
+        percentage: Math.round(((index + 1) / styles.length) * 90) + 10, // 10-100%
+        currentBatch: 1,
+        totalBatches: 1,
+        currentBatchSize: styles.length,
+        layersProcessed: index + 1,
+        failedLayers: failedLayers.length,
+        checkpointTitle: this.checkpointTitle,
+      });
+    }
+
+    console.log(`Style cleanup complete: ${updated} updated, ${failedLayers.length} failed`);
+
+    return {
+      success: failedLayers.length === 0,
+      layersUpdated: updated,
+      layersFailed: failedLayers.length,
+      failedLayers,
+      hasWarnings: failedLayers.length > 0,
+      backup: action === 'delete' ? backup : undefined,
+    };
+  }
+
+  /**
+   * Re-create each backed-up style
+   */
+  private async processStyleRestore(
+    backup: StyleCleanupBackup
+  ): Promise<Omit<ReplacementResult, 'checkpointTitle' | 'duration'>> {
+    const failedLayers: FailedLayer[] = [];
+    let restored = 0;
+
+    for (const [index, style] of backup.styles.entries()) {
+      try {
+        if (await restoreTextStyle(style)) {
+          restored++;
+        } else {
+          failedLayers.push({
+            layerId: style.id,
+            layerName: style.name,
+            reason: `A text style named ${style.name} already exists`,
+            retryCount: 0,
+          });
+        }
+      } catch (error) {
+        failedLayers.push({
+          layerId: style.id,
+          layerName: style.name,
+          reason: error instanceof Error ? error.message : String(error),
+          retryCount: 0,
+        });
+      }
+
+      this.emitProgress({
+        state: 'processing',
+        percentage: Math.round(((index + 1) / backup.styles.length) * 90) + 10, // 10-100%
+        currentBatch: 1,
+        totalBatches: 1,
+        currentBatchSize: backup.styles.length,
+        layersProcessed: index + 1,
+        failedLayers: failedLayers.length,
+        checkpointTitle: this.checkpointTitle,
+      });
+    }
+
+    console.log(`Style restore complete: ${restored} restored, ${failedLayers.length} failed`);
+
+    return {
+      success: failedLayers.length === 0,
+      layersUpdated: restored,
+      layersFailed: failedLayers.length,
+      failedLayers,
+      hasWarnings: failedLayers.length > 0,
+    };
+  }
+
+  /**
+   * Validate a revert and load the journaled layers
+   */
+  private validateRevert(options: RevertOperationOptions): {
+    title: string;
+    captures: LayerCapture[];
+  } {
+    const entry = loadJournalEntry(options.entryId);
+    if (!entry) {
+      throw new Error('Operation not found in the undo journal');
+    }
+    if (entry.revertedAt) {
+      throw new Error('Operation has already been reverted');
+    }
+
+    const captures = loadJournalLayers(entry.id);
+    if (captures.length === 0) {
+      throw new Error('No layers were recorded for this operation');
+    }
+
+    return { title: entry.title, captures };
+  }
+
+  /**
+   * Validate style assignment options
+   */
+  private async validateStyleAssignments(options: StyleAssignmentOptions): Promise<void> {
+    if (!options.assignments || options.assignments.length === 0) {
+      throw new Error('No layers specified for style assignment');
+    }
+
+    // Verify every target style exists before the checkpoint is created
+    const styleIds = new Set(options.assignments.map((a) => a.styleId));
+    for (const styleId of styleIds) {
+      const style = await figma.getStyleByIdAsync(styleId);
+      if (!style || style.type !== 'TEXT') {
+        throw new Error(`Target style not found: ${styleId}`);
+      }
+    }
+
+    if (figma.hasMissingFont) {
+      console.warn('[StyleAssignment] Document contains missing fonts');
+    }
+  }
+
+  /**
+   * Validate token binding options
+   */
+  private async validateTokenBindings(options: TokenBindingOptions): Promise<void> {
+    if (!options.bindings || options.bindings.length === 0) {
+      throw new Error('No layers specified for token binding');
+    }
+
+    // Verify every token is reachable before the checkpoint is created
+    const tokenIds = new Set(options.bindings.map((b) => b.tokenId));
+    for (const tokenId of tokenIds) {
+      await this.resolveTargetVariable(tokenId);
+    }
+
+    if (figma.hasMissingFont) {
+      console.warn('[TokenBinding] Document contains missing fonts');
+    }
+  }
+
+  /**
+   * Validate a style cleanup and load the styles
+   *
+   * Consumers are counted across the whole document, including pages the
+   * audit skipped and text inside component instances.
+   */
+  private async validateStyleCleanup(options: StyleCleanupOptions): Promise<TextStyle[]> {
+    if (!options.styleIds || options.styleIds.length === 0) {
+      throw new Error('No styles specified for cleanup');
+    }
+
+    const styles: TextStyle[] = [];
+    for (const styleId of new Set(options.styleIds)) {
+      const style = await figma.getStyleByIdAsync(styleId);
+      if (!style || style.type !== 'TEXT' || style.remote) {
+        throw new Error(`Local text style not found: ${styleId}`);
+      }
+
+      const preview = await inspectStyle(styleId);
+      if (preview.error) {
+        throw new Error(`Cannot check ${style.name}: ${preview.error}`);
+      }
+      if (preview.consumerCount > 0) {
+        throw new Error(`Cannot remove ${style.name}: applied to ${preview.consumerCount} layers`);
+      }
+      if (
+        options.action === 'delete' &&
+        preview.publishStatus !== 'UNPUBLISHED' &&
+        !options.includePublished
+      ) {
+        throw new Error(`Cannot delete ${style.name}: it is published, so other files may use it`);
+      }
+      if (options.action === 'deprecate' && style.name.startsWith(DEPRECATED_STYLE_PREFIX)) {
+        throw new Error(`${style.name} is already deprecated`);
+      }
+      styles.push(style);
+    }
+
+    return styles;
+  }
+
+  /**
+   * Validate a style cleanup backup before anything is re-created
+   */
+  private validateStyleRestore(options: StyleRestoreOptions): void {
+    const { backup } = options;
+    if (!backup || backup.version !== 1 || !Array.isArray(backup.styles)) {
+      throw new Error('Not a style cleanup backup');
+    }
+    if (backup.styles.length === 0) {
+      throw new Error('The backup has no styles to restore');
+    }
+  }
+
+  /**
+   * Validate a token cleanup and load the variables with their collections
+   *
+   * References are checked again here: the audit only counts text layers it
+   * scanned, and the document may have changed since. Deprecating re-creates
+   * the variable under a new key as well, so both actions need the opt-in
+   * for published variables.
+   */
+  private async validateTokenCleanup(
+    options: TokenCleanupOptions
+  ): Promise<Array<{ variable: Variable; collection: VariableCollection }>> {
+    if (!options.tokenIds || options.tokenIds.length === 0) {
+      throw new Error('No tokens specified for cleanup');
+    }
+
+    const context = await loadCleanupContext();
+    const variables: Array<{ variable: Variable; collection: VariableCollection }> = [];
+    for (const tokenId of new Set(options.tokenIds)) {
+      const variable = await figma.variables.getVariableByIdAsync(tokenId);
+      if (!variable) {
+        throw new Error(`Token not found: ${tokenId}`);
+      }
+      const blocker = getCleanupBlocker(variable, context);
+      if (blocker) {
+        throw new Error(`Cannot remove ${variable.name}: ${blocker}`);
+      }
+      if (!options.includePublished && (await variable.getPublishStatusAsync()) !== 'UNPUBLISHED') {
+        throw new Error(
+          `Cannot remove ${variable.name}: it is published, so other files may use it`
+        );
+      }
+      const collection = await figma.variables.getVariableCollectionByIdAsync(
+        variable.variableCollectionId
+      );
+      if (!collection) {
+        throw new Error(`Collection not found for token: ${variable.name}`);
+      }
+      variables.push({ variable, collection });
+    }
+
+    return variables;
+  }
+
+  /**
+   * Validate a token cleanup backup before anything is re-created
+   */
+  private validateTokenRestore(options: TokenRestoreOptions): void {
+    const { backup } = options;
+    if (!backup || backup.version !== 1 || !Array.isArray(backup.variables)) {
+      throw new Error('Not a token cleanup backup');
+    }
+    if (backup.variables.length === 0) {
+      throw new Error('The backup has no variables to restore');
+    }
+  }
+
+  /**
+   * Validate a style migration's mapping table
+   */
+  private async validateStyleMigration(options: StyleMigrationOptions): Promise<void> {
+    if (!options.mappings || options.mappings.length === 0) {
+      throw new Error('No style mappings specified for migration');
+    }
+
+    const seenSources = new Set<string>();
+    const seenLayers = new Set<string>();
+
+    for (const mapping of options.mappings) {
+      if (mapping.sourceStyleId === mapping.targetStyleId) {
+        throw new Error(`Source and target styles cannot be the same: ${mapping.sourceStyleId}`);
+      }
+      if (seenSources.has(mapping.sourceStyleId)) {
+        throw new Error(`Source style is mapped more than once: ${mapping.sourceStyleId}`);
+      }
+      seenSources.add(mapping.sourceStyleId);
+
+      if (!mapping.affectedLayerIds || mapping.affectedLayerIds.length === 0) {
+        throw new Error(`No layers specified for source style: ${mapping.sourceStyleId}`);
+      }
+      for (const layerId of mapping.affectedLayerIds) {
+        if (seenLayers.has(layerId)) {
+          throw new Error(`Layer ${layerId} appears in more than one mapping`);
+        }
+        seenLayers.add(layerId);
+      }
+    }
+
+    // Verify every target style exists before the checkpoint is created
+    const targetStyleIds = new Set(options.mappings.map((m) => m.targetStyleId));
+    for (const styleId of targetStyleIds) {
+      const style = await figma.getStyleByIdAsync(styleId);
+      if (!style || style.type !== 'TEXT') {
+        throw new Error(`Target style not found: ${styleId}`);
+      }
+    }
+
+    if (figma.hasMissingFont) {
+      console.warn('[StyleMigration] Document contains missing fonts');
+    }
+  }
+
+  /**
+   * Validate style replacement options
+   */
+  private async validateStyleReplacement(options: StyleReplacementOptions): Promise<void> {
+    // Check source and target are different
+    if (options.sourceStyleId === options.targetStyleId) {
+      throw new Error('Source and target styles cannot be the same');
+    }
+
+    // Verify source style exists
+    const sourceStyle = await figma.getStyleByIdAsync(options.sourceStyleId);
+    if (!sourceStyle || sourceStyle.type !== 'TEXT') {
+      throw new Error('Source style not found');
+    }
+
+    // Verify target style exists
+    const targetStyle = await figma.getStyleByIdAsync(options.targetStyleId);
+    if (!targetStyle || targetStyle.type !== 'TEXT') {
+      throw new Error('Target style not found');
+    }
+
+    // Check affected layers
+    if (!options.affectedLayerIds || options.affectedLayerIds.length === 0) {
+      throw new Error('No layers specified for replacement');
+    }
+
+    // Check for missing fonts in the document and affected layers
+    if (figma.hasMissingFont) {
+      console.warn('[StyleReplacement] Document contains missing fonts');
+
+      // Scan affected layers to count how many have missing fonts
+      let layersWithMissingFonts = 0;
+      const missingFontLayers: string[] = [];
+
+      for (const layerId of options.affectedLayerIds) {
+        const node = await figma.getNodeByIdAsync(layerId);
+        if (node && node.type === 'TEXT') {
+          const textNode = node as TextNode;
+          if (textNode.hasMissingFont) {
+            layersWithMissingFonts++;
+            missingFontLayers.push(textNode.name);
+            // Only collect first 5 for the warning message
+            if (missingFontLayers.length >= 5) break;
+          }
+        }
+      }
+
+      if (layersWithMissingFonts > 0) {
+        // figma.notify has 100 char limit!
+        figma.notify(
+          `⚠️ ${layersWithMissingFonts} selected layers have missing fonts - will fail`,
+          {
+            error: true,
+            timeout: 8000  // Show for 8 seconds
+          }
+        );
+
+        console.warn(
+          `[StyleReplacement] ${layersWithMissingFonts} of ${options.affectedLayerIds.length} layers have missing fonts:`,
+          missingFontLayers
+        );
+      } else {
+        // Document has missing fonts, but not in affected layers
+        figma.notify(
+          'ℹ️ Document has missing fonts, but none in selected layers',
+          { timeout: 5000 }
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate token replacement options
+   */
+  private async validateTokenRemap(options: TokenRemapOptions): Promise<void> {
+    if (!options.mappings || options.mappings.length === 0) {
+      throw new Error('No token mappings specified for remap');
+    }
+
+    const seenSources = new Set<string>();
+    for (const mapping of options.mappings) {
+      if (mapping.sourceTokenId === mapping.targetTokenId) {
+        throw new Error(`Source and target tokens cannot be the same: ${mapping.sourceTokenId}`);
+      }
+      if (seenSources.has(mapping.sourceTokenId)) {
+        throw new Error(`Source token is mapped more than once: ${mapping.sourceTokenId}`);
+      }
+      seenSources.add(mapping.sourceTokenId);
+
+      if (!mapping.affectedLayerIds || mapping.affectedLayerIds.length === 0) {
+        throw new Error(`No layers specified for source token: ${mapping.sourceTokenId}`);
+      }
+    }
+
+    // Types and modes are checked before the checkpoint is created
+    for (const mapping of options.mappings) {
+      const problem = getRemapProblem(await this.inspectTokenPair(mapping));
+      if (problem) {
+        throw new Error(`Cannot remap ${mapping.sourceTokenId}: ${problem}`);
+      }
+    }
+
+    if (figma.hasMissingFont) {
+      console.warn('[TokenRemap] Document contains missing fonts');
+    }
+  }
+
   private async validateTokenReplacement(options: TokenReplacementOptions): Promise<void> {
     // Check source and target are different
     if (options.sourceTokenId === options.targetTokenId) {
@@ -0,0 +1,69 @@
+/**
+ * Replacement Scope - Limit a replacement to part of the file
+ *
+ * Teams migrate one product area at a time, so a replacement can be limited
+ * to the current selection, some pages, text inside main components or
+ * instances, or a component path pattern. Component paths are built the same
+ * way the audit builds them, so patterns match what the results show.
+ */
+
+import type { ReplacementScope } from '@/shared/types';
+import { getParentContext } from '../audit/scanner';
+import { matchesAnyGlob } from '@/shared/glob';
+
+/**
+ * Whether the scope restricts anything
+ */
+export function isScopeSet(scope: ReplacementScope | undefined): scope is ReplacementScope {
+  return (
+    !!scope &&
+    (!!scope.selectionOnly ||
+      !!scope.pageIds ||
+      !!scope.componentContext ||
+      !!scope.componentPathPattern?.trim())
+  );
+}
+
+/**
+ * Keep the layers inside the scope (layers that no longer exist are dropped)
+ */
+export async function filterLayersByScope(
+  layerIds: string[],
+  scope: ReplacementScope | undefined
+): Promise<string[]> {
+  if (!isScopeSet(scope)) return layerIds;
+
+  const selectedIds = new Set(figma.currentPage.selection.map((node: SceneNode) => node.id));
+  const pageIds = scope.pageIds ? new Set(scope.pageIds) : null;
+  const pattern = scope.componentPathPattern?.trim();
+
+  const inScope: string[] = [];
+  for (const layerId of layerIds) {
+    const node = await figma.getNodeByIdAsync(layerId);
+    if (!node || node.type !== 'TEXT') continue;
+
+    let page: BaseNode | null = null;
+    let selected = false;
+    let inMainComponent = false;
+    let inInstance = false;
+    for (let current: BaseNode | null = node; current; current = current.parent) {
+      if (selectedIds.has(current.id)) selected = true;
+      if (current.type === 'COMPONENT' || current.type === 'COMPONENT_SET') inMainComponent = true;
+      if (current.type === 'INSTANCE') inInstance = true;
+      if (current.type === 'PAGE') page = current;
+    }
+
+    if (scope.selectionOnly && !selected) continue;
+    if (pageIds && (!page || !pageIds.has(page.id))) continue;
+    if (scope.componentContext === 'main_component' && !inMainComponent) continue;
+    if (scope.componentContext === 'instance' && !inInstance) continue;
+    if (pattern) {
+      const componentPath = getParentContext(node as TextNode).componentPath;
+      if (!componentPath || !matchesAnyGlob(componentPath, [pattern])) continue;
+    }
+
+    inScope.push(layerId);
+  }
+
+  return inScope;
+}
@@ -0,0 +1,124 @@
+/**
+ * Style Cleanup - Remove or deprecate unused local text styles
+ *
+ * The audit only counts layers on the pages it scanned, so every style is
+ * checked again against its consumers across the whole document. Other files
+ * cannot be searched from a plugin; a published style is the closest signal
+ * that instances elsewhere may still apply it, so deleting one has to be
+ * allowed explicitly. Renaming with the deprecated prefix keeps the style and
+ * its key, and is always safe.
+ */
+
+import type { StyleCleanupPreview, TextStyleBackup } from '@/shared/types';
+
+export const DEPRECATED_STYLE_PREFIX = 'zz-deprecated/';
+
+/**
+ * Layers applying the style anywhere in the document, and its publish status
+ */
+export async function inspectStyle(styleId: string): Promise<StyleCleanupPreview> {
+  try {
+    const style = await figma.getStyleByIdAsync(styleId);
+    if (!style || style.type !== 'TEXT' || style.remote) {
+      return {
+        styleId,
+        consumerCount: 0,
+        publishStatus: 'UNPUBLISHED',
+        error: 'Local text style not found',
+      };
+    }
+    return {
+      styleId,
+      consumerCount: (await style.getStyleConsumersAsync()).length,
+      publishStatus: await style.getPublishStatusAsync(),
+    };
+  } catch (error) {
+    return {
+      styleId,
+      consumerCount: 0,
+      publishStatus: 'UNPUBLISHED',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Snapshot a text style's properties and variable bindings
+ */
+export function backupTextStyle(style: TextStyle): TextStyleBackup {
+  const boundVariables: TextStyleBackup['boundVariables'] = {};
+  for (const [field, alias] of Object.entries(style.boundVariables ?? {})) {
+    if (alias) boundVariables[field] = alias.id;
+  }
+
+  return {
+    id: style.id,
+    key: style.key,
+    name: style.name,
+    description: style.description,
+    fontName: { ...style.fontName },
+    fontSize: style.fontSize,
+    lineHeight: { ...style.lineHeight },
+    letterSpacing: { ...style.letterSpacing },
+    paragraphSpacing: style.paragraphSpacing,
+    paragraphIndent: style.paragraphIndent,
+    listSpacing: style.listSpacing,
+    textCase: style.textCase,
+    textDecoration: style.textDecoration,
+    leadingTrim: style.leadingTrim,
+    hangingPunctuation: style.hangingPunctuation,
+    hangingList: style.hangingList,
+    boundVariables,
+  };
+}
+
+/**
+ * Rename a style into the deprecated group, so it sorts last and reads as retired
+ */
+export function deprecateStyle(style: TextStyle): void {
+  if (!style.name.startsWith(DEPRECATED_STYLE_PREFIX)) {
+    style.name = `${DEPRECATED_STYLE_PREFIX}${style.name}`;
+  }
+}
+
+/**
+ * Re-create a text style from a cleanup backup
+ *
+ * Bindings to variables that no longer exist are skipped; the style keeps the
+ * backed-up raw value for those fields.
+ *
+ * @returns False when a local text style of that name already exists
+ */
+export async function restoreTextStyle(backup: TextStyleBackup): Promise<boolean> {
+  const existing = await figma.getLocalTextStylesAsync();
+  if (existing.some((style: TextStyle) => style.name === backup.name)) return false;
+
+  await figma.loadFontAsync(backup.fontName);
+
+  const style = figma.createTextStyle();
+  style.name = backup.name;
+  style.description = backup.description;
+  style.fontName = backup.fontName;
+  style.fontSize = backup.fontSize;
+  style.lineHeight = backup.lineHeight;
+  style.letterSpacing = backup.letterSpacing;
+  style.paragraphSpacing = backup.paragraphSpacing;
+  style.paragraphIndent = backup.paragraphIndent;
+  style.listSpacing = backup.listSpacing;
+  style.textCase = backup.textCase as TextCase;
+  style.textDecoration = backup.textDecoration as TextDecoration;
+  style.leadingTrim = backup.leadingTrim as LeadingTrim;
+  style.hangingPunctuation = backup.hangingPunctuation;
+  style.hangingList = backup.hangingList;
+
+  for (const [field, variableId] of Object.entries(backup.boundVariables)) {
+    const variable = await figma.variables.getVariableByIdAsync(variableId);
+    if (variable) {
+      style.setBoundVariable(field as VariableBindableTextField, variable);
+    } else {
+      console.warn(`[StyleCleanup] ${backup.name}: variable for ${field} no longer exists`);
+    }
+  }
+
+  return true;
+}
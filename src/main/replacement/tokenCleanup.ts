@@ -0,0 +1,316 @@
+/**
+ * Token Cleanup - Remove unused local variables, keeping a backup to restore them
+ *
+ * A variable is only removed when nothing depends on it: no layer of any type
+ * binds it, no other local variable aliases it and no local style binds it.
+ * Published variables may be used by other files, so deleting one is opt-in.
+ * Deprecating moves it into a "Deprecated" collection instead of deleting it;
+ * the collection's modes are matched by name. Either way the backup holds the
+ * variable's values in every mode, so it can be re-created later.
+ */
+
+import type { TokenCleanupPreview, VariableBackup, VariableBackupValue } from '@/shared/types';
+import { isVariableAlias } from '../utils/tokenDetection';
+
+export const DEPRECATED_COLLECTION_NAME = 'Deprecated';
+
+const CODE_SYNTAX_PLATFORMS = ['WEB', 'ANDROID', 'iOS'] as const;
+
+// Node and style properties that hold variable aliases, directly or inside paints and effects
+const NODE_BINDING_FIELDS = [
+  'boundVariables',
+  'fills',
+  'strokes',
+  'effects',
+  'layoutGrids',
+  'componentProperties',
+] as const;
+const STYLE_BINDING_FIELDS = ['boundVariables', 'paints', 'effects', 'layoutGrids'] as const;
+
+/**
+ * Everything in the document that still references a variable, by variable ID
+ */
+export interface CleanupContext {
+  /** Layers of any type binding the variable, on any page */
+  layerCounts: Map<string, number>;
+  /** First local variable aliasing it */
+  aliasedBy: Map<string, string>;
+  /** First local paint, text, effect or grid style binding it */
+  boundByStyle: Map<string, string>;
+}
+
+/**
+ * Collect every variable reference in the document in one pass
+ *
+ * Layers are checked whatever their type, since fills, strokes, effects,
+ * layout grids, spacing and corner radii can all be bound, and paints carry
+ * their own color bindings.
+ */
+export async function loadCleanupContext(): Promise<CleanupContext> {
+  const context: CleanupContext = {
+    layerCounts: new Map(),
+    aliasedBy: new Map(),
+    boundByStyle: new Map(),
+  };
+
+  for (const page of figma.root.children) {
+    for (const node of page.findAll()) {
+      const ids = new Set<string>();
+      for (const field of NODE_BINDING_FIELDS) {
+        collectAliasIds(readField(node, field), ids);
+      }
+      for (const id of ids) {
+        context.layerCounts.set(id, (context.layerCounts.get(id) ?? 0) + 1);
+      }
+    }
+  }
+
+  for (const variable of await figma.variables.getLocalVariablesAsync()) {
+    const ids = new Set<string>();
+    collectAliasIds(variable.valuesByMode, ids);
+    for (const id of ids) {
+      if (id !== variable.id && !context.aliasedBy.has(id))
+        context.aliasedBy.set(id, variable.name);
+    }
+  }
+
+  const styles: BaseStyle[] = [
+    ...(await figma.getLocalPaintStylesAsync()),
+    ...(await figma.getLocalTextStylesAsync()),
+    ...(await figma.getLocalEffectStylesAsync()),
+    ...(await figma.getLocalGridStylesAsync()),
+  ];
+  for (const style of styles) {
+    const ids = new Set<string>();
+    for (const field of STYLE_BINDING_FIELDS) {
+      collectAliasIds(readField(style, field), ids);
+    }
+    for (const id of ids) {
+      if (!context.boundByStyle.has(id)) context.boundByStyle.set(id, style.name);
+    }
+  }
+
+  return context;
+}
+
+/**
+ * Why a variable cannot be removed, or null when nothing depends on it
+ */
+export function getCleanupBlocker(variable: Variable, context: CleanupContext): string | null {
+  if (variable.remote) return 'it comes from a library';
+
+  const layerCount = context.layerCounts.get(variable.id) ?? 0;
+  if (layerCount > 0) return `bound to ${layerCount} layers`;
+
+  const alias = context.aliasedBy.get(variable.id);
+  if (alias) return `aliased by ${alias}`;
+
+  const style = context.boundByStyle.get(variable.id);
+  if (style) return `bound by the style ${style}`;
+
+  return null;
+}
+
+/**
+ * What still references a variable, and its publish status
+ */
+export async function inspectVariable(
+  tokenId: string,
+  context: CleanupContext
+): Promise<TokenCleanupPreview> {
+  try {
+    const variable = await figma.variables.getVariableByIdAsync(tokenId);
+    if (!variable) {
+      return { tokenId, publishStatus: 'UNPUBLISHED', error: 'Variable not found' };
+    }
+    return {
+      tokenId,
+      blocker: getCleanupBlocker(variable, context) ?? undefined,
+      publishStatus: await variable.getPublishStatusAsync(),
+    };
+  } catch (error) {
+    return {
+      tokenId,
+      publishStatus: 'UNPUBLISHED',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Snapshot a variable with its values in every mode of its collection
+ */
+export function backupVariable(variable: Variable, collection: VariableCollection): VariableBackup {
+  const codeSyntax: VariableBackup['codeSyntax'] = {};
+  for (const platform of CODE_SYNTAX_PLATFORMS) {
+    const syntax = variable.codeSyntax[platform];
+    if (syntax) codeSyntax[platform] = syntax;
+  }
+
+  return {
+    id: variable.id,
+    name: variable.name,
+    description: variable.description,
+    resolvedType: variable.resolvedType,
+    scopes: [...variable.scopes],
+    hiddenFromPublishing: variable.hiddenFromPublishing,
+    codeSyntax,
+    collectionId: collection.id,
+    collectionName: collection.name,
+    // Default mode first
+    values: [...collection.modes]
+      .sort(
+        (a: VariableCollection['modes'][number], b: VariableCollection['modes'][number]) =>
+          Number(b.modeId === collection.defaultModeId) -
+          Number(a.modeId === collection.defaultModeId)
+      )
+      .filter((m: VariableCollection['modes'][number]) => m.modeId in variable.valuesByMode)
+      .map((m: VariableCollection['modes'][number]) => ({
+        modeId: m.modeId,
+        modeName: m.name,
+        value: variable.valuesByMode[m.modeId] as VariableBackupValue,
+      })),
+  };
+}
+
+/**
+ * Move a variable into the deprecated collection, then remove the original
+ *
+ * Names are prefixed with the source collection so variables of the same name
+ * from different collections do not collide.
+ */
+export async function deprecateVariable(
+  backup: VariableBackup,
+  variable: Variable,
+  deprecated: VariableCollection
+): Promise<void> {
+  const copy = await createVariableFromBackup(
+    { ...backup, name: `${backup.collectionName}/${backup.name}` },
+    deprecated
+  );
+  if (!copy) {
+    throw new Error(
+      `${DEPRECATED_COLLECTION_NAME} already has ${backup.collectionName}/${backup.name}`
+    );
+  }
+  variable.remove();
+}
+
+/**
+ * Find the local deprecated collection, creating it when missing
+ */
+export async function getDeprecatedCollection(): Promise<VariableCollection> {
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  return (
+    collections.find(
+      (collection: VariableCollection) => collection.name === DEPRECATED_COLLECTION_NAME
+    ) ?? figma.variables.createVariableCollection(DEPRECATED_COLLECTION_NAME)
+  );
+}
+
+/**
+ * Re-create a variable from a cleanup backup
+ *
+ * The variable goes back into its collection, found by ID or else by name;
+ * a missing collection is re-created with the backup's modes.
+ *
+ * @returns False when the collection already has a variable of that name
+ */
+export async function restoreVariable(backup: VariableBackup): Promise<boolean> {
+  const collection = await findCollection(backup);
+  return (await createVariableFromBackup(backup, collection)) !== null;
+}
+
+async function findCollection(backup: VariableBackup): Promise<VariableCollection> {
+  const byId = await figma.variables.getVariableCollectionByIdAsync(backup.collectionId);
+  if (byId && !byId.remote) return byId;
+
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  const byName = collections.find(
+    (collection: VariableCollection) => collection.name === backup.collectionName
+  );
+  if (byName) return byName;
+
+  const created = figma.variables.createVariableCollection(backup.collectionName);
+  backup.values.forEach(({ modeName }, index) => {
+    // Extra modes need a paid plan; their values then fall back to the default mode
+    try {
+      if (index === 0) created.renameMode(created.defaultModeId, modeName);
+      else created.addMode(modeName);
+    } catch (error) {
+      console.warn(`[TokenCleanup] Could not add mode ${modeName}:`, error);
+    }
+  });
+  return created;
+}
+
+async function createVariableFromBackup(
+  backup: VariableBackup,
+  collection: VariableCollection
+): Promise<Variable | null> {
+  const existing = await figma.variables.getLocalVariablesAsync(backup.resolvedType);
+  const nameTaken = existing.some(
+    (other: Variable) => other.variableCollectionId === collection.id && other.name === backup.name
+  );
+  if (nameTaken) return null;
+
+  const variable = figma.variables.createVariable(backup.name, collection, backup.resolvedType);
+  variable.description = backup.description;
+  variable.scopes = backup.scopes as VariableScope[];
+  variable.hiddenFromPublishing = backup.hiddenFromPublishing;
+  for (const platform of CODE_SYNTAX_PLATFORMS) {
+    const syntax = backup.codeSyntax[platform];
+    if (syntax) variable.setVariableCodeSyntax(platform, syntax);
+  }
+
+  let restoredValues = 0;
+  for (const [index, { modeId, modeName, value }] of backup.values.entries()) {
+    const mode =
+      collection.modes.find((m: VariableCollection['modes'][number]) => m.modeId === modeId) ??
+      collection.modes.find((m: VariableCollection['modes'][number]) => m.name === modeName);
+    // The first value is the source's default mode; it fills an unmatched default
+    const targetModeId = mode?.modeId ?? (index === 0 ? collection.defaultModeId : null);
+    if (!targetModeId || !(await isRestorableValue(value))) continue;
+    variable.setValueForMode(targetModeId, value as VariableValue);
+    restoredValues++;
+  }
+  if (restoredValues === 0) {
+    console.warn(`[TokenCleanup] No values of ${backup.name} could be restored`);
+  }
+
+  return variable;
+}
+
+/**
+ * Aliases can only be restored while the aliased variable still exists
+ */
+async function isRestorableValue(value: VariableBackupValue): Promise<boolean> {
+  if (!isVariableAlias(value)) return true;
+  return (await figma.variables.getVariableByIdAsync(value.id)) !== null;
+}
+
+/**
+ * A property that may be missing on this node or style type, or throw when read
+ * (componentProperties outside a valid instance)
+ */
+function readField(target: object, field: string): unknown {
+  if (!(field in target)) return undefined;
+  try {
+    return (target as Record<string, unknown>)[field];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Add the IDs of every variable alias nested in a property value
+ */
+function collectAliasIds(value: unknown, ids: Set<string>): void {
+  if (isVariableAlias(value)) {
+    ids.add(value.id);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectAliasIds(item, ids);
+  } else if (typeof value === 'object' && value !== null) {
+    for (const item of Object.values(value)) collectAliasIds(item, ids);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Token Remap - Rebind tokens of one collection to their counterparts in another
+ *
+ * Every collection has its own mode IDs, so modes are matched by name; a
+ * target with a single mode applies to every source mode. Values are compared
+ * after resolving aliases, so a semantic token pointing at a primitive with
+ * the same value does not count as a change.
+ */
+
+import type { TokenRemapPairPreview } from '@/shared/types';
+import { followAlias, formatTokenValue, type VariableCache } from '../utils/tokenDetection';
+
+/**
+ * Resolved value of a variable in one mode of its collection
+ */
+export interface ModeValue {
+  modeName: string;
+  value: string;
+}
+
+/**
+ * Pair each source mode with the target's value for it
+ */
+export function compareModeValues(
+  sourceModes: ModeValue[],
+  targetModes: ModeValue[]
+): Pick<TokenRemapPairPreview, 'modes' | 'missingModes'> {
+  const targetByName = new Map(targetModes.map((mode) => [normalizeModeName(mode.modeName), mode]));
+  const singleMode = targetModes.length === 1 ? targetModes[0] : undefined;
+
+  const modes = sourceModes.map(({ modeName, value }) => {
+    const target = targetByName.get(normalizeModeName(modeName)) ?? singleMode;
+    const targetValue = target ? target.value : null;
+    return { modeName, sourceValue: value, targetValue, changed: targetValue !== value };
+  });
+
+  return {
+    modes,
+    missingModes: modes.filter((mode) => mode.targetValue === null).map((mode) => mode.modeName),
+  };
+}
+
+/**
+ * Why a pair cannot be remapped, or null when it can
+ */
+export function getRemapProblem(preview: TokenRemapPairPreview): string | null {
+  if (preview.error) return preview.error;
+  if (preview.typeMismatch) {
+    return `${preview.typeMismatch.sourceType} token cannot be remapped to a ${preview.typeMismatch.targetType} token`;
+  }
+  if (preview.missingModes.length > 0) {
+    return `Target has no value for ${preview.missingModes.map((name) => `"${name}"`).join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Resolved value of a variable in every mode of its collection
+ *
+ * Aliases continue in the mode of the same name in each aliased local
+ * collection, else in that collection's default mode.
+ */
+export async function readModeValues(variable: Variable): Promise<ModeValue[]> {
+  const cache: VariableCache = { variables: new Map(), collections: new Map() };
+  const collection = await figma.variables.getVariableCollectionByIdAsync(
+    variable.variableCollectionId
+  );
+  const modes =
+    collection?.modes ??
+    Object.keys(variable.valuesByMode).map((modeId) => ({ modeId, name: modeId }));
+  const localCollections = await figma.variables.getLocalVariableCollectionsAsync();
+
+  const values: ModeValue[] = [];
+  for (const mode of modes) {
+    const resolved = await followAlias(
+      variable,
+      mode.modeId,
+      variable.valuesByMode[mode.modeId],
+      cache,
+      getModesNamed(mode.name, localCollections)
+    );
+    const value =
+      resolved.error === 'missing'
+        ? 'Missing alias'
+        : resolved.error === 'cycle'
+          ? 'Alias cycle'
+          : formatTokenValue(resolved.value, variable.resolvedType);
+    values.push({ modeName: mode.name, value });
+  }
+  return values;
+}
+
+/**
+ * Mode of the given name in each collection that has one, by collection ID
+ */
+function getModesNamed(
+  modeName: string,
+  collections: VariableCollection[]
+): Record<string, string> {
+  const modes: Record<string, string> = {};
+  for (const collection of collections) {
+    const mode = collection.modes.find(
+      (m: VariableCollection['modes'][number]) =>
+        normalizeModeName(m.name) === normalizeModeName(modeName)
+    );
+    if (mode) modes[collection.id] = mode.modeId;
+  }
+  return modes;
+}
+
+function normalizeModeName(name: string): string {
+  return name.trim().toLowerCase();
+}
@@ -0,0 +1,448 @@
+/**
+ * Undo Journal - Per-operation record of replaced layers, persisted in the document
+ *
+ * Before a replacement changes a layer, the journal captures the layer's text
+ * style, typography and variable bindings for each styled range, plus its
+ * fills with their color bindings. Operations are stored as plugin data on
+ * the document root: the summary under "replacementJournal:<id>" and the
+ * captured layers, in chunks that stay well below plugin data limits, under
+ * "replacementJournalLayers:<id>:<n>".
+ * Reverting an operation restores exactly the captured layers, without going
+ * back through version history.
+ */
+
+import type { JournalStyleChange, ReplacementJournalEntry } from '@/shared/types';
+
+const ENTRY_KEY_PREFIX = 'replacementJournal:';
+const LAYERS_KEY_PREFIX = 'replacementJournalLayers:';
+
+/** Oldest operations are dropped beyond this */
+const MAX_ENTRIES = 50;
+
+/** Captured layers are split so no single plugin data value exceeds this length */
+const MAX_CHUNK_LENGTH = 90000;
+
+/** Typography fields that text styles and variables can set */
+const TEXT_FIELDS: VariableBindableTextField[] = [
+  'fontFamily',
+  'fontSize',
+  'fontStyle',
+  'fontWeight',
+  'letterSpacing',
+  'lineHeight',
+  'paragraphSpacing',
+  'paragraphIndent',
+];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Style, typography and variable bindings of one styled range before the operation
+ */
+interface SegmentCapture {
+  start: number;
+  end: number;
+  textStyleId: string;
+  fontName: FontName;
+  fontSize: number;
+  lineHeight: LineHeight;
+  letterSpacing: LetterSpacing;
+  textCase: TextCase;
+  textDecoration: TextDecoration;
+  paragraphSpacing: number;
+  paragraphIndent: number;
+  boundVariables: Partial<Record<VariableBindableTextField, string>>; // Field → variable ID
+}
+
+/**
+ * A layer as it was before the operation changed it
+ */
+export interface LayerCapture {
+  layerId: string;
+  layerName: string;
+  length: number; // Character count; ranges only apply while the text is unchanged
+  segments: SegmentCapture[];
+  fills?: Paint[]; // Unset when the ranges have different fills
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Records the layers of one replacement operation as it runs
+ *
+ * `capture` must be called before a layer is changed; a layer is recorded
+ * once, so retries keep its original state. `save` persists the operation,
+ * including partial runs that failed or were cancelled.
+ */
+export class JournalRecorder {
+  private readonly id = String(Date.now());
+  private readonly timestamp = new Date().toISOString();
+  private readonly captures = new Map<string, LayerCapture>();
+  private readonly styleChanges = new Map<string, Omit<JournalStyleChange, 'toStyleName'>>();
+  private readonly operationType: ReplacementJournalEntry['operationType'];
+  private readonly title: string;
+
+  /**
+   * @param title - Operation name shown in the journal (e.g. "Style Migration")
+   */
+  constructor(operationType: ReplacementJournalEntry['operationType'], title: string) {
+    this.operationType = operationType;
+    this.title = title;
+  }
+
+  /**
+   * Record a layer's current state
+   *
+   * @param targetStyleId - Style the layer is about to receive, tallied as a style change
+   */
+  capture(node: TextNode, targetStyleId?: string): void {
+    if (this.captures.has(node.id)) return;
+    this.captures.set(node.id, captureLayer(node));
+
+    const fromStyleId = node.textStyleId;
+    if (!targetStyleId || typeof fromStyleId !== 'string' || !fromStyleId) return;
+    if (fromStyleId === targetStyleId) return;
+
+    const key = `${fromStyleId}|${targetStyleId}`;
+    const change = this.styleChanges.get(key);
+    if (change) {
+      change.layerCount++;
+    } else {
+      this.styleChanges.set(key, { fromStyleId, toStyleId: targetStyleId, layerCount: 1 });
+    }
+  }
+
+  /**
+   * Persist the operation and return its entry (null when no layer was recorded)
+   */
+  async save(
+    checkpointTitle: string | undefined,
+    completed: boolean
+  ): Promise<ReplacementJournalEntry | null> {
+    if (this.captures.size === 0) return null;
+
+    const styleChanges: JournalStyleChange[] = [];
+    for (const change of this.styleChanges.values()) {
+      const style = await figma.getStyleByIdAsync(change.toStyleId);
+      styleChanges.push({ ...change, toStyleName: style?.name ?? change.toStyleId });
+    }
+
+    const entry: ReplacementJournalEntry = {
+      id: this.id,
+      operationType: this.operationType,
+      title: this.title,
+      timestamp: this.timestamp,
+      layerCount: this.captures.size,
+      checkpointTitle,
+      completed,
+      styleChanges,
+    };
+
+    writeLayers(this.id, Array.from(this.captures.values()));
+    figma.root.setPluginData(`${ENTRY_KEY_PREFIX}${this.id}`, JSON.stringify(entry));
+    pruneJournal();
+
+    return entry;
+  }
+}
+
+function captureLayer(node: TextNode): LayerCapture {
+  const length = node.characters.length;
+
+  // Empty text has no ranges; its node-level values are never mixed
+  const segments: SegmentCapture[] =
+    length === 0
+      ? [
+          {
+            start: 0,
+            end: 0,
+            textStyleId: node.textStyleId as string,
+            fontName: node.fontName as FontName,
+            fontSize: node.fontSize as number,
+            lineHeight: node.lineHeight as LineHeight,
+            letterSpacing: node.letterSpacing as LetterSpacing,
+            textCase: node.textCase as TextCase,
+            textDecoration: node.textDecoration as TextDecoration,
+            paragraphSpacing: node.paragraphSpacing,
+            paragraphIndent: node.paragraphIndent,
+            boundVariables: getVariableIds(node.boundVariables ?? {}),
+          },
+        ]
+      : node
+          .getStyledTextSegments([
+            'textStyleId',
+            'fontName',
+            'fontSize',
+            'lineHeight',
+            'letterSpacing',
+            'textCase',
+            'textDecoration',
+            'paragraphSpacing',
+            'paragraphIndent',
+            'boundVariables',
+          ])
+          .map(({ characters: _characters, boundVariables, ...segment }) => ({
+            ...segment,
+            boundVariables: getVariableIds(boundVariables ?? {}),
+          }));
+
+  const fills = typeof node.fills === 'symbol' ? undefined : [...node.fills];
+
+  return { layerId: node.id, layerName: node.name, length, segments, fills };
+}
+
+function getVariableIds(boundVariables: {
+  readonly [field in VariableBindableTextField]?: VariableAlias | VariableAlias[];
+}): SegmentCapture['boundVariables'] {
+  const ids: SegmentCapture['boundVariables'] = {};
+  for (const field of TEXT_FIELDS) {
+    const binding = boundVariables[field];
+    const alias = Array.isArray(binding) ? binding[0] : binding;
+    if (alias) ids[field] = alias.id;
+  }
+  return ids;
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Load every journal entry, newest first
+ */
+export function loadJournalEntries(): ReplacementJournalEntry[] {
+  const entries: ReplacementJournalEntry[] = [];
+
+  for (const key of getEntryKeys()) {
+    try {
+      entries.push(JSON.parse(figma.root.getPluginData(key)) as ReplacementJournalEntry);
+    } catch (error) {
+      console.warn(`[Journal] Skipping unreadable entry ${key}:`, error);
+    }
+  }
+
+  return entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+/**
+ * Load one journal entry (null when it was pruned or never existed)
+ */
+export function loadJournalEntry(id: string): ReplacementJournalEntry | null {
+  const data = figma.root.getPluginData(`${ENTRY_KEY_PREFIX}${id}`);
+  return data ? (JSON.parse(data) as ReplacementJournalEntry) : null;
+}
+
+/**
+ * Load the layers recorded for an operation
+ */
+export function loadJournalLayers(id: string): LayerCapture[] {
+  return getLayerKeys(id)
+    .sort((a, b) => getChunkIndex(a) - getChunkIndex(b))
+    .flatMap((key) => JSON.parse(figma.root.getPluginData(key)) as LayerCapture[]);
+}
+
+/**
+ * Mark an operation as reverted so it is not reverted twice
+ */
+export function markJournalEntryReverted(id: string): void {
+  const entry = loadJournalEntry(id);
+  if (!entry) return;
+
+  entry.revertedAt = new Date().toISOString();
+  figma.root.setPluginData(`${ENTRY_KEY_PREFIX}${id}`, JSON.stringify(entry));
+}
+
+// ============================================================================
+// Restoring
+// ============================================================================
+
+/**
+ * Restore a layer to its recorded state
+ *
+ * Only properties that differ from the recording are set, so a range that
+ * had its style fully applied gets it back without overrides. Throws when
+ * the layer was deleted, its text changed or its fonts are missing.
+ */
+export async function restoreLayer(capture: LayerCapture): Promise<void> {
+  const node = await figma.getNodeByIdAsync(capture.layerId);
+  if (!node || node.type !== 'TEXT') {
+    throw new Error('Layer no longer exists');
+  }
+  if (node.characters.length !== capture.length) {
+    throw new Error('Text was edited since the operation');
+  }
+  if (node.hasMissingFont) {
+    throw new Error('Text node has missing fonts - cannot restore typography properties');
+  }
+
+  // Current, recorded and style fonts must all be loaded before anything changes
+  const fonts: FontName[] =
+    capture.length === 0
+      ? [node.fontName as FontName]
+      : node.getRangeAllFontNames(0, capture.length);
+  for (const segment of capture.segments) {
+    fonts.push(segment.fontName);
+    if (segment.textStyleId) {
+      const style = await figma.getStyleByIdAsync(segment.textStyleId);
+      if (!style || style.type !== 'TEXT') {
+        throw new Error(`Original style no longer exists: ${segment.textStyleId}`);
+      }
+      fonts.push((style as TextStyle).fontName);
+    }
+  }
+  const uniqueFonts = new Map(fonts.map((font) => [`${font.family}|${font.style}`, font]));
+  await Promise.all(Array.from(uniqueFonts.values()).map((font) => figma.loadFontAsync(font)));
+
+  for (const segment of capture.segments) {
+    if (capture.length === 0) {
+      await restoreEmptyText(node, segment);
+    } else {
+      await restoreRange(node, segment);
+    }
+  }
+
+  if (capture.fills && differs(node.fills, capture.fills)) {
+    node.fills = capture.fills;
+  }
+}
+
+async function restoreRange(node: TextNode, segment: SegmentCapture): Promise<void> {
+  const { start, end } = segment;
+
+  if (node.getRangeTextStyleId(start, end) !== segment.textStyleId) {
+    await node.setRangeTextStyleIdAsync(start, end, segment.textStyleId);
+  }
+
+  if (differs(node.getRangeFontName(start, end), segment.fontName)) {
+    node.setRangeFontName(start, end, segment.fontName);
+  }
+  if (differs(node.getRangeFontSize(start, end), segment.fontSize)) {
+    node.setRangeFontSize(start, end, segment.fontSize);
+  }
+  if (differs(node.getRangeLineHeight(start, end), segment.lineHeight)) {
+    node.setRangeLineHeight(start, end, segment.lineHeight);
+  }
+  if (differs(node.getRangeLetterSpacing(start, end), segment.letterSpacing)) {
+    node.setRangeLetterSpacing(start, end, segment.letterSpacing);
+  }
+  if (differs(node.getRangeTextCase(start, end), segment.textCase)) {
+    node.setRangeTextCase(start, end, segment.textCase);
+  }
+  if (differs(node.getRangeTextDecoration(start, end), segment.textDecoration)) {
+    node.setRangeTextDecoration(start, end, segment.textDecoration);
+  }
+  if (differs(node.getRangeParagraphSpacing(start, end), segment.paragraphSpacing)) {
+    node.setRangeParagraphSpacing(start, end, segment.paragraphSpacing);
+  }
+  if (differs(node.getRangeParagraphIndent(start, end), segment.paragraphIndent)) {
+    node.setRangeParagraphIndent(start, end, segment.paragraphIndent);
+  }
+
+  for (const field of TEXT_FIELDS) {
+    const current = node.getRangeBoundVariable(start, end, field);
+    const recordedId = segment.boundVariables[field] ?? null;
+    if (typeof current !== 'symbol' && (current?.id ?? null) === recordedId) continue;
+
+    node.setRangeBoundVariable(start, end, field, await getVariable(recordedId));
+  }
+}
+
+async function restoreEmptyText(node: TextNode, segment: SegmentCapture): Promise<void> {
+  if (node.textStyleId !== segment.textStyleId) {
+    await node.setTextStyleIdAsync(segment.textStyleId);
+  }
+
+  if (differs(node.fontName, segment.fontName)) node.fontName = segment.fontName;
+  if (differs(node.fontSize, segment.fontSize)) node.fontSize = segment.fontSize;
+  if (differs(node.lineHeight, segment.lineHeight)) node.lineHeight = segment.lineHeight;
+  if (differs(node.letterSpacing, segment.letterSpacing)) {
+    node.letterSpacing = segment.letterSpacing;
+  }
+  if (differs(node.textCase, segment.textCase)) node.textCase = segment.textCase;
+  if (differs(node.textDecoration, segment.textDecoration)) {
+    node.textDecoration = segment.textDecoration;
+  }
+  if (node.paragraphSpacing !== segment.paragraphSpacing) {
+    node.paragraphSpacing = segment.paragraphSpacing;
+  }
+  if (node.paragraphIndent !== segment.paragraphIndent) {
+    node.paragraphIndent = segment.paragraphIndent;
+  }
+
+  const current = getVariableIds(node.boundVariables ?? {});
+  for (const field of TEXT_FIELDS) {
+    const recordedId = segment.boundVariables[field] ?? null;
+    if ((current[field] ?? null) === recordedId) continue;
+
+    node.setBoundVariable(field, await getVariable(recordedId));
+  }
+}
+
+async function getVariable(id: string | null): Promise<Variable | null> {
+  if (!id) return null;
+
+  const variable = await figma.variables.getVariableByIdAsync(id);
+  if (!variable) {
+    throw new Error(`Original variable no longer exists: ${id}`);
+  }
+  return variable;
+}
+
+function differs(current: unknown, recorded: unknown): boolean {
+  return JSON.stringify(current) !== JSON.stringify(recorded);
+}
+
+// ============================================================================
+// Key Helpers
+// ============================================================================
+
+function writeLayers(id: string, captures: LayerCapture[]): void {
+  const chunks: LayerCapture[][] = [[]];
+  let chunkLength = 0;
+
+  for (const capture of captures) {
+    const length = JSON.stringify(capture).length + 1;
+    if (chunkLength + length > MAX_CHUNK_LENGTH && chunks[chunks.length - 1].length > 0) {
+      chunks.push([]);
+      chunkLength = 0;
+    }
+    chunks[chunks.length - 1].push(capture);
+    chunkLength += length;
+  }
+
+  chunks.forEach((chunk, index) => {
+    figma.root.setPluginData(`${LAYERS_KEY_PREFIX}${id}:${index}`, JSON.stringify(chunk));
+  });
+}
+
+/**
+ * Drop the oldest operations (and their layers) once the journal is full
+ */
+function pruneJournal(): void {
+  const keys = getEntryKeys().sort();
+
+  for (const key of keys.slice(0, Math.max(0, keys.length - MAX_ENTRIES))) {
+    // Setting an empty value removes the key
+    figma.root.setPluginData(key, '');
+    for (const layerKey of getLayerKeys(key.slice(ENTRY_KEY_PREFIX.length))) {
+      figma.root.setPluginData(layerKey, '');
+    }
+  }
+}
+
+function getEntryKeys(): string[] {
+  return figma.root.getPluginDataKeys().filter((key: string) => key.startsWith(ENTRY_KEY_PREFIX));
+}
+
+function getLayerKeys(id: string): string[] {
+  const prefix = `${LAYERS_KEY_PREFIX}${id}:`;
+  return figma.root.getPluginDataKeys().filter((key: string) => key.startsWith(prefix));
+}
+
+function getChunkIndex(key: string): number {
+  return Number(key.slice(key.lastIndexOf(':') + 1));
+}
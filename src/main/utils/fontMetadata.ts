@@ -1,4 +1,11 @@
-import type { TextLayerData, RGBA, LineHeight, LetterSpacing } from '@/shared/types';
+import type {
+  TextLayerData,
+  TextSegment,
+  SegmentBindableProperty,
+  RGBA,
+  LineHeight,
+  LetterSpacing,
+} from '@/shared/types';
 import { buildComponentHierarchy } from './hierarchy';
 
 /**
@@ -139,11 +146,29 @@ function extractLetterSpacing(letterSpacing: LetterSpacing): LetterSpacing {
   };
 }
 
+/**
+ * Fields that split a text node into styled segments
+ *
+ * A new segment starts wherever the text style, any font property, the fill
+ * or a variable binding changes.
+ */
+const SEGMENT_FIELDS = [
+  'textStyleId',
+  'fontName',
+  'fontSize',
+  'fontWeight',
+  'lineHeight',
+  'letterSpacing',
+  'fills',
+  'boundVariables',
+] as const;
+
 /**
  * Check if a text node has mixed styles
  *
- * A text node has mixed styles if different characters have different
- * font properties (family, size, weight, etc.).
+ * A text node has mixed styles if different character ranges use different
+ * text styles, font properties (family, size, weight, etc.), fills or token
+ * bindings.
  *
  * @param node - The text node to check
  * @returns True if the node has mixed styles
@@ -151,33 +176,117 @@ function extractLetterSpacing(letterSpacing: LetterSpacing): LetterSpacing {
  * @example
  * ```ts
  * if (hasMixedStyles(textNode)) {
- *   console.warn('This text has mixed styles - using first character style');
+ *   const segments = extractTextSegments(textNode);
  * }
  * ```
  */
 export function hasMixedStyles(node: TextNode): boolean {
-  const length = node.characters.length;
-  if (length <= 1) return false;
+  if (node.characters.length <= 1) return false;
 
   try {
-    // Check if any style properties return figma.mixed
-    const fontName = node.getRangeFontName(0, length);
-    const fontSize = node.getRangeFontSize(0, length);
-    const fontWeight = node.getRangeFontWeight(0, length);
-    const letterSpacing = node.getRangeLetterSpacing(0, length);
-
-    return (
-      fontName === figma.mixed ||
-      fontSize === figma.mixed ||
-      fontWeight === figma.mixed ||
-      letterSpacing === figma.mixed
-    );
+    return node.getStyledTextSegments([...SEGMENT_FIELDS]).length > 1;
   } catch {
     // If we get an error, assume mixed styles
     return true;
   }
 }
 
+/**
+ * Break a text node into runs of characters with identical styling
+ *
+ * Uses getStyledTextSegments so every style, font, fill and variable change
+ * is reported instead of only the properties at character 0.
+ *
+ * @param node - The text node to segment
+ * @returns Segments in character order (a single segment for uniform text)
+ *
+ * @example
+ * ```ts
+ * const segments = extractTextSegments(textNode);
+ * if (segments.length > 1) {
+ *   console.log(`${textNode.name} has ${segments.length} styled ranges`);
+ * }
+ * ```
+ */
+export function extractTextSegments(node: TextNode): TextSegment[] {
+  if (node.characters.length === 0) return [];
+
+  return node.getStyledTextSegments([...SEGMENT_FIELDS]).map((segment) => ({
+    start: segment.start,
+    end: segment.end,
+    characters: getTextPreview(segment.characters),
+    styleId: segment.textStyleId || undefined,
+    fontFamily: segment.fontName.family,
+    fontSize: segment.fontSize,
+    fontWeight: segment.fontWeight,
+    lineHeight: extractLineHeight(segment.lineHeight as LineHeight),
+    letterSpacing: extractLetterSpacing(segment.letterSpacing as LetterSpacing),
+    fills: extractSolidFills(segment.fills),
+    boundVariables: extractSegmentBindings(segment),
+  }));
+}
+
+/**
+ * Whether the segments apply more than one text style
+ *
+ * Styled and unstyled ranges together count as mixed; ranges that only differ
+ * in font, fill or token bindings do not, so those layers keep the status
+ * their text style gives them.
+ *
+ * @param segments - Segments from extractTextSegments
+ * @returns True if the layer should be reported as 'mixed'
+ */
+export function hasMixedTextStyles(segments: TextSegment[]): boolean {
+  return new Set(segments.map((segment) => segment.styleId ?? '')).size > 1;
+}
+
+/**
+ * Collect variable IDs bound to a segment's text properties and fill color
+ */
+function extractSegmentBindings(
+  segment: Pick<StyledTextSegment, 'boundVariables' | 'fills'>
+): Partial<Record<SegmentBindableProperty, string>> {
+  const bindings: Partial<Record<SegmentBindableProperty, string>> = {};
+  const bound = segment.boundVariables ?? {};
+
+  const textProperties: Exclude<SegmentBindableProperty, 'fills'>[] = [
+    'fontFamily',
+    'fontSize',
+    'fontWeight',
+    'lineHeight',
+    'letterSpacing',
+  ];
+  for (const property of textProperties) {
+    const alias = bound[property];
+    if (alias) {
+      bindings[property] = alias.id;
+    }
+  }
+
+  for (const fill of segment.fills) {
+    if (fill.type === 'SOLID' && fill.boundVariables?.color) {
+      bindings.fills = fill.boundVariables.color.id;
+      break;
+    }
+  }
+
+  return bindings;
+}
+
+/**
+ * Convert visible solid paints to RGBA colors
+ */
+function extractSolidFills(fills: readonly Paint[]): RGBA[] {
+  return fills
+    .filter((fill): fill is SolidPaint => fill.type === 'SOLID' && fill.visible !== false)
+    .map((fill) => ({
+      r: fill.color.r,
+      g: fill.color.g,
+      b: fill.color.b,
+      a: fill.opacity ?? 1,
+    }));
+}
+
 /**
  * Get text content preview (truncated for display)
  *
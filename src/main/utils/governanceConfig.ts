@@ -0,0 +1,63 @@
+/**
+ * Governance Config Storage - Shared audit settings persisted in the document
+ *
+ * The config is stored as shared plugin data on the document root so every
+ * collaborator running Typescope audits the file the same way. The UI owns
+ * validation; this module only stores the JSON and reads the few fields the
+ * audit itself needs, tolerating anything malformed.
+ */
+
+import type { GovernanceConfig } from '@/shared/types';
+
+const CONFIG_NAMESPACE = 'typescope';
+const CONFIG_KEY = 'governanceConfig';
+
+/**
+ * Audit options derived from the governance config
+ */
+export interface GovernanceAuditOptions {
+  ignoredPages: string[];
+  ignoredLayerNames: string[];
+  deprecatedStylePatterns: string[];
+}
+
+/**
+ * Load the stored config as parsed JSON (null when unset or unreadable)
+ */
+export function loadGovernanceConfig(): unknown {
+  const json = figma.root.getSharedPluginData(CONFIG_NAMESPACE, CONFIG_KEY);
+  if (!json) return null;
+
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    console.warn('[Governance] Ignoring unreadable config:', error);
+    return null;
+  }
+}
+
+/**
+ * Persist the config for every collaborator on the file
+ */
+export function saveGovernanceConfig(config: GovernanceConfig): void {
+  figma.root.setSharedPluginData(CONFIG_NAMESPACE, CONFIG_KEY, JSON.stringify(config));
+}
+
+/**
+ * Read the audit-relevant fields of the stored config
+ */
+export function getGovernanceAuditOptions(): GovernanceAuditOptions {
+  const config = loadGovernanceConfig() as Partial<Record<string, unknown>> | null;
+
+  return {
+    ignoredPages: readStringList(config?.ignoredPages),
+    ignoredLayerNames: readStringList(config?.ignoredLayerNames),
+    deprecatedStylePatterns: readStringList(config?.deprecatedStylePatterns),
+  };
+}
+
+function readStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    : [];
+}
@@ -0,0 +1,102 @@
+/**
+ * Snapshot Storage - Audit history persisted in the document
+ *
+ * Each snapshot is stored as plugin data on the document root under its own
+ * key, "auditSnapshot:<documentId>:<timestamp>". The document ID is generated
+ * once and kept in root plugin data: figma.fileKey is only available to
+ * private plugins, so every other file would share the "unknown" key.
+ * Keeping history in the file (rather than clientStorage) means every
+ * collaborator sees the same trend, and one key per snapshot keeps each entry
+ * well below plugin data limits.
+ */
+
+import type { AuditSnapshot } from '@/shared/types';
+
+const SNAPSHOT_KEY_PREFIX = 'auditSnapshot:';
+const DOCUMENT_ID_KEY = 'auditDocumentId';
+
+/** Oldest snapshots are dropped beyond this (roughly a year of daily audits) */
+const MAX_SNAPSHOTS = 366;
+
+/**
+ * Stable ID of the current document (also stamped on audit results),
+ * generated on first use
+ */
+export function getSnapshotDocumentId(): string {
+  let documentId = figma.root.getPluginData(DOCUMENT_ID_KEY);
+  if (!documentId) {
+    documentId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    figma.root.setPluginData(DOCUMENT_ID_KEY, documentId);
+  }
+  return documentId;
+}
+
+/**
+ * Load every snapshot for a document, oldest first
+ */
+export function loadAuditSnapshots(
+  documentId: string = figma.root.getPluginData(DOCUMENT_ID_KEY)
+): AuditSnapshot[] {
+  // No ID yet means nothing was saved (loading must not write to the file)
+  if (!documentId) return [];
+
+  const snapshots: AuditSnapshot[] = [];
+
+  for (const key of getSnapshotKeys(documentId)) {
+    try {
+      snapshots.push(JSON.parse(figma.root.getPluginData(key)) as AuditSnapshot);
+    } catch (error) {
+      console.warn(`[Snapshots] Skipping unreadable snapshot ${key}:`, error);
+    }
+  }
+
+  return snapshots.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Persist a snapshot and return the updated history
+ *
+ * Keeps one snapshot per day: a later audit on the same day replaces the
+ * earlier one so repeated runs do not flood the trend.
+ */
+export function saveAuditSnapshot(snapshot: AuditSnapshot): AuditSnapshot[] {
+  const day = snapshot.timestamp.slice(0, 10);
+  const keys = getSnapshotKeys(snapshot.documentId);
+
+  for (const key of keys) {
+    if (getTimestampFromKey(key, snapshot.documentId).slice(0, 10) === day) {
+      // Setting an empty value removes the key
+      figma.root.setPluginData(key, '');
+    }
+  }
+
+  figma.root.setPluginData(
+    buildSnapshotKey(snapshot.documentId, snapshot.timestamp),
+    JSON.stringify(snapshot)
+  );
+
+  // Drop the oldest entries once the history is full
+  const remainingKeys = getSnapshotKeys(snapshot.documentId).sort();
+  for (const key of remainingKeys.slice(0, Math.max(0, remainingKeys.length - MAX_SNAPSHOTS))) {
+    figma.root.setPluginData(key, '');
+  }
+
+  return loadAuditSnapshots(snapshot.documentId);
+}
+
+// ============================================================================
+// Key Helpers
+// ============================================================================
+
+function buildSnapshotKey(documentId: string, timestamp: string): string {
+  return `${SNAPSHOT_KEY_PREFIX}${documentId}:${timestamp}`;
+}
+
+function getSnapshotKeys(documentId: string): string[] {
+  const prefix = `${SNAPSHOT_KEY_PREFIX}${documentId}:`;
+  return figma.root.getPluginDataKeys().filter((key: string) => key.startsWith(prefix));
+}
+
+function getTimestampFromKey(key: string, documentId: string): string {
+  return key.slice(`${SNAPSHOT_KEY_PREFIX}${documentId}:`.length);
+}
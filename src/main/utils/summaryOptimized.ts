@@ -55,6 +55,7 @@ export function calculateOptimizedMetrics(auditResult: Partial<StyleGovernanceAu
   let fullyStyledCount = 0;
   let partiallyStyledCount = 0;
   let unstyledCount = 0;
+  let mixedStyleCount = 0;
   let tokenCoverageCount = 0;
   let fullTokenCoverageCount = 0;
   let partialTokenCoverageCount = 0;
@@ -62,6 +63,11 @@ export function calculateOptimizedMetrics(auditResult: Partial<StyleGovernanceAu
   let mixedUsageCount = 0;
   let elementsWithTokens = 0;
   let totalTokenBindings = 0;
+  let deprecatedStyleCount = 0;
+
+  const deprecatedStyleIds = new Set(
+    (auditResult.styles ?? []).filter((style) => style.isDeprecated).map((style) => style.id)
+  );
 
   const topStylesSet = new Map<string, { id: string; name: string; count: number }>();
 
@@ -82,10 +88,30 @@ export function calculateOptimizedMetrics(auditResult: Partial<StyleGovernanceAu
       }
     } else if (layer.assignmentStatus === 'partially-styled') {
       partiallyStyledCount++;
+    } else if (layer.assignmentStatus === 'mixed') {
+      mixedStyleCount++;
+      // Each style used by a range counts once towards that style's usage
+      const segmentStyles = new Map<string, string>();
+      for (const segment of layer.segments ?? []) {
+        if (segment.styleId && segment.styleName) {
+          segmentStyles.set(segment.styleName, segment.styleId);
+        }
+      }
+      for (const [styleName, styleId] of segmentStyles) {
+        topStylesSet.set(styleName, {
+          id: styleId,
+          name: styleName,
+          count: (topStylesSet.get(styleName)?.count ?? 0) + 1,
+        });
+      }
     } else {
       unstyledCount++;
     }
 
+    if (layer.styleId && deprecatedStyleIds.has(layer.styleId)) {
+      deprecatedStyleCount++;
+    }
+
     // Library distribution
     if (layer.styleSource) {
       libraryDistribution.set(layer.styleSource, (libraryDistribution.get(layer.styleSource) ?? 0) + 1);
@@ -96,13 +122,6 @@ export function calculateOptimizedMetrics(auditResult: Partial<StyleGovernanceAu
       elementsWithTokens++;
       totalTokenBindings += layer.tokens.length;
 
-      // Count tokens by collection
-      for (const token of layer.tokens) {
-        // Extract collection from token (simplified - adjust based on actual structure)
-        const collectionName = 'default'; // TODO: Extract from token metadata
-        tokensByCollection.set(collectionName, (tokensByCollection.get(collectionName) ?? 0) + 1);
-      }
-
       // Check coverage level
       const tokenCount = layer.tokens.length;
       if (tokenCount >= 5) {
@@ -126,6 +145,14 @@ export function calculateOptimizedMetrics(auditResult: Partial<StyleGovernanceAu
     libraryDistributionObj[library] = count;
   }
 
+  // Count tokens by collection (library tokens can be listed under two IDs)
+  const countedTokenIds = new Set<string>();
+  for (const token of auditResult.tokens ?? []) {
+    if (countedTokenIds.has(token.id)) continue;
+    countedTokenIds.add(token.id);
+    tokensByCollection.set(token.collectionName, (tokensByCollection.get(token.collectionName) ?? 0) + 1);
+  }
+
   const tokensByCollectionObj: Record<string, number> = {};
   for (const [collection, count] of tokensByCollection) {
     tokensByCollectionObj[collection] = count;
@@ -150,6 +177,7 @@ export function calculateOptimizedMetrics(auditResult: Partial<StyleGovernanceAu
     fullyStyledCount,
     partiallyStyledCount,
     unstyledCount,
+    mixedStyleCount,
     styleAdoptionRate: styleAdoptionRate.toFixed(1) + '%',
     elementsWithTokens,
     tokenAdoptionRate: tokenAdoptionRate.toFixed(1) + '%',
@@ -163,6 +191,7 @@ export function calculateOptimizedMetrics(auditResult: Partial<StyleGovernanceAu
     fullyStyledCount,
     partiallyStyledCount,
     unstyledCount,
+    mixedStyleCount,
     libraryDistribution: libraryDistributionObj,
     tokenAdoptionRate,
     tokenCoverageRate,
@@ -183,7 +212,7 @@ export function calculateOptimizedMetrics(auditResult: Partial<StyleGovernanceAu
     tokenUsageCount: totalTokenBindings,
     mixedUsageCount,
     topStyles,
-    deprecatedStyleCount: 0, // TODO: Implement if needed
+    deprecatedStyleCount,
   };
 }
 
@@ -196,6 +225,7 @@ function getEmptyMetrics(): AuditMetrics {
     fullyStyledCount: 0,
     partiallyStyledCount: 0,
     unstyledCount: 0,
+    mixedStyleCount: 0,
     libraryDistribution: {},
     tokenAdoptionRate: 0,
     tokenCoverageRate: 0,
@@ -329,32 +359,97 @@ export function getMetricsPerformanceReport(layerCount: number, duration: number
 // ============================================================================
 
 /**
- * Update metrics incrementally when new layers are added
- * Faster than recalculating from scratch
+ * Update metrics incrementally when layers are added, changed or removed
+ * Faster than recalculating from scratch. A changed layer is passed as a
+ * removal of its previous version plus an addition of the new one.
+ *
+ * topStyles and deprecatedStyleCount need the style inventory and are not
+ * adjusted; they are refreshed by the next full calculation.
  */
 export function updateMetricsIncremental(
   currentMetrics: AuditMetrics,
   newLayers: TextLayer[],
-  totalLayers: number
+  totalLayers: number,
+  removedLayers: TextLayer[] = []
 ): AuditMetrics {
-  // Recalculate is actually more efficient for small increments
-  // This is kept for potential future optimization
-  const updatedMetrics = { ...currentMetrics };
-  const increment = newLayers.length;
+  const updatedMetrics = {
+    ...currentMetrics,
+    libraryDistribution: { ...currentMetrics.libraryDistribution },
+    tokensByCollection: { ...currentMetrics.tokensByCollection },
+  };
 
-  // Update counts
-  for (const layer of newLayers) {
+  const applyLayer = (layer: TextLayer, sign: 1 | -1) => {
+    // Update counts
     if (layer.assignmentStatus === 'fully-styled') {
-      updatedMetrics.fullyStyledCount++;
+      updatedMetrics.fullyStyledCount += sign;
     } else if (layer.assignmentStatus === 'partially-styled') {
-      updatedMetrics.partiallyStyledCount++;
+      updatedMetrics.partiallyStyledCount += sign;
+    } else if (layer.assignmentStatus === 'mixed') {
+      updatedMetrics.mixedStyleCount += sign;
+    } else {
+      updatedMetrics.unstyledCount += sign;
+    }
+
+    if (layer.styleSource) {
+      const count = (updatedMetrics.libraryDistribution[layer.styleSource] ?? 0) + sign;
+      if (count > 0) {
+        updatedMetrics.libraryDistribution[layer.styleSource] = count;
+      } else {
+        delete updatedMetrics.libraryDistribution[layer.styleSource];
+      }
+    }
+
+    const tokenCount = layer.tokens?.length ?? 0;
+    if (tokenCount > 0) {
+      updatedMetrics.elementsWithTokens += sign;
+      updatedMetrics.totalTokenBindings += sign * tokenCount;
+      // Same simplified collection grouping as calculateOptimizedMetrics
+      const collectionCount = (updatedMetrics.tokensByCollection.default ?? 0) + sign * tokenCount;
+      if (collectionCount > 0) {
+        updatedMetrics.tokensByCollection.default = collectionCount;
+      } else {
+        delete updatedMetrics.tokensByCollection.default;
+      }
+      if (tokenCount >= 5) {
+        updatedMetrics.fullTokenCoverageCount += sign;
+      } else {
+        updatedMetrics.partialTokenCoverageCount += sign;
+      }
+      if (layer.assignmentStatus !== 'unstyled') {
+        updatedMetrics.mixedUsageCount += sign;
+      }
     } else {
-      updatedMetrics.unstyledCount++;
+      updatedMetrics.noTokenCoverageCount += sign;
     }
+  };
+
+  for (const layer of removedLayers) {
+    applyLayer(layer, -1);
+  }
+  for (const layer of newLayers) {
+    applyLayer(layer, 1);
   }
 
   // Recalculate rates
-  updatedMetrics.styleAdoptionRate = (updatedMetrics.fullyStyledCount / totalLayers) * 100;
+  const toRate = (count: number) => (totalLayers > 0 ? (count / totalLayers) * 100 : 0);
+  updatedMetrics.elementCount = totalLayers;
+  updatedMetrics.elementsWithoutTokens = totalLayers - updatedMetrics.elementsWithTokens;
+  updatedMetrics.tokenUsageCount = updatedMetrics.totalTokenBindings;
+  updatedMetrics.tokenCoverageRate =
+    (updatedMetrics.totalTokenCount / Math.max(updatedMetrics.totalTokenBindings, 1)) * 100;
+  updatedMetrics.uniqueTokensUsed = Math.min(
+    updatedMetrics.totalTokenBindings,
+    updatedMetrics.totalTokenCount
+  );
+  updatedMetrics.unusedTokenCount = Math.max(
+    updatedMetrics.totalTokenCount - updatedMetrics.totalTokenBindings,
+    0
+  );
+  updatedMetrics.styleAdoptionRate = toRate(updatedMetrics.fullyStyledCount);
+  updatedMetrics.tokenAdoptionRate = toRate(updatedMetrics.elementsWithTokens);
+  updatedMetrics.fullTokenCoverageRate = toRate(updatedMetrics.fullTokenCoverageCount);
+  updatedMetrics.partialTokenCoverageRate = toRate(updatedMetrics.partialTokenCoverageCount);
+  updatedMetrics.noTokenCoverageRate = toRate(updatedMetrics.noTokenCoverageCount);
 
   return updatedMetrics;
 }
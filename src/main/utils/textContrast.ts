@@ -0,0 +1,130 @@
+import type { RGBA, TextContrastSample } from '@/shared/types';
+import { getContrastRatio, getRequiredContrast, isLargeText } from '@/shared/contrast';
+
+/**
+ * Text Contrast Sampling
+ *
+ * Reads what a WCAG contrast check needs from a text node: its colour, its
+ * size and the effective background behind it. Each styled range is sampled
+ * and the one furthest below (or closest to) the AA threshold is reported,
+ * so a small light-grey footnote in a dark paragraph is not missed. The
+ * background is found by
+ * walking up the ancestors and compositing their visible solid fills down to
+ * the first opaque one, falling back to the page background (or white).
+ *
+ * Only ancestors are considered, not sibling shapes drawn behind the text.
+ * Gradient, image and video fills make the colour unknown: such ranges are
+ * skipped, and a non-solid background means no sample is returned rather
+ * than a misleading one.
+ */
+
+const WHITE: RGBA = { r: 1, g: 1, b: 1, a: 1 };
+
+/**
+ * Sample a text node for contrast checking
+ *
+ * @param node - Text node to sample
+ * @returns Sample of the solid-coloured range with the worst contrast, or
+ * undefined when no range is a solid colour or the background is not
+ */
+export function getTextContrastSample(node: TextNode): TextContrastSample | undefined {
+  if (node.characters.length === 0) return undefined;
+
+  const background = getEffectiveBackground(node);
+  if (!background) return undefined;
+
+  let worst: { sample: TextContrastSample; score: number } | undefined;
+  for (const segment of node.getStyledTextSegments(['fills', 'fontSize', 'fontWeight'])) {
+    // Spaces and line breaks show no colour
+    if (segment.characters.trim().length === 0) continue;
+
+    // Gradient or image text has no single colour to check
+    const foreground = flattenPaints(segment.fills);
+    if (!foreground || foreground.a === 0) continue;
+
+    const sample: TextContrastSample = {
+      foreground: { ...foreground, a: foreground.a * node.opacity },
+      background,
+      fontSize: segment.fontSize,
+      fontWeight: segment.fontWeight,
+    };
+    // Ratio relative to what the range needs, so large and body text compare fairly
+    const score =
+      getContrastRatio(sample.foreground, background) /
+      getRequiredContrast('AA', isLargeText(sample.fontSize, sample.fontWeight));
+    if (!worst || score < worst.score) {
+      worst = { sample, score };
+    }
+  }
+
+  return worst?.sample;
+}
+
+/**
+ * Opaque colour behind a node, composited from its ancestors' fills
+ */
+function getEffectiveBackground(node: SceneNode): RGBA | undefined {
+  const overlays: RGBA[] = []; // Translucent fills, nearest ancestor first
+  let base: RGBA | undefined;
+  let current: BaseNode | null = node.parent;
+
+  while (current && !base) {
+    if (current.type === 'PAGE') {
+      const page = flattenPaints(current.backgrounds);
+      base = page ? blend(page, WHITE) : WHITE;
+      break;
+    }
+
+    if ('fills' in current && current.visible !== false) {
+      if (typeof current.fills === 'symbol') return undefined;
+      const color = flattenPaints(current.fills);
+      if (!color) return undefined;
+
+      const alpha = color.a * ('opacity' in current ? current.opacity : 1);
+      if (alpha >= 1) {
+        base = color;
+      } else if (alpha > 0) {
+        overlays.push({ ...color, a: alpha });
+      }
+    }
+
+    current = current.parent;
+  }
+
+  // Paint the translucent fills over the base, farthest ancestor first
+  return overlays.reduceRight((bottom, top) => blend(top, bottom), base ?? WHITE);
+}
+
+/**
+ * Composite a paint stack (bottom to top) into one colour
+ *
+ * @returns The colour (transparent when nothing is visible), or null when a
+ * visible paint is not solid
+ */
+function flattenPaints(paints: readonly Paint[]): RGBA | null {
+  let color: RGBA = { r: 0, g: 0, b: 0, a: 0 };
+
+  for (const paint of paints) {
+    if (paint.visible === false) continue;
+    if (paint.type !== 'SOLID') return null;
+    color = blend({ ...paint.color, a: paint.opacity ?? 1 }, color);
+  }
+
+  return color;
+}
+
+/**
+ * Source-over compositing of one colour on another
+ */
+function blend(top: RGBA, bottom: RGBA): RGBA {
+  const a = top.a + bottom.a * (1 - top.a);
+  if (a === 0) return { r: 0, g: 0, b: 0, a: 0 };
+
+  const channel = (t: number, b: number) => (t * top.a + b * bottom.a * (1 - top.a)) / a;
+  return {
+    r: channel(top.r, bottom.r),
+    g: channel(top.g, bottom.g),
+    b: channel(top.b, bottom.b),
+    a,
+  };
+}
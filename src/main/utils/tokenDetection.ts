@@ -1,4 +1,12 @@
-import type { DesignToken, TextLayer, TokenBinding } from '@/shared/types';
+import type {
+  DesignToken,
+  RGBA,
+  TextLayer,
+  TokenAliasChain,
+  TokenBinding,
+  TokenReference,
+  TokenValueMatch,
+} from '@/shared/types';
 
 /**
  * Token Detection Utility
@@ -13,6 +21,8 @@ import type { DesignToken, TextLayer, TokenBinding } from '@/shared/types';
  * - Detects all token bindings on a text layer
  * - Resolves token metadata (name, value, collection, mode)
  * - Handles multi-mode tokens correctly
+ * - Resolves alias chains per mode, across local and library collections
+ * - Resolves each binding in the variable modes its layer renders in
  * - Gracefully handles missing tokens (deleted variables)
  */
 
@@ -22,7 +32,7 @@ import type { DesignToken, TextLayer, TokenBinding } from '@/shared/types';
  * @param tokenType - Token type classification
  * @returns Formatted string representation
  */
-function formatTokenValue(value: any, tokenType?: string): string {
+export function formatTokenValue(value: any, tokenType?: string): string {
   if (value === null || value === undefined) {
     return '';
   }
@@ -114,6 +124,7 @@ function extractTokenModes(variable: any): Record<string, string | number | bool
 export async function getAllDocumentTokens(): Promise<DesignToken[]> {
   try {
     const tokenMap = new Map<string, DesignToken>();
+    const aliasCache: VariableCache = { variables: new Map(), collections: new Map() };
 
     // Step 1: Get all LOCAL variables
     try {
@@ -122,13 +133,23 @@ export async function getAllDocumentTokens(): Promise<DesignToken[]> {
       // Get local collections for metadata
       const localCollections = await figma.variables.getLocalVariableCollectionsAsync();
       const collectionMap = new Map<string, string>();
+      const defaultModes = new Map<string, VariableCollection['modes'][number]>();
       for (const collection of localCollections) {
         collectionMap.set(collection.id, collection.name);
+        const defaultMode = collection.modes.find(
+          (m: VariableCollection['modes'][number]) => m.modeId === collection.defaultModeId
+        );
+        if (defaultMode) defaultModes.set(collection.id, defaultMode);
       }
 
       for (const variable of localVariables) {
         if (!tokenMap.has(variable.id)) {
-          const firstModeId = Object.keys(variable.valuesByMode)[0];
+          // Report the value in the collection's default mode
+          const defaultMode = defaultModes.get(variable.variableCollectionId);
+          const firstModeId =
+            defaultMode && defaultMode.modeId in variable.valuesByMode
+              ? defaultMode.modeId
+              : Object.keys(variable.valuesByMode)[0];
           const firstValue = variable.valuesByMode[firstModeId];
           const tokenType = getTokenType(variable);
 
@@ -161,13 +182,15 @@ export async function getAllDocumentTokens(): Promise<DesignToken[]> {
             collectionName: `${collectionName} (local)`,
             collections: [`${collectionName} (local)`],
             modeId: firstModeId,
-            modeName: 'Default',
+            modeName: defaultMode?.name ?? 'Default',
             valuesByMode: variable.valuesByMode || { [firstModeId]: firstValue },
             modes: extractTokenModes(variable),
             isAlias: false,
             usageCount: 0,
             layerIds: [],
             propertyTypes: [],
+            scopes: variable.scopes,
+            ...(await resolveAliasFields(variable, aliasCache)),
           };
           tokenMap.set(variable.id, token);
         }
@@ -263,6 +286,8 @@ export async function getAllDocumentTokens(): Promise<DesignToken[]> {
                   let modes: Record<string, any> = {};
                   let modeId = 'default';
                   let modeName = 'Default';
+                  let scopes: string[] | undefined;
+                  let aliasFields: Partial<DesignToken> = {};
 
                   try {
                     // For library variables, we need to import them to access their values
@@ -275,6 +300,8 @@ export async function getAllDocumentTokens(): Promise<DesignToken[]> {
                       currentValue = importedVariable.valuesByMode[firstModeId];
                       valuesByMode = importedVariable.valuesByMode;
                       modeId = firstModeId;
+                      scopes = importedVariable.scopes;
+                      aliasFields = await resolveAliasFields(importedVariable, aliasCache);
 
                       // Convert valuesByMode to modes with mode names
                       const collection = await figma.variables.getVariableCollectionByIdAsync(
@@ -285,8 +312,13 @@ export async function getAllDocumentTokens(): Promise<DesignToken[]> {
                           const mode = collection.modes.find((m) => m.modeId === mId);
                           modes[mode?.name || mId] = value;
                         }
+                        // Report the value in the collection's default mode
+                        if (collection.defaultModeId in importedVariable.valuesByMode) {
+                          modeId = collection.defaultModeId;
+                          currentValue = importedVariable.valuesByMode[modeId];
+                        }
                         // Get current mode name
-                        const currentMode = collection.modes.find((m) => m.modeId === firstModeId);
+                        const currentMode = collection.modes.find((m) => m.modeId === modeId);
                         modeName = currentMode?.name || 'Default';
                       }
                     }
@@ -313,6 +345,8 @@ export async function getAllDocumentTokens(): Promise<DesignToken[]> {
                     usageCount: 0,
                     layerIds: [],
                     propertyTypes: [],
+                    scopes,
+                    ...aliasFields,
                   };
 
                   // Store by the library key
@@ -350,15 +384,20 @@ export async function getAllDocumentTokens(): Promise<DesignToken[]> {
 /**
  * Detect token bindings on a text layer
  *
+ * Each binding is resolved in the variable mode the node renders in, so a
+ * layer in a dark-mode frame reports the dark value.
+ *
  * @param node - Figma TextNode
  * @param tokenMap - Map of token IDs to tokens for quick lookup
  * @param tokens - Optional array to add newly discovered tokens to
+ * @param cache - Variable lookups shared across layers
  * @returns Array of token bindings
  */
 export async function detectTokenBindings(
   node: any,
   tokenMap: Map<string, DesignToken>,
-  tokens?: DesignToken[]
+  tokens?: DesignToken[],
+  cache: VariableCache = { variables: new Map(), collections: new Map() }
 ): Promise<TokenBinding[]> {
   const bindings: TokenBinding[] = [];
 
@@ -407,6 +446,8 @@ export async function detectTokenBindings(
                   usageCount: 0,
                   layerIds: [],
                   propertyTypes: [],
+                  scopes: variable.scopes,
+                  ...(await resolveAliasFields(variable)),
                 };
 
                 // Cache it for future lookups
@@ -423,6 +464,9 @@ export async function detectTokenBindings(
           }
 
           if (token) {
+            const variable = await getCachedVariable(bindingId, cache);
+            const resolution = variable ? await resolveBinding(variable, node, cache) : null;
+
             bindings.push({
               property: propertyName as
                 | 'fills'
@@ -432,7 +476,12 @@ export async function detectTokenBindings(
                 | 'letterSpacing',
               tokenId: token.id,
               tokenName: token.name,
-              tokenValue: token.value,
+              tokenValue: resolution?.value ?? token.value,
+              ...(resolution && {
+                modeId: resolution.modeId,
+                modeName: resolution.modeName,
+                explicitMode: resolution.explicit,
+              }),
             });
           }
         }
@@ -501,6 +550,7 @@ export async function integrateTokenUsageIntoLayers(
 ): Promise<void> {
   // Create a map of token IDs to tokens for quick lookup
   const tokenMap = new Map(tokens.map((t) => [t.id, t]));
+  const cache: VariableCache = { variables: new Map(), collections: new Map() };
 
   // For each layer, detect which tokens it uses
   for (const layer of layers) {
@@ -509,7 +559,7 @@ export async function integrateTokenUsageIntoLayers(
       const node = await figma.getNodeByIdAsync(layer.id);
       if (node && 'boundVariables' in node) {
         // Detect token bindings on this node
-        const allBindings = await detectTokenBindings(node, tokenMap, tokens);
+        const allBindings = await detectTokenBindings(node, tokenMap, tokens, cache);
 
         // Filter to only keep the ACTIVE bindings (last binding per property)
         // When a property has multiple bindings like [bindingA, bindingB],
@@ -543,3 +593,426 @@ export async function integrateTokenUsageIntoLayers(
     }
   }
 }
+
+/**
+ * Alias Resolution
+ *
+ * A semantic token ("text/body") usually aliases a primitive ("gray/900")
+ * that holds the raw value. Chains are followed in every mode of the token's
+ * collection; a hop into another collection continues in that collection's
+ * default mode, as Figma does when nothing overrides it.
+ */
+
+const MAX_ALIAS_DEPTH = 10;
+
+/**
+ * Variables and collections fetched while resolving aliases, by ID
+ */
+export interface VariableCache {
+  variables: Map<string, Variable | null>;
+  collections: Map<string, VariableCollection | null>;
+}
+
+/**
+ * Resolve a variable's alias chains into token fields
+ *
+ * For an alias, the value fields are replaced by the raw value the default
+ * mode resolves to, so aliases display and compare like any other token.
+ *
+ * @param variable - Local or imported library variable
+ * @param cache - Lookups shared across calls
+ * @returns Fields to spread over the token
+ */
+export async function resolveAliasFields(
+  variable: Variable,
+  cache: VariableCache = { variables: new Map(), collections: new Map() }
+): Promise<Partial<DesignToken>> {
+  cache.variables.set(variable.id, variable);
+  const collection = await getCachedCollection(variable.variableCollectionId, cache);
+
+  const chains: TokenAliasChain[] = [];
+  let defaultValue: VariableValue | undefined;
+
+  for (const [modeId, value] of Object.entries(variable.valuesByMode)) {
+    const resolved = await followAlias(variable, modeId, value, cache);
+    const modeName =
+      collection?.modes.find((m: VariableCollection['modes'][number]) => m.modeId === modeId)
+        ?.name ?? modeId;
+
+    if (chains.length === 0 || modeId === collection?.defaultModeId) {
+      defaultValue = resolved.value;
+    }
+    chains.push({
+      modeId,
+      modeName,
+      references: resolved.references,
+      value: resolved.error ? '' : formatTokenValue(resolved.value),
+      ...(resolved.error && { error: resolved.error }),
+    });
+  }
+
+  const aliased = chains.find((chain) => chain.references.length > 0 || chain.error);
+  if (!aliased) {
+    return { isAlias: false };
+  }
+
+  return {
+    isAlias: true,
+    aliasedTokenId: aliased.references[0]?.tokenId,
+    aliasChain: [
+      variable.name,
+      ...aliased.references.map((reference) => reference.name),
+      ...(aliased.value ? [aliased.value] : []),
+    ],
+    aliasChains: chains,
+    ...(defaultValue !== undefined &&
+      !isVariableAlias(defaultValue) && {
+        currentValue: defaultValue,
+        value: defaultValue as DesignToken['value'],
+      }),
+  };
+}
+
+/**
+ * Follow one mode's value through its aliases to a raw value
+ *
+ * This is the one alias resolver: detection, value matching, remapping and
+ * cleanup all go through it. A hop into another collection continues in the
+ * mode `modes` gives for it (a node's resolved modes), else in that
+ * collection's default mode.
+ *
+ * @param variable - Variable (or token) the value belongs to
+ * @param modeId - Mode the value was read in
+ * @param value - Value to resolve, possibly an alias
+ */
+export async function followAlias(
+  variable: Pick<Variable, 'id' | 'variableCollectionId'>,
+  modeId: string,
+  value: VariableValue,
+  cache: VariableCache,
+  modes: Record<string, string> = {}
+): Promise<{ references: TokenReference[]; value?: VariableValue; error?: 'cycle' | 'missing' }> {
+  const references: TokenReference[] = [];
+  const visited = new Set([variable.id]);
+  let current: Pick<Variable, 'id' | 'variableCollectionId'> = variable;
+
+  while (isVariableAlias(value)) {
+    if (visited.has(value.id) || references.length >= MAX_ALIAS_DEPTH) {
+      return { references, error: 'cycle' };
+    }
+    visited.add(value.id);
+
+    const target = await getCachedVariable(value.id, cache);
+    if (!target) return { references, error: 'missing' };
+    const collection = await getCachedCollection(target.variableCollectionId, cache);
+
+    references.push({
+      tokenId: target.remote ? target.key : target.id,
+      name: target.name,
+      collectionName: collection?.name ?? 'Unknown',
+    });
+
+    if (target.variableCollectionId !== current.variableCollectionId) {
+      modeId =
+        modes[target.variableCollectionId] ??
+        collection?.defaultModeId ??
+        Object.keys(target.valuesByMode)[0];
+    }
+    value = target.valuesByMode[modeId] ?? Object.values(target.valuesByMode)[0];
+    current = target;
+  }
+
+  return { references, value };
+}
+
+async function getCachedVariable(id: string, cache: VariableCache): Promise<Variable | null> {
+  if (!cache.variables.has(id)) {
+    try {
+      cache.variables.set(id, await figma.variables.getVariableByIdAsync(id));
+    } catch (error) {
+      cache.variables.set(id, null);
+    }
+  }
+  return cache.variables.get(id) ?? null;
+}
+
+async function getCachedCollection(
+  id: string,
+  cache: VariableCache
+): Promise<VariableCollection | null> {
+  if (!cache.collections.has(id)) {
+    try {
+      cache.collections.set(id, await figma.variables.getVariableCollectionByIdAsync(id));
+    } catch (error) {
+      cache.collections.set(id, null);
+    }
+  }
+  return cache.collections.get(id) ?? null;
+}
+
+/**
+ * Mode a binding resolves under on a node, and the value it resolves to
+ */
+interface BindingResolution {
+  modeId: string;
+  modeName: string;
+  explicit: boolean;
+  value?: VariableValue;
+}
+
+/**
+ * Resolve a bound variable in the modes its node renders in
+ *
+ * `resolvedVariableModes` holds the effective mode of every collection,
+ * inherited from the nearest frame that sets one or the collection default.
+ */
+async function resolveBinding(
+  variable: Variable,
+  node: SceneNode,
+  cache: VariableCache
+): Promise<BindingResolution> {
+  const collectionId = variable.variableCollectionId;
+  const collection = await getCachedCollection(collectionId, cache);
+  const modes: Record<string, string> = node.resolvedVariableModes ?? {};
+  const modeId =
+    modes[collectionId] ?? collection?.defaultModeId ?? Object.keys(variable.valuesByMode)[0];
+
+  const resolved = await followAlias(variable, modeId, variable.valuesByMode[modeId], cache, modes);
+
+  return {
+    modeId,
+    modeName:
+      collection?.modes.find((m: VariableCollection['modes'][number]) => m.modeId === modeId)
+        ?.name ?? modeId,
+    explicit: hasExplicitMode(node, collectionId),
+    value: resolved.error ? undefined : resolved.value,
+  };
+}
+
+/**
+ * Whether the node or an ancestor frame sets a mode for the collection
+ */
+function hasExplicitMode(node: SceneNode, collectionId: string): boolean {
+  let current: BaseNode | null = node;
+  while (current && current.type !== 'PAGE' && current.type !== 'DOCUMENT') {
+    if ('explicitVariableModes' in current && current.explicitVariableModes[collectionId]) {
+      return true;
+    }
+    current = current.parent;
+  }
+  return false;
+}
+
+/**
+ * Token Value Matching
+ *
+ * Hard-coded values that equal a token are the cheapest adoption wins: the
+ * layer already looks right, it just isn't bound. A token only qualifies for
+ * a property its scopes allow (a 16px spacing token is not a font size), and
+ * its value is resolved in the mode the layer actually renders in.
+ */
+
+const PROPERTY_SCOPES: Record<TokenBinding['property'], string[]> = {
+  fontFamily: ['FONT_FAMILY'],
+  fontSize: ['FONT_SIZE'],
+  lineHeight: ['LINE_HEIGHT'],
+  letterSpacing: ['LETTER_SPACING'],
+  fills: ['ALL_FILLS', 'TEXT_FILL'],
+};
+
+const PROPERTY_TOKEN_TYPES: Record<TokenBinding['property'], DesignToken['type']> = {
+  fontFamily: 'string',
+  fontSize: 'number',
+  lineHeight: 'number',
+  letterSpacing: 'number',
+  fills: 'color',
+};
+
+/**
+ * A token and its value in the mode a layer renders in
+ */
+export interface TokenValueCandidate {
+  token: DesignToken;
+  value: unknown;
+}
+
+/**
+ * Find the unbound properties of a layer whose value equals a token's
+ *
+ * Only hard-coded values are considered: every property of an unstyled layer
+ * and the overridden properties of a partially styled one. Mixed layers are
+ * skipped since no single value applies to the whole layer.
+ *
+ * @param layer - Text layer with extracted font properties
+ * @param candidates - Tokens with their value in the layer's mode
+ * @returns Matches per property, most specific and most used token first
+ */
+export function findTokenValueMatches(
+  layer: TextLayer,
+  candidates: TokenValueCandidate[]
+): TokenValueMatch[] {
+  const matches: TokenValueMatch[] = [];
+
+  for (const [property, value] of getHardcodedValues(layer)) {
+    const tokens = candidates
+      .filter(
+        ({ token, value: tokenValue }) =>
+          token.type === PROPERTY_TOKEN_TYPES[property] &&
+          isScopedTo(token, property) &&
+          normalizeValue(tokenValue) === value
+      )
+      .map(({ token }) => token)
+      .sort(
+        (a, b) =>
+          Number(isScopedTo(b, property, true)) - Number(isScopedTo(a, property, true)) ||
+          b.usageCount - a.usageCount ||
+          a.name.localeCompare(b.name)
+      );
+
+    if (tokens.length > 0) {
+      matches.push({ property, value, tokenIds: tokens.map((token) => token.id) });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Flag hard-coded layer values that equal an existing token
+ *
+ * Fetches each eligible node for its resolved variable modes, so a layer in
+ * a "Compact" frame is compared against the tokens' compact values.
+ *
+ * @param layers - Text layers to augment with token value matches
+ * @param tokens - All detected tokens in the document
+ */
+export async function detectHardcodedTokenValues(
+  layers: TextLayer[],
+  tokens: DesignToken[]
+): Promise<void> {
+  const seen = new Set<string>();
+  const scopedTokens = tokens.filter((token) => {
+    if (seen.has(token.id)) return false;
+    seen.add(token.id);
+    return (Object.keys(PROPERTY_SCOPES) as TokenBinding['property'][]).some(
+      (property) => token.type === PROPERTY_TOKEN_TYPES[property] && isScopedTo(token, property)
+    );
+  });
+  if (scopedTokens.length === 0) return;
+
+  const cache: VariableCache = { variables: new Map(), collections: new Map() };
+
+  for (const layer of layers) {
+    if (getHardcodedValues(layer).size === 0) continue;
+
+    try {
+      const node = await figma.getNodeByIdAsync(layer.id);
+      if (!node || node.type !== 'TEXT') continue;
+
+      const modes: Record<string, string> = node.resolvedVariableModes ?? {};
+      const candidates: TokenValueCandidate[] = [];
+      for (const token of scopedTokens) {
+        candidates.push({ token, value: await resolveTokenValue(token, modes, cache) });
+      }
+
+      const matches = findTokenValueMatches(layer, candidates);
+      if (matches.length > 0) {
+        layer.tokenValueMatches = matches;
+      }
+    } catch (error) {
+      console.warn(`Error matching token values for layer ${layer.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Unbound, hard-coded values of a layer, normalized for comparison
+ */
+function getHardcodedValues(layer: TextLayer): Map<TokenBinding['property'], string> {
+  const values = new Map<TokenBinding['property'], string>();
+
+  let properties: string[];
+  if (layer.assignmentStatus === 'unstyled') {
+    properties = Object.keys(PROPERTY_SCOPES);
+  } else if (layer.assignmentStatus === 'partially-styled') {
+    properties = (layer.propertyOverrides ?? []).map((override) => override.property);
+  } else {
+    return values;
+  }
+
+  const bound = new Set(layer.tokens.map((binding) => binding.property));
+  const add = (property: TokenBinding['property'], value: unknown) => {
+    const normalized = normalizeValue(value);
+    if (properties.includes(property) && !bound.has(property) && normalized !== null) {
+      values.set(property, normalized);
+    }
+  };
+
+  add('fontFamily', layer.fontFamily);
+  add('fontSize', layer.fontSize);
+  // Variables hold plain numbers, which Figma binds as pixels
+  if (layer.lineHeight?.unit === 'PIXELS') add('lineHeight', layer.lineHeight.value);
+  if (layer.letterSpacing?.unit === 'PIXELS') add('letterSpacing', layer.letterSpacing.value);
+  if (layer.fills?.length === 1) add('fills', layer.fills[0]);
+
+  return values;
+}
+
+/**
+ * Whether a token may be bound to a property; `specific` excludes ALL_SCOPES
+ */
+function isScopedTo(
+  token: DesignToken,
+  property: TokenBinding['property'],
+  specific = false
+): boolean {
+  // Tokens whose scopes could not be read keep Figma's default
+  const scopes = token.scopes ?? ['ALL_SCOPES'];
+  if (!specific && scopes.includes('ALL_SCOPES')) return true;
+  return PROPERTY_SCOPES[property].some((scope) => scopes.includes(scope));
+}
+
+/**
+ * Format a value so that equal-looking values compare equal: numbers to two
+ * decimals, colors to 8-bit channels
+ */
+function normalizeValue(value: unknown): string | null {
+  const round = (n: number) => Math.round(n * 100) / 100;
+
+  if (typeof value === 'number') return formatTokenValue(round(value));
+  if (typeof value === 'string') return value.trim() || null;
+  if (typeof value === 'object' && value !== null && 'r' in value && 'g' in value && 'b' in value) {
+    const color = value as RGBA;
+    return formatTokenValue({ ...color, a: round(color.a ?? 1) });
+  }
+  return null;
+}
+
+/**
+ * Follow a token's aliases to a concrete value, in the modes a node resolves
+ */
+async function resolveTokenValue(
+  token: DesignToken,
+  modes: Record<string, string>,
+  cache: VariableCache
+): Promise<unknown> {
+  const collection = await getCachedCollection(token.collectionId, cache);
+  const modeId = modes[token.collectionId] ?? collection?.defaultModeId ?? token.modeId;
+  const resolved = await followAlias(
+    { id: token.id, variableCollectionId: token.collectionId },
+    modeId,
+    (token.valuesByMode[modeId] ?? token.value) as VariableValue,
+    cache,
+    modes
+  );
+
+  return resolved.error ? undefined : resolved.value;
+}
+
+export function isVariableAlias(value: unknown): value is VariableAlias {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { type?: string }).type === 'VARIABLE_ALIAS'
+  );
+}
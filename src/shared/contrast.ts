@@ -0,0 +1,89 @@
+/**
+ * Contrast - WCAG 2.x contrast ratios for text layers
+ *
+ * Works on the colours sampled by the audit (text fill and the composited
+ * background behind it). Large text, 24px or 18.66px bold and up (18pt /
+ * 14pt bold), has a lower threshold at each level.
+ */
+
+import type { RGBA, TextContrastSample, WcagLevel } from '@/shared/types';
+
+export const WCAG_LEVELS: WcagLevel[] = ['AA', 'AAA'];
+
+const REQUIRED_RATIOS: Record<WcagLevel, { normal: number; large: number }> = {
+  AA: { normal: 4.5, large: 3 },
+  AAA: { normal: 7, large: 4.5 },
+};
+
+/**
+ * Result of checking one sample against the WCAG levels
+ */
+export interface ContrastCheck {
+  ratio: number;
+  largeText: boolean;
+  /** Levels the text does not meet, lowest first */
+  failedLevels: WcagLevel[];
+}
+
+/**
+ * Relative luminance of an sRGB colour (0 for black, 1 for white)
+ */
+export function getRelativeLuminance(color: RGBA): number {
+  const linear = (channel: number) =>
+    channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+  return 0.2126 * linear(color.r) + 0.7152 * linear(color.g) + 0.0722 * linear(color.b);
+}
+
+/**
+ * Contrast ratio (1–21) of text over an opaque background
+ *
+ * Translucent text is composited over the background first, as it renders.
+ */
+export function getContrastRatio(foreground: RGBA, background: RGBA): number {
+  const alpha = foreground.a ?? 1;
+  const text: RGBA = {
+    r: foreground.r * alpha + background.r * (1 - alpha),
+    g: foreground.g * alpha + background.g * (1 - alpha),
+    b: foreground.b * alpha + background.b * (1 - alpha),
+    a: 1,
+  };
+
+  const lighter = Math.max(getRelativeLuminance(text), getRelativeLuminance(background));
+  const darker = Math.min(getRelativeLuminance(text), getRelativeLuminance(background));
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Whether text counts as large for WCAG (18pt, or 14pt bold)
+ */
+export function isLargeText(fontSize: number, fontWeight: number): boolean {
+  return fontSize >= 24 || (fontSize >= 18.66 && fontWeight >= 700);
+}
+
+/**
+ * Minimum contrast ratio for a level and text size
+ */
+export function getRequiredContrast(level: WcagLevel, largeText: boolean): number {
+  return REQUIRED_RATIOS[level][largeText ? 'large' : 'normal'];
+}
+
+/**
+ * Check a sampled text layer against every WCAG level
+ */
+export function checkContrast(sample: TextContrastSample): ContrastCheck {
+  const ratio = getContrastRatio(sample.foreground, sample.background);
+  const largeText = isLargeText(sample.fontSize, sample.fontWeight);
+
+  return {
+    ratio,
+    largeText,
+    failedLevels: WCAG_LEVELS.filter((level) => ratio < getRequiredContrast(level, largeText)),
+  };
+}
+
+/**
+ * Format a ratio the way WCAG tools show it ("4.48:1"), without rounding up to a pass
+ */
+export function formatContrastRatio(ratio: number): string {
+  return `${(Math.floor(ratio * 100) / 100).toFixed(2)}:1`;
+}
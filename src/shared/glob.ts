@@ -0,0 +1,23 @@
+/**
+ * Glob matching for the name patterns in the governance config
+ *
+ * Used by both the audit in the main thread and the UI, so a pattern means
+ * the same thing wherever it is applied.
+ */
+
+/**
+ * Whether a name matches any glob ("*" matches any run of characters,
+ * case-insensitive, whole name)
+ */
+export function matchesAnyGlob(name: string, patterns: string[] = []): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(name.trim()));
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .trim()
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
@@ -154,6 +154,14 @@ export type UIToMainMessage =
   // Page selection messages
   | { type: 'GET_PAGES' }
 
+  // Governance config messages
+  | { type: 'GET_GOVERNANCE_CONFIG' }
+  | { type: 'SAVE_GOVERNANCE_CONFIG'; payload: { config: GovernanceConfig } }
+
+  // Audit history messages
+  | { type: 'GET_AUDIT_SNAPSHOTS' }
+  | { type: 'SAVE_AUDIT_SNAPSHOT'; payload: { snapshot: AuditSnapshot } }
+
   // Replacement messages
   | {
       type: 'REPLACE_STYLE';
@@ -163,6 +171,8 @@ export type UIToMainMessage =
         affectedLayerIds: string[];
         preserveOverrides?: boolean;
         skipComponentInstances?: boolean;
+        scope?: ReplacementScope;
+        dryRun?: boolean; // Inspect only; answered with REPLACEMENT_DRY_RUN_COMPLETE
       };
     }
   | {
@@ -172,30 +182,80 @@ export type UIToMainMessage =
         targetTokenId: string;
         affectedLayerIds: string[];
         propertyTypes?: string[];
+        scope?: ReplacementScope;
+        dryRun?: boolean; // Inspect only; answered with REPLACEMENT_DRY_RUN_COMPLETE
+      };
+    }
+  | {
+      type: 'APPLY_SUGGESTED_STYLES';
+      payload: {
+        assignments: Array<{ layerId: string; styleId: string }>;
+      };
+    }
+  | {
+      type: 'MIGRATE_STYLES';
+      payload: {
+        mappings: Array<StyleMapping & { affectedLayerIds: string[] }>;
+      };
+    }
+  | {
+      type: 'BIND_TOKENS';
+      payload: {
+        bindings: TokenValueBinding[];
+      };
+    }
+  | {
+      type: 'PREVIEW_TOKEN_REMAP';
+      payload: {
+        mappings: TokenMapping[];
+      };
+    }
+  | {
+      type: 'REMAP_TOKENS';
+      payload: {
+        mappings: Array<TokenMapping & { affectedLayerIds: string[] }>;
+      };
+    }
+  | {
+      type: 'CLEANUP_TOKENS';
+      payload: {
+        tokenIds: string[]; // Unused local variables
+        action: TokenCleanupAction;
+        includePublished?: boolean; // Allow removing variables other files may use
+      };
+    }
+  | { type: 'PREVIEW_TOKEN_CLEANUP'; payload: { tokenIds: string[] } }
+  | { type: 'RESTORE_TOKEN_BACKUP'; payload: { backup: TokenCleanupBackup } }
+  | { type: 'PREVIEW_STYLE_CLEANUP'; payload: { styleIds: string[] } }
+  | {
+      type: 'CLEANUP_STYLES';
+      payload: {
+        styleIds: string[]; // Unused local text styles
+        action: StyleCleanupAction;
+        includePublished?: boolean; // Allow deleting styles other files may use
       };
     }
+  | { type: 'RESTORE_STYLE_BACKUP'; payload: { backup: StyleCleanupBackup } }
   | { type: 'CANCEL_REPLACEMENT' }
 
-  // Export messages
+  // Undo journal messages
+  | { type: 'GET_REPLACEMENT_JOURNAL' }
+  | { type: 'REVERT_OPERATION'; payload: { entryId: string } }
+
+  // Export messages (sent once the UI has generated and downloaded the file)
   | {
       type: 'EXPORT_PDF';
       payload: {
-        auditResult: StyleGovernanceAuditResult;
-        options?: {
-          includeCharts?: boolean;
-          includeDetailedTables?: boolean;
-          pageOrientation?: 'portrait' | 'landscape';
-        };
+        filename: string;
+        fileSize: number;
+        options: PDFExportOptions;
       };
     }
   | {
       type: 'EXPORT_CSV';
       payload: {
-        auditResult: StyleGovernanceAuditResult;
-        options?: {
-          includeHeaders?: boolean;
-          delimiter?: string;
-        };
+        files: Array<{ filename: string; fileSize: number; rowCount: number }>;
+        options: CSVExportOptions;
       };
     }
 
@@ -277,6 +337,7 @@ export type MainToUIMessage =
       type: 'STYLE_AUDIT_CANCELLED';
       payload: { partialResults?: Partial<StyleGovernanceAuditResult> };
     }
+  | { type: 'STYLE_AUDIT_DELTA'; payload: StyleAuditDelta }
   | {
       type: 'STYLE_AUDIT_INVALIDATED';
       payload: {
@@ -291,8 +352,8 @@ export type MainToUIMessage =
       payload: {
         operationType: 'style' | 'token';
         state: 'validating';
-        sourceId: string;
-        targetId: string;
+        sourceId?: string; // Omitted for per-layer assignments with mixed targets
+        targetId?: string;
         affectedLayerCount: number;
       };
     }
@@ -323,6 +384,9 @@ export type MainToUIMessage =
         failedLayers?: FailedLayer[];
         duration: number;
         hasWarnings: boolean;
+        migrationResults?: StyleMigrationPairResult[]; // Per-pair outcome of MIGRATE_STYLES
+        tokenBackup?: TokenCleanupBackup; // Variables removed by CLEANUP_TOKENS
+        styleBackup?: StyleCleanupBackup; // Styles deleted by CLEANUP_STYLES
       };
     }
   | {
@@ -343,24 +407,31 @@ export type MainToUIMessage =
         layersProcessed: number;
       };
     }
+  | { type: 'REPLACEMENT_DRY_RUN_COMPLETE'; payload: { report: ReplacementDryRunReport } }
+  | {
+      type: 'REPLACEMENT_DRY_RUN_ERROR';
+      payload: { operationType: 'style' | 'token'; error: string };
+    }
+  | { type: 'TOKEN_REMAP_PREVIEW'; payload: { previews: TokenRemapPairPreview[] } }
+  | { type: 'TOKEN_REMAP_PREVIEW_ERROR'; payload: { error: string } }
+  | { type: 'TOKEN_CLEANUP_PREVIEW'; payload: { previews: TokenCleanupPreview[] } }
+  | { type: 'TOKEN_CLEANUP_PREVIEW_ERROR'; payload: { error: string } }
+  | { type: 'STYLE_CLEANUP_PREVIEW'; payload: { previews: StyleCleanupPreview[] } }
+  | { type: 'STYLE_CLEANUP_PREVIEW_ERROR'; payload: { error: string } }
 
   // Export messages
-  | { type: 'EXPORT_PDF_STARTED' }
   | {
       type: 'EXPORT_PDF_COMPLETE';
       payload: {
-        blobUrl: string;
         filename: string;
         fileSize: number;
       };
     }
-  | { type: 'EXPORT_CSV_STARTED' }
   | {
       type: 'EXPORT_CSV_COMPLETE';
       payload: {
-        blobUrl: string;
-        filename: string;
-        fileSize: number;
+        fileCount: number;
+        fileSize: number; // All files together
         rowCount: number;
       };
     }
@@ -380,6 +451,15 @@ export type MainToUIMessage =
   // Page selection messages
   | { type: 'PAGES_LIST'; payload: { pages: Array<{ id: string; name: string }> } }
 
+  // Governance config messages (config is validated by the UI; null when unset)
+  | { type: 'GOVERNANCE_CONFIG_LOADED'; payload: { config: unknown } }
+
+  // Audit history messages
+  | { type: 'AUDIT_SNAPSHOTS_LOADED'; payload: { snapshots: AuditSnapshot[] } }
+
+  // Undo journal messages (newest entry first)
+  | { type: 'REPLACEMENT_JOURNAL_LOADED'; payload: { entries: ReplacementJournalEntry[] } }
+
   // Conversion messages
   | {
       type: 'CONVERSION_COMPLETE';
@@ -545,9 +625,10 @@ export interface TextLayer {
   pageName: string; // Parent page name
   parentType: 'MAIN_COMPONENT' | 'INSTANCE' | 'FRAME' | 'GROUP';
   componentPath?: string; // Full component hierarchy if in component
+  frameName?: string; // Outermost frame containing the layer (e.g. "iPhone 15 / Home")
 
   // Style Assignment
-  assignmentStatus: 'fully-styled' | 'partially-styled' | 'unstyled';
+  assignmentStatus: 'fully-styled' | 'partially-styled' | 'unstyled' | 'mixed';
   styleId?: string; // Assigned text style ID (if any)
   styleName?: string; // Resolved style name
   styleSource?: string; // Library name or "Local"
@@ -571,6 +652,57 @@ export interface TextLayer {
   lineHeight?: LineHeight; // Line height (pixels, %, or "AUTO")
   letterSpacing?: LetterSpacing; // Letter spacing (pixels or %)
   fills?: RGBA[]; // Fill colors (first solid fill extracted)
+
+  // Multi-range Text (only set when assignmentStatus is 'mixed')
+  segments?: TextSegment[]; // Character ranges with differing styles, fonts or token bindings
+
+  // Hard-coded values equal to a token in the layer's mode, on unbound properties
+  tokenValueMatches?: TokenValueMatch[];
+
+  // Accessibility
+  contrast?: TextContrastSample; // Unset when the text or its background is not a solid colour
+
+  // Style Suggestions (computed in the UI once all styles are known)
+  matchSuggestions?: StyleMatchSuggestion[]; // Closest styles for unstyled / partially styled layers
+}
+
+/**
+ * Colours and size needed to check a text layer's WCAG contrast
+ */
+export interface TextContrastSample {
+  foreground: RGBA; // Text colour; alpha includes paint and layer opacity
+  background: RGBA; // Opaque colour behind the text, composited from ancestor fills
+  fontSize: number; // Font size in pixels (of the worst-contrast range)
+  fontWeight: number; // Font weight (of the worst-contrast range)
+}
+
+/**
+ * Text properties that can be bound to a variable on a character range
+ */
+export type SegmentBindableProperty =
+  | 'fills'
+  | 'fontFamily'
+  | 'fontSize'
+  | 'fontWeight'
+  | 'lineHeight'
+  | 'letterSpacing';
+
+/**
+ * A run of characters sharing one text style, font and set of token bindings
+ */
+export interface TextSegment {
+  start: number; // First character index (inclusive)
+  end: number; // Last character index (exclusive)
+  characters: string; // Segment text preview (first 50 chars)
+  styleId?: string; // Text style applied to this range (if any)
+  styleName?: string; // Resolved style name
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: number;
+  lineHeight: LineHeight;
+  letterSpacing: LetterSpacing;
+  fills: RGBA[]; // Solid fill colors
+  boundVariables: Partial<Record<SegmentBindableProperty, string>>; // Property → variable ID
 }
 
 /**
@@ -654,11 +786,42 @@ export interface DesignToken {
   isAlias: boolean; // True if references another token
   aliasedTokenId?: string; // Source token ID if alias
   aliasChain?: string[]; // Full chain (e.g., ["text.primary", "brand.blue", "#0066CC"])
+  aliasChains?: TokenAliasChain[]; // Chain in each mode of the token's collection
 
   // Usage Metrics
   usageCount: number; // How many layers reference this token
   layerIds: string[]; // Layer IDs using this token
   propertyTypes: string[]; // Which properties use it (e.g., ["fills", "fontFamily"])
+  scopes?: string[]; // Figma variable scopes (properties the variable may be bound to)
+}
+
+/**
+ * How a token resolves in one mode: the tokens it references, then a raw value
+ */
+export interface TokenAliasChain {
+  modeId: string;
+  modeName: string;
+  references: TokenReference[]; // Aliased tokens, nearest first
+  value: string; // Raw value at the end of the chain, formatted ('' if unresolved)
+  error?: 'cycle' | 'missing'; // Why the chain stops before a raw value
+}
+
+/**
+ * A token referenced by an alias
+ */
+export interface TokenReference {
+  tokenId: string; // Matches DesignToken.id (variable key for library tokens)
+  name: string;
+  collectionName: string;
+}
+
+/**
+ * An unbound layer property whose raw value equals one or more tokens
+ */
+export interface TokenValueMatch {
+  property: TokenBinding['property'];
+  value: string; // The layer's raw value, formatted for display
+  tokenIds: string[]; // Tokens holding that value, best first
 }
 
 /**
@@ -668,7 +831,10 @@ export interface TokenBinding {
   property: 'fills' | 'fontFamily' | 'fontSize' | 'lineHeight' | 'letterSpacing';
   tokenId: string; // Variable ID
   tokenName: string; // Resolved token name
-  tokenValue: any; // Resolved value
+  tokenValue: any; // Resolved value, in the mode the layer renders in
+  modeId?: string; // Variable mode the binding resolves under
+  modeName?: string;
+  explicitMode?: boolean; // Mode set on the layer or an ancestor frame, not the collection default
 }
 
 /**
@@ -713,6 +879,7 @@ export interface AuditMetrics {
   fullyStyledCount: number; // Layers matching style exactly
   partiallyStyledCount: number; // Layers with overrides
   unstyledCount: number; // Layers without style
+  mixedStyleCount: number; // Layers with several styles, fonts or token bindings across ranges
 
   // Library Distribution
   libraryDistribution: Record<string, number>; // Library name → layer count
@@ -789,6 +956,51 @@ export interface StyleGovernanceAuditResult {
   auditDuration: number; // Time taken in milliseconds
 }
 
+/**
+ * Point-in-time summary of a completed audit, persisted per document so
+ * adoption can be tracked across audits
+ */
+export interface AuditSnapshot {
+  documentId: string; // Figma file ID (storage key, with timestamp)
+  documentName: string;
+  timestamp: string; // ISO 8601 audit time
+  metrics: Pick<
+    AuditMetrics,
+    | 'styleAdoptionRate'
+    | 'fullyStyledCount'
+    | 'partiallyStyledCount'
+    | 'unstyledCount'
+    | 'mixedStyleCount'
+    | 'tokenAdoptionRate'
+    | 'tokenCoverageRate'
+    | 'elementCount'
+    | 'elementsWithTokens'
+    | 'totalTokenBindings'
+    | 'deprecatedStyleCount'
+  >;
+  styleUsage: Array<{
+    styleId: string;
+    styleKey?: string; // Absent on snapshots saved before cross-file diffs
+    styleName: string;
+    usageCount: number;
+  }>;
+  tokenBindingsByCollection?: Record<string, number>; // Absent on snapshots saved before audit diffs
+  libraryNames?: string[];
+}
+
+/**
+ * Incremental update to a completed audit, produced by the live re-audit
+ * after document edits. Only layers, styles and tokens touched by the edit
+ * are included; usage counts are reconciled by the UI.
+ */
+export interface StyleAuditDelta {
+  updatedLayers: TextLayer[]; // Created or modified layers (replace by ID)
+  removedLayerIds: string[]; // Deleted, emptied or hidden layers
+  updatedStyles: TextStyle[]; // Styles used by updated layers
+  updatedTokens: DesignToken[]; // Tokens bound by updated layers
+  updatedLibraries: LibrarySource[]; // Libraries of updated styles
+}
+
 // ----------------------------------------------------------------------------
 // Replacement Types
 // ----------------------------------------------------------------------------
@@ -816,6 +1028,240 @@ export interface ReplacementResult {
   hasWarnings: boolean; // True if partial failures
 }
 
+/**
+ * One source → target pair of a bulk style migration
+ */
+export interface StyleMapping {
+  sourceStyleId: string;
+  targetStyleId: string;
+}
+
+/**
+ * Outcome of one pair in a style migration (every pair shares one checkpoint)
+ */
+export interface StyleMigrationPairResult extends StyleMapping {
+  result: ReplacementResult;
+}
+
+/**
+ * Bind a layer property to the token that already holds its value
+ */
+export interface TokenValueBinding {
+  layerId: string;
+  property: TokenBinding['property'];
+  tokenId: string;
+}
+
+/**
+ * One source → target pair of a token remap between collections
+ */
+export interface TokenMapping {
+  sourceTokenId: string;
+  targetTokenId: string;
+}
+
+/**
+ * Resolved value of a remapped token in one of the source's modes
+ */
+export interface TokenRemapModeValue {
+  modeName: string; // Source collection mode
+  sourceValue: string;
+  targetValue: string | null; // Null when the target has no value for this mode
+  changed: boolean;
+}
+
+/**
+ * What a token remap pair would change, checked before anything is written
+ */
+export interface TokenRemapPairPreview extends TokenMapping {
+  modes: TokenRemapModeValue[];
+  missingModes: string[]; // Source modes the target has no value for
+  typeMismatch?: { sourceType: string; targetType: string };
+  error?: string; // Either token could not be loaded
+}
+
+/**
+ * What a token cleanup does with the unused variables
+ */
+export type TokenCleanupAction = 'delete' | 'deprecate'; // Deprecate moves them into a "Deprecated" collection
+
+/**
+ * Who else may depend on a local variable, checked across the whole document
+ */
+export interface TokenCleanupPreview {
+  tokenId: string;
+  blocker?: string; // A layer, style or variable still references it
+  publishStatus: 'UNPUBLISHED' | 'CURRENT' | 'CHANGED'; // Published variables may be used by other files
+  error?: string; // The variable could not be loaded
+}
+
+/**
+ * Raw value of a variable in one mode (aliases keep the aliased variable's ID)
+ */
+export type VariableBackupValue =
+  | string
+  | number
+  | boolean
+  | RGBA
+  | { type: 'VARIABLE_ALIAS'; id: string };
+
+/**
+ * Everything needed to re-create a variable removed by a token cleanup
+ */
+export interface VariableBackup {
+  id: string; // Variable ID before removal (restored variables get a new one)
+  name: string;
+  description: string;
+  resolvedType: 'BOOLEAN' | 'COLOR' | 'FLOAT' | 'STRING';
+  scopes: string[];
+  hiddenFromPublishing: boolean;
+  codeSyntax: Partial<Record<'WEB' | 'ANDROID' | 'iOS', string>>;
+  collectionId: string;
+  collectionName: string;
+  values: Array<{ modeId: string; modeName: string; value: VariableBackupValue }>;
+}
+
+/**
+ * Backup JSON of a token cleanup; restoring it re-creates the removed variables
+ */
+export interface TokenCleanupBackup {
+  version: 1;
+  createdAt: string; // ISO 8601
+  action: TokenCleanupAction;
+  checkpointTitle?: string;
+  variables: VariableBackup[];
+}
+
+/**
+ * What a style cleanup does with the unused text styles
+ */
+export type StyleCleanupAction = 'delete' | 'deprecate'; // Deprecate renames them with a "zz-deprecated/" prefix
+
+/**
+ * Who else may depend on a local text style, checked across the whole document
+ */
+export interface StyleCleanupPreview {
+  styleId: string;
+  consumerCount: number; // Layers applying the style, on any page
+  publishStatus: 'UNPUBLISHED' | 'CURRENT' | 'CHANGED'; // Published styles may be used by other files
+  error?: string; // The style could not be loaded
+}
+
+/**
+ * Everything needed to re-create a text style removed by a style cleanup
+ */
+export interface TextStyleBackup {
+  id: string; // Style ID before removal (restored styles get a new one)
+  key: string;
+  name: string;
+  description: string;
+  fontName: { family: string; style: string };
+  fontSize: number;
+  lineHeight: LineHeight;
+  letterSpacing: LetterSpacing;
+  paragraphSpacing: number;
+  paragraphIndent: number;
+  listSpacing: number;
+  textCase: string;
+  textDecoration: string;
+  leadingTrim: string;
+  hangingPunctuation: boolean;
+  hangingList: boolean;
+  boundVariables: Record<string, string>; // Field → variable ID
+}
+
+/**
+ * Backup JSON of a style cleanup; restoring it re-creates the deleted styles
+ */
+export interface StyleCleanupBackup {
+  version: 1;
+  createdAt: string; // ISO 8601
+  checkpointTitle?: string;
+  styles: TextStyleBackup[];
+}
+
+/**
+ * Part of the file a replacement is limited to (unset fields do not restrict)
+ */
+export interface ReplacementScope {
+  selectionOnly?: boolean; // Layers in the current selection or inside a selected layer
+  pageIds?: string[]; // Layers on these pages
+  componentContext?: 'main_component' | 'instance'; // Layers inside a main component / an instance
+  componentPathPattern?: string; // Glob ("*" wildcard) matched against the layer's component path
+}
+
+/**
+ * How a style replacement treats individual layers
+ */
+export interface StyleReplacementLayerOptions {
+  preserveOverrides?: boolean; // Re-apply local typography overrides after the swap (default true)
+  skipComponentInstances?: boolean; // Leave text inside component instances untouched
+}
+
+/**
+ * Why a layer cannot be replaced (checked by dry runs and before every write)
+ */
+export type LayerBlockerReason =
+  | 'not_found'
+  | 'not_text'
+  | 'locked'
+  | 'missing_font'
+  | 'remote_component'
+  | 'component_instance'
+  | 'token_not_found';
+
+/**
+ * Layer a dry run expects to fail
+ */
+export interface DryRunLayerFailure {
+  layerId: string;
+  layerName: string;
+  reason: LayerBlockerReason;
+  message: string;
+}
+
+/**
+ * Outcome of a replacement dry run (nothing is written and no checkpoint is created)
+ */
+export interface ReplacementDryRunReport {
+  operationType: 'style' | 'token';
+  totalLayers: number;
+  wouldSucceed: number;
+  wouldChange: number; // Succeeding layers with at least one visible property change
+  failures: DryRunLayerFailure[];
+  failureCounts: Partial<Record<LayerBlockerReason, number>>;
+  propertyChanges: Record<string, number>; // Property → layers where it visibly changes
+  duration: number; // Time taken in ms
+}
+
+/**
+ * Style change recorded by the undo journal (layers moved from one style to another)
+ */
+export interface JournalStyleChange {
+  fromStyleId: string;
+  toStyleId: string;
+  toStyleName: string;
+  layerCount: number;
+}
+
+/**
+ * One replacement operation in the document's undo journal
+ *
+ * The layers' previous text styles and variable bindings are stored
+ * separately; this is the browsable summary.
+ */
+export interface ReplacementJournalEntry {
+  id: string;
+  operationType: 'style' | 'token';
+  title: string; // e.g. "Style Migration"
+  timestamp: string; // ISO 8601
+  layerCount: number; // Layers recorded (changed or attempted)
+  checkpointTitle?: string; // Version history checkpoint created before the operation
+  completed: boolean; // False when the operation failed or was cancelled part-way
+  styleChanges: JournalStyleChange[];
+  revertedAt?: string; // ISO 8601, set once the operation has been reverted
+}
+
 /**
  * Batch processor state for adaptive sizing
  */
@@ -899,6 +1345,30 @@ export interface ExportResult {
   metadata: ExportMetadata;
 }
 
+/**
+ * Options for PDF audit report export
+ *
+ * Reports are generated in the UI, the only context that can download files;
+ * the UI then reports the export with EXPORT_PDF and the main context
+ * acknowledges it with EXPORT_PDF_COMPLETE or EXPORT_ERROR.
+ */
+export interface PDFExportOptions {
+  includeCharts?: boolean; // Bar charts for style assignment and library usage (default true)
+  includeDetailedTables?: boolean; // Unstyled / partially styled layer tables (default true)
+  pageOrientation?: 'portrait' | 'landscape'; // Default portrait
+}
+
+/**
+ * Options for CSV export
+ *
+ * Like PDF reports, the files are generated and downloaded in the UI, then
+ * reported with EXPORT_CSV and acknowledged with EXPORT_CSV_COMPLETE.
+ */
+export interface CSVExportOptions {
+  includeHeaders?: boolean; // Emit a header row (default true)
+  delimiter?: string; // Field delimiter (default ",")
+}
+
 export interface ExportMetadata {
   documentName: string;
   auditTimestamp: Date;
@@ -908,3 +1378,107 @@ export interface ExportMetadata {
   exportTimestamp: Date;
   pluginVersion: string;
 }
+
+// ============================================================================
+// Typography Lint Types
+// ============================================================================
+
+/**
+ * Lint violation severity
+ */
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * WCAG 2.x conformance level for contrast checks
+ */
+export type WcagLevel = 'AA' | 'AAA';
+
+/**
+ * What a lint rule checks on each text layer
+ */
+export type LintRuleCondition =
+  | { type: 'require-style'; allowPartial: boolean } // Text must use a text style
+  | { type: 'require-token'; properties: TokenBinding['property'][] } // Properties bound to tokens
+  | { type: 'disallow-library'; libraries: string[] } // Style source must not be one of these
+  | { type: 'min-line-height'; ratio: number; maxFontSize?: number } // Line height ≥ ratio × font size (body text only when maxFontSize is set)
+  | { type: 'min-font-size'; size: number; frames: string[] } // Font size ≥ size px (only in frames matching these globs when set)
+  | { type: 'no-negative-letter-spacing'; maxFontSize: number } // No negative letter spacing up to this font size
+  | { type: 'min-contrast'; level: WcagLevel } // Text against its background meets WCAG
+  | { type: 'disallow-overrides'; properties: PropertyOverride['property'][] } // No local overrides
+  | { type: 'semantic-tokens-only' }; // No bindings to tokens from primitive collections
+
+/**
+ * Declarative typography lint rule
+ */
+export interface LintRule {
+  id: string; // Stable rule ID (reported on violations)
+  name: string; // Display name
+  severity: LintSeverity;
+  enabled: boolean;
+  condition: LintRuleCondition;
+  ignoredPages?: string[]; // Page name globs the rule skips (e.g. "Drafts*")
+}
+
+/**
+ * A text layer that breaks a lint rule
+ */
+export interface LintViolation {
+  ruleId: string;
+  severity: LintSeverity;
+  layerId: string;
+  layerName: string;
+  pageName: string;
+  message: string; // What is wrong on this layer
+  styleId?: string; // Text style of the layer, for per-style reports
+  styleName?: string;
+}
+
+/**
+ * A text style whose own values break a lint rule, so the fix is made once
+ */
+export interface LintStyleViolation {
+  ruleId: string;
+  severity: LintSeverity;
+  styleId: string;
+  styleName: string;
+  layerCount: number; // Layers using the style where the rule applies
+  message: string;
+}
+
+// ============================================================================
+// Governance Config Types
+// ============================================================================
+
+/**
+ * Coverage colour bounds in percent: ≥ good is green, ≥ warning is yellow
+ */
+export interface CoverageThreshold {
+  good: number;
+  warning: number;
+}
+
+/**
+ * Team-wide governance rules, stored in the document so every collaborator
+ * audits and lints with the same settings
+ */
+export interface GovernanceConfig {
+  version: 1;
+  thresholds: {
+    styleAdoption: CoverageThreshold;
+    tokenAdoption: CoverageThreshold;
+    tokenCoverage: CoverageThreshold;
+  };
+  allowedLibraries: string[]; // Style sources allowed in this file (empty allows all)
+  deprecatedStylePatterns: string[]; // Style name globs treated as deprecated (e.g. "Legacy/*")
+  suggestionThreshold: number; // Minimum similarity (%) for a style to be suggested
+  ignoredPages: string[]; // Page name globs the audit skips
+  ignoredLayerNames: string[]; // Layer name globs the audit skips
+  lintRules: LintRule[];
+  primitiveCollections: string[]; // Token collection name globs holding raw values (empty infers from aliases)
+  semanticCollections: string[]; // Token collection name globs layers should bind instead
+}
+
+/**
+ * Role of a token collection: raw values, or purpose-named aliases to them
+ */
+export type CollectionTier = 'primitive' | 'semantic';
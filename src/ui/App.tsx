@@ -2,6 +2,9 @@ import { useState, useEffect, useMemo } from 'react';
 import './styles/globals.css';
 import { useMessageHandler } from './hooks/useMessageHandler';
 import { useAuditState } from './hooks/useAuditState';
+import { useAuditSnapshots } from './hooks/useAuditSnapshots';
+import { useGovernanceConfig } from './hooks/useGovernanceConfig';
+import { useReplacementJournal } from './hooks/useReplacementJournal';
 import Sidebar, { type TabType } from './components/Sidebar';
 import Header from './components/Header';
 import EmptyState from './components/EmptyState';
@@ -15,11 +18,52 @@ import StylePicker from './components/StylePicker';
 import StyleReplacementPanel from './components/StyleReplacementPanel';
 import TokenReplacementPanel from './components/TokenReplacementPanel';
 import ConversionPanel from './components/ConversionPanel';
+import SuggestedStylesPanel from './components/SuggestedStylesPanel';
+import StyleMigrationPanel from './components/StyleMigrationPanel';
+import LibraryMappingPanel from './components/LibraryMappingPanel';
+import TokenRemapPanel from './components/TokenRemapPanel';
+import TokenBindingPanel from './components/TokenBindingPanel';
+import TokenCleanupPanel from './components/TokenCleanupPanel';
+import StyleCleanupPanel from './components/StyleCleanupPanel';
+import OperationHistoryPanel from './components/OperationHistoryPanel';
 import FilterToolbar from './components/FilterToolbar';
 import Toast from './components/Toast';
 import ConfirmationDialog from './components/ConfirmationDialog';
+import ExportOptionsDialog from './components/ExportOptionsDialog';
 import PageSelector from './components/PageSelector';
-import type { TextStyle, DesignToken } from '@/shared/types';
+import { WarningBanner } from './components/WarningBanner';
+import AuditComparisonView from './components/AuditComparisonView';
+import LintView from './components/LintView';
+import GovernanceSettingsPanel from './components/GovernanceSettingsPanel';
+import type {
+  TextStyle,
+  DesignToken,
+  FailedLayer,
+  CSVExportOptions,
+  GovernanceConfig,
+  PDFExportOptions,
+  ReplacementScope,
+  StyleCleanupAction,
+  StyleCleanupBackup,
+  StyleMapping,
+  StyleReplacementLayerOptions,
+  TokenCleanupAction,
+  TokenCleanupBackup,
+  TokenMapping,
+  TokenValueBinding,
+} from '@/shared/types';
+import { generatePDFReport } from './utils/pdfExport';
+import { buildReplacementHistory } from './utils/replacementJournal';
+import { generateCSVExport, generateDiffCSV, generateTrendCSV } from './utils/csvExport';
+import { generateAuditJSON, generateDiffJSON, type AuditDiff } from './utils/auditDiff';
+import { downloadFile, formatFileSize } from './utils/exportUtils';
+import { getPluginVersion } from './utils/version';
+import { calculateOptimizedMetrics } from './utils/metricsCalculator';
+import { DEFAULT_LINT_RULES, lintLayers, lintStyles } from './utils/lintEngine';
+import { generateGovernanceConfigJSON } from './utils/governanceConfig';
+import type { SuggestedAssignment } from './utils/styleMatcher';
+import { countLayersWithTokenValueMatches } from './utils/tokenValueMatches';
+import { buildTokenLayering } from './utils/tokenLayering';
 
 /**
  * Main App component - Root of the plugin UI
@@ -33,6 +77,7 @@ export default function App() {
 
   // Detail panel selection state
   const [selectedStyle, setSelectedStyle] = useState<TextStyle | null>(null);
+  const [showUnstyledLayers, setShowUnstyledLayers] = useState(false);
   const [selectedToken, setSelectedToken] = useState<DesignToken | null>(null);
 
   // Filter state for Styles tab
@@ -61,10 +106,30 @@ export default function App() {
   const [showReplacementPanel, setShowReplacementPanel] = useState(false);
   const [replacementPanelError, setReplacementPanelError] = useState<string | undefined>();
   const [replacedStyleIds, setReplacedStyleIds] = useState<Set<string>>(new Set());
-  // Track replacement mapping: original style ID -> { targetStyleId, targetStyleName, count }
-  const [replacementHistory, setReplacementHistory] = useState<
-    Map<string, { targetStyleId: string; targetStyleName: string; count: number }>
-  >(new Map());
+
+  // Operation history (undo journal) panel state
+  const [showHistoryPanel, setShowHistoryPanel] = useState(false);
+
+  // Bulk "apply suggested styles" panel state
+  const [showSuggestionsPanel, setShowSuggestionsPanel] = useState(false);
+
+  // Bulk style migration panel state
+  const [showMigrationPanel, setShowMigrationPanel] = useState(false);
+
+  // Library-to-library mapping panel state
+  const [showLibraryMappingPanel, setShowLibraryMappingPanel] = useState(false);
+
+  // Collection-to-collection token remap panel state
+  const [showTokenRemapPanel, setShowTokenRemapPanel] = useState(false);
+
+  // Bind hard-coded values to matching tokens panel state
+  const [showTokenBindingPanel, setShowTokenBindingPanel] = useState(false);
+
+  // Unused variable cleanup panel state
+  const [showTokenCleanupPanel, setShowTokenCleanupPanel] = useState(false);
+
+  // Unused text style cleanup panel state
+  const [showStyleCleanupPanel, setShowStyleCleanupPanel] = useState(false);
 
   // Conversion panel state
   const [showConversionPanel, setShowConversionPanel] = useState(false);
@@ -80,8 +145,30 @@ export default function App() {
   // Page selection state
   const [showPageSelector, setShowPageSelector] = useState(false);
 
+  // Governance settings panel state
+  const [showSettingsPanel, setShowSettingsPanel] = useState(false);
+
+  // Export state
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportOptionsFormat, setExportOptionsFormat] = useState<'pdf' | 'csv' | null>(null);
+  const [pdfOptions, setPDFOptions] = useState<PDFExportOptions>({});
+  const [csvOptions, setCSVOptions] = useState<CSVExportOptions>({});
+
   // Get message handlers for communication with main context
-  const { runStyleAudit, navigateToLayer, replaceStyle, replaceToken } = useMessageHandler();
+  const {
+    runStyleAudit,
+    navigateToLayer,
+    replaceStyle,
+    replaceToken,
+    applySuggestedStyles,
+    migrateStyles,
+    remapTokens,
+    bindTokens,
+    cleanupTokens,
+    restoreTokenBackup,
+    cleanupStyles,
+    restoreStyleBackup,
+  } = useMessageHandler();
 
   // Get audit state
   const {
@@ -94,11 +181,67 @@ export default function App() {
     transitionTo,
     auditState,
     currentStep,
+    isStale,
+    setSuggestionThreshold,
   } = useAuditState();
 
+  // Persisted audit history for the trend view
+  const { snapshots } = useAuditSnapshots(styleGovernanceResult, auditState);
+
+  // Governance config shared through the document (thresholds, audit scope, lint rules)
+  const {
+    config: governanceConfig,
+    loadError: governanceConfigError,
+    updateConfig: updateGovernanceConfig,
+  } = useGovernanceConfig();
+
+  // Style suggestions are kept above the configured minimum similarity
+  const suggestionThreshold = governanceConfig.suggestionThreshold / 100;
+  useEffect(() => {
+    setSuggestionThreshold(suggestionThreshold);
+  }, [suggestionThreshold]);
+
+  // Undo journal of replacement operations, shared through the document
+  const { entries: journalEntries, revertOperation } = useReplacementJournal();
+  // Track replacement mapping: original style ID -> { targetStyleId, targetStyleName, count }
+  const replacementHistory = useMemo(
+    () => buildReplacementHistory(journalEntries),
+    [journalEntries]
+  );
+
+  // Typography lint violations on the current audit
+  const lintRules = governanceConfig.lintRules;
+  const tokenLayering = useMemo(
+    () =>
+      styleGovernanceResult
+        ? buildTokenLayering(styleGovernanceResult.tokens, governanceConfig)
+        : undefined,
+    [styleGovernanceResult, governanceConfig]
+  );
+  const lintViolations = useMemo(
+    () =>
+      styleGovernanceResult
+        ? lintLayers(styleGovernanceResult.layers, lintRules, tokenLayering)
+        : [],
+    [styleGovernanceResult, lintRules, tokenLayering]
+  );
+  const lintStyleViolations = useMemo(
+    () =>
+      styleGovernanceResult
+        ? lintStyles(
+            styleGovernanceResult.styles,
+            styleGovernanceResult.layers,
+            lintRules,
+            tokenLayering
+          )
+        : [],
+    [styleGovernanceResult, lintRules, tokenLayering]
+  );
+
   // Calculate badge counts from audit results
   const styleBadgeCount = styleGovernanceResult?.styles.length ?? 0;
   const tokenBadgeCount = styleGovernanceResult?.tokens.length ?? 0;
+  const lintBadgeCount = lintViolations.filter((v) => v.severity !== 'info').length;
 
   // Check if there are remote styles
   const hasRemoteStyles = useMemo(() => {
@@ -117,7 +260,9 @@ export default function App() {
   }, [styleBadgeCount, tokenBadgeCount, styleGovernanceResult]);
 
   // Calculate which tabs should be disabled
-  const disabledTabs: TabType[] = !styleGovernanceResult ? ['styles', 'tokens'] : [];
+  const disabledTabs: TabType[] = !styleGovernanceResult
+    ? ['styles', 'tokens', 'lint', 'compare']
+    : [];
 
   // Auto-select first style when Styles tab is activated
   useEffect(() => {
@@ -125,11 +270,12 @@ export default function App() {
       activeTab === 'styles' &&
       styleGovernanceResult &&
       styleGovernanceResult.styles.length > 0 &&
-      !selectedStyle
+      !selectedStyle &&
+      !showUnstyledLayers
     ) {
       setSelectedStyle(styleGovernanceResult.styles[0]);
     }
-  }, [activeTab, styleGovernanceResult, selectedStyle]);
+  }, [activeTab, styleGovernanceResult, selectedStyle, showUnstyledLayers]);
 
   // Listen for conversion complete/error messages
   useEffect(() => {
@@ -171,6 +317,31 @@ export default function App() {
           setConversionError(msg.payload.error);
           setToast({ message: msg.payload.error, type: 'error' });
           break;
+
+        case 'EXPORT_PDF_COMPLETE':
+          setIsExporting(false);
+          setToast({
+            message: `Exported ${msg.payload.filename} (${formatFileSize(msg.payload.fileSize)})`,
+            type: 'success',
+          });
+          break;
+
+        case 'EXPORT_CSV_COMPLETE':
+          setIsExporting(false);
+          setToast({
+            message: `Exported ${msg.payload.fileCount} CSV files (${msg.payload.rowCount.toLocaleString()} rows)`,
+            type: 'success',
+          });
+          break;
+
+        case 'EXPORT_ERROR':
+          console.error('[App] Export error:', msg.payload);
+          setIsExporting(false);
+          setToast({
+            message: `${msg.payload.exportType.toUpperCase()} export failed: ${msg.payload.error}`,
+            type: 'error',
+          });
+          break;
       }
     };
 
@@ -213,6 +384,17 @@ export default function App() {
     reset();
     setSelectedStyle(null);
     setSelectedToken(null);
+    setShowUnstyledLayers(false);
+  };
+
+  const handleStyleSelect = (style: TextStyle) => {
+    setShowUnstyledLayers(false);
+    setSelectedStyle(style);
+  };
+
+  const handleUnstyledSelect = () => {
+    setSelectedStyle(null);
+    setShowUnstyledLayers(true);
   };
 
   // Replacement workflow handlers
@@ -375,7 +557,12 @@ export default function App() {
     console.log('[UI] Audit results updated optimistically');
   };
 
-  const handleReplacementPanelReplace = async (source: TextStyle, target: TextStyle) => {
+  const handleReplacementPanelReplace = async (
+    source: TextStyle,
+    target: TextStyle,
+    layerOptions: StyleReplacementLayerOptions,
+    scope: ReplacementScope
+  ) => {
     console.log('[UI] Slide-over replacement:', {
       sourceStyleId: source.id,
       targetStyleId: target.id,
@@ -386,25 +573,16 @@ export default function App() {
     setToast({ message: 'Replacing style...', type: 'loading' });
 
     try {
-      await replaceStyle(source.id, target.id, affectedLayerIds);
+      await replaceStyle(source.id, target.id, affectedLayerIds, layerOptions, scope);
 
       // Mark style as replaced (show green circle)
       setReplacedStyleIds((prev) => new Set(prev).add(source.id));
 
-      // Track replacement in history (for showing replacement details)
-      setReplacementHistory((prev) => {
-        const newHistory = new Map(prev);
-        const existingEntry = newHistory.get(source.id);
-        newHistory.set(source.id, {
-          targetStyleId: target.id,
-          targetStyleName: target.name,
-          count: (existingEntry?.count ?? 0) + affectedLayerIds.length,
-        });
-        return newHistory;
-      });
-
-      // Optimistically update audit results
-      updateAuditResultsAfterReplacement(source.id, target.id, affectedLayerIds);
+      // Optimistically update audit results (a scoped run leaves some layers
+      // untouched, so live updates report what actually changed)
+      if (Object.values(scope).every((value) => value === undefined)) {
+        updateAuditResultsAfterReplacement(source.id, target.id, affectedLayerIds);
+      }
 
       // Show success toast
       setToast({
@@ -426,6 +604,129 @@ export default function App() {
     }
   };
 
+  // Suggested style handlers
+  const handleApplySuggestions = (assignments: SuggestedAssignment[]) => {
+    console.log('[UI] Applying suggested styles:', { affectedLayerCount: assignments.length });
+
+    applySuggestedStyles(
+      assignments.map(({ layer, suggestion }) => ({
+        layerId: layer.id,
+        styleId: suggestion.suggestedStyleId,
+      }))
+    );
+    // Panel stays open to show progress
+  };
+
+  // Style migration handler (live audit picks up the reassigned layers)
+  const handleMigrateStyles = (mappings: Array<StyleMapping & { affectedLayerIds: string[] }>) => {
+    console.log('[UI] Migrating styles:', { pairCount: mappings.length });
+    migrateStyles(mappings);
+    // Panel stays open to show progress
+  };
+
+  // Token remap handler (live audit picks up the rebound layers)
+  const handleRemapTokens = (mappings: Array<TokenMapping & { affectedLayerIds: string[] }>) => {
+    console.log('[UI] Remapping tokens:', { pairCount: mappings.length });
+    remapTokens(mappings);
+    // Panel stays open to show progress
+  };
+
+  // Token binding handler (live audit picks up the newly bound layers)
+  const handleBindTokens = (bindings: TokenValueBinding[]) => {
+    console.log('[UI] Binding tokens:', { bindingCount: bindings.length });
+    bindTokens(bindings);
+    // Panel stays open to show progress
+  };
+
+  // Token cleanup handler (the next audit drops the removed variables)
+  const handleCleanupTokens = (
+    tokenIds: string[],
+    action: TokenCleanupAction,
+    includePublished: boolean
+  ) => {
+    console.log('[UI] Cleaning up tokens:', { tokenCount: tokenIds.length, action });
+    cleanupTokens(tokenIds, action, includePublished);
+    // Panel stays open to show progress and the backup
+  };
+
+  const handleRestoreTokenBackup = (backup: TokenCleanupBackup) => {
+    console.log('[UI] Restoring token backup:', { variableCount: backup.variables.length });
+    restoreTokenBackup(backup);
+    // Panel stays open to show progress
+  };
+
+  // Style cleanup handler (the next audit drops the deleted styles)
+  const handleCleanupStyles = (
+    styleIds: string[],
+    action: StyleCleanupAction,
+    includePublished: boolean
+  ) => {
+    console.log('[UI] Cleaning up styles:', { styleCount: styleIds.length, action });
+    cleanupStyles(styleIds, action, includePublished);
+    // Panel stays open to show progress and the backup
+  };
+
+  const handleRestoreStyleBackup = (backup: StyleCleanupBackup) => {
+    console.log('[UI] Restoring style backup:', { styleCount: backup.styles.length });
+    restoreStyleBackup(backup);
+    // Panel stays open to show progress
+  };
+
+  // Optimistic update: mark successfully styled layers without re-running the audit
+  const handleSuggestionsApplied = (
+    assignments: SuggestedAssignment[],
+    failedLayers: FailedLayer[]
+  ) => {
+    if (!styleGovernanceResult) return;
+
+    const failedIds = new Set(failedLayers.map((f) => f.layerId));
+    const appliedStyleByLayer = new Map(
+      assignments
+        .filter(({ layer }) => !failedIds.has(layer.id))
+        .map(({ layer, suggestion }) => [layer.id, suggestion])
+    );
+    if (appliedStyleByLayer.size === 0) return;
+
+    const usageDelta = new Map<string, number>();
+    const layers = styleGovernanceResult.layers.map((layer) => {
+      const suggestion = appliedStyleByLayer.get(layer.id);
+      if (!suggestion) return layer;
+
+      usageDelta.set(
+        suggestion.suggestedStyleId,
+        (usageDelta.get(suggestion.suggestedStyleId) ?? 0) + 1
+      );
+      const styledLayer = {
+        ...layer,
+        assignmentStatus: 'fully-styled' as const,
+        styleId: suggestion.suggestedStyleId,
+        styleName: suggestion.suggestedStyleName,
+        styleSource: suggestion.libraryName,
+      };
+      delete styledLayer.matchSuggestions;
+      return styledLayer;
+    });
+
+    const updatedResult = {
+      ...styleGovernanceResult,
+      layers,
+      styledLayers: layers.filter((l) => l.assignmentStatus !== 'unstyled'),
+      unstyledLayers: layers.filter((l) => l.assignmentStatus === 'unstyled'),
+      styles: styleGovernanceResult.styles.map((style) =>
+        usageDelta.has(style.id)
+          ? { ...style, usageCount: style.usageCount + usageDelta.get(style.id)! }
+          : style
+      ),
+    };
+    updatedResult.metrics = calculateOptimizedMetrics(updatedResult);
+
+    setStyleGovernanceResult(updatedResult);
+    setToast({
+      message: `Applied suggested styles to ${appliedStyleByLayer.size} layer${appliedStyleByLayer.size !== 1 ? 's' : ''}`,
+      type: 'success',
+    });
+  };
+
   // Conversion handlers
   const handleOpenConversionPanel = () => {
     setShowConversionPanel(true);
@@ -455,6 +756,124 @@ export default function App() {
     setToast({ message: 'Converting styles...', type: 'loading' });
   };
 
+  const handleExportPDF = (options: PDFExportOptions) => {
+    if (!styleGovernanceResult) return;
+
+    setExportOptionsFormat(null);
+    setPDFOptions(options);
+    setIsExporting(true);
+    setToast({ message: 'Generating PDF report...', type: 'loading' });
+
+    // Defer generation so the loading toast renders before jsPDF blocks the thread
+    setTimeout(() => {
+      try {
+        const report = generatePDFReport(styleGovernanceResult, options, getPluginVersion());
+        downloadFile(report.data, report.filename, 'application/pdf');
+
+        // The main context acknowledges with EXPORT_PDF_COMPLETE
+        parent.postMessage(
+          {
+            pluginMessage: {
+              type: 'EXPORT_PDF',
+              payload: { filename: report.filename, fileSize: report.fileSize, options },
+            },
+          },
+          '*'
+        );
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error('[Export] PDF export failed:', message);
+        setToast({ message: `PDF export failed: ${message}`, type: 'error' });
+        setIsExporting(false);
+      }
+    }, 0);
+  };
+
+  const handleExportCSV = (options: CSVExportOptions) => {
+    if (!styleGovernanceResult) return;
+
+    setExportOptionsFormat(null);
+    setCSVOptions(options);
+    setIsExporting(true);
+    try {
+      const files = generateCSVExport(styleGovernanceResult, options);
+
+      // Stagger downloads so the browser does not collapse them into one
+      files.forEach((file, index) => {
+        setTimeout(
+          () => downloadFile(file.content, file.filename, 'text/csv;charset=utf-8'),
+          index * 200
+        );
+      });
+
+      // The main context acknowledges with EXPORT_CSV_COMPLETE
+      parent.postMessage(
+        {
+          pluginMessage: {
+            type: 'EXPORT_CSV',
+            payload: {
+              files: files.map((file) => ({
+                filename: file.filename,
+                fileSize: new Blob([file.content]).size,
+                rowCount: file.rowCount,
+              })),
+              options,
+            },
+          },
+        },
+        '*'
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('[Export] CSV export failed:', message);
+      setToast({ message: `CSV export failed: ${message}`, type: 'error' });
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportTrend = () => {
+    try {
+      // Snapshots carry the document name resolved by the main context
+      const documentName = snapshots[snapshots.length - 1]?.documentName ?? '';
+      const file = generateTrendCSV(snapshots, documentName);
+      downloadFile(file.content, file.filename, 'text/csv;charset=utf-8');
+      setToast({ message: `Exported ${file.rowCount} audit snapshots`, type: 'success' });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('[Export] Trend export failed:', message);
+      setToast({ message: `Trend export failed: ${message}`, type: 'error' });
+    }
+  };
+
+  const handleExportGovernanceConfig = (config: GovernanceConfig) => {
+    const documentName =
+      styleGovernanceResult?.documentName || snapshots[snapshots.length - 1]?.documentName || '';
+    const file = generateGovernanceConfigJSON(config, documentName);
+    downloadFile(file.content, file.filename, 'application/json');
+    setToast({ message: 'Governance config exported', type: 'success' });
+  };
+
+  const handleExportAuditJSON = () => {
+    if (!styleGovernanceResult) return;
+
+    const file = generateAuditJSON(styleGovernanceResult);
+    downloadFile(file.content, file.filename, 'application/json');
+    setToast({ message: 'Audit exported - load it in another file to compare', type: 'success' });
+  };
+
+  const handleExportDiff = (diff: AuditDiff, format: 'json' | 'csv') => {
+    try {
+      const file = format === 'json' ? generateDiffJSON(diff) : generateDiffCSV(diff);
+      const mimeType = format === 'json' ? 'application/json' : 'text/csv;charset=utf-8';
+      downloadFile(file.content, file.filename, mimeType);
+      setToast({ message: `Exported audit diff (${format.toUpperCase()})`, type: 'success' });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('[Export] Diff export failed:', message);
+      setToast({ message: `Diff export failed: ${message}`, type: 'error' });
+    }
+  };
+
   const handleConversionPanelClose = () => {
     setShowConversionPanel(false);
     setConversionError(undefined);
@@ -484,6 +903,7 @@ export default function App() {
         disabledTabs={disabledTabs}
         styleBadgeCount={styleBadgeCount}
         tokenBadgeCount={tokenBadgeCount}
+        lintBadgeCount={lintBadgeCount}
       />
 
       {/* Main Content Area */}
@@ -502,8 +922,36 @@ export default function App() {
           onNewAnalysis={handleNewAnalysis}
           hasRemoteStyles={hasRemoteStyles}
           onConvertToLocal={handleOpenConversionPanel}
+          onMigrateStyles={() => setShowMigrationPanel(true)}
+          onMapLibraries={
+            (styleGovernanceResult?.libraries.length ?? 0) >= 2
+              ? () => setShowLibraryMappingPanel(true)
+              : undefined
+          }
+          onCleanupStyles={() => setShowStyleCleanupPanel(true)}
+          onRemapTokens={
+            new Set(styleGovernanceResult?.tokens.map((t) => t.collectionId)).size >= 2
+              ? () => setShowTokenRemapPanel(true)
+              : undefined
+          }
+          onBindTokens={
+            countLayersWithTokenValueMatches(styleGovernanceResult?.layers ?? []) > 0
+              ? () => setShowTokenBindingPanel(true)
+              : undefined
+          }
+          onCleanupTokens={() => setShowTokenCleanupPanel(true)}
+          onShowHistory={() => setShowHistoryPanel(true)}
+          onExportPDF={() => setExportOptionsFormat('pdf')}
+          onExportCSV={() => setExportOptionsFormat('csv')}
+          isExporting={isExporting}
+          onOpenSettings={() => setShowSettingsPanel(true)}
         />
 
+        {/* Live updates could not keep up with an edit - offer a full re-run */}
+        {isStale && styleGovernanceResult && !isAuditing && (
+          <WarningBanner onRerunClick={handleRunAuditPage} />
+        )}
+
         {/* Content */}
         <div
           style={{
@@ -576,7 +1024,12 @@ export default function App() {
               >
                 {/* Analytics Tab */}
                 {activeTab === 'analytics' && (
-                  <AnalyticsDashboard auditResult={styleGovernanceResult} />
+                  <AnalyticsDashboard
+                    auditResult={styleGovernanceResult}
+                    snapshots={snapshots}
+                    onExportTrend={handleExportTrend}
+                    governanceConfig={governanceConfig}
+                  />
                 )}
 
                 {/* Styles Tab - Filter Toolbar + 50/50 Split Layout */}
@@ -608,7 +1061,8 @@ export default function App() {
                           styles={styleGovernanceResult.styles}
                           libraries={styleGovernanceResult.libraries}
                           unstyledLayers={styleGovernanceResult.unstyledLayers}
-                          onStyleSelect={setSelectedStyle}
+                          onStyleSelect={handleStyleSelect}
+                          onUnstyledSelect={handleUnstyledSelect}
                           selectedStyleId={selectedStyle?.id}
                           replacedStyleIds={replacedStyleIds}
                           replacementHistory={replacementHistory}
@@ -621,12 +1075,14 @@ export default function App() {
 
                       {/* Right Panel - Detail Panel (50%) */}
                       <div style={{ border: '1px solid var(--figma-color-border)', borderRadius: '0.5rem',  flex: 1, height: '100%', overflow: 'hidden' }}>
-                        {selectedStyle ? (
+                        {selectedStyle || showUnstyledLayers ? (
                           <DetailPanel
                             selectedStyle={selectedStyle}
+                            showUnstyledLayers={showUnstyledLayers}
                             allLayers={styleGovernanceResult.layers}
                             onNavigateToLayer={handleNavigateToLayer}
                             onReplaceStyle={handleReplaceStyle}
+                            onApplySuggestions={() => setShowSuggestionsPanel(true)}
                             replacementHistory={replacementHistory}
                             allStyles={styleGovernanceResult.styles}
                           />
@@ -724,6 +1180,7 @@ export default function App() {
                           onReplaceToken={handleReplaceToken}
                           replacementHistory={replacementHistory}
                           allStyles={styleGovernanceResult.styles}
+                          allTokens={styleGovernanceResult.tokens}
                         />
                       ) : (
                         <div
@@ -750,6 +1207,33 @@ export default function App() {
                     </div>
                   </div>
                 )}
+
+                {/* Lint Tab */}
+                {activeTab === 'lint' && (
+                  <LintView
+                    rules={lintRules}
+                    violations={lintViolations}
+                    styleViolations={lintStyleViolations}
+                    onRulesChange={(rules) =>
+                      updateGovernanceConfig({ ...governanceConfig, lintRules: rules })
+                    }
+                    onResetRules={() =>
+                      updateGovernanceConfig({ ...governanceConfig, lintRules: DEFAULT_LINT_RULES })
+                    }
+                    onNavigateToLayer={handleNavigateToLayer}
+                  />
+                )}
+
+                {/* Compare Tab */}
+                {activeTab === 'compare' && (
+                  <AuditComparisonView
+                    result={styleGovernanceResult}
+                    snapshots={snapshots}
+                    onExportAudit={handleExportAuditJSON}
+                    onExportDiff={handleExportDiff}
+                    onNavigateToLayer={handleNavigateToLayer}
+                  />
+                )}
               </div>
             </div>
           )}
@@ -777,7 +1261,7 @@ export default function App() {
           allLayers={styleGovernanceResult.layers}
           affectedLayerIds={affectedLayerIds}
           onClose={handleCancelReplacement}
-          onReplace={(source, target) => {
+          onReplace={(source, target, scope) => {
             // Directly trigger replacement without separate confirmation dialog
             console.log('[UI] Token replacement initiated from panel:', {
               sourceTokenId: source.id,
@@ -785,7 +1269,7 @@ export default function App() {
               affectedLayerCount: affectedLayerIds.length,
             });
             setTargetToken(target);
-            replaceToken(source.id, target.id, affectedLayerIds);
+            replaceToken(source.id, target.id, affectedLayerIds, scope);
             // Panel will stay open to show progress
           }}
         />
@@ -809,6 +1293,16 @@ export default function App() {
           />
         )}
 
+      {/* PDF report and CSV options, asked before every export */}
+      <ExportOptionsDialog
+        format={exportOptionsFormat}
+        pdfOptions={pdfOptions}
+        csvOptions={csvOptions}
+        onExportPDF={handleExportPDF}
+        onExportCSV={handleExportCSV}
+        onCancel={() => setExportOptionsFormat(null)}
+      />
+
       {/* Style Replacement Slide-Over Panel */}
       {styleGovernanceResult && sourceStyle && (
         <StyleReplacementPanel
@@ -817,6 +1311,7 @@ export default function App() {
           availableStyles={styleGovernanceResult.styles}
           libraries={styleGovernanceResult.libraries}
           allLayers={styleGovernanceResult.layers}
+          affectedLayerIds={affectedLayerIds}
           onClose={handleReplacementPanelClose}
           onReplace={handleReplacementPanelReplace}
           error={replacementPanelError}
@@ -824,6 +1319,98 @@ export default function App() {
         />
       )}
 
+      {/* Apply Suggested Styles Slide-Over Panel */}
+      {styleGovernanceResult && (
+        <SuggestedStylesPanel
+          isOpen={showSuggestionsPanel}
+          allLayers={styleGovernanceResult.layers}
+          minThreshold={suggestionThreshold}
+          onClose={() => setShowSuggestionsPanel(false)}
+          onApply={handleApplySuggestions}
+          onComplete={handleSuggestionsApplied}
+        />
+      )}
+
+      {/* Style Migration Slide-Over Panel */}
+      {styleGovernanceResult && (
+        <StyleMigrationPanel
+          isOpen={showMigrationPanel}
+          styles={styleGovernanceResult.styles}
+          allLayers={styleGovernanceResult.layers}
+          onClose={() => setShowMigrationPanel(false)}
+          onMigrate={handleMigrateStyles}
+        />
+      )}
+
+      {/* Library Mapping Slide-Over Panel */}
+      {styleGovernanceResult && (
+        <LibraryMappingPanel
+          isOpen={showLibraryMappingPanel}
+          styles={styleGovernanceResult.styles}
+          libraries={styleGovernanceResult.libraries}
+          allLayers={styleGovernanceResult.layers}
+          onClose={() => setShowLibraryMappingPanel(false)}
+          onMigrate={handleMigrateStyles}
+        />
+      )}
+
+      {/* Token Remap Slide-Over Panel */}
+      {styleGovernanceResult && (
+        <TokenRemapPanel
+          isOpen={showTokenRemapPanel}
+          tokens={styleGovernanceResult.tokens}
+          onClose={() => setShowTokenRemapPanel(false)}
+          onRemap={handleRemapTokens}
+        />
+      )}
+
+      {/* Token Binding Slide-Over Panel */}
+      {styleGovernanceResult && (
+        <TokenBindingPanel
+          isOpen={showTokenBindingPanel}
+          layers={styleGovernanceResult.layers}
+          tokens={styleGovernanceResult.tokens}
+          onClose={() => setShowTokenBindingPanel(false)}
+          onBind={handleBindTokens}
+        />
+      )}
+
+      {/* Token Cleanup Slide-Over Panel */}
+      {styleGovernanceResult && (
+        <TokenCleanupPanel
+          isOpen={showTokenCleanupPanel}
+          tokens={styleGovernanceResult.tokens}
+          styles={styleGovernanceResult.styles}
+          documentName={styleGovernanceResult.documentName}
+          onClose={() => setShowTokenCleanupPanel(false)}
+          onCleanup={handleCleanupTokens}
+          onRestore={handleRestoreTokenBackup}
+        />
+      )}
+
+      {/* Style Cleanup Slide-Over Panel */}
+      {styleGovernanceResult && (
+        <StyleCleanupPanel
+          isOpen={showStyleCleanupPanel}
+          styles={styleGovernanceResult.styles}
+          documentName={styleGovernanceResult.documentName}
+          onClose={() => setShowStyleCleanupPanel(false)}
+          onCleanup={handleCleanupStyles}
+          onRestore={handleRestoreStyleBackup}
+        />
+      )}
+
+      {/* Operation History Slide-Over Panel */}
+      {styleGovernanceResult && (
+        <OperationHistoryPanel
+          isOpen={showHistoryPanel}
+          entries={journalEntries}
+          styles={styleGovernanceResult.styles}
+          onClose={() => setShowHistoryPanel(false)}
+          onRevert={revertOperation}
+        />
+      )}
+
       {/* Conversion Panel */}
       {styleGovernanceResult && (
         <ConversionPanel
@@ -837,6 +1424,19 @@ export default function App() {
         />
       )}
 
+      {/* Governance Settings Panel */}
+      <GovernanceSettingsPanel
+        isOpen={showSettingsPanel}
+        config={governanceConfig}
+        loadError={governanceConfigError}
+        onClose={() => setShowSettingsPanel(false)}
+        onSave={(config) => {
+          updateGovernanceConfig(config);
+          setToast({ message: 'Governance settings saved to this file', type: 'success' });
+        }}
+        onExport={handleExportGovernanceConfig}
+      />
+
       {/* Toast Notifications */}
       {toast && (
         <Toast
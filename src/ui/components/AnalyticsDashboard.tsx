@@ -1,11 +1,27 @@
 import React, { useMemo } from 'react';
-import type { AuditResult, StyleGovernanceAuditResult } from '@/shared/types';
+import type {
+  AuditResult,
+  AuditSnapshot,
+  CollectionTier,
+  GovernanceConfig,
+  StyleGovernanceAuditResult,
+} from '@/shared/types';
 import packageJson from '../../../package.json';
+import {
+  DEFAULT_GOVERNANCE_CONFIG,
+  getCoverageVariant,
+  isLibraryAllowed,
+} from '../utils/governanceConfig';
+import { getModeBreakdown, type CollectionModeBreakdown } from '../utils/modeBreakdown';
+import { getCollectionTiers } from '../utils/tokenLayering';
 
 interface AnalyticsDashboardProps {
   auditResult: AuditResult | StyleGovernanceAuditResult;
   isLoading?: boolean;
   error?: string;
+  snapshots?: AuditSnapshot[];
+  onExportTrend?: () => void;
+  governanceConfig?: GovernanceConfig;
 }
 
 /**
@@ -196,13 +212,15 @@ function TopStylesTable({
 
 /**
  * Library Distribution Card Component
- * Shows breakdown of styles by library
+ * Shows breakdown of styles by library, flagging libraries the governance config disallows
  */
 function LibraryDistributionCard({
   distribution,
+  allowedLibraries = [],
   isLoading = false,
 }: {
   distribution: Record<string, number>;
+  allowedLibraries?: string[];
   isLoading?: boolean;
 }) {
   const total = Object.values(distribution).reduce((sum, count) => sum + count, 0);
@@ -241,6 +259,7 @@ function LibraryDistributionCard({
         entries.map(([libraryName, count], index) => {
           const percentage = total > 0 ? ((count / total) * 100).toFixed(1) : '0';
           const barWidth = total > 0 ? (count / total) * 100 : 0;
+          const allowed = isLibraryAllowed(libraryName, allowedLibraries);
 
           return (
             <div
@@ -252,12 +271,17 @@ function LibraryDistributionCard({
               }}
             >
               <div className="flex items-center justify-between mb-1">
-                <span className="text-figma-text text-xs font-medium truncate">{libraryName}</span>
+                <span className="text-figma-text text-xs font-medium truncate">
+                  {libraryName}
+                  {!allowed && <span className="text-red-600 ml-1">· Not allowed</span>}
+                </span>
                 <span className="text-figma-text-secondary text-xs ml-2">{percentage}%</span>
               </div>
               <div className="w-full h-2 bg-figma-border rounded-full overflow-hidden">
                 <div
-                  className="h-full bg-gradient-to-r from-blue-400 to-blue-500 rounded-full transition-all duration-600"
+                  className={`h-full bg-gradient-to-r rounded-full transition-all duration-600 ${
+                    allowed ? 'from-blue-400 to-blue-500' : 'from-red-400 to-red-500'
+                  }`}
                   style={{
                     width: `${barWidth}%`,
                     animation: `slideInRight 0.6s ease-out ${index * 0.05}s forwards`,
@@ -379,15 +403,17 @@ function UsageComparisonCard({
 
 /**
  * Token Inventory Section Component
- * Displays total token count and breakdown by collection
+ * Displays total token count and breakdown by collection, with each collection's tier
  */
 function TokenInventorySection({
   totalTokenCount,
   tokensByCollection,
+  collectionTiers,
   isLoading = false,
 }: {
   totalTokenCount: number;
   tokensByCollection: Record<string, number>;
+  collectionTiers?: Map<string, CollectionTier>;
   isLoading?: boolean;
 }) {
   if (isLoading) {
@@ -435,7 +461,14 @@ function TokenInventorySection({
                   key={collectionName}
                   className="flex justify-between items-center p-2 bg-figma-bg rounded text-xs"
                 >
-                  <span className="text-figma-text-secondary">{collectionName}</span>
+                  <span className="text-figma-text-secondary">
+                    {collectionName}
+                    {collectionTiers?.has(collectionName) && (
+                      <span className="text-figma-text-tertiary ml-1">
+                        · {collectionTiers.get(collectionName)}
+                      </span>
+                    )}
+                  </span>
                   <span className="text-figma-text font-medium">{count}</span>
                 </div>
               ))}
@@ -643,11 +676,279 @@ function TokenUsageDepthSection({
   );
 }
 
+/**
+ * Variable Modes Section Component
+ * Shows, per collection, how many layers resolve their tokens under each mode
+ */
+function ModeBreakdownSection({ collections }: { collections: CollectionModeBreakdown[] }) {
+  return (
+    <div
+      className="border border-figma-border rounded-lg p-4 bg-figma-bg-secondary animate-fadeInScale"
+      style={{
+        animation: 'fadeInScale 0.4s ease-out 0.5s forwards',
+        opacity: 0,
+      }}
+    >
+      <div className="flex items-center gap-2 mb-4">
+        <span className="text-xl">🌓</span>
+        <h3 className="text-sm font-semibold text-figma-text">Variable Modes</h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {collections.map((collection) => (
+          <div key={collection.collectionName}>
+            <div className="text-xs text-figma-text-secondary font-medium mb-2">
+              {collection.collectionName}
+            </div>
+            <div className="space-y-2">
+              {collection.modes.map((mode) => (
+                <div
+                  key={mode.modeId}
+                  className="flex justify-between items-center gap-2 p-2 bg-figma-bg rounded text-xs"
+                  title={mode.pageNames.join(', ')}
+                >
+                  <span className="text-figma-text font-medium">{mode.modeName}</span>
+                  <span className="text-figma-text-secondary truncate">
+                    {mode.layerCount} layer{mode.layerCount === 1 ? '' : 's'}
+                    {mode.explicitLayerCount > 0 && (
+                      <span className="text-figma-text-tertiary ml-1">
+                        ({mode.explicitLayerCount} set by frame)
+                      </span>
+                    )}
+                    <span className="text-figma-text-tertiary ml-1">
+                      · {mode.pageNames.length} page{mode.pageNames.length === 1 ? '' : 's'}
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Sparkline Component
+ * Minimal SVG line chart for a series of snapshot values
+ */
+function Sparkline({ values, color }: { values: number[]; color: string }) {
+  const width = 120;
+  const height = 32;
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+
+  const points = values
+    .map((value, index) => {
+      const x = index * step;
+      const y = height - 2 - ((value - min) / range) * (height - 4);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} aria-hidden="true">
+      <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} />
+    </svg>
+  );
+}
+
+/** Metrics plotted in the adoption trend (higherIsBetter drives the change colour) */
+const TREND_METRICS: Array<{
+  label: string;
+  getValue: (snapshot: AuditSnapshot) => number;
+  suffix: string;
+  decimals: number;
+  higherIsBetter: boolean;
+  color: string;
+}> = [
+  {
+    label: 'Style Adoption',
+    getValue: (s) => s.metrics.styleAdoptionRate,
+    suffix: '%',
+    decimals: 1,
+    higherIsBetter: true,
+    color: '#3b82f6',
+  },
+  {
+    label: 'Token Adoption',
+    getValue: (s) => s.metrics.tokenAdoptionRate,
+    suffix: '%',
+    decimals: 1,
+    higherIsBetter: true,
+    color: '#8b5cf6',
+  },
+  {
+    label: 'Unstyled Layers',
+    getValue: (s) => s.metrics.unstyledCount,
+    suffix: '',
+    decimals: 0,
+    higherIsBetter: false,
+    color: '#ef4444',
+  },
+  {
+    label: 'Deprecated Styles in Use',
+    getValue: (s) => s.metrics.deprecatedStyleCount,
+    suffix: '',
+    decimals: 0,
+    higherIsBetter: false,
+    color: '#f59e0b',
+  },
+];
+
+/** Number of snapshots listed in the history table */
+const TREND_TABLE_LIMIT = 12;
+
+/**
+ * Adoption Trend Section
+ * Shows how key metrics moved across the document's saved audit snapshots
+ */
+function AdoptionTrendSection({
+  snapshots,
+  onExport,
+}: {
+  snapshots: AuditSnapshot[];
+  onExport?: () => void;
+}) {
+  const recentSnapshots = snapshots.slice(-TREND_TABLE_LIMIT).reverse();
+
+  return (
+    <div
+      className="border border-figma-border rounded-lg p-4 bg-figma-bg-secondary animate-fadeInScale"
+      style={{
+        animation: 'fadeInScale 0.4s ease-out 0.45s forwards',
+        opacity: 0,
+      }}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <span className="text-xl">📈</span>
+          <h3 className="text-sm font-semibold text-figma-text">Adoption Trend</h3>
+        </div>
+        {onExport && snapshots.length > 0 && (
+          <button
+            onClick={onExport}
+            className="px-2 py-1 text-xs rounded border border-figma-border text-figma-text hover:bg-figma-bg transition-colors"
+          >
+            Export CSV
+          </button>
+        )}
+      </div>
+
+      {snapshots.length < 2 ? (
+        <p className="text-xs text-figma-text-secondary">
+          Trend history builds up as you audit this file. One snapshot is kept per day; run another
+          audit on a later day to compare.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+            {TREND_METRICS.map((metric) => {
+              const values = snapshots.map(metric.getValue);
+              const latest = values[values.length - 1];
+              const change = latest - values[values.length - 2];
+              const improved = metric.higherIsBetter ? change > 0 : change < 0;
+
+              return (
+                <div key={metric.label} className="p-2 bg-figma-bg rounded">
+                  <p className="text-xs text-figma-text-secondary">{metric.label}</p>
+                  <div className="flex items-baseline gap-2">
+                    <span className="text-lg font-semibold text-figma-text">
+                      {latest.toFixed(metric.decimals)}
+                      {metric.suffix}
+                    </span>
+                    {change !== 0 && (
+                      <span
+                        className={`text-xs font-medium ${improved ? 'text-green-600' : 'text-red-600'}`}
+                      >
+                        {change > 0 ? '+' : ''}
+                        {change.toFixed(metric.decimals)}
+                        {metric.suffix}
+                      </span>
+                    )}
+                  </div>
+                  <Sparkline values={values} color={metric.color} />
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-figma-border">
+                  <th className="text-left py-2 px-2 text-figma-text-secondary font-semibold text-xs">
+                    Date
+                  </th>
+                  {TREND_METRICS.map((metric) => (
+                    <th
+                      key={metric.label}
+                      className="text-right py-2 px-2 text-figma-text-secondary font-semibold text-xs"
+                    >
+                      {metric.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {recentSnapshots.map((snapshot) => (
+                  <tr
+                    key={snapshot.timestamp}
+                    className="border-b border-figma-border/50 hover:bg-figma-bg transition-colors"
+                  >
+                    <td className="py-2 px-2 text-figma-text text-xs">
+                      {new Date(snapshot.timestamp).toLocaleDateString()}
+                    </td>
+                    {TREND_METRICS.map((metric) => (
+                      <td
+                        key={metric.label}
+                        className="text-right py-2 px-2 text-figma-text text-xs"
+                      >
+                        {metric.getValue(snapshot).toFixed(metric.decimals)}
+                        {metric.suffix}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
 export default function AnalyticsDashboard({
   auditResult,
   isLoading = false,
   error,
+  snapshots = [],
+  onExportTrend,
+  governanceConfig = DEFAULT_GOVERNANCE_CONFIG,
 }: AnalyticsDashboardProps) {
+  const { thresholds } = governanceConfig;
+
+  // Per-collection breakdown of the modes token bindings resolve under
+  const modeBreakdown = useMemo(
+    () =>
+      auditResult && 'layers' in auditResult && 'tokens' in auditResult
+        ? getModeBreakdown(auditResult.layers, auditResult.tokens)
+        : [],
+    [auditResult]
+  );
+
+  // Primitive / semantic tier of each token collection
+  const collectionTiers = useMemo(
+    () =>
+      auditResult && 'tokens' in auditResult
+        ? getCollectionTiers(auditResult.tokens, governanceConfig)
+        : undefined,
+    [auditResult, governanceConfig]
+  );
+
   // Calculate metrics from audit result
   const metrics = useMemo(() => {
     if (!auditResult) {
@@ -658,6 +959,7 @@ export default function AnalyticsDashboard({
         libraryDistribution: {},
         topStyles: [],
         mixedUsageCount: 0,
+        mixedStyleCount: 0,
         totalTokenCount: 0,
         uniqueTokensUsed: 0,
         unusedTokenCount: 0,
@@ -704,6 +1006,7 @@ export default function AnalyticsDashboard({
         .slice(0, 10);
 
       const mixedUsageCount = result.metrics.mixedUsageCount || 0;
+      const mixedStyleCount = result.metrics.mixedStyleCount || 0;
 
       return {
         styleAdoptionRate,
@@ -712,6 +1015,7 @@ export default function AnalyticsDashboard({
         libraryDistribution,
         topStyles,
         mixedUsageCount,
+        mixedStyleCount,
         totalTokenCount,
         uniqueTokensUsed,
         unusedTokenCount,
@@ -784,6 +1088,7 @@ export default function AnalyticsDashboard({
         libraryDistribution,
         topStyles,
         mixedUsageCount,
+        mixedStyleCount: 0, // Legacy audits report character 0 only
         totalTokenCount: 0,
         uniqueTokensUsed: 0,
         unusedTokenCount: 0,
@@ -957,13 +1262,7 @@ export default function AnalyticsDashboard({
                 suffix="%"
                 decimals={1}
                 icon="✨"
-                variant={
-                  metrics.styleAdoptionRate >= 80
-                    ? 'success'
-                    : metrics.styleAdoptionRate >= 50
-                      ? 'warning'
-                      : 'danger'
-                }
+                variant={getCoverageVariant(metrics.styleAdoptionRate, thresholds.styleAdoption)}
               />
 
               {/* Token Adoption Rate
@@ -975,7 +1274,7 @@ export default function AnalyticsDashboard({
                * - Token Adoption (layer-centric): "Of the layers we have, how many use tokens?"
                * - Token Coverage (token-centric): "Of the tokens we have, how many are used?"
                *
-               * Health indicators:
+               * Health indicators (defaults, configurable in the governance config):
                * - 80%+ (success): Excellent token integration across document
                * - 40-80% (warning): Moderate adoption, opportunity for more token usage
                * - <40% (danger): Low adoption, token system under-utilized
@@ -988,13 +1287,7 @@ export default function AnalyticsDashboard({
                 suffix="%"
                 decimals={1}
                 icon="🏷️"
-                variant={
-                  metrics.tokenAdoptionRate >= 80
-                    ? 'success'
-                    : metrics.tokenAdoptionRate >= 40
-                      ? 'warning'
-                      : 'danger'
-                }
+                variant={getCoverageVariant(metrics.tokenAdoptionRate, thresholds.tokenAdoption)}
               />
 
               {/* Token Coverage
@@ -1006,7 +1299,7 @@ export default function AnalyticsDashboard({
                * - Token Coverage (token-centric): "Of the tokens we have, how many are used?"
                * - Token Adoption (layer-centric): "Of the layers we have, how many use tokens?"
                *
-               * Health indicators:
+               * Health indicators (defaults, configurable in the governance config):
                * - 60%+ (success): Good token utilization, system is well-integrated
                * - 30-60% (warning): Moderate coverage, consider consolidating unused tokens
                * - <30% (danger): Low coverage, token system may need review
@@ -1019,13 +1312,7 @@ export default function AnalyticsDashboard({
                 suffix="%"
                 decimals={1}
                 icon="🎯"
-                variant={
-                  metrics.tokenCoverageRate >= 60
-                    ? 'success'
-                    : metrics.tokenCoverageRate >= 30
-                      ? 'warning'
-                      : 'danger'
-                }
+                variant={getCoverageVariant(metrics.tokenCoverageRate, thresholds.tokenCoverage)}
               />
 
               {/* Total Styled Layers */}
@@ -1043,6 +1330,16 @@ export default function AnalyticsDashboard({
                 icon="🔀"
                 variant="default"
               />
+
+              {/* Mixed-Style Layers
+               * Layers whose character ranges use different styles, fonts or token bindings
+               */}
+              <MetricCard
+                label="Mixed-Style Layers"
+                value={metrics.mixedStyleCount}
+                icon="🧩"
+                variant={metrics.mixedStyleCount > 0 ? 'warning' : 'default'}
+              />
             </>
           )}
         </div>
@@ -1078,6 +1375,7 @@ export default function AnalyticsDashboard({
               <h3 className="text-sm font-semibold text-figma-text mb-4">Library Distribution</h3>
               <LibraryDistributionCard
                 distribution={metrics.libraryDistribution}
+                allowedLibraries={governanceConfig.allowedLibraries}
                 isLoading={isLoading}
               />
             </div>
@@ -1108,6 +1406,7 @@ export default function AnalyticsDashboard({
           <TokenInventorySection
             totalTokenCount={metrics.totalTokenCount}
             tokensByCollection={metrics.tokensByCollection}
+            collectionTiers={collectionTiers}
             isLoading={isLoading}
           />
 
@@ -1136,6 +1435,14 @@ export default function AnalyticsDashboard({
           />
         </div>
 
+        {/* Variable Modes */}
+        {!isLoading && modeBreakdown.length > 0 && (
+          <ModeBreakdownSection collections={modeBreakdown} />
+        )}
+
+        {/* Adoption Trend */}
+        {!isLoading && <AdoptionTrendSection snapshots={snapshots} onExport={onExportTrend} />}
+
         {/* Footer Info */}
         {!isLoading && auditResult && (
           <div
@@ -0,0 +1,407 @@
+import { useMemo, useRef, useState, type ChangeEvent, type ReactNode } from 'react';
+import type { AuditSnapshot, StyleGovernanceAuditResult } from '@/shared/types';
+import {
+  diffAudits,
+  hasAuditChanges,
+  parseAuditJSON,
+  sourceFromAuditResult,
+  sourceFromSnapshot,
+  type AuditDiff,
+  type AuditDiffSource,
+  type LayerStatusChange,
+  type NumericChange,
+  type StyleUsageChange,
+} from '../utils/auditDiff';
+
+export interface AuditComparisonViewProps {
+  /** Current audit (always available as a comparison side) */
+  result: StyleGovernanceAuditResult;
+  /** Persisted audit history for this document */
+  snapshots: AuditSnapshot[];
+  /** Download the current audit so another file can load it as a baseline */
+  onExportAudit: () => void;
+  /** Download the comparison */
+  onExportDiff: (diff: AuditDiff, format: 'json' | 'csv') => void;
+  /** Select a layer on canvas */
+  onNavigateToLayer?: (layerId: string) => void;
+}
+
+const CURRENT_SOURCE = 'current';
+const IMPORTED_SOURCE = 'imported';
+const SNAPSHOT_SOURCE_PREFIX = 'snapshot:';
+
+/** Rows shown per list before "show all" */
+const LIST_LIMIT = 20;
+
+/**
+ * Audit Comparison View Component
+ *
+ * Diffs two audits so reviewers can see what a branch or redesign did to
+ * typography governance. Either side can be the current audit, a saved
+ * snapshot, or an audit JSON exported from another file.
+ */
+export default function AuditComparisonView({
+  result,
+  snapshots,
+  onExportAudit,
+  onExportDiff,
+  onNavigateToLayer,
+}: AuditComparisonViewProps) {
+  const [importedResult, setImportedResult] = useState<StyleGovernanceAuditResult | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Default baseline: the most recent snapshot that is not the current audit
+  const currentSource = useMemo(() => sourceFromAuditResult(result, 'Current audit'), [result]);
+  const previousSnapshot = [...snapshots]
+    .reverse()
+    .find((snapshot) => snapshot.timestamp !== currentSource.snapshot.timestamp);
+
+  // Snapshots load asynchronously, so an unset baseline follows the default
+  const [selectedBaseKey, setBaseKey] = useState('');
+  const [compareKey, setCompareKey] = useState(CURRENT_SOURCE);
+  const baseKey =
+    selectedBaseKey ||
+    (previousSnapshot ? `${SNAPSHOT_SOURCE_PREFIX}${previousSnapshot.timestamp}` : '');
+
+  const sources = useMemo(() => {
+    const options = new Map<string, AuditDiffSource>([[CURRENT_SOURCE, currentSource]]);
+    if (importedResult) {
+      const name = importedResult.documentName || 'Imported audit';
+      options.set(IMPORTED_SOURCE, sourceFromAuditResult(importedResult, `${name} (file)`));
+    }
+    for (const snapshot of [...snapshots].reverse()) {
+      options.set(
+        `${SNAPSHOT_SOURCE_PREFIX}${snapshot.timestamp}`,
+        sourceFromSnapshot(snapshot, `Snapshot ${new Date(snapshot.timestamp).toLocaleString()}`)
+      );
+    }
+    return options;
+  }, [currentSource, importedResult, snapshots]);
+
+  const base = sources.get(baseKey);
+  const compare = sources.get(compareKey);
+  const diff = useMemo(
+    () => (base && compare && base !== compare ? diffAudits(base, compare) : null),
+    [base, compare]
+  );
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setImportedResult(parseAuditJSON(await file.text()));
+      setImportError(null);
+      setBaseKey(IMPORTED_SOURCE);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const renderSourceSelect = (value: string, onChange: (value: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="
+        px-2 py-1 text-xs rounded
+        bg-figma-bg-secondary border border-figma-border
+        text-figma-text
+        focus:outline-none focus:ring-2 focus:ring-figma-bg-brand
+      "
+    >
+      {!sources.has(value) && <option value="">Select an audit…</option>}
+      {Array.from(sources.entries()).map(([key, source]) => (
+        <option key={key} value={key}>
+          {source.label}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-4 p-2 h-full overflow-auto">
+      {/* Source pickers */}
+      <div className="border border-figma-border rounded-lg p-4 bg-figma-bg-secondary space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-figma-text-secondary">
+          <span>Compare</span>
+          {renderSourceSelect(baseKey, setBaseKey)}
+          <span>with</span>
+          {renderSourceSelect(compareKey, setCompareKey)}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-2 py-1 text-xs rounded border border-figma-border text-figma-text hover:bg-figma-bg transition-colors"
+          >
+            Load audit JSON…
+          </button>
+          <button
+            onClick={onExportAudit}
+            className="px-2 py-1 text-xs rounded border border-figma-border text-figma-text hover:bg-figma-bg transition-colors"
+          >
+            Export this audit (JSON)
+          </button>
+          {diff && (
+            <>
+              <button
+                onClick={() => onExportDiff(diff, 'json')}
+                className="px-2 py-1 text-xs rounded border border-figma-border text-figma-text hover:bg-figma-bg transition-colors"
+              >
+                Export diff (JSON)
+              </button>
+              <button
+                onClick={() => onExportDiff(diff, 'csv')}
+                className="px-2 py-1 text-xs rounded border border-figma-border text-figma-text hover:bg-figma-bg transition-colors"
+              >
+                Export diff (CSV)
+              </button>
+            </>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            style={{ display: 'none' }}
+          />
+        </div>
+
+        {importError && <p className="text-xs text-red-600">{importError}</p>}
+        <p className="text-xs text-figma-text-tertiary">
+          To compare files or branches, export the audit in one file and load it here.
+        </p>
+      </div>
+
+      {!diff && (
+        <p className="text-xs text-figma-text-secondary p-2">
+          {snapshots.length === 0 && !importedResult
+            ? 'No earlier audits yet. Load an audit JSON from another file or branch to compare.'
+            : 'Select two different audits to compare.'}
+        </p>
+      )}
+
+      {diff && !hasAuditChanges(diff) && (
+        <p className="text-xs text-figma-text-secondary p-2">
+          No typography governance changes between these audits.
+        </p>
+      )}
+
+      {diff && hasAuditChanges(diff) && (
+        <>
+          <DiffCard title="Metrics">
+            <NumericChangeTable rows={diff.metrics.filter((metric) => metric.change !== 0)} />
+          </DiffCard>
+
+          <DiffCard title="Styles">
+            <StyleChangeList title="Appeared" changes={diff.styles.added} />
+            <StyleChangeList title="Disappeared" changes={diff.styles.removed} />
+            <StyleChangeList title="Usage changed" changes={diff.styles.changed} />
+          </DiffCard>
+
+          <DiffCard title="Layers">
+            {diff.layers ? (
+              <>
+                <LayerChangeList
+                  title="Styled → unstyled"
+                  changes={diff.layers.becameUnstyled}
+                  onNavigateToLayer={onNavigateToLayer}
+                />
+                <LayerChangeList
+                  title="Unstyled → styled"
+                  changes={diff.layers.becameStyled}
+                  onNavigateToLayer={onNavigateToLayer}
+                />
+              </>
+            ) : (
+              <Unavailable />
+            )}
+          </DiffCard>
+
+          <DiffCard title="Libraries">
+            {diff.libraries ? (
+              <div className="space-y-1 text-xs text-figma-text">
+                {diff.libraries.added.map((name) => (
+                  <p key={`added-${name}`}>
+                    <span className="text-green-600 font-medium">+ </span>
+                    {name}
+                  </p>
+                ))}
+                {diff.libraries.removed.map((name) => (
+                  <p key={`removed-${name}`}>
+                    <span className="text-red-600 font-medium">− </span>
+                    {name}
+                  </p>
+                ))}
+                {diff.libraries.added.length + diff.libraries.removed.length === 0 && (
+                  <p className="text-figma-text-tertiary">No library changes</p>
+                )}
+              </div>
+            ) : (
+              <Unavailable />
+            )}
+          </DiffCard>
+
+          <DiffCard title="Token Bindings by Collection">
+            {diff.tokenCollections ? (
+              <NumericChangeTable
+                rows={diff.tokenCollections.filter((collection) => collection.change !== 0)}
+              />
+            ) : (
+              <Unavailable />
+            )}
+          </DiffCard>
+        </>
+      )}
+    </div>
+  );
+}
+
+function DiffCard({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="border border-figma-border rounded-lg p-4 bg-figma-bg-secondary">
+      <h3 className="text-sm font-semibold text-figma-text mb-3">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+function Unavailable() {
+  return (
+    <p className="text-xs text-figma-text-tertiary">
+      Not available for this comparison: snapshots from before audit diffs, or snapshots in place of
+      full audits, do not record this detail.
+    </p>
+  );
+}
+
+function formatChange(change: number): string {
+  return `${change > 0 ? '+' : ''}${change.toLocaleString()}`;
+}
+
+function NumericChangeTable({ rows }: { rows: NumericChange[] }) {
+  if (rows.length === 0) {
+    return <p className="text-xs text-figma-text-tertiary">No changes</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-figma-border">
+          <th className="text-left py-2 px-2 text-figma-text-secondary font-semibold text-xs"></th>
+          <th className="text-right py-2 px-2 text-figma-text-secondary font-semibold text-xs">
+            Before
+          </th>
+          <th className="text-right py-2 px-2 text-figma-text-secondary font-semibold text-xs">
+            After
+          </th>
+          <th className="text-right py-2 px-2 text-figma-text-secondary font-semibold text-xs">
+            Change
+          </th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => {
+          const improved = row.higherIsBetter ? row.change > 0 : row.change < 0;
+          return (
+            <tr key={row.label} className="border-b border-figma-border/50">
+              <td className="py-2 px-2 text-figma-text text-xs">{row.label}</td>
+              <td className="text-right py-2 px-2 text-figma-text text-xs">
+                {row.before.toLocaleString()}
+              </td>
+              <td className="text-right py-2 px-2 text-figma-text text-xs">
+                {row.after.toLocaleString()}
+              </td>
+              <td
+                className={`text-right py-2 px-2 text-xs font-medium ${improved ? 'text-green-600' : 'text-red-600'}`}
+              >
+                {formatChange(row.change)}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+function StyleChangeList({ title, changes }: { title: string; changes: StyleUsageChange[] }) {
+  const [showAll, setShowAll] = useState(false);
+  if (changes.length === 0) return null;
+
+  const visible = showAll ? changes : changes.slice(0, LIST_LIMIT);
+
+  return (
+    <div className="mb-3">
+      <p className="text-xs font-medium text-figma-text-secondary mb-1">
+        {title} ({changes.length})
+      </p>
+      {visible.map((style) => (
+        <div key={style.styleId} className="flex justify-between py-1 px-2 text-xs">
+          <span className="text-figma-text truncate">{style.styleName}</span>
+          <span className="text-figma-text-secondary whitespace-nowrap ml-2">
+            {style.before} → {style.after} ({formatChange(style.change)})
+          </span>
+        </div>
+      ))}
+      {changes.length > LIST_LIMIT && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="text-xs text-figma-bg-brand px-2 hover:underline"
+        >
+          {showAll ? 'Show less' : `Show all ${changes.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function LayerChangeList({
+  title,
+  changes,
+  onNavigateToLayer,
+}: {
+  title: string;
+  changes: LayerStatusChange[];
+  onNavigateToLayer?: (layerId: string) => void;
+}) {
+  const [showAll, setShowAll] = useState(false);
+  if (changes.length === 0) return null;
+
+  const visible = showAll ? changes : changes.slice(0, LIST_LIMIT);
+
+  return (
+    <div className="mb-3">
+      <p className="text-xs font-medium text-figma-text-secondary mb-1">
+        {title} ({changes.length})
+      </p>
+      {visible.map((layer) => (
+        <button
+          key={layer.layerId}
+          onClick={() => onNavigateToLayer?.(layer.layerId)}
+          className="w-full flex justify-between py-1 px-2 text-xs text-left rounded hover:bg-figma-bg transition-colors"
+        >
+          <span className="text-figma-text truncate">
+            {layer.layerName}
+            <span className="text-figma-text-tertiary ml-1">· {layer.pageName}</span>
+          </span>
+          {layer.styleName && (
+            <span className="text-figma-text-secondary whitespace-nowrap ml-2">
+              {layer.styleName}
+            </span>
+          )}
+        </button>
+      ))}
+      {changes.length > LIST_LIMIT && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="text-xs text-figma-bg-brand px-2 hover:underline"
+        >
+          {showAll ? 'Show less' : `Show all ${changes.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
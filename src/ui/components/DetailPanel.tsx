@@ -4,7 +4,13 @@ import { ChevronRight } from 'lucide-react';
 import TokenMetadataCard from './TokenMetadataCard';
 import { TokenBadgeList } from './TokenBadge';
 import { StylePropertiesPanel } from './StylePropertiesPanel';
-import type { TextLayer, TextStyle, DesignToken } from '@/shared/types';
+import type {
+  TextLayer,
+  TextSegment,
+  TextStyle,
+  DesignToken,
+  StyleMatchSuggestion,
+} from '@/shared/types';
 import { OVERSCAN_COUNTS, ScrollPerformanceMonitor } from '@/ui/utils/virtualization';
 
 // ============================================================================
@@ -15,6 +21,8 @@ export interface DetailPanelProps {
   /** Selected style or token */
   selectedStyle?: TextStyle | null;
   selectedToken?: DesignToken | null;
+  /** Show unstyled layers ("Needs Styling") instead of a style or token */
+  showUnstyledLayers?: boolean;
   /** All text layers in document */
   allLayers: TextLayer[];
   /** Callback when layer is clicked */
@@ -24,6 +32,8 @@ export interface DetailPanelProps {
   /** Callback when replace button is clicked */
   onReplaceStyle?: (style: TextStyle, affectedLayerIds: string[]) => void;
   onReplaceToken?: (token: DesignToken, affectedLayerIds: string[]) => void;
+  /** Callback to open the bulk "apply suggested styles" preview (Needs Styling only) */
+  onApplySuggestions?: () => void;
   /** Loading state */
   isLoading?: boolean;
   /** Error message */
@@ -35,6 +45,8 @@ export interface DetailPanelProps {
   >;
   /** All styles for looking up replaced target styles */
   allStyles?: TextStyle[];
+  /** All tokens, for the alias references of the selected token */
+  allTokens?: DesignToken[];
 }
 
 interface LayerGroup {
@@ -64,7 +76,7 @@ interface FlattenedItem {
 /**
  * Get color class for assignment status badge
  */
-const getStatusColor = (status: 'fully-styled' | 'partially-styled' | 'unstyled'): string => {
+const getStatusColor = (status: TextLayer['assignmentStatus']): string => {
   switch (status) {
     case 'fully-styled':
       return 'bg-green-100 text-green-800';
@@ -72,6 +84,8 @@ const getStatusColor = (status: 'fully-styled' | 'partially-styled' | 'unstyled'
       return 'bg-red-100 text-red-800'; // Red badge for partial (has overrides)
     case 'unstyled':
       return 'bg-gray-100 text-gray-800'; // Gray for unstyled
+    case 'mixed':
+      return 'bg-purple-100 text-purple-800'; // Purple for multi-range text
     default:
       return 'bg-gray-100 text-gray-800';
   }
@@ -80,7 +94,7 @@ const getStatusColor = (status: 'fully-styled' | 'partially-styled' | 'unstyled'
 /**
  * Get label for assignment status
  */
-const getStatusLabel = (status: 'fully-styled' | 'partially-styled' | 'unstyled'): string => {
+const getStatusLabel = (status: TextLayer['assignmentStatus']): string => {
   switch (status) {
     case 'fully-styled':
       return 'Fully Styled';
@@ -88,6 +102,8 @@ const getStatusLabel = (status: 'fully-styled' | 'partially-styled' | 'unstyled'
       return 'Partial';
     case 'unstyled':
       return 'Unstyled';
+    case 'mixed':
+      return 'Mixed';
     default:
       return 'Unknown';
   }
@@ -115,6 +131,11 @@ const formatPropertyName = (property: string): string => {
   }
 };
 
+/**
+ * Format a 0-1 similarity score as a percentage
+ */
+const formatSimilarity = (score: number): string => `${Math.round(score * 100)}%`;
+
 /**
  * Get layers that use a specific style
  */
@@ -336,6 +357,16 @@ const DetailRow: React.FC<DetailRowProps> = ({ item, onLayerSelect, onNavigateTo
                 ))}
               </div>
             )}
+
+            {/* Mixed-style ranges */}
+            {layer.segments && layer.segments.length > 1 && (
+              <TextSegmentList segments={layer.segments} />
+            )}
+
+            {/* Style Suggestions */}
+            {layer.matchSuggestions && layer.matchSuggestions.length > 0 && (
+              <StyleSuggestionList suggestions={layer.matchSuggestions} />
+            )}
           </div>
 
           {/* Arrow Icon */}
@@ -350,6 +381,79 @@ const DetailRow: React.FC<DetailRowProps> = ({ item, onLayerSelect, onNavigateTo
   return null;
 };
 
+/** Segments listed per mixed layer before collapsing into "+N more" */
+const MAX_VISIBLE_SEGMENTS = 5;
+
+/**
+ * Character ranges of a mixed-style layer with their style and font
+ */
+const TextSegmentList: React.FC<{ segments: TextSegment[] }> = ({ segments }) => (
+  <div className="mt-2 space-y-1">
+    <div className="text-xs font-medium text-gray-600 mb-1">
+      {segments.length} styled ranges:
+    </div>
+    {segments.slice(0, MAX_VISIBLE_SEGMENTS).map((segment) => {
+      const boundCount = Object.keys(segment.boundVariables).length;
+      return (
+        <div
+          key={segment.start}
+          className="flex items-center justify-between gap-2 text-xs bg-figma-bg-secondary border border-figma-border rounded px-2 py-1"
+        >
+          <span className="truncate text-figma-text" title={segment.characters}>
+            "{segment.characters}"
+          </span>
+          <span className="flex-shrink-0 font-mono text-[10px] text-figma-text-secondary">
+            {segment.styleName ?? 'No style'} · {segment.fontFamily} {segment.fontSize}px/
+            {segment.fontWeight}
+            {boundCount > 0 && ` · ${boundCount} token${boundCount !== 1 ? 's' : ''}`}
+          </span>
+        </div>
+      );
+    })}
+    {segments.length > MAX_VISIBLE_SEGMENTS && (
+      <div className="text-[10px] text-figma-text-tertiary">
+        +{segments.length - MAX_VISIBLE_SEGMENTS} more
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * Closest matching styles for an unstyled or partially styled layer
+ */
+const StyleSuggestionList: React.FC<{ suggestions: StyleMatchSuggestion[] }> = ({
+  suggestions,
+}) => (
+  <div className="mt-2 space-y-1">
+    <div className="text-xs font-medium text-gray-600 mb-1">Suggested styles:</div>
+    {suggestions.map((suggestion) => (
+      <div
+        key={suggestion.suggestedStyleId}
+        className="text-xs bg-figma-bg-secondary border border-figma-border rounded px-2 py-1.5"
+      >
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-medium text-figma-text truncate" title={suggestion.libraryName}>
+            {suggestion.suggestedStyleName}
+          </span>
+          <span className="flex-shrink-0 font-semibold text-figma-text-secondary">
+            {formatSimilarity(suggestion.similarityScore)}
+          </span>
+        </div>
+        {suggestion.differingProperties.length > 0 && (
+          <div className="mt-0.5 font-mono text-[10px] text-figma-text-secondary">
+            {suggestion.differingProperties
+              .map(
+                (diff) =>
+                  `${formatPropertyName(diff.property === 'color' ? 'fills' : diff.property)}: ${diff.textValue} → ${diff.styleValue}`
+              )
+              .join(' · ')}
+          </div>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
 // ============================================================================
 // Main DetailPanel Component
 // ============================================================================
@@ -357,15 +461,18 @@ const DetailRow: React.FC<DetailRowProps> = ({ item, onLayerSelect, onNavigateTo
 export const DetailPanel: React.FC<DetailPanelProps> = ({
   selectedStyle,
   selectedToken,
+  showUnstyledLayers = false,
   allLayers,
   onLayerSelect,
   onNavigateToLayer,
   onReplaceStyle,
   onReplaceToken,
+  onApplySuggestions,
   isLoading = false,
   error,
   replacementHistory,
   allStyles,
+  allTokens,
 }) => {
   const [isExpanded, setIsExpanded] = useState(true);
   const parentRef = React.useRef<HTMLDivElement>(null);
@@ -373,13 +480,15 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({
 
   // Get relevant layers based on selection
   const relevantLayers = useMemo(() => {
-    if (selectedStyle) {
+    if (showUnstyledLayers) {
+      return allLayers.filter((layer) => layer.assignmentStatus === 'unstyled');
+    } else if (selectedStyle) {
       return getLayersForStyle(allLayers, selectedStyle.id);
     } else if (selectedToken) {
       return getLayersForToken(allLayers, selectedToken.id);
     }
     return [];
-  }, [selectedStyle, selectedToken, allLayers]);
+  }, [showUnstyledLayers, selectedStyle, selectedToken, allLayers]);
 
   // Group layers by page and component
   const pageGroups = useMemo(() => {
@@ -414,7 +523,9 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({
     const item = flattenedItems[index];
     if (item.type === 'page-header') return 48;
     if (item.type === 'component-header') return 36;
-    return 120; // Layer item with more content
+    // Layer item with more content; suggestions and segments add roughly one card each
+    const segmentRows = Math.min(item.layer?.segments?.length ?? 0, MAX_VISIBLE_SEGMENTS + 1);
+    return 120 + (item.layer?.matchSuggestions?.length ?? 0) * 44 + segmentRows * 26;
   }, [flattenedItems]);
 
   // Setup virtualizer with enterprise zone optimization for 10k+ layers
@@ -430,7 +541,7 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({
   const totalSize = virtualizer.getTotalSize();
 
   // Render empty state
-  if (!isLoading && !selectedStyle && !selectedToken) {
+  if (!isLoading && !selectedStyle && !selectedToken && !showUnstyledLayers) {
     return (
       <div className="flex flex-col h-full bg-figma-bg">
         <div className="p-4 border-b border-figma-border flex-shrink-0">
@@ -547,7 +658,7 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({
           {/* Token Metadata Card - show even when no layers use it */}
           {selectedToken && (
             <div style={{ marginTop: 'var(--figma-space-md)' }}>
-              <TokenMetadataCard token={selectedToken} />
+              <TokenMetadataCard token={selectedToken} tokens={allTokens} />
             </div>
           )}
         </div>
@@ -582,6 +693,18 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({
   const partiallyStyledCount = relevantLayers.filter(
     (l) => l.assignmentStatus === 'partially-styled'
   ).length;
+  const mixedCount = relevantLayers.filter((l) => l.assignmentStatus === 'mixed').length;
+
+  // Count layers with at least one style suggestion
+  const suggestedCount = relevantLayers.filter(
+    (l) => l.matchSuggestions && l.matchSuggestions.length > 0
+  ).length;
+
+  const panelTitle = showUnstyledLayers
+    ? 'Needs Styling'
+    : selectedStyle
+      ? selectedStyle.name
+      : selectedToken?.name || 'Details';
 
   // Render full detail panel with virtualized list
   return (
@@ -621,7 +744,7 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({
               whiteSpace: 'nowrap',
             }}
           >
-            {selectedStyle ? selectedStyle.name : selectedToken?.name || 'Details'}
+            {panelTitle}
           </h2>
           <p
             style={{
@@ -630,9 +753,13 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({
               margin: '4px 0 0 0',
             }}
           >
-            Used in {relevantLayers.length} layer{relevantLayers.length !== 1 ? 's' : ''}
+            {showUnstyledLayers
+              ? `${relevantLayers.length} unstyled layer${relevantLayers.length !== 1 ? 's' : ''}`
+              : `Used in ${relevantLayers.length} layer${relevantLayers.length !== 1 ? 's' : ''}`}
             {partiallyStyledCount > 0 &&
               ` (${partiallyStyledCount} override${partiallyStyledCount !== 1 ? 's' : ''})`}
+            {mixedCount > 0 && ` · ${mixedCount} mixed`}
+            {suggestedCount > 0 && ` · ${suggestedCount} with style suggestions`}
           </p>
         </div>
 
@@ -668,6 +795,34 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({
           </button>
         )}
 
+        {showUnstyledLayers && onApplySuggestions && suggestedCount > 0 && (
+          <button
+            onClick={onApplySuggestions}
+            style={{
+              height: '32px',
+              padding: '0 16px',
+              border: '1px solid var(--figma-color-border)',
+              borderRadius: '8px',
+              backgroundColor: 'transparent',
+              color: 'var(--figma-color-text)',
+              fontSize: '12px',
+              fontWeight: 500,
+              cursor: 'pointer',
+              whiteSpace: 'nowrap',
+              transition: 'all 0.2s ease',
+              flexShrink: 0,
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = 'var(--figma-color-bg-secondary)';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+            }}
+          >
+            Apply suggestions
+          </button>
+        )}
+
         {selectedToken && onReplaceToken && (
           <button
             onClick={() => {
@@ -722,7 +877,7 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({
         {/* Token Metadata Card */}
         {selectedToken && (
           <div style={{ padding: 'var(--figma-space-md)', flexShrink: 0 }}>
-            <TokenMetadataCard token={selectedToken} />
+            <TokenMetadataCard token={selectedToken} tokens={allTokens} />
           </div>
         )}
 
@@ -761,12 +916,13 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({
                 return (
                   <div
                     key={virtualItem.key}
+                    ref={virtualizer.measureElement}
+                    data-index={virtualItem.index}
                     style={{
                       position: 'absolute',
                       top: 0,
                       left: 0,
                       width: '100%',
-                      height: `${virtualItem.size}px`,
                       transform: `translateY(${virtualItem.start}px)`,
                     }}
                   >
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import type { CSVExportOptions, PDFExportOptions } from '@/shared/types';
+
+interface ExportOptionsDialogProps {
+  /** Export the dialog is open for, or null when closed */
+  format: 'pdf' | 'csv' | null;
+  /** Options of the last exports, used as the starting point */
+  pdfOptions: PDFExportOptions;
+  csvOptions: CSVExportOptions;
+  onExportPDF: (options: PDFExportOptions) => void;
+  onExportCSV: (options: CSVExportOptions) => void;
+  onCancel: () => void;
+}
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+};
+
+/**
+ * Export Options Dialog Component
+ *
+ * Modal asking how the PDF audit report should be laid out, or how the CSV
+ * files should be written, before they are generated. Changes only apply when
+ * the user exports.
+ */
+export default function ExportOptionsDialog({
+  format,
+  pdfOptions,
+  csvOptions,
+  onExportPDF,
+  onExportCSV,
+  onCancel,
+}: ExportOptionsDialogProps) {
+  const isOpen = format !== null;
+  const [pdfDraft, setPDFDraft] = useState<PDFExportOptions>(pdfOptions);
+  const [csvDraft, setCSVDraft] = useState<CSVExportOptions>(csvOptions);
+
+  // Start from the last used options every time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setPDFDraft(pdfOptions);
+    setCSVDraft(csvOptions);
+  }, [isOpen, pdfOptions, csvOptions]);
+
+  // Handle ESC key
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCancel();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onCancel]);
+
+  if (!isOpen) return null;
+
+  const updatePDF = (changes: Partial<PDFExportOptions>) =>
+    setPDFDraft((prev) => ({ ...prev, ...changes }));
+  const updateCSV = (changes: Partial<CSVExportOptions>) =>
+    setCSVDraft((prev) => ({ ...prev, ...changes }));
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50"
+      onClick={onCancel}
+    >
+      <div
+        className="relative w-full max-w-md p-6 rounded-lg bg-figma-bg border border-figma-border shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold text-figma-text mb-4">
+          {format === 'pdf' ? 'Export PDF Report' : 'Export CSV Files'}
+        </h2>
+
+        {format === 'csv' ? (
+          <div className="flex flex-col gap-3 mb-6 text-sm text-figma-text">
+            <Checkbox
+              label="Include header row"
+              checked={csvDraft.includeHeaders ?? true}
+              onChange={(includeHeaders) => updateCSV({ includeHeaders })}
+            />
+            <label className="flex items-center justify-between gap-3">
+              Delimiter
+              <select
+                value={csvDraft.delimiter ?? ','}
+                onChange={(e) => updateCSV({ delimiter: e.target.value })}
+                className="px-2 py-1 text-sm rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+              >
+                {Object.entries(DELIMITER_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-3 mb-6 text-sm text-figma-text">
+            <Checkbox
+              label="Include charts"
+              checked={pdfDraft.includeCharts ?? true}
+              onChange={(includeCharts) => updatePDF({ includeCharts })}
+            />
+            <Checkbox
+              label="Include unstyled and partially styled layer tables"
+              checked={pdfDraft.includeDetailedTables ?? true}
+              onChange={(includeDetailedTables) => updatePDF({ includeDetailedTables })}
+            />
+            <label className="flex items-center justify-between gap-3">
+              Page orientation
+              <select
+                value={pdfDraft.pageOrientation ?? 'portrait'}
+                onChange={(e) =>
+                  updatePDF({
+                    pageOrientation: e.target.value as PDFExportOptions['pageOrientation'],
+                  })
+                }
+                className="px-2 py-1 text-sm rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+              >
+                <option value="portrait">Portrait</option>
+                <option value="landscape">Landscape</option>
+              </select>
+            </label>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm rounded bg-figma-bg-secondary text-figma-text hover:bg-figma-bg-hover transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => (format === 'pdf' ? onExportPDF(pdfDraft) : onExportCSV(csvDraft))}
+            className="px-4 py-2 text-sm rounded text-figma-text-onbrand bg-figma-bg-brand hover:bg-figma-bg-brand/90 transition-colors"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function Checkbox({
+  label,
+  checked,
+  onChange,
+}: {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}): React.ReactElement {
+  return (
+    <label className="flex items-center gap-2" style={{ cursor: 'pointer' }}>
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+      {label}
+    </label>
+  );
+}
@@ -0,0 +1,256 @@
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import type { CoverageThreshold, GovernanceConfig } from '@/shared/types';
+import ReplacementPanel from './ReplacementPanel';
+import ListInput from './ListInput';
+import { DEFAULT_GOVERNANCE_CONFIG, parseGovernanceConfigJSON } from '../utils/governanceConfig';
+
+export interface GovernanceSettingsPanelProps {
+  /** Whether the panel is open */
+  isOpen: boolean;
+  /** Config currently stored in the document */
+  config: GovernanceConfig;
+  /** Problem with the stored config, if it failed validation */
+  loadError?: string | null;
+  /** Callback when panel should close */
+  onClose: () => void;
+  /** Save the edited config to the document */
+  onSave: (config: GovernanceConfig) => void;
+  /** Download the edited config as JSON */
+  onExport: (config: GovernanceConfig) => void;
+}
+
+const THRESHOLD_FIELDS: Array<{ key: keyof GovernanceConfig['thresholds']; label: string }> = [
+  { key: 'styleAdoption', label: 'Style adoption' },
+  { key: 'tokenAdoption', label: 'Token adoption' },
+  { key: 'tokenCoverage', label: 'Token coverage' },
+];
+
+/**
+ * Governance Settings Panel Component
+ *
+ * Slide-over editor for the governance config shared through the document.
+ * Edits are kept in a draft until saved; importing a JSON file replaces the
+ * draft so it can be reviewed before saving.
+ */
+export default function GovernanceSettingsPanel({
+  isOpen,
+  config,
+  loadError,
+  onClose,
+  onSave,
+  onExport,
+}: GovernanceSettingsPanelProps) {
+  const [draft, setDraft] = useState<GovernanceConfig>(config);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Start from the stored config each time the panel opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(config);
+      setImportError(null);
+    }
+  }, [isOpen, config]);
+
+  const update = (changes: Partial<GovernanceConfig>) => setDraft({ ...draft, ...changes });
+
+  const updateThreshold = (
+    key: keyof GovernanceConfig['thresholds'],
+    changes: Partial<CoverageThreshold>
+  ) =>
+    update({
+      thresholds: { ...draft.thresholds, [key]: { ...draft.thresholds[key], ...changes } },
+    });
+
+  const invalidThresholds = THRESHOLD_FIELDS.filter(
+    ({ key }) => draft.thresholds[key].warning > draft.thresholds[key].good
+  );
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setDraft(parseGovernanceConfigJSON(await file.text()));
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <ReplacementPanel
+      isOpen={isOpen}
+      title="Governance Settings"
+      description="Shared with everyone who runs Typescope on this file. Ignore and deprecation rules apply from the next audit."
+      error={importError ?? loadError ?? undefined}
+      disableReplace={invalidThresholds.length > 0}
+      onClose={onClose}
+      onReplace={handleSave}
+      replaceLabel="Save to document"
+    >
+      <div className="h-full overflow-auto space-y-4 p-4">
+        {/* Coverage thresholds */}
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-figma-text">Coverage thresholds</h3>
+          <p className="text-xs text-figma-text-tertiary">
+            Dashboard metrics are green at or above “Good” and yellow at or above “Warning”.
+          </p>
+          {THRESHOLD_FIELDS.map(({ key, label }) => (
+            <div key={key} className="flex items-center gap-3 text-xs text-figma-text-secondary">
+              <span className="w-28">{label}</span>
+              <PercentInput
+                label="Good"
+                value={draft.thresholds[key].good}
+                onChange={(good) => updateThreshold(key, { good })}
+              />
+              <PercentInput
+                label="Warning"
+                value={draft.thresholds[key].warning}
+                onChange={(warning) => updateThreshold(key, { warning })}
+              />
+            </div>
+          ))}
+          {invalidThresholds.length > 0 && (
+            <p className="text-xs text-red-600">
+              Warning must not exceed Good ({invalidThresholds.map((f) => f.label).join(', ')}).
+            </p>
+          )}
+        </section>
+
+        {/* Libraries and styles */}
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-figma-text">Libraries and styles</h3>
+          <ListInput
+            label="Allowed libraries"
+            placeholder="Any library (e.g. Core UI, Brand)"
+            values={draft.allowedLibraries}
+            onChange={(allowedLibraries) => update({ allowedLibraries })}
+          />
+          <ListInput
+            label="Deprecated styles"
+            placeholder="Legacy/*, */Old*"
+            values={draft.deprecatedStylePatterns}
+            onChange={(deprecatedStylePatterns) => update({ deprecatedStylePatterns })}
+          />
+          <div className="flex items-center gap-3 text-xs text-figma-text-secondary">
+            <span className="w-28">Style suggestions</span>
+            <PercentInput
+              label="Minimum similarity"
+              value={draft.suggestionThreshold}
+              onChange={(suggestionThreshold) => update({ suggestionThreshold })}
+            />
+          </div>
+        </section>
+
+        {/* Token layers */}
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-figma-text">Token layers</h3>
+          <ListInput
+            label="Primitive collections"
+            placeholder="Primitives, Palette*"
+            values={draft.primitiveCollections}
+            onChange={(primitiveCollections) => update({ primitiveCollections })}
+          />
+          <ListInput
+            label="Semantic collections"
+            placeholder="Semantic, Theme*"
+            values={draft.semanticCollections}
+            onChange={(semanticCollections) => update({ semanticCollections })}
+          />
+          <p className="text-xs text-figma-text-tertiary">
+            Leave both empty to infer them: collections made mostly of aliases are semantic, and the
+            raw-value collections they alias are primitive.
+          </p>
+        </section>
+
+        {/* Audit scope */}
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-figma-text">Audit scope</h3>
+          <ListInput
+            label="Ignored pages"
+            placeholder="Archive*, *Playground"
+            values={draft.ignoredPages}
+            onChange={(ignoredPages) => update({ ignoredPages })}
+          />
+          <ListInput
+            label="Ignored layer names"
+            placeholder="_*, Annotation*"
+            values={draft.ignoredLayerNames}
+            onChange={(ignoredLayerNames) => update({ ignoredLayerNames })}
+          />
+          <p className="text-xs text-figma-text-tertiary">
+            Patterns match whole names, ignoring case; * matches any characters.
+          </p>
+        </section>
+
+        {/* Import / export */}
+        <section className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-2 py-1 text-xs rounded border border-figma-border text-figma-text hover:bg-figma-bg-secondary transition-colors"
+          >
+            Import JSON…
+          </button>
+          <button
+            onClick={() => onExport(draft)}
+            className="px-2 py-1 text-xs rounded border border-figma-border text-figma-text hover:bg-figma-bg-secondary transition-colors"
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={() => setDraft(DEFAULT_GOVERNANCE_CONFIG)}
+            className="px-2 py-1 text-xs rounded border border-figma-border text-figma-text hover:bg-figma-bg-secondary transition-colors"
+          >
+            Reset to defaults
+          </button>
+          <span className="text-xs text-figma-text-tertiary">
+            Lint rules ({draft.lintRules.length}) are included; edit them in the Lint tab.
+          </span>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            style={{ display: 'none' }}
+          />
+        </section>
+      </div>
+    </ReplacementPanel>
+  );
+}
+
+function PercentInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1">
+      {label}
+      <input
+        type="number"
+        min={0}
+        max={100}
+        step={5}
+        value={value}
+        onChange={(e) => {
+          const next = parseFloat(e.target.value);
+          if (!isNaN(next)) onChange(Math.min(100, Math.max(0, next)));
+        }}
+        className="w-14 px-1 py-0.5 text-xs rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+      />
+      %
+    </label>
+  );
+}
@@ -5,13 +5,26 @@ interface HeaderProps {
   onNewAnalysis?: () => void;
   showActions?: boolean;
   onConvertToLocal?: () => void;
+  onMigrateStyles?: () => void;
+  onMapLibraries?: () => void;
+  onCleanupStyles?: () => void;
+  onRemapTokens?: () => void;
+  onBindTokens?: () => void;
+  onCleanupTokens?: () => void;
+  onShowHistory?: () => void;
   hasRemoteStyles?: boolean;
+  onExportPDF?: () => void;
+  onExportCSV?: () => void;
+  isExporting?: boolean;
+  onOpenSettings?: () => void;
 }
 
 const tabTitles: Record<TabType, string> = {
   analytics: 'Analytics Dashboard',
   styles: 'Text Styles',
   tokens: 'Tokens',
+  lint: 'Typography Lint',
+  compare: 'Compare Audits',
 };
 
 export default function Header({
@@ -19,7 +32,18 @@ export default function Header({
   onNewAnalysis,
   showActions = false,
   onConvertToLocal,
+  onMigrateStyles,
+  onMapLibraries,
+  onCleanupStyles,
+  onRemapTokens,
+  onBindTokens,
+  onCleanupTokens,
+  onShowHistory,
   hasRemoteStyles = false,
+  onExportPDF,
+  onExportCSV,
+  isExporting = false,
+  onOpenSettings,
 }: HeaderProps) {
   return (
     <div
@@ -70,6 +94,282 @@ export default function Header({
           </button>
         )}
 
+        {/* Migrate Styles button (only on styles tab) */}
+        {activeTab === 'styles' && showActions && onMigrateStyles && (
+          <button
+            onClick={onMigrateStyles}
+            style={{
+              height: '36px',
+              padding: '8px 16px',
+              border: '1px solid var(--figma-color-border)',
+              borderRadius: '8px',
+              backgroundColor: 'transparent',
+              color: 'var(--figma-color-text)',
+              fontSize: '14px',
+              fontWeight: 500,
+              cursor: 'pointer',
+              transition: 'all 0.2s ease',
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = 'var(--figma-color-bg-secondary)';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+            }}
+          >
+            Migrate Styles
+          </button>
+        )}
+
+        {/* Map Libraries button (only on styles tab with two or more libraries) */}
+        {activeTab === 'styles' && showActions && onMapLibraries && (
+          <button
+            onClick={onMapLibraries}
+            style={{
+              height: '36px',
+              padding: '8px 16px',
+              border: '1px solid var(--figma-color-border)',
+              borderRadius: '8px',
+              backgroundColor: 'transparent',
+              color: 'var(--figma-color-text)',
+              fontSize: '14px',
+              fontWeight: 500,
+              cursor: 'pointer',
+              transition: 'all 0.2s ease',
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = 'var(--figma-color-bg-secondary)';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+            }}
+          >
+            Map Libraries
+          </button>
+        )}
+
+        {activeTab === 'styles' && showActions && onCleanupStyles && (
+          <button
+            onClick={onCleanupStyles}
+            style={{
+              height: '36px',
+              padding: '8px 16px',
+              border: '1px solid var(--figma-color-border)',
+              borderRadius: '8px',
+              backgroundColor: 'transparent',
+              color: 'var(--figma-color-text)',
+              fontSize: '14px',
+              fontWeight: 500,
+              cursor: 'pointer',
+              transition: 'all 0.2s ease',
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = 'var(--figma-color-bg-secondary)';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+            }}
+          >
+            Clean Up Styles
+          </button>
+        )}
+
+        {/* Remap Tokens button (only on tokens tab with two or more collections) */}
+        {activeTab === 'tokens' && showActions && onRemapTokens && (
+          <button
+            onClick={onRemapTokens}
+            style={{
+              height: '36px',
+              padding: '8px 16px',
+              border: '1px solid var(--figma-color-border)',
+              borderRadius: '8px',
+              backgroundColor: 'transparent',
+              color: 'var(--figma-color-text)',
+              fontSize: '14px',
+              fontWeight: 500,
+              cursor: 'pointer',
+              transition: 'all 0.2s ease',
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = 'var(--figma-color-bg-secondary)';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+            }}
+          >
+            Remap Tokens
+          </button>
+        )}
+
+        {/* Bind Tokens button (only on tokens tab with hard-coded values matching a token) */}
+        {activeTab === 'tokens' && showActions && onBindTokens && (
+          <button
+            onClick={onBindTokens}
+            style={{
+              height: '36px',
+              padding: '8px 16px',
+              border: '1px solid var(--figma-color-border)',
+              borderRadius: '8px',
+              backgroundColor: 'transparent',
+              color: 'var(--figma-color-text)',
+              fontSize: '14px',
+              fontWeight: 500,
+              cursor: 'pointer',
+              transition: 'all 0.2s ease',
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = 'var(--figma-color-bg-secondary)';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+            }}
+          >
+            Bind Tokens
+          </button>
+        )}
+
+        {activeTab === 'tokens' && showActions && onCleanupTokens && (
+          <button
+            onClick={onCleanupTokens}
+            style={{
+              height: '36px',
+              padding: '8px 16px',
+              border: '1px solid var(--figma-color-border)',
+              borderRadius: '8px',
+              backgroundColor: 'transparent',
+              color: 'var(--figma-color-text)',
+              fontSize: '14px',
+              fontWeight: 500,
+              cursor: 'pointer',
+              transition: 'all 0.2s ease',
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = 'var(--figma-color-bg-secondary)';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+            }}
+          >
+            Clean Up Tokens
+          </button>
+        )}
+
+        {/* Operation History button (styles and tokens tabs, where replacements run) */}
+        {(activeTab === 'styles' || activeTab === 'tokens') && showActions && onShowHistory && (
+          <button
+            onClick={onShowHistory}
+            style={{
+              height: '36px',
+              padding: '8px 16px',
+              border: '1px solid var(--figma-color-border)',
+              borderRadius: '8px',
+              backgroundColor: 'transparent',
+              color: 'var(--figma-color-text)',
+              fontSize: '14px',
+              fontWeight: 500,
+              cursor: 'pointer',
+              transition: 'all 0.2s ease',
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = 'var(--figma-color-bg-secondary)';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+            }}
+          >
+            History
+          </button>
+        )}
+
+        {/* Export PDF report button (only on analytics tab) */}
+        {activeTab === 'analytics' && showActions && onExportPDF && (
+          <button
+            onClick={onExportPDF}
+            disabled={isExporting}
+            style={{
+              height: '36px',
+              padding: '8px 16px',
+              border: '1px solid var(--figma-color-border)',
+              borderRadius: '8px',
+              backgroundColor: 'transparent',
+              color: 'var(--figma-color-text)',
+              fontSize: '14px',
+              fontWeight: 500,
+              cursor: isExporting ? 'default' : 'pointer',
+              opacity: isExporting ? 0.5 : 1,
+              transition: 'all 0.2s ease',
+            }}
+            onMouseEnter={(e) => {
+              if (!isExporting) {
+                e.currentTarget.style.backgroundColor = 'var(--figma-color-bg-secondary)';
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+            }}
+          >
+            {isExporting ? 'Exporting…' : 'Export PDF'}
+          </button>
+        )}
+
+        {/* Export CSV sheets button (only on analytics tab) */}
+        {activeTab === 'analytics' && showActions && onExportCSV && (
+          <button
+            onClick={onExportCSV}
+            disabled={isExporting}
+            style={{
+              height: '36px',
+              padding: '8px 16px',
+              border: '1px solid var(--figma-color-border)',
+              borderRadius: '8px',
+              backgroundColor: 'transparent',
+              color: 'var(--figma-color-text)',
+              fontSize: '14px',
+              fontWeight: 500,
+              cursor: isExporting ? 'default' : 'pointer',
+              opacity: isExporting ? 0.5 : 1,
+              transition: 'all 0.2s ease',
+            }}
+            onMouseEnter={(e) => {
+              if (!isExporting) {
+                e.currentTarget.style.backgroundColor = 'var(--figma-color-bg-secondary)';
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+            }}
+          >
+            Export CSV
+          </button>
+        )}
+
+        {/* Governance settings button (available before the first audit) */}
+        {onOpenSettings && (
+          <button
+            onClick={onOpenSettings}
+            style={{
+              height: '36px',
+              padding: '8px 16px',
+              border: '1px solid var(--figma-color-border)',
+              borderRadius: '8px',
+              backgroundColor: 'transparent',
+              color: 'var(--figma-color-text)',
+              fontSize: '14px',
+              fontWeight: 500,
+              cursor: 'pointer',
+              transition: 'all 0.2s ease',
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = 'var(--figma-color-bg-secondary)';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+            }}
+          >
+            Settings
+          </button>
+        )}
+
         {/* New analysis button */}
         {showActions && onNewAnalysis && (
           <button
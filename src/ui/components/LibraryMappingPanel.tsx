@@ -0,0 +1,361 @@
+import { useState, useMemo, useEffect, type ReactNode } from 'react';
+import ReplacementPanel from './ReplacementPanel';
+import StyleMigrationProgress from './StyleMigrationProgress';
+import { useReplacementState } from '../hooks/useReplacementState';
+import { scoreStyleSimilarity } from '../utils/styleMatcher';
+import {
+  getLayerIdsForStyle,
+  matchLibraryStyles,
+  type AmbiguousStyleMatch,
+  type LibraryStyleMatch,
+} from '../utils/styleMigration';
+import type {
+  DifferingProperty,
+  LibrarySource,
+  StyleMapping,
+  TextLayer,
+  TextStyle,
+} from '@/shared/types';
+
+export interface LibraryMappingPanelProps {
+  /** Whether the panel is open */
+  isOpen: boolean;
+  /** Styles found by the audit */
+  styles: TextStyle[];
+  /** Libraries found by the audit (each lists its style IDs) */
+  libraries: LibrarySource[];
+  /** All text layers (used to find the layers each source style is applied to) */
+  allLayers: TextLayer[];
+  /** Callback when panel should close */
+  onClose: () => void;
+  /** Callback when the user confirms the reviewed mapping */
+  onMigrate: (mappings: Array<StyleMapping & { affectedLayerIds: string[] }>) => void;
+  /** Optional error message to display at top of panel */
+  error?: string;
+}
+
+const MATCH_LABELS: Record<LibraryStyleMatch['matchedBy'], string> = {
+  name: 'Same name',
+  path: 'Same path',
+  properties: 'Similar properties',
+};
+
+const PROPERTY_LABELS: Partial<Record<DifferingProperty['property'], string>> = {
+  fontFamily: 'Font Family',
+  fontSize: 'Font Size',
+  fontWeight: 'Font Weight',
+  lineHeight: 'Line Height',
+  letterSpacing: 'Letter Spacing',
+};
+
+const formatSimilarity = (score: number): string => `${Math.round(score * 100)}%`;
+
+/**
+ * Library Mapping Panel Component
+ *
+ * Slide-over that maps every style of one library onto another before a
+ * library upgrade. Styles are matched by name, hierarchy path and base
+ * properties; confident matches are pre-selected, ambiguous styles list their
+ * candidates for review and orphans have no counterpart. Any row can be
+ * changed before the mapping is run as a single style migration.
+ *
+ * Features:
+ * - Confident / needs review / no counterpart sections
+ * - Similarity and property differences for the selected target
+ * - Aggregated progress and a per-pair summary
+ */
+export default function LibraryMappingPanel({
+  isOpen,
+  styles,
+  libraries,
+  allLayers,
+  onClose,
+  onMigrate,
+  error,
+}: LibraryMappingPanelProps) {
+  const [sourceId, setSourceId] = useState('');
+  const [targetId, setTargetId] = useState('');
+  // Targets chosen by the user ('' = don't migrate), overriding the proposed match
+  const [overrides, setOverrides] = useState<Map<string, string>>(new Map());
+  const [appliedLayerCount, setAppliedLayerCount] = useState(0);
+
+  const replacementState = useReplacementState();
+  const isReplacing = replacementState.isReplacing;
+  const isComplete = replacementState.replacementState === 'complete';
+  const isReplacingOrComplete = isReplacing || isComplete;
+
+  // Default to the first two libraries
+  useEffect(() => {
+    if (!isOpen || sourceId || libraries.length < 2) return;
+    setSourceId(libraries[0].id);
+    setTargetId(libraries[1].id);
+  }, [isOpen, libraries, sourceId]);
+
+  const source = libraries.find((library) => library.id === sourceId);
+  const target = libraries.find((library) => library.id === targetId);
+
+  const stylesById = useMemo(() => new Map(styles.map((style) => [style.id, style])), [styles]);
+
+  const match = useMemo(
+    () =>
+      source && target && source.id !== target.id
+        ? matchLibraryStyles(styles, source, target)
+        : { matches: [], ambiguous: [], orphans: [] },
+    [styles, source, target]
+  );
+
+  const targetStyles = useMemo(
+    () =>
+      (target?.styleIds ?? [])
+        .map((id) => stylesById.get(id))
+        .filter((style): style is TextStyle => !!style),
+    [target, stylesById]
+  );
+
+  const layerIdsByStyle = useMemo(() => {
+    const map = new Map<string, string[]>();
+    for (const styleId of source?.styleIds ?? []) {
+      map.set(styleId, getLayerIdsForStyle(allLayers, styleId));
+    }
+    return map;
+  }, [source, allLayers]);
+
+  const proposedTargets = useMemo(
+    () => new Map(match.matches.map((m) => [m.sourceStyleId, m.targetStyleId])),
+    [match]
+  );
+
+  const getTarget = (sourceStyleId: string): string =>
+    overrides.get(sourceStyleId) ?? proposedTargets.get(sourceStyleId) ?? '';
+
+  const sourceStyleIds = [
+    ...match.matches.map((m) => m.sourceStyleId),
+    ...match.ambiguous.map((a) => a.sourceStyleId),
+    ...match.orphans,
+  ];
+
+  // Only styles applied to layers can be migrated
+  const mappings = sourceStyleIds
+    .map((sourceStyleId) => ({
+      sourceStyleId,
+      targetStyleId: getTarget(sourceStyleId),
+      affectedLayerIds: layerIdsByStyle.get(sourceStyleId) ?? [],
+    }))
+    .filter((mapping) => mapping.targetStyleId && mapping.affectedLayerIds.length > 0);
+
+  const setTarget = (sourceStyleId: string, targetStyleId: string) => {
+    setOverrides((prev) => new Map(prev).set(sourceStyleId, targetStyleId));
+  };
+
+  const changeLibrary = (setter: (id: string) => void, id: string) => {
+    setter(id);
+    setOverrides(new Map());
+  };
+
+  const handleMigrate = () => {
+    if (mappings.length === 0) return;
+    setAppliedLayerCount(mappings.reduce((sum, m) => sum + m.affectedLayerIds.length, 0));
+    onMigrate(mappings);
+  };
+
+  const handleClose = () => {
+    // If replacement is in progress, send cancel message
+    if (isReplacing) {
+      parent.postMessage({ pluginMessage: { type: 'CANCEL_REPLACEMENT' } }, '*');
+    }
+
+    replacementState.reset();
+    setOverrides(new Map());
+    setSourceId('');
+    setTargetId('');
+    setAppliedLayerCount(0);
+    onClose();
+  };
+
+  const renderRow = (
+    sourceStyleId: string,
+    badge: string,
+    candidates?: AmbiguousStyleMatch['candidates']
+  ) => {
+    const style = stylesById.get(sourceStyleId);
+    if (!style) return null;
+
+    const layerCount = layerIdsByStyle.get(sourceStyleId)?.length ?? 0;
+    const selected = stylesById.get(getTarget(sourceStyleId));
+    const comparison = selected ? scoreStyleSimilarity(style, selected) : null;
+    const candidateIds = new Set(candidates?.map((c) => c.styleId));
+
+    return (
+      <div
+        key={sourceStyleId}
+        className="flex items-start gap-3 px-4 py-2 border-b border-figma-border text-xs"
+        style={{ opacity: selected && layerCount > 0 ? 1 : 0.6 }}
+      >
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-figma-text truncate" title={style.name}>
+            {style.name}
+          </div>
+          <div className="text-figma-text-tertiary">
+            {layerCount > 0 ? `${layerCount} layers` : 'Not used'} · {badge}
+            {comparison && ` · ${formatSimilarity(comparison.similarityScore)} similar`}
+          </div>
+          {comparison && comparison.differingProperties.length > 0 && (
+            <div className="mt-0.5 font-mono text-[10px] text-figma-text-secondary">
+              {comparison.differingProperties
+                .map(
+                  (diff) =>
+                    `${PROPERTY_LABELS[diff.property]}: ${diff.textValue} → ${diff.styleValue}`
+                )
+                .join(' · ')}
+            </div>
+          )}
+        </div>
+        <span className="text-figma-text-secondary">→</span>
+        <select
+          value={selected?.id ?? ''}
+          onChange={(e) => setTarget(sourceStyleId, e.target.value)}
+          aria-label={`Target for ${style.name}`}
+          className="w-48 px-1 py-0.5 text-xs rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+        >
+          <option value="">Don't migrate</option>
+          {candidates && (
+            <optgroup label="Candidates">
+              {candidates.map(({ styleId, similarity }) => (
+                <option key={styleId} value={styleId}>
+                  {stylesById.get(styleId)?.name ?? styleId} ({formatSimilarity(similarity)})
+                </option>
+              ))}
+            </optgroup>
+          )}
+          <optgroup label={target?.name ?? 'Styles'}>
+            {targetStyles
+              .filter((s) => !candidateIds.has(s.id))
+              .map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+          </optgroup>
+        </select>
+      </div>
+    );
+  };
+
+  const renderSection = (title: string, count: number, rows: ReactNode) =>
+    count > 0 && (
+      <section>
+        <h3 className="px-4 py-2 text-xs font-semibold text-figma-text bg-figma-bg-secondary border-b border-figma-border">
+          {title} ({count})
+        </h3>
+        {rows}
+      </section>
+    );
+
+  return (
+    <ReplacementPanel
+      isOpen={isOpen}
+      title="Map Libraries"
+      description={
+        isComplete
+          ? 'Library mapping applied!'
+          : isReplacing
+            ? 'Migrating styles...'
+            : `${match.matches.length} matched · ${match.ambiguous.length} to review · ${match.orphans.length} without counterpart`
+      }
+      error={error}
+      disableReplace={mappings.length === 0 || isReplacingOrComplete}
+      onClose={handleClose}
+      onReplace={handleMigrate}
+      cancelLabel={isComplete ? 'Close' : 'Cancel'}
+      replaceLabel={isReplacing ? 'Migrating...' : `Migrate ${mappings.length} styles`}
+    >
+      {isReplacingOrComplete ? (
+        <StyleMigrationProgress styles={styles} totalLayers={appliedLayerCount} />
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+          {/* Library pickers */}
+          <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-figma-border text-xs text-figma-text-secondary flex-shrink-0">
+            <label className="flex items-center gap-1">
+              From
+              <LibrarySelect
+                libraries={libraries}
+                value={sourceId}
+                onChange={(id) => changeLibrary(setSourceId, id)}
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              To
+              <LibrarySelect
+                libraries={libraries}
+                value={targetId}
+                onChange={(id) => changeLibrary(setTargetId, id)}
+              />
+            </label>
+          </div>
+
+          {/* Mapping sections */}
+          <div style={{ flex: 1, overflow: 'auto', minHeight: 0 }}>
+            {sourceStyleIds.length === 0 ? (
+              <div
+                style={{
+                  padding: '48px 16px',
+                  textAlign: 'center',
+                  fontSize: '12px',
+                  color: 'var(--figma-color-text-secondary)',
+                }}
+              >
+                {source && target && source.id !== target.id
+                  ? `${source.name} has no styles to map.`
+                  : 'Choose two different libraries to compare.'}
+              </div>
+            ) : (
+              <>
+                {renderSection(
+                  'Needs review',
+                  match.ambiguous.length,
+                  match.ambiguous.map((a) =>
+                    renderRow(a.sourceStyleId, 'Several candidates', a.candidates)
+                  )
+                )}
+                {renderSection(
+                  'No counterpart',
+                  match.orphans.length,
+                  match.orphans.map((id) => renderRow(id, 'No match'))
+                )}
+                {renderSection(
+                  'Matched',
+                  match.matches.length,
+                  match.matches.map((m) => renderRow(m.sourceStyleId, MATCH_LABELS[m.matchedBy]))
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </ReplacementPanel>
+  );
+}
+
+function LibrarySelect({
+  libraries,
+  value,
+  onChange,
+}: {
+  libraries: LibrarySource[];
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-1 py-0.5 text-xs rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+    >
+      {libraries.map((library) => (
+        <option key={library.id} value={library.id}>
+          {library.name} ({library.styleCount})
+        </option>
+      ))}
+    </select>
+  );
+}
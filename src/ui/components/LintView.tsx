@@ -0,0 +1,562 @@
+import { useMemo, useState } from 'react';
+import type {
+  LintRule,
+  LintRuleCondition,
+  LintSeverity,
+  LintStyleViolation,
+  LintViolation,
+  PropertyOverride,
+  TokenBinding,
+  WcagLevel,
+} from '@/shared/types';
+import { WCAG_LEVELS } from '@/shared/contrast';
+import {
+  CONDITION_LABELS,
+  LINT_SEVERITIES,
+  countBySeverity,
+  createLintRule,
+  groupViolations,
+  type LintGrouping,
+} from '../utils/lintEngine';
+import ListInput from './ListInput';
+
+export interface LintViewProps {
+  /** Configured rules (enabled and disabled) */
+  rules: LintRule[];
+  /** Violations from the enabled rules */
+  violations: LintViolation[];
+  /** Text styles whose own values break a typography rule */
+  styleViolations: LintStyleViolation[];
+  /** Persist an updated rule list */
+  onRulesChange: (rules: LintRule[]) => void;
+  /** Restore the default rules */
+  onResetRules: () => void;
+  /** Select a layer on canvas */
+  onNavigateToLayer: (layerId: string) => void;
+}
+
+const SEVERITY_CLASSES: Record<LintSeverity, string> = {
+  error: 'bg-red-500/10 text-red-700 border-red-500/20',
+  warning: 'bg-yellow-500/10 text-yellow-700 border-yellow-500/20',
+  info: 'bg-blue-500/10 text-blue-700 border-blue-500/20',
+};
+
+const TOKEN_PROPERTIES: TokenBinding['property'][] = [
+  'fills',
+  'fontFamily',
+  'fontSize',
+  'lineHeight',
+  'letterSpacing',
+];
+
+const OVERRIDE_PROPERTIES: PropertyOverride['property'][] = [
+  'fontFamily',
+  'fontSize',
+  'fontWeight',
+  'lineHeight',
+  'letterSpacing',
+  'fills',
+];
+
+const GROUPING_LABELS: Record<LintGrouping, string> = {
+  rule: 'Rule',
+  page: 'Page',
+  style: 'Text style',
+};
+
+/** Violations listed per group before "show all" */
+const VIOLATION_LIMIT = 50;
+
+/**
+ * Lint View Component
+ *
+ * Lists typography lint violations grouped by rule, page or text style, next
+ * to an editor for the rules themselves. Text styles that break a rule are
+ * listed first, since fixing the style fixes every layer using it. Clicking a
+ * violation selects the layer on canvas.
+ */
+export default function LintView({
+  rules,
+  violations,
+  styleViolations,
+  onRulesChange,
+  onResetRules,
+  onNavigateToLayer,
+}: LintViewProps) {
+  const [grouping, setGrouping] = useState<LintGrouping>('rule');
+  const counts = useMemo(() => countBySeverity(violations), [violations]);
+  const rulesById = useMemo(() => new Map(rules.map((rule) => [rule.id, rule])), [rules]);
+
+  const groups = useMemo(() => groupViolations(violations, grouping), [violations, grouping]);
+
+  const updateRule = (ruleId: string, changes: Partial<LintRule>) => {
+    onRulesChange(rules.map((rule) => (rule.id === ruleId ? { ...rule, ...changes } : rule)));
+  };
+
+  return (
+    <div style={{ display: 'flex', height: '100%', overflow: 'hidden', gap: '16px' }}>
+      {/* Violations */}
+      <div className="flex-1 h-full overflow-auto space-y-3 p-2">
+        <div className="flex items-center gap-2">
+          {LINT_SEVERITIES.map((severity) => (
+            <span
+              key={severity}
+              className={`px-2 py-1 text-xs rounded border capitalize ${SEVERITY_CLASSES[severity]}`}
+            >
+              {counts[severity]} {severity}
+              {counts[severity] === 1 ? '' : 's'}
+            </span>
+          ))}
+          <label className="flex items-center gap-1 ml-auto text-xs text-figma-text-secondary">
+            Group by
+            <select
+              value={grouping}
+              onChange={(e) => setGrouping(e.target.value as LintGrouping)}
+              className="px-1 py-0.5 text-xs rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+            >
+              {Object.entries(GROUPING_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {styleViolations.length > 0 && (
+          <StyleViolations violations={styleViolations} rulesById={rulesById} />
+        )}
+
+        {violations.length === 0 ? (
+          <p className="text-xs text-figma-text-secondary">
+            No violations. Every text layer passes the enabled rules.
+          </p>
+        ) : grouping === 'rule' ? (
+          rules
+            .filter((rule) => groups.has(rule.id))
+            .map((rule) => (
+              <ViolationGroup
+                key={rule.id}
+                title={rule.name}
+                severity={rule.severity}
+                violations={groups.get(rule.id) ?? []}
+                onNavigateToLayer={onNavigateToLayer}
+              />
+            ))
+        ) : (
+          Array.from(groups.entries()).map(([title, group]) => (
+            <ViolationGroup
+              key={title}
+              title={title}
+              violations={group}
+              onNavigateToLayer={onNavigateToLayer}
+            />
+          ))
+        )}
+      </div>
+
+      {/* Rules */}
+      <div
+        className="h-full overflow-auto space-y-3 p-2"
+        style={{ width: '50%', borderLeft: '1px solid var(--figma-color-border)' }}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-figma-text">Rules</h3>
+          <div className="flex gap-2">
+            <select
+              value=""
+              onChange={(e) => {
+                if (e.target.value) {
+                  onRulesChange([
+                    ...rules,
+                    createLintRule(e.target.value as LintRuleCondition['type']),
+                  ]);
+                }
+              }}
+              className="px-2 py-1 text-xs rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+            >
+              <option value="">Add rule…</option>
+              {Object.entries(CONDITION_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={onResetRules}
+              className="px-2 py-1 text-xs rounded border border-figma-border text-figma-text hover:bg-figma-bg-secondary transition-colors"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+
+        {rules.map((rule) => (
+          <RuleEditor
+            key={rule.id}
+            rule={rule}
+            onChange={(changes) => updateRule(rule.id, changes)}
+            onRemove={() => onRulesChange(rules.filter((r) => r.id !== rule.id))}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Text styles breaking a rule, each listed once with the layers it affects
+ */
+function StyleViolations({
+  violations,
+  rulesById,
+}: {
+  violations: LintStyleViolation[];
+  rulesById: Map<string, LintRule>;
+}) {
+  return (
+    <div className="border border-figma-border rounded-lg p-3 bg-figma-bg-secondary">
+      <div className="flex items-center gap-2 mb-2">
+        <span className="text-xs font-semibold text-figma-text">Fix at the source</span>
+        <span className="text-xs text-figma-text-tertiary">
+          Text styles that break a rule for every layer using them
+        </span>
+        <span className="text-xs text-figma-text-tertiary ml-auto">{violations.length}</span>
+      </div>
+
+      {violations.map((violation) => (
+        <div
+          key={`${violation.ruleId}:${violation.styleId}`}
+          className="flex items-center gap-2 py-1 px-2 text-xs"
+        >
+          <span
+            className={`px-1.5 py-0.5 text-[10px] rounded border uppercase ${SEVERITY_CLASSES[violation.severity]}`}
+          >
+            {violation.severity}
+          </span>
+          <span className="text-figma-text truncate">
+            {violation.styleName}
+            <span className="text-figma-text-tertiary ml-1">
+              · {violation.layerCount} {violation.layerCount === 1 ? 'layer' : 'layers'}
+            </span>
+          </span>
+          <span
+            className="text-figma-text-secondary truncate ml-auto"
+            title={rulesById.get(violation.ruleId)?.name}
+          >
+            {violation.message}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Violations for one rule, page or style, collapsed after VIOLATION_LIMIT rows
+ */
+function ViolationGroup({
+  title,
+  severity,
+  violations,
+  onNavigateToLayer,
+}: {
+  title: string;
+  severity?: LintSeverity;
+  violations: LintViolation[];
+  onNavigateToLayer: (layerId: string) => void;
+}) {
+  const [showAll, setShowAll] = useState(false);
+  const visible = showAll ? violations : violations.slice(0, VIOLATION_LIMIT);
+
+  return (
+    <div className="border border-figma-border rounded-lg p-3 bg-figma-bg-secondary">
+      <div className="flex items-center gap-2 mb-2">
+        {severity && (
+          <span
+            className={`px-1.5 py-0.5 text-[10px] rounded border uppercase ${SEVERITY_CLASSES[severity]}`}
+          >
+            {severity}
+          </span>
+        )}
+        <span className="text-xs font-semibold text-figma-text">{title}</span>
+        <span className="text-xs text-figma-text-tertiary ml-auto">{violations.length}</span>
+      </div>
+
+      {visible.map((violation) => (
+        <button
+          key={`${violation.ruleId}:${violation.layerId}`}
+          onClick={() => onNavigateToLayer(violation.layerId)}
+          className="w-full flex justify-between gap-2 py-1 px-2 text-xs text-left rounded hover:bg-figma-bg transition-colors"
+        >
+          <span className="text-figma-text truncate">
+            {violation.layerName}
+            <span className="text-figma-text-tertiary ml-1">· {violation.pageName}</span>
+          </span>
+          <span className="text-figma-text-secondary truncate">{violation.message}</span>
+        </button>
+      ))}
+
+      {violations.length > VIOLATION_LIMIT && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="text-xs text-figma-bg-brand px-2 hover:underline"
+        >
+          {showAll ? 'Show less' : `Show all ${violations.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Editor for one rule's severity, parameters and ignored pages
+ */
+function RuleEditor({
+  rule,
+  onChange,
+  onRemove,
+}: {
+  rule: LintRule;
+  onChange: (changes: Partial<LintRule>) => void;
+  onRemove: () => void;
+}) {
+  const { condition } = rule;
+
+  return (
+    <div
+      className="border border-figma-border rounded-lg p-3 space-y-2"
+      style={{ opacity: rule.enabled ? 1 : 0.6 }}
+    >
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={rule.enabled}
+          onChange={(e) => onChange({ enabled: e.target.checked })}
+          aria-label={`Enable ${rule.name}`}
+        />
+        <input
+          type="text"
+          value={rule.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          className="flex-1 min-w-0 px-1 py-0.5 text-xs font-semibold bg-transparent text-figma-text border border-transparent rounded hover:border-figma-border focus:border-figma-border focus:outline-none"
+        />
+        <select
+          value={rule.severity}
+          onChange={(e) => onChange({ severity: e.target.value as LintSeverity })}
+          className="px-1 py-0.5 text-xs rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+        >
+          {LINT_SEVERITIES.map((severity) => (
+            <option key={severity} value={severity}>
+              {severity}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={onRemove}
+          className="px-1 text-xs text-figma-text-tertiary hover:text-figma-text"
+          aria-label={`Remove ${rule.name}`}
+        >
+          ✕
+        </button>
+      </div>
+
+      <p className="text-[11px] text-figma-text-tertiary">
+        {CONDITION_LABELS[condition.type]} · <code>{rule.id}</code>
+      </p>
+
+      {condition.type === 'require-style' && (
+        <label className="flex items-center gap-2 text-xs text-figma-text-secondary">
+          <input
+            type="checkbox"
+            checked={condition.allowPartial}
+            onChange={(e) =>
+              onChange({ condition: { ...condition, allowPartial: e.target.checked } })
+            }
+          />
+          Allow styled text with local overrides
+        </label>
+      )}
+
+      {condition.type === 'require-token' && (
+        <PropertyCheckboxes
+          options={TOKEN_PROPERTIES}
+          selected={condition.properties}
+          onChange={(properties) => onChange({ condition: { ...condition, properties } })}
+        />
+      )}
+
+      {condition.type === 'disallow-overrides' && (
+        <PropertyCheckboxes
+          options={OVERRIDE_PROPERTIES}
+          selected={condition.properties}
+          onChange={(properties) => onChange({ condition: { ...condition, properties } })}
+        />
+      )}
+
+      {condition.type === 'semantic-tokens-only' && (
+        <p className="text-xs text-figma-text-tertiary">
+          Collections are tagged primitive or semantic in Governance Settings, or inferred from
+          their aliases when none are tagged.
+        </p>
+      )}
+
+      {condition.type === 'disallow-library' && (
+        <ListInput
+          label="Libraries"
+          placeholder="Legacy UI Kit, Old Brand"
+          values={condition.libraries}
+          onChange={(libraries) => onChange({ condition: { ...condition, libraries } })}
+        />
+      )}
+
+      {condition.type === 'min-line-height' && (
+        <label className="flex items-center gap-2 text-xs text-figma-text-secondary">
+          Minimum
+          <input
+            type="number"
+            min={0.5}
+            max={3}
+            step={0.05}
+            value={condition.ratio}
+            onChange={(e) => {
+              const ratio = parseFloat(e.target.value);
+              if (!isNaN(ratio)) onChange({ condition: { ...condition, ratio } });
+            }}
+            className="w-16 px-1 py-0.5 text-xs rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+          />
+          × font size
+        </label>
+      )}
+
+      {condition.type === 'min-line-height' && (
+        <label className="flex items-center gap-2 text-xs text-figma-text-secondary">
+          Only text up to
+          <NumberInput
+            value={condition.maxFontSize}
+            onChange={(maxFontSize) => onChange({ condition: { ...condition, maxFontSize } })}
+          />
+          px (empty for all text)
+        </label>
+      )}
+
+      {condition.type === 'min-font-size' && (
+        <>
+          <label className="flex items-center gap-2 text-xs text-figma-text-secondary">
+            Minimum
+            <NumberInput
+              value={condition.size}
+              onChange={(size) => {
+                if (size !== undefined) onChange({ condition: { ...condition, size } });
+              }}
+            />
+            px
+          </label>
+          <ListInput
+            label="Only in frames"
+            placeholder="*Mobile*, iPhone*"
+            values={condition.frames}
+            onChange={(frames) => onChange({ condition: { ...condition, frames } })}
+          />
+        </>
+      )}
+
+      {condition.type === 'no-negative-letter-spacing' && (
+        <label className="flex items-center gap-2 text-xs text-figma-text-secondary">
+          On text up to
+          <NumberInput
+            value={condition.maxFontSize}
+            onChange={(maxFontSize) => {
+              if (maxFontSize !== undefined) {
+                onChange({ condition: { ...condition, maxFontSize } });
+              }
+            }}
+          />
+          px
+        </label>
+      )}
+
+      {condition.type === 'min-contrast' && (
+        <label className="flex items-center gap-2 text-xs text-figma-text-secondary">
+          Level
+          <select
+            value={condition.level}
+            onChange={(e) =>
+              onChange({ condition: { ...condition, level: e.target.value as WcagLevel } })
+            }
+            className="px-1 py-0.5 text-xs rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+          >
+            {WCAG_LEVELS.map((level) => (
+              <option key={level} value={level}>
+                WCAG {level}
+              </option>
+            ))}
+          </select>
+          (AA: 4.5:1, large text 3:1 · AAA: 7:1, large text 4.5:1)
+        </label>
+      )}
+
+      <ListInput
+        label="Ignored pages"
+        placeholder="Drafts*, Archive"
+        values={rule.ignoredPages ?? []}
+        onChange={(ignoredPages) => onChange({ ignoredPages })}
+      />
+    </div>
+  );
+}
+
+/**
+ * Pixel size input; empty reads as undefined
+ */
+function NumberInput({
+  value,
+  onChange,
+}: {
+  value?: number;
+  onChange: (value: number | undefined) => void;
+}) {
+  return (
+    <input
+      type="number"
+      min={1}
+      max={200}
+      step={1}
+      value={value ?? ''}
+      onChange={(e) => {
+        const parsed = parseFloat(e.target.value);
+        onChange(isNaN(parsed) ? undefined : parsed);
+      }}
+      className="w-16 px-1 py-0.5 text-xs rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+    />
+  );
+}
+
+function PropertyCheckboxes<T extends string>({
+  options,
+  selected,
+  onChange,
+}: {
+  options: T[];
+  selected: T[];
+  onChange: (selected: T[]) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-x-3 gap-y-1">
+      {options.map((option) => (
+        <label key={option} className="flex items-center gap-1 text-xs text-figma-text-secondary">
+          <input
+            type="checkbox"
+            checked={selected.includes(option)}
+            onChange={(e) =>
+              onChange(
+                e.target.checked ? [...selected, option] : selected.filter((p) => p !== option)
+              )
+            }
+          />
+          {option}
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useState } from 'react';
+
+export interface ListInputProps {
+  /** Label shown before the input */
+  label: string;
+  /** Example values shown when the list is empty */
+  placeholder: string;
+  /** Current values */
+  values: string[];
+  /** Called with the trimmed, non-empty values */
+  onChange: (values: string[]) => void;
+}
+
+/**
+ * Comma-separated list input, committed on blur so typing a comma is not lost
+ */
+export default function ListInput({ label, placeholder, values, onChange }: ListInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    onChange(
+      draft
+        .split(',')
+        .map((value) => value.trim())
+        .filter(Boolean)
+    );
+    setDraft(null);
+  };
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-figma-text-secondary">
+      <span className="whitespace-nowrap">{label}</span>
+      <input
+        type="text"
+        value={draft ?? values.join(', ')}
+        placeholder={placeholder}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+        className="flex-1 min-w-0 px-1 py-0.5 text-xs rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+      />
+    </label>
+  );
+}
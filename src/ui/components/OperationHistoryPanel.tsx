@@ -0,0 +1,208 @@
+import { useState, useMemo } from 'react';
+import ReplacementPanel from './ReplacementPanel';
+import ProgressIndicator from './ProgressIndicator';
+import { useReplacementState } from '../hooks/useReplacementState';
+import { getJournalEntryStatus } from '../utils/replacementJournal';
+import type { ReplacementJournalEntry, TextStyle } from '@/shared/types';
+
+export interface OperationHistoryPanelProps {
+  /** Whether the panel is open */
+  isOpen: boolean;
+  /** Undo journal entries, newest first */
+  entries: ReplacementJournalEntry[];
+  /** Styles found by the audit (used to name the original styles) */
+  styles: TextStyle[];
+  /** Callback when panel should close */
+  onClose: () => void;
+  /** Callback when the user reverts the selected operation */
+  onRevert: (entryId: string) => void;
+  /** Optional error message to display at top of panel */
+  error?: string;
+}
+
+const STATUS_BADGES: Record<
+  ReturnType<typeof getJournalEntryStatus>,
+  { label: string; color: string } | null
+> = {
+  applied: null,
+  incomplete: { label: 'Incomplete', color: 'var(--figma-color-text-warning)' },
+  reverted: { label: 'Reverted', color: 'var(--figma-color-text-secondary)' },
+};
+
+/**
+ * Operation History Panel Component
+ *
+ * Slide-over listing every replacement recorded in the document's undo
+ * journal. Selecting an operation shows the style changes it made; reverting
+ * restores exactly the layers it changed, under a new version checkpoint,
+ * without rolling back anything else in the file.
+ *
+ * Features:
+ * - Operation log with time, layer count and checkpoint
+ * - Reverted / incomplete status badges
+ * - Revert progress and summary
+ */
+export default function OperationHistoryPanel({
+  isOpen,
+  entries,
+  styles,
+  onClose,
+  onRevert,
+  error,
+}: OperationHistoryPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const replacementState = useReplacementState();
+  const isReplacing = replacementState.isReplacing;
+  const isComplete = replacementState.replacementState === 'complete';
+  const isReplacingOrComplete = isReplacing || isComplete;
+
+  const stylesById = useMemo(() => new Map(styles.map((style) => [style.id, style])), [styles]);
+  const selected = entries.find((entry) => entry.id === selectedId);
+
+  const handleRevert = () => {
+    if (!selected || selected.revertedAt) return;
+    onRevert(selected.id);
+  };
+
+  const handleClose = () => {
+    // If a revert is in progress, send cancel message
+    if (isReplacing) {
+      parent.postMessage({ pluginMessage: { type: 'CANCEL_REPLACEMENT' } }, '*');
+    }
+
+    replacementState.reset();
+    setSelectedId(null);
+    onClose();
+  };
+
+  return (
+    <ReplacementPanel
+      isOpen={isOpen}
+      title="Operation History"
+      description={
+        isComplete
+          ? 'Operation reverted!'
+          : isReplacing
+            ? 'Reverting operation...'
+            : `${entries.length} operations recorded in this file`
+      }
+      error={error}
+      disableReplace={!selected || !!selected.revertedAt || isReplacingOrComplete}
+      onClose={handleClose}
+      onReplace={handleRevert}
+      cancelLabel={isComplete ? 'Close' : 'Cancel'}
+      replaceLabel={isReplacing ? 'Reverting...' : 'Revert this operation'}
+    >
+      {isReplacingOrComplete ? (
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            height: '100%',
+            overflow: 'auto',
+            padding: '48px 32px',
+          }}
+        >
+          <ProgressIndicator
+            progress={replacementState.progress}
+            current={replacementState.layersProcessed}
+            total={selected?.layerCount}
+            message={
+              replacementState.replacementState === 'creating_checkpoint'
+                ? 'Creating version checkpoint...'
+                : replacementState.replacementState === 'processing'
+                  ? 'Restoring layers...'
+                  : isComplete
+                    ? 'Complete!'
+                    : undefined
+            }
+            state={replacementState.replacementState}
+          />
+
+          {isComplete && replacementState.result && (
+            <div className="mt-8 w-full max-w-[500px] p-6 rounded-lg bg-figma-bg-secondary text-xs text-figma-text-secondary flex flex-col gap-2">
+              <div className="flex justify-between">
+                <span>Layers restored:</span>
+                <span className="font-medium text-figma-text">
+                  {replacementState.result.layersUpdated}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span>Layers skipped:</span>
+                <span className="font-medium text-figma-text">
+                  {replacementState.result.layersFailed}
+                </span>
+              </div>
+              {replacementState.result.failedLayers.slice(0, 5).map((layer) => (
+                <div key={layer.layerId} className="truncate" title={layer.reason}>
+                  {layer.layerName}: {layer.reason}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : entries.length === 0 ? (
+        <div
+          style={{
+            padding: '48px 16px',
+            textAlign: 'center',
+            fontSize: '12px',
+            color: 'var(--figma-color-text-secondary)',
+          }}
+        >
+          No replacements have been recorded in this file yet.
+        </div>
+      ) : (
+        <div style={{ height: '100%', overflow: 'auto' }}>
+          {entries.map((entry) => {
+            const badge = STATUS_BADGES[getJournalEntryStatus(entry)];
+            const isSelected = entry.id === selectedId;
+
+            return (
+              <button
+                key={entry.id}
+                onClick={() => setSelectedId(entry.id)}
+                aria-pressed={isSelected}
+                className={`block w-full text-left px-4 py-3 border-b border-figma-border text-xs transition-colors ${
+                  isSelected ? '' : 'hover:bg-figma-bg-secondary'
+                }`}
+                style={{
+                  opacity: entry.revertedAt ? 0.6 : 1,
+                  backgroundColor: isSelected ? 'var(--figma-color-bg-selected)' : undefined,
+                }}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-figma-text">{entry.title}</span>
+                  {badge && (
+                    <span className="text-[10px] font-medium" style={{ color: badge.color }}>
+                      {badge.label}
+                    </span>
+                  )}
+                  <span className="ml-auto text-figma-text-tertiary">
+                    {new Date(entry.timestamp).toLocaleString()}
+                  </span>
+                </div>
+                <div className="text-figma-text-secondary">
+                  {entry.layerCount} layers
+                  {entry.checkpointTitle && ` · Checkpoint "${entry.checkpointTitle}"`}
+                </div>
+                {isSelected &&
+                  entry.styleChanges.map((change) => (
+                    <div
+                      key={`${change.fromStyleId}|${change.toStyleId}`}
+                      className="mt-0.5 font-mono text-[10px] text-figma-text-secondary truncate"
+                    >
+                      {stylesById.get(change.fromStyleId)?.name ?? change.fromStyleId} →{' '}
+                      {change.toStyleName} ({change.layerCount})
+                    </div>
+                  ))}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </ReplacementPanel>
+  );
+}
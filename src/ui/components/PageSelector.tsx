@@ -10,16 +10,30 @@ interface PageSelectorProps {
   isOpen: boolean;
   onClose: () => void;
   onConfirm: (pageIds: string[]) => void;
+  /** Modal title (default: "Select Pages to Audit") */
+  title?: string;
+  /** Verb on the confirm button (default: "Analyze") */
+  confirmVerb?: string;
+  /** Pages selected when the list loads (default: all pages) */
+  initialPageIds?: string[];
 }
 
 /**
  * Page Selector Modal
  *
- * Allows users to select which pages to audit before running the scan.
+ * Allows users to select which pages to audit before running the scan
+ * (also used to limit a replacement to some pages).
  * Shows all pages in the document with checkboxes for selection.
  * Includes "Select All" / "Deselect All" controls.
  */
-export default function PageSelector({ isOpen, onClose, onConfirm }: PageSelectorProps) {
+export default function PageSelector({
+  isOpen,
+  onClose,
+  onConfirm,
+  title = 'Select Pages to Audit',
+  confirmVerb = 'Analyze',
+  initialPageIds,
+}: PageSelectorProps) {
   const [pages, setPages] = useState<Page[]>([]);
   const [selectedPageIds, setSelectedPageIds] = useState<Set<string>>(new Set());
   const [isLoading, setIsLoading] = useState(true);
@@ -44,14 +58,14 @@ export default function PageSelector({ isOpen, onClose, onConfirm }: PageSelecto
         const pageList = msg.payload.pages as Page[];
         setPages(pageList);
         // Select all pages by default
-        setSelectedPageIds(new Set(pageList.map(p => p.id)));
+        setSelectedPageIds(new Set(initialPageIds ?? pageList.map(p => p.id)));
         setIsLoading(false);
       }
     };
 
     window.addEventListener('message', handleMessage);
     return () => window.removeEventListener('message', handleMessage);
-  }, []);
+  }, [initialPageIds]);
 
   const handleTogglePage = (pageId: string) => {
     setSelectedPageIds(prev => {
@@ -133,7 +147,7 @@ export default function PageSelector({ isOpen, onClose, onConfirm }: PageSelecto
               margin: 0,
             }}
           >
-            Select Pages to Audit
+            {title}
           </h2>
           <button
             onClick={onClose}
@@ -384,7 +398,7 @@ export default function PageSelector({ isOpen, onClose, onConfirm }: PageSelecto
               }
             }}
           >
-            Analyze {selectedPageIds.size} Page{selectedPageIds.size !== 1 ? 's' : ''}
+            {confirmVerb} {selectedPageIds.size} Page{selectedPageIds.size !== 1 ? 's' : ''}
           </button>
         </div>
       </div>
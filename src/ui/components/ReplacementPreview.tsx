@@ -1,5 +1,10 @@
 import { ArrowRight } from 'lucide-react';
-import type { TextStyle, DesignToken } from '@/shared/types';
+import type {
+  TextStyle,
+  DesignToken,
+  LayerBlockerReason,
+  ReplacementDryRunReport,
+} from '@/shared/types';
 import TokenMetadataCard from './TokenMetadataCard';
 
 interface StylePreviewProps {
@@ -12,6 +17,39 @@ interface TokenPreviewProps {
   target: DesignToken | null;
 }
 
+interface DryRunSummaryProps {
+  report: ReplacementDryRunReport | null;
+  error: string | null;
+  isRunning: boolean;
+  disabled: boolean;
+  onRun: () => void;
+}
+
+const BLOCKER_LABELS: Record<LayerBlockerReason, string> = {
+  not_found: 'Not found',
+  not_text: 'Not a text layer',
+  locked: 'Locked',
+  missing_font: 'Missing font',
+  remote_component: 'Remote component',
+  component_instance: 'Component instance',
+  token_not_found: 'Token not bound',
+};
+
+const PROPERTY_LABELS: Record<string, string> = {
+  fontFamily: 'Font family',
+  fontStyle: 'Font style',
+  fontWeight: 'Font weight',
+  fontSize: 'Font size',
+  lineHeight: 'Line height',
+  letterSpacing: 'Letter spacing',
+  textCase: 'Text case',
+  textDecoration: 'Decoration',
+  paragraphSpacing: 'Paragraph spacing',
+  fills: 'Fill',
+};
+
+const MAX_LISTED_FAILURES = 10;
+
 /**
  * Style Replacement Preview
  *
@@ -257,3 +295,120 @@ export function TokenReplacementPreview({ source, target }: TokenPreviewProps) {
     </div>
   );
 }
+
+/**
+ * Dry Run Summary
+ *
+ * Runs the replacement without writing and shows what it would do: layers
+ * that would succeed or fail (and why), and which properties would change.
+ */
+export function DryRunSummary({ report, error, isRunning, disabled, onRun }: DryRunSummaryProps) {
+  const rowStyle = { display: 'flex', justifyContent: 'space-between', gap: '8px' };
+  const valueStyle = { fontWeight: 500, color: 'var(--figma-color-text)' };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        marginTop: '16px',
+        fontSize: '11px',
+        color: 'var(--figma-color-text-secondary)',
+      }}
+    >
+      <button
+        onClick={onRun}
+        disabled={disabled || isRunning}
+        style={{
+          alignSelf: 'flex-start',
+          padding: '4px 10px',
+          fontSize: '11px',
+          fontWeight: 500,
+          color: 'var(--figma-color-text)',
+          backgroundColor: 'var(--figma-color-bg)',
+          border: '1px solid var(--figma-color-border)',
+          borderRadius: '6px',
+          cursor: disabled || isRunning ? 'default' : 'pointer',
+          opacity: disabled ? 0.5 : 1,
+        }}
+      >
+        {isRunning ? 'Checking layers...' : 'Dry run'}
+      </button>
+
+      {error && <div style={{ color: 'var(--figma-color-text-danger)' }}>{error}</div>}
+
+      {report && (
+        <>
+          <div style={rowStyle}>
+            <span>Would succeed:</span>
+            <span style={valueStyle}>
+              {report.wouldSucceed} of {report.totalLayers}
+            </span>
+          </div>
+          <div style={rowStyle}>
+            <span>Would fail:</span>
+            <span
+              style={{
+                ...valueStyle,
+                color:
+                  report.failures.length > 0
+                    ? 'var(--figma-color-text-danger)'
+                    : 'var(--figma-color-text)',
+              }}
+            >
+              {report.failures.length}
+            </span>
+          </div>
+          <div style={rowStyle}>
+            <span>Would visibly change:</span>
+            <span style={valueStyle}>{report.wouldChange}</span>
+          </div>
+
+          {Object.keys(report.propertyChanges).length > 0 && (
+            <div style={{ paddingTop: '8px', borderTop: '1px solid var(--figma-color-border)' }}>
+              {Object.entries(report.propertyChanges).map(([property, count]) => (
+                <div key={property} style={rowStyle}>
+                  <span>{PROPERTY_LABELS[property] ?? property}</span>
+                  <span style={valueStyle}>{count}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {report.failures.length > 0 && (
+            <div style={{ paddingTop: '8px', borderTop: '1px solid var(--figma-color-border)' }}>
+              {Object.entries(report.failureCounts).map(([reason, count]) => (
+                <div key={reason} style={rowStyle}>
+                  <span>{BLOCKER_LABELS[reason as LayerBlockerReason]}</span>
+                  <span style={valueStyle}>{count}</span>
+                </div>
+              ))}
+              {report.failures.slice(0, MAX_LISTED_FAILURES).map((failure) => (
+                <div
+                  key={failure.layerId}
+                  title={failure.message}
+                  style={{
+                    marginTop: '4px',
+                    fontSize: '10px',
+                    color: 'var(--figma-color-text-tertiary)',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  {failure.layerName}: {failure.message}
+                </div>
+              ))}
+              {report.failures.length > MAX_LISTED_FAILURES && (
+                <div style={{ marginTop: '4px', fontSize: '10px' }}>
+                  and {report.failures.length - MAX_LISTED_FAILURES} more
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import PageSelector from './PageSelector';
+import type { ReplacementScope } from '@/shared/types';
+
+interface ReplacementScopeControlsProps {
+  scope: ReplacementScope;
+  onChange: (scope: ReplacementScope) => void;
+}
+
+const labelStyle = { display: 'flex', alignItems: 'center', gap: '6px' };
+
+const fieldStyle = {
+  flex: 1,
+  minWidth: 0,
+  padding: '4px 6px',
+  fontSize: '11px',
+  color: 'var(--figma-color-text)',
+  backgroundColor: 'var(--figma-color-bg)',
+  border: '1px solid var(--figma-color-border)',
+  borderRadius: '4px',
+};
+
+const linkButtonStyle = {
+  padding: 0,
+  fontSize: '11px',
+  color: 'var(--figma-color-bg-brand)',
+  background: 'none',
+  border: 'none',
+  cursor: 'pointer',
+};
+
+/**
+ * Replacement Scope Controls
+ *
+ * Limits a replacement to part of the file: the current selection, some
+ * pages, text inside main components or instances, or a component path
+ * pattern. Every restriction applies; an empty scope means the whole file.
+ */
+export default function ReplacementScopeControls({
+  scope,
+  onChange,
+}: ReplacementScopeControlsProps) {
+  const [showPageSelector, setShowPageSelector] = useState(false);
+
+  const update = (changes: Partial<ReplacementScope>) => onChange({ ...scope, ...changes });
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        marginTop: '16px',
+        fontSize: '11px',
+        color: 'var(--figma-color-text)',
+      }}
+    >
+      <div
+        style={{
+          fontSize: '10px',
+          fontWeight: 500,
+          color: 'var(--figma-color-text-tertiary)',
+          textTransform: 'uppercase',
+          letterSpacing: '0.5px',
+        }}
+      >
+        Scope
+      </div>
+
+      <label style={labelStyle}>
+        <input
+          type="checkbox"
+          checked={!!scope.selectionOnly}
+          onChange={(e) => update({ selectionOnly: e.target.checked || undefined })}
+        />
+        Current selection only
+      </label>
+
+      <div style={labelStyle}>
+        <span>
+          {scope.pageIds
+            ? `${scope.pageIds.length} page${scope.pageIds.length !== 1 ? 's' : ''}`
+            : 'All pages'}
+        </span>
+        <button style={linkButtonStyle} onClick={() => setShowPageSelector(true)}>
+          Choose pages
+        </button>
+        {scope.pageIds && (
+          <button style={linkButtonStyle} onClick={() => update({ pageIds: undefined })}>
+            All pages
+          </button>
+        )}
+      </div>
+
+      <label style={labelStyle}>
+        <span>Layers</span>
+        <select
+          value={scope.componentContext ?? ''}
+          onChange={(e) =>
+            update({
+              componentContext: (e.target.value ||
+                undefined) as ReplacementScope['componentContext'],
+            })
+          }
+          style={fieldStyle}
+        >
+          <option value="">Anywhere</option>
+          <option value="main_component">Inside main components</option>
+          <option value="instance">Inside instances</option>
+        </select>
+      </label>
+
+      <label style={labelStyle}>
+        <span>Component path</span>
+        <input
+          type="text"
+          value={scope.componentPathPattern ?? ''}
+          placeholder="e.g. Checkout / *"
+          onChange={(e) => update({ componentPathPattern: e.target.value || undefined })}
+          style={fieldStyle}
+        />
+      </label>
+
+      <PageSelector
+        isOpen={showPageSelector}
+        onClose={() => setShowPageSelector(false)}
+        onConfirm={(pageIds) => update({ pageIds })}
+        title="Limit Replacement to Pages"
+        confirmVerb="Use"
+        initialPageIds={scope.pageIds}
+      />
+    </div>
+  );
+}
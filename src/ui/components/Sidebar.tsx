@@ -1,7 +1,7 @@
-import { BarChart3, FolderKanban, Coins } from 'lucide-react';
+import { BarChart3, FolderKanban, Coins, ListChecks, GitCompare } from 'lucide-react';
 import Badge from './Badge';
 
-export type TabType = 'analytics' | 'styles' | 'tokens';
+export type TabType = 'analytics' | 'styles' | 'tokens' | 'lint' | 'compare';
 
 interface SidebarProps {
   activeTab: TabType;
@@ -9,6 +9,7 @@ interface SidebarProps {
   disabledTabs?: TabType[];
   styleBadgeCount?: number;
   tokenBadgeCount?: number;
+  lintBadgeCount?: number;
 }
 
 const tabs = [
@@ -30,6 +31,18 @@ const tabs = [
     label: 'Tokens',
     tooltip: 'Browse and manage design tokens',
   },
+  {
+    id: 'lint' as TabType,
+    icon: ListChecks,
+    label: 'Lint',
+    tooltip: 'Check text layers against typography rules',
+  },
+  {
+    id: 'compare' as TabType,
+    icon: GitCompare,
+    label: 'Compare',
+    tooltip: 'Compare audits over time or across files',
+  },
 ];
 
 export default function Sidebar({
@@ -38,6 +51,7 @@ export default function Sidebar({
   disabledTabs = [],
   styleBadgeCount = 0,
   tokenBadgeCount = 0,
+  lintBadgeCount = 0,
 }: SidebarProps) {
   return (
     <div
@@ -59,6 +73,8 @@ export default function Sidebar({
           badgeCount = styleBadgeCount;
         } else if (tab.id === 'tokens') {
           badgeCount = tokenBadgeCount;
+        } else if (tab.id === 'lint') {
+          badgeCount = lintBadgeCount;
         }
 
         return (
@@ -97,7 +113,7 @@ export default function Sidebar({
             }}
           >
             <Icon size={16} />
-            {/* Badge - only for Styles and Tokens tabs */}
+            {/* Badge - only for Styles, Tokens and Lint tabs */}
             {badgeCount > 0 && <Badge count={badgeCount} />}
             {/* Tooltip */}
             {!isDisabled && (
@@ -0,0 +1,413 @@
+import { useState, useMemo, useEffect, useRef, type ChangeEvent } from 'react';
+import ReplacementPanel from './ReplacementPanel';
+import ProgressIndicator from './ProgressIndicator';
+import ConfirmationDialog from './ConfirmationDialog';
+import { useReplacementState } from '../hooks/useReplacementState';
+import { useStyleCleanupPreview } from '../hooks/useStyleCleanupPreview';
+import {
+  DEPRECATED_STYLE_PREFIX,
+  findUnusedLocalStyles,
+  generateStyleBackupJSON,
+  getStyleCleanupBlocker,
+  parseStyleBackup,
+} from '../utils/styleCleanup';
+import { downloadFile } from '../utils/exportUtils';
+import type { StyleCleanupAction, StyleCleanupBackup, TextStyle } from '@/shared/types';
+
+export interface StyleCleanupPanelProps {
+  /** Whether the panel is open */
+  isOpen: boolean;
+  /** Styles found by the audit */
+  styles: TextStyle[];
+  /** Document name, used for the backup filename */
+  documentName: string;
+  /** Callback when panel should close */
+  onClose: () => void;
+  /** Callback when the user confirms cleaning up the selected styles */
+  onCleanup: (styleIds: string[], action: StyleCleanupAction, includePublished: boolean) => void;
+  /** Callback when the user picks a backup to restore */
+  onRestore: (backup: StyleCleanupBackup) => void;
+}
+
+const ACTION_LABELS: Record<StyleCleanupAction, string> = {
+  delete: 'Delete',
+  deprecate: `Rename to "${DEPRECATED_STYLE_PREFIX}"`,
+};
+
+/**
+ * Style Cleanup Panel Component
+ *
+ * Slide-over listing local text styles no audited layer applies. On open, each
+ * one is checked again across the whole document and for its publish status;
+ * styles still applied somewhere cannot be selected, and published ones are
+ * only deleted when allowed explicitly. Once confirmed, the selection is
+ * deleted or renamed into the deprecated group under a single checkpoint; a
+ * JSON backup of deleted styles downloads on completion and can be restored
+ * from here later.
+ *
+ * Features:
+ * - Document-wide usage and publish status per style
+ * - Delete or rename, confirmed before anything runs
+ * - Backup download and restore
+ */
+export default function StyleCleanupPanel({
+  isOpen,
+  styles,
+  documentName,
+  onClose,
+  onCleanup,
+  onRestore,
+}: StyleCleanupPanelProps) {
+  const [action, setAction] = useState<StyleCleanupAction>('delete');
+  const [includePublished, setIncludePublished] = useState(false);
+  // Cleanable styles the user left out
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [confirming, setConfirming] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [importError, setImportError] = useState<string | undefined>();
+  const [appliedCount, setAppliedCount] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const replacementState = useReplacementState();
+  const isReplacing = replacementState.isReplacing;
+  const isComplete = replacementState.replacementState === 'complete';
+  const isReplacingOrComplete = isReplacing || isComplete;
+  const backup = replacementState.styleBackup;
+
+  const preview = useStyleCleanupPreview();
+  const { requestPreview, clear: clearPreview } = preview;
+
+  const unused = useMemo(() => findUnusedLocalStyles(styles), [styles]);
+  const blockers = new Map(
+    unused.map((style) => [
+      style.id,
+      getStyleCleanupBlocker(style, preview.previews.get(style.id), action, includePublished),
+    ])
+  );
+  const cleanable = unused.filter((style) => blockers.get(style.id) === null);
+  const selected = cleanable.filter((style) => !excluded.has(style.id));
+  const publishedCount = unused.filter(
+    (style) => (preview.previews.get(style.id)?.publishStatus ?? 'UNPUBLISHED') !== 'UNPUBLISHED'
+  ).length;
+
+  // The audit may not have scanned every page, so check the whole document
+  useEffect(() => {
+    if (!isOpen) return;
+    requestPreview(unused.map((style) => style.id));
+  }, [isOpen, unused, requestPreview]);
+
+  // Keep a copy of the deleted styles before anything else can happen
+  useEffect(() => {
+    if (!isOpen || !backup || backup.styles.length === 0) return;
+    const file = generateStyleBackupJSON(backup, documentName);
+    downloadFile(file.content, file.filename, 'application/json');
+  }, [isOpen, backup, documentName]);
+
+  const toggle = (styleId: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(styleId)) next.delete(styleId);
+      else next.add(styleId);
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    // Clears the error of a previous attempt
+    replacementState.reset();
+    setConfirming(false);
+    setRestoring(false);
+    setAppliedCount(selected.length);
+    onCleanup(
+      selected.map((style) => style.id),
+      action,
+      includePublished
+    );
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const restored = parseStyleBackup(await file.text());
+      replacementState.reset();
+      setImportError(undefined);
+      setRestoring(true);
+      setAppliedCount(restored.styles.length);
+      onRestore(restored);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDownloadBackup = () => {
+    if (!backup) return;
+    const file = generateStyleBackupJSON(backup, documentName);
+    downloadFile(file.content, file.filename, 'application/json');
+  };
+
+  const handleClose = () => {
+    // If replacement is in progress, send cancel message
+    if (isReplacing) {
+      parent.postMessage({ pluginMessage: { type: 'CANCEL_REPLACEMENT' } }, '*');
+    }
+
+    replacementState.reset();
+    clearPreview();
+    setExcluded(new Set());
+    setConfirming(false);
+    setRestoring(false);
+    setImportError(undefined);
+    setAppliedCount(0);
+    onClose();
+  };
+
+  const renderRow = (style: TextStyle) => {
+    const blocker = blockers.get(style.id);
+    const cleanable = blocker === null;
+    const checked = cleanable && !excluded.has(style.id);
+    const published =
+      (preview.previews.get(style.id)?.publishStatus ?? 'UNPUBLISHED') !== 'UNPUBLISHED';
+
+    return (
+      <label
+        key={style.id}
+        className="flex items-start gap-3 px-4 py-2 border-b border-figma-border text-xs"
+        style={{ opacity: cleanable ? 1 : 0.6, cursor: cleanable ? 'pointer' : 'default' }}
+      >
+        <input
+          type="checkbox"
+          checked={checked}
+          disabled={!cleanable}
+          onChange={() => toggle(style.id)}
+          style={{ marginTop: '2px' }}
+        />
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-figma-text truncate" title={style.name}>
+            {style.name}
+          </div>
+          <div className="text-figma-text-tertiary">
+            {cleanable
+              ? published
+                ? 'Not applied in this file · published'
+                : 'Not applied anywhere in this file'
+              : `Kept: ${blocker}`}
+          </div>
+        </div>
+        <span className="font-mono text-figma-text-secondary truncate" style={{ maxWidth: '40%' }}>
+          {style.fontFamily} {style.fontSize}
+        </span>
+      </label>
+    );
+  };
+
+  return (
+    <ReplacementPanel
+      isOpen={isOpen}
+      title="Clean Up Styles"
+      description={
+        isComplete
+          ? restoring
+            ? 'Backup restored!'
+            : 'Style cleanup complete!'
+          : isReplacing
+            ? 'Cleaning up styles...'
+            : preview.isLoading
+              ? 'Checking usage across the document...'
+              : `${unused.length} unused local text styles · ${cleanable.length} can be ${action === 'delete' ? 'deleted' : 'renamed'}`
+      }
+      error={replacementState.error ?? importError ?? preview.error ?? undefined}
+      disableReplace={selected.length === 0 || preview.isLoading || isReplacingOrComplete}
+      onClose={handleClose}
+      onReplace={() => setConfirming(selected.length > 0)}
+      cancelLabel={isComplete ? 'Close' : 'Cancel'}
+      replaceLabel={
+        isReplacing
+          ? 'Cleaning up...'
+          : `${action === 'delete' ? 'Delete' : 'Rename'} ${selected.length} styles`
+      }
+    >
+      {isReplacingOrComplete ? (
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            height: '100%',
+            overflow: 'auto',
+            padding: '48px 32px',
+          }}
+        >
+          <ProgressIndicator
+            progress={replacementState.progress}
+            current={replacementState.layersProcessed}
+            total={appliedCount}
+            message={
+              replacementState.replacementState === 'validating'
+                ? 'Checking usage...'
+                : replacementState.replacementState === 'creating_checkpoint'
+                  ? 'Creating version checkpoint...'
+                  : replacementState.replacementState === 'processing'
+                    ? 'Updating styles...'
+                    : isComplete
+                      ? 'Complete!'
+                      : undefined
+            }
+            state={replacementState.replacementState}
+          />
+
+          {isComplete && replacementState.result && (
+            <div
+              style={{
+                marginTop: '32px',
+                padding: '24px',
+                backgroundColor: 'var(--figma-color-bg-secondary)',
+                borderRadius: '8px',
+                width: '100%',
+                maxWidth: '500px',
+                fontSize: '12px',
+                color: 'var(--figma-color-text-secondary)',
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '8px',
+              }}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span>
+                  {restoring ? 'Styles restored:' : backup ? 'Styles deleted:' : 'Styles renamed:'}
+                </span>
+                <span style={{ fontWeight: 500, color: 'var(--figma-color-text)' }}>
+                  {replacementState.result.layersUpdated}
+                </span>
+              </div>
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span>Styles failed:</span>
+                <span
+                  style={{
+                    fontWeight: 500,
+                    color:
+                      replacementState.result.layersFailed > 0
+                        ? 'var(--figma-color-text-danger)'
+                        : 'var(--figma-color-text)',
+                  }}
+                >
+                  {replacementState.result.layersFailed}
+                </span>
+              </div>
+              {replacementState.result.failedLayers.map((failed) => (
+                <div key={failed.layerId} style={{ fontSize: '11px' }}>
+                  {failed.layerName}: {failed.reason}
+                </div>
+              ))}
+              {replacementState.result.checkpointTitle && (
+                <div
+                  style={{
+                    marginTop: '8px',
+                    paddingTop: '8px',
+                    borderTop: '1px solid var(--figma-color-border)',
+                    fontSize: '11px',
+                  }}
+                >
+                  <span>Version checkpoint: </span>
+                  <span style={{ fontWeight: 500 }}>{replacementState.result.checkpointTitle}</span>
+                </div>
+              )}
+              {backup && backup.styles.length > 0 && (
+                <button
+                  onClick={handleDownloadBackup}
+                  className="self-start px-2 py-1 text-xs rounded border border-figma-border text-figma-text hover:bg-figma-bg transition-colors"
+                >
+                  Download backup again
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+          {/* Action + restore */}
+          <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-figma-border text-xs text-figma-text-secondary flex-shrink-0">
+            <label className="flex items-center gap-1">
+              Action
+              <select
+                value={action}
+                onChange={(e) => setAction(e.target.value as StyleCleanupAction)}
+                className="px-1 py-0.5 text-xs rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+              >
+                {(Object.keys(ACTION_LABELS) as StyleCleanupAction[]).map((value) => (
+                  <option key={value} value={value}>
+                    {ACTION_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {action === 'delete' && publishedCount > 0 && (
+              <label className="flex items-center gap-1" style={{ cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={includePublished}
+                  onChange={(e) => setIncludePublished(e.target.checked)}
+                />
+                Also delete {publishedCount} published
+              </label>
+            )}
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="ml-auto px-2 py-1 text-xs rounded border border-figma-border text-figma-text hover:bg-figma-bg-secondary transition-colors"
+            >
+              Restore backup…
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              style={{ display: 'none' }}
+            />
+          </div>
+          <div className="px-4 py-2 border-b border-figma-border text-xs text-figma-text-tertiary flex-shrink-0">
+            Other files cannot be searched; published styles may still be applied there.
+            {action === 'delete'
+              ? ' A backup JSON of the deleted styles downloads when the cleanup completes.'
+              : ' Renamed styles keep their key, so library consumers stay linked.'}
+          </div>
+
+          {/* Unused styles */}
+          <div style={{ flex: 1, overflow: 'auto', minHeight: 0 }}>
+            {unused.length === 0 ? (
+              <div
+                style={{
+                  padding: '48px 16px',
+                  textAlign: 'center',
+                  fontSize: '12px',
+                  color: 'var(--figma-color-text-secondary)',
+                }}
+              >
+                Every local text style is applied to an audited layer.
+              </div>
+            ) : (
+              unused.map(renderRow)
+            )}
+          </div>
+
+          <ConfirmationDialog
+            isOpen={confirming}
+            title={action === 'delete' ? 'Delete Styles' : 'Deprecate Styles'}
+            message={
+              action === 'delete'
+                ? `Delete ${selected.length} unused text style${selected.length !== 1 ? 's' : ''}?\n\nThis will create a version checkpoint and download a backup to re-create them from.`
+                : `Rename ${selected.length} unused text style${selected.length !== 1 ? 's' : ''} with the "${DEPRECATED_STYLE_PREFIX}" prefix?\n\nThis will create a version checkpoint.`
+            }
+            confirmLabel={action === 'delete' ? 'Delete' : 'Rename'}
+            cancelLabel="Cancel"
+            variant={action === 'delete' ? 'danger' : 'warning'}
+            onConfirm={handleConfirm}
+            onCancel={() => setConfirming(false)}
+          />
+        </div>
+      )}
+    </ReplacementPanel>
+  );
+}
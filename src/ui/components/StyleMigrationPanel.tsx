@@ -0,0 +1,338 @@
+import { useState, useMemo, useEffect, useRef, type ChangeEvent } from 'react';
+import ReplacementPanel from './ReplacementPanel';
+import StyleMigrationProgress from './StyleMigrationProgress';
+import { useReplacementState } from '../hooks/useReplacementState';
+import {
+  getLayerIdsForStyle,
+  parseStyleMappingTable,
+  proposeStyleMappings,
+  resolveStyleMappings,
+  type ProposedStyleMapping,
+} from '../utils/styleMigration';
+import type { StyleMapping, TextLayer, TextStyle } from '@/shared/types';
+
+export interface StyleMigrationPanelProps {
+  /** Whether the panel is open */
+  isOpen: boolean;
+  /** Styles found by the audit (sources and targets are picked from these) */
+  styles: TextStyle[];
+  /** All text layers (used to find the layers each source style is applied to) */
+  allLayers: TextLayer[];
+  /** Callback when panel should close */
+  onClose: () => void;
+  /** Callback when the user confirms the mapping table */
+  onMigrate: (mappings: Array<StyleMapping & { affectedLayerIds: string[] }>) => void;
+  /** Optional error message to display at top of panel */
+  error?: string;
+}
+
+const MATCH_LABELS: Record<ProposedStyleMapping['matchedBy'], string> = {
+  name: 'Same name',
+  path: 'Same path',
+  properties: 'Similar properties',
+  imported: 'Imported',
+  manual: 'Manual',
+};
+
+/**
+ * Style Migration Panel Component
+ *
+ * Slide-over for migrating many styles at once, e.g. from library v1 to v2.
+ * Each used style of the source library gets a row with a target picker;
+ * targets can be auto-proposed from matching names and hierarchy paths or
+ * imported from a CSV/JSON mapping table. All pairs run under a single
+ * version checkpoint.
+ *
+ * Features:
+ * - Source / target library pickers with auto-propose
+ * - CSV or JSON mapping table import
+ * - Aggregated progress and a per-pair summary
+ */
+export default function StyleMigrationPanel({
+  isOpen,
+  styles,
+  allLayers,
+  onClose,
+  onMigrate,
+  error,
+}: StyleMigrationPanelProps) {
+  const libraries = useMemo(
+    () => Array.from(new Set(styles.map((style) => style.libraryName))).sort(),
+    [styles]
+  );
+  const [sourceLibrary, setSourceLibrary] = useState('');
+  const [targetLibrary, setTargetLibrary] = useState('');
+  const [mappings, setMappings] = useState<Map<string, ProposedStyleMapping>>(new Map());
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [appliedLayerCount, setAppliedLayerCount] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const replacementState = useReplacementState();
+  const isReplacing = replacementState.isReplacing;
+  const isComplete = replacementState.replacementState === 'complete';
+  const isReplacingOrComplete = isReplacing || isComplete;
+
+  // Default to migrating from the most used library to another one
+  useEffect(() => {
+    if (!isOpen || sourceLibrary) return;
+    const used = [...styles].sort((a, b) => b.usageCount - a.usageCount)[0]?.libraryName ?? '';
+    setSourceLibrary(used);
+    setTargetLibrary(libraries.find((library) => library !== used) ?? used);
+  }, [isOpen, styles, libraries, sourceLibrary]);
+
+  const stylesById = useMemo(() => new Map(styles.map((style) => [style.id, style])), [styles]);
+
+  const layerIdsByStyle = useMemo(() => {
+    const map = new Map<string, string[]>();
+    for (const style of styles) {
+      map.set(style.id, getLayerIdsForStyle(allLayers, style.id));
+    }
+    return map;
+  }, [styles, allLayers]);
+
+  // Used styles of the source library, plus any imported sources from elsewhere
+  const sourceStyles = useMemo(
+    () =>
+      styles.filter(
+        (style) =>
+          (layerIdsByStyle.get(style.id)?.length ?? 0) > 0 &&
+          (style.libraryName === sourceLibrary || mappings.has(style.id))
+      ),
+    [styles, layerIdsByStyle, sourceLibrary, mappings]
+  );
+
+  const targetStyles = useMemo(
+    () => styles.filter((style) => style.libraryName === targetLibrary),
+    [styles, targetLibrary]
+  );
+
+  const activeMappings = useMemo(
+    () =>
+      sourceStyles
+        .map((style) => mappings.get(style.id))
+        .filter((mapping): mapping is ProposedStyleMapping => mapping !== undefined),
+    [sourceStyles, mappings]
+  );
+
+  const layerCount = activeMappings.reduce(
+    (sum, mapping) => sum + (layerIdsByStyle.get(mapping.sourceStyleId)?.length ?? 0),
+    0
+  );
+
+  const mergeMappings = (next: ProposedStyleMapping[]) => {
+    setMappings((prev) => {
+      const merged = new Map(prev);
+      next.forEach((mapping) => merged.set(mapping.sourceStyleId, mapping));
+      return merged;
+    });
+  };
+
+  const setTarget = (sourceStyleId: string, targetStyleId: string) => {
+    setMappings((prev) => {
+      const next = new Map(prev);
+      if (targetStyleId) {
+        next.set(sourceStyleId, { sourceStyleId, targetStyleId, matchedBy: 'manual' });
+      } else {
+        next.delete(sourceStyleId);
+      }
+      return next;
+    });
+  };
+
+  const handleAutoPropose = () => {
+    mergeMappings(proposeStyleMappings(styles, sourceLibrary, targetLibrary));
+    setImportErrors([]);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const rows = parseStyleMappingTable(await file.text());
+      const resolved = resolveStyleMappings(rows, styles, sourceLibrary, targetLibrary);
+      mergeMappings(resolved.mappings);
+      setImportErrors(resolved.errors);
+    } catch (err) {
+      setImportErrors([err instanceof Error ? err.message : String(err)]);
+    }
+  };
+
+  const handleMigrate = () => {
+    if (activeMappings.length === 0) return;
+    setAppliedLayerCount(layerCount);
+    onMigrate(
+      activeMappings.map(({ sourceStyleId, targetStyleId }) => ({
+        sourceStyleId,
+        targetStyleId,
+        affectedLayerIds: layerIdsByStyle.get(sourceStyleId) ?? [],
+      }))
+    );
+  };
+
+  const handleClose = () => {
+    // If replacement is in progress, send cancel message
+    if (isReplacing) {
+      parent.postMessage({ pluginMessage: { type: 'CANCEL_REPLACEMENT' } }, '*');
+    }
+
+    replacementState.reset();
+    setMappings(new Map());
+    setImportErrors([]);
+    setSourceLibrary('');
+    setTargetLibrary('');
+    setAppliedLayerCount(0);
+    onClose();
+  };
+
+  return (
+    <ReplacementPanel
+      isOpen={isOpen}
+      title="Migrate Styles"
+      description={
+        isComplete
+          ? 'Style migration complete!'
+          : isReplacing
+            ? 'Migrating styles...'
+            : `${activeMappings.length} of ${sourceStyles.length} styles mapped · ${layerCount} layers`
+      }
+      error={error ?? (importErrors.length > 0 ? importErrors.join('; ') : undefined)}
+      disableReplace={activeMappings.length === 0 || isReplacingOrComplete}
+      onClose={handleClose}
+      onReplace={handleMigrate}
+      cancelLabel={isComplete ? 'Close' : 'Cancel'}
+      replaceLabel={isReplacing ? 'Migrating...' : `Migrate ${activeMappings.length} styles`}
+    >
+      {isReplacingOrComplete ? (
+        <StyleMigrationProgress styles={styles} totalLayers={appliedLayerCount} />
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+          {/* Library pickers + table actions */}
+          <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-figma-border text-xs text-figma-text-secondary flex-shrink-0">
+            <label className="flex items-center gap-1">
+              From
+              <LibrarySelect
+                libraries={libraries}
+                value={sourceLibrary}
+                onChange={setSourceLibrary}
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              To
+              <LibrarySelect
+                libraries={libraries}
+                value={targetLibrary}
+                onChange={setTargetLibrary}
+              />
+            </label>
+            <div className="flex items-center gap-2 ml-auto">
+              <button
+                onClick={handleAutoPropose}
+                disabled={!sourceLibrary || !targetLibrary}
+                className="px-2 py-1 text-xs rounded border border-figma-border text-figma-text hover:bg-figma-bg-secondary transition-colors disabled:opacity-50"
+              >
+                Auto-propose
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-2 py-1 text-xs rounded border border-figma-border text-figma-text hover:bg-figma-bg-secondary transition-colors"
+              >
+                Import CSV/JSON…
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="text/csv,.csv,application/json,.json"
+                onChange={handleImport}
+                style={{ display: 'none' }}
+              />
+            </div>
+          </div>
+
+          {/* Mapping rows */}
+          <div style={{ flex: 1, overflow: 'auto', minHeight: 0 }}>
+            {sourceStyles.length === 0 ? (
+              <div
+                style={{
+                  padding: '48px 16px',
+                  textAlign: 'center',
+                  fontSize: '12px',
+                  color: 'var(--figma-color-text-secondary)',
+                }}
+              >
+                No styles from {sourceLibrary || 'this library'} are applied to layers.
+              </div>
+            ) : (
+              sourceStyles.map((source) => {
+                const mapping = mappings.get(source.id);
+                const target = mapping ? stylesById.get(mapping.targetStyleId) : undefined;
+                const options =
+                  target && target.libraryName !== targetLibrary
+                    ? [target, ...targetStyles]
+                    : targetStyles;
+                return (
+                  <div
+                    key={source.id}
+                    className="flex items-center gap-3 px-4 py-2 border-b border-figma-border text-xs"
+                    style={{ opacity: mapping ? 1 : 0.6 }}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-figma-text truncate" title={source.name}>
+                        {source.name}
+                      </div>
+                      <div className="text-figma-text-tertiary">
+                        {source.libraryName} · {layerIdsByStyle.get(source.id)?.length ?? 0} layers
+                        {mapping && ` · ${MATCH_LABELS[mapping.matchedBy]}`}
+                      </div>
+                    </div>
+                    <span className="text-figma-text-secondary">→</span>
+                    <select
+                      value={mapping?.targetStyleId ?? ''}
+                      onChange={(e) => setTarget(source.id, e.target.value)}
+                      aria-label={`Target for ${source.name}`}
+                      className="w-48 px-1 py-0.5 text-xs rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+                    >
+                      <option value="">Don't migrate</option>
+                      {options
+                        .filter((style) => style.id !== source.id)
+                        .map((style) => (
+                          <option key={style.id} value={style.id}>
+                            {style.name}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+    </ReplacementPanel>
+  );
+}
+
+function LibrarySelect({
+  libraries,
+  value,
+  onChange,
+}: {
+  libraries: string[];
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-1 py-0.5 text-xs rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+    >
+      {libraries.map((library) => (
+        <option key={library} value={library}>
+          {library}
+        </option>
+      ))}
+    </select>
+  );
+}
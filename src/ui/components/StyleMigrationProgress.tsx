@@ -0,0 +1,139 @@
+import { useMemo } from 'react';
+import ProgressIndicator from './ProgressIndicator';
+import { useReplacementState } from '../hooks/useReplacementState';
+import type { TextStyle } from '@/shared/types';
+
+export interface StyleMigrationProgressProps {
+  /** Styles found by the audit (used to name each migrated pair) */
+  styles: TextStyle[];
+  /** Number of layers the migration was started with */
+  totalLayers: number;
+}
+
+/**
+ * Style Migration Progress Component
+ *
+ * Aggregated progress of a running style migration, followed by a per-pair
+ * summary once it completes. Shared by the migration and library mapping panels.
+ */
+export default function StyleMigrationProgress({
+  styles,
+  totalLayers,
+}: StyleMigrationProgressProps) {
+  const replacementState = useReplacementState();
+  const isComplete = replacementState.replacementState === 'complete';
+
+  const stylesById = useMemo(() => new Map(styles.map((style) => [style.id, style])), [styles]);
+  const styleName = (styleId: string) => stylesById.get(styleId)?.name ?? styleId;
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        height: '100%',
+        overflow: 'auto',
+        padding: '48px 32px',
+      }}
+    >
+      <ProgressIndicator
+        progress={replacementState.progress}
+        current={replacementState.layersProcessed}
+        total={totalLayers}
+        message={
+          replacementState.replacementState === 'validating'
+            ? 'Validating mapping table...'
+            : replacementState.replacementState === 'creating_checkpoint'
+              ? 'Creating version checkpoint...'
+              : replacementState.replacementState === 'processing'
+                ? 'Migrating styles...'
+                : isComplete
+                  ? 'Complete!'
+                  : undefined
+        }
+        state={replacementState.replacementState}
+      />
+
+      {isComplete && replacementState.result && (
+        <div
+          style={{
+            marginTop: '32px',
+            padding: '24px',
+            backgroundColor: 'var(--figma-color-bg-secondary)',
+            borderRadius: '8px',
+            width: '100%',
+            maxWidth: '500px',
+            fontSize: '12px',
+            color: 'var(--figma-color-text-secondary)',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '8px',
+          }}
+        >
+          {(replacementState.migrationResults ?? []).map(
+            ({ sourceStyleId, targetStyleId, result }) => (
+              <div
+                key={sourceStyleId}
+                style={{ display: 'flex', justifyContent: 'space-between', gap: '12px' }}
+              >
+                <span className="truncate">
+                  {styleName(sourceStyleId)} → {styleName(targetStyleId)}
+                </span>
+                <span style={{ flexShrink: 0, fontWeight: 500, color: 'var(--figma-color-text)' }}>
+                  {result.layersUpdated}
+                  {result.layersFailed > 0 && (
+                    <span style={{ color: 'var(--figma-color-text-danger)' }}>
+                      {' '}
+                      · {result.layersFailed} failed
+                    </span>
+                  )}
+                </span>
+              </div>
+            )
+          )}
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              paddingTop: '8px',
+              borderTop: '1px solid var(--figma-color-border)',
+            }}
+          >
+            <span>Layers updated:</span>
+            <span style={{ fontWeight: 500, color: 'var(--figma-color-text)' }}>
+              {replacementState.result.layersUpdated}
+            </span>
+          </div>
+          <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+            <span>Layers failed:</span>
+            <span
+              style={{
+                fontWeight: 500,
+                color:
+                  replacementState.result.layersFailed > 0
+                    ? 'var(--figma-color-text-danger)'
+                    : 'var(--figma-color-text)',
+              }}
+            >
+              {replacementState.result.layersFailed}
+            </span>
+          </div>
+          {replacementState.result.checkpointTitle && (
+            <div
+              style={{
+                marginTop: '8px',
+                paddingTop: '8px',
+                borderTop: '1px solid var(--figma-color-border)',
+                fontSize: '11px',
+              }}
+            >
+              <span>Version checkpoint: </span>
+              <span style={{ fontWeight: 500 }}>{replacementState.result.checkpointTitle}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
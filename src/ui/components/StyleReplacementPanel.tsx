@@ -1,9 +1,17 @@
 import { useState } from 'react';
 import ReplacementPanel from './ReplacementPanel';
-import { StyleReplacementPreview } from './ReplacementPreview';
+import { DryRunSummary, StyleReplacementPreview } from './ReplacementPreview';
 import StyleTreeView from './StyleTreeView';
 import FilterToolbar from './FilterToolbar';
-import type { TextStyle, LibrarySource, TextLayer } from '@/shared/types';
+import ReplacementScopeControls from './ReplacementScopeControls';
+import { useReplacementDryRun } from '../hooks/useReplacementDryRun';
+import type {
+  TextStyle,
+  LibrarySource,
+  TextLayer,
+  ReplacementScope,
+  StyleReplacementLayerOptions,
+} from '@/shared/types';
 
 export interface StyleReplacementPanelProps {
   /** Whether the panel is open */
@@ -16,10 +24,17 @@ export interface StyleReplacementPanelProps {
   libraries: LibrarySource[];
   /** All text layers (for StyleTreeView compatibility) */
   allLayers: TextLayer[];
+  /** Layer IDs affected by this replacement (checked by the dry run) */
+  affectedLayerIds?: string[];
   /** Callback when panel should close */
   onClose: () => void;
   /** Callback when replacement is confirmed */
-  onReplace: (sourceStyle: TextStyle, targetStyle: TextStyle) => void;
+  onReplace: (
+    sourceStyle: TextStyle,
+    targetStyle: TextStyle,
+    layerOptions: StyleReplacementLayerOptions,
+    scope: ReplacementScope
+  ) => void;
   /** Optional error message to display at top of panel */
   error?: string;
   /** IDs of styles that have been replaced (for green circle indicator) */
@@ -34,6 +49,9 @@ export interface StyleReplacementPanelProps {
  *
  * Features:
  * - Source vs Target style preview
+ * - Options to keep local overrides and to skip text inside component instances
+ * - Scope limiting the replacement to the selection, pages or components
+ * - Dry run reporting layers that would fail and properties that would change
  * - StyleTreeView with library grouping and filtering
  * - Disabled Replace button until target selected
  * - Error banner support
@@ -44,6 +62,7 @@ export default function StyleReplacementPanel({
   availableStyles,
   libraries,
   allLayers,
+  affectedLayerIds = [],
   onClose,
   onReplace,
   error,
@@ -54,17 +73,54 @@ export default function StyleReplacementPanel({
   const [sourceFilter, setSourceFilter] = useState<'all' | 'local' | 'library'>('all');
   const [usageFilter, setUsageFilter] = useState<'all' | 'used' | 'unused'>('all');
   const [groupByLibrary, setGroupByLibrary] = useState(true);
+  const [layerOptions, setLayerOptions] = useState<Required<StyleReplacementLayerOptions>>({
+    preserveOverrides: true,
+    skipComponentInstances: false,
+  });
+  const [scope, setScope] = useState<ReplacementScope>({});
+  const dryRun = useReplacementDryRun();
+
+  // A report only describes the options and scope it was run with
+  const handleLayerOptionChange = (option: keyof StyleReplacementLayerOptions, value: boolean) => {
+    setLayerOptions((prev) => ({ ...prev, [option]: value }));
+    dryRun.clear();
+  };
+
+  const handleScopeChange = (next: ReplacementScope) => {
+    setScope(next);
+    dryRun.clear();
+  };
+
+  // A report only describes the target it was run for
+  const handleTargetSelect = (style: TextStyle) => {
+    setSelectedTargetStyle(style);
+    dryRun.clear();
+  };
+
+  const handleDryRun = () => {
+    if (!selectedTargetStyle) return;
+    dryRun.runStyleDryRun(
+      sourceStyle.id,
+      selectedTargetStyle.id,
+      affectedLayerIds,
+      layerOptions,
+      scope
+    );
+  };
 
   // Handle replacement
   const handleReplace = () => {
     if (!selectedTargetStyle) return;
-    onReplace(sourceStyle, selectedTargetStyle);
+    onReplace(sourceStyle, selectedTargetStyle, layerOptions, scope);
     setSelectedTargetStyle(null); // Reset selection
+    dryRun.clear();
   };
 
   // Handle close
   const handleClose = () => {
     setSelectedTargetStyle(null); // Reset selection
+    setScope({});
+    dryRun.clear();
     setSearchQuery(''); // Reset filters
     setSourceFilter('all');
     setUsageFilter('all');
@@ -78,10 +134,46 @@ export default function StyleReplacementPanel({
       description="Select a target style from the list below"
       error={error}
       previewSection={
-        <StyleReplacementPreview
-          source={sourceStyle}
-          target={selectedTargetStyle}
-        />
+        <>
+          <StyleReplacementPreview source={sourceStyle} target={selectedTargetStyle} />
+          <div
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '6px',
+              marginTop: '16px',
+              fontSize: '11px',
+              color: 'var(--figma-color-text)',
+            }}
+          >
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <input
+                type="checkbox"
+                checked={layerOptions.preserveOverrides}
+                onChange={(e) => handleLayerOptionChange('preserveOverrides', e.target.checked)}
+              />
+              Keep local overrides (size, font, line height, letter spacing)
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <input
+                type="checkbox"
+                checked={layerOptions.skipComponentInstances}
+                onChange={(e) =>
+                  handleLayerOptionChange('skipComponentInstances', e.target.checked)
+                }
+              />
+              Skip text inside component instances
+            </label>
+          </div>
+          <ReplacementScopeControls scope={scope} onChange={handleScopeChange} />
+          <DryRunSummary
+            report={dryRun.report}
+            error={dryRun.error}
+            isRunning={dryRun.isRunning}
+            disabled={!selectedTargetStyle || affectedLayerIds.length === 0}
+            onRun={handleDryRun}
+          />
+        </>
       }
       disableReplace={!selectedTargetStyle}
       onClose={handleClose}
@@ -109,7 +201,7 @@ export default function StyleReplacementPanel({
             styles={availableStyles}
             libraries={libraries}
             unstyledLayers={[]} // Not showing unstyled layers in replacement panel
-            onStyleSelect={setSelectedTargetStyle}
+            onStyleSelect={handleTargetSelect}
             selectedStyleId={selectedTargetStyle?.id}
             disabledStyleId={sourceStyle.id} // Prevent selecting the same style
             allLayers={allLayers}
@@ -0,0 +1,348 @@
+import { useState, useMemo, useEffect, useRef } from 'react';
+import ReplacementPanel from './ReplacementPanel';
+import ProgressIndicator from './ProgressIndicator';
+import { useReplacementState } from '../hooks/useReplacementState';
+import {
+  buildSuggestedAssignments,
+  DEFAULT_STYLE_MATCH_OPTIONS,
+  type SuggestedAssignment,
+} from '../utils/styleMatcher';
+import type { DifferingProperty, FailedLayer, TextLayer } from '@/shared/types';
+
+export interface SuggestedStylesPanelProps {
+  /** Whether the panel is open */
+  isOpen: boolean;
+  /** All text layers (unstyled layers with suggestions are picked from these) */
+  allLayers: TextLayer[];
+  /** Similarity the suggestions were attached with; the slider cannot go lower */
+  minThreshold?: number;
+  /** Callback when panel should close */
+  onClose: () => void;
+  /** Callback when the user confirms the included rows */
+  onApply: (assignments: SuggestedAssignment[]) => void;
+  /** Callback once the bulk apply finishes, with the layers that could not be styled */
+  onComplete?: (assignments: SuggestedAssignment[], failedLayers: FailedLayer[]) => void;
+  /** Optional error message to display at top of panel */
+  error?: string;
+}
+
+const PROPERTY_LABELS: Record<DifferingProperty['property'], string> = {
+  fontFamily: 'Font Family',
+  fontSize: 'Font Size',
+  fontWeight: 'Font Weight',
+  lineHeight: 'Line Height',
+  letterSpacing: 'Letter Spacing',
+  color: 'Color',
+};
+
+const formatSimilarity = (score: number): string => `${Math.round(score * 100)}%`;
+
+/**
+ * Suggested Styles Panel Component
+ *
+ * Slide-over preview for bulk-applying the best style suggestion to every
+ * unstyled layer above a similarity threshold. Each row shows the layer, the
+ * style it will receive and the properties that will visibly change; rows can
+ * be excluded individually before applying.
+ *
+ * Features:
+ * - Adjustable similarity threshold
+ * - Per-row and select-all checkboxes
+ * - Progress and summary while the replacement engine runs
+ */
+export default function SuggestedStylesPanel({
+  isOpen,
+  allLayers,
+  minThreshold = DEFAULT_STYLE_MATCH_OPTIONS.threshold,
+  onClose,
+  onApply,
+  onComplete,
+  error,
+}: SuggestedStylesPanelProps) {
+  const [threshold, setThreshold] = useState(minThreshold);
+  const [excludedLayerIds, setExcludedLayerIds] = useState<Set<string>>(new Set());
+  const [appliedAssignments, setAppliedAssignments] = useState<SuggestedAssignment[]>([]);
+  const hasReportedRef = useRef(false);
+
+  const replacementState = useReplacementState();
+  const isReplacing = replacementState.isReplacing;
+  const isComplete = replacementState.replacementState === 'complete';
+  const isReplacingOrComplete = isReplacing || isComplete;
+
+  // Follow the governance config when it changes
+  useEffect(() => {
+    setThreshold(minThreshold);
+  }, [minThreshold]);
+
+  const candidates = useMemo(
+    () => buildSuggestedAssignments(allLayers, threshold),
+    [allLayers, threshold]
+  );
+
+  const includedAssignments = useMemo(
+    () => candidates.filter(({ layer }) => !excludedLayerIds.has(layer.id)),
+    [candidates, excludedLayerIds]
+  );
+
+  // Report the outcome once so the caller can update audit results
+  useEffect(() => {
+    if (
+      isComplete &&
+      replacementState.result &&
+      appliedAssignments.length > 0 &&
+      !hasReportedRef.current
+    ) {
+      hasReportedRef.current = true;
+      onComplete?.(appliedAssignments, replacementState.result.failedLayers);
+    }
+  }, [isComplete, replacementState.result, appliedAssignments]);
+
+  const toggleLayer = (layerId: string) => {
+    setExcludedLayerIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(layerId)) {
+        next.delete(layerId);
+      } else {
+        next.add(layerId);
+      }
+      return next;
+    });
+  };
+
+  const allIncluded = candidates.length > 0 && includedAssignments.length === candidates.length;
+
+  const toggleAll = () => {
+    setExcludedLayerIds(allIncluded ? new Set(candidates.map(({ layer }) => layer.id)) : new Set());
+  };
+
+  const handleApply = () => {
+    if (includedAssignments.length === 0) return;
+    hasReportedRef.current = false;
+    setAppliedAssignments(includedAssignments);
+    onApply(includedAssignments);
+  };
+
+  const handleClose = () => {
+    // If replacement is in progress, send cancel message
+    if (isReplacing) {
+      parent.postMessage({ pluginMessage: { type: 'CANCEL_REPLACEMENT' } }, '*');
+    }
+
+    replacementState.reset();
+    setExcludedLayerIds(new Set());
+    setAppliedAssignments([]);
+    setThreshold(minThreshold);
+    onClose();
+  };
+
+  return (
+    <ReplacementPanel
+      isOpen={isOpen}
+      title="Apply Suggested Styles"
+      description={
+        isComplete
+          ? 'Suggested styles applied!'
+          : isReplacing
+            ? 'Applying styles...'
+            : `${includedAssignments.length} of ${candidates.length} unstyled layers will be styled`
+      }
+      error={error}
+      disableReplace={includedAssignments.length === 0 || isReplacingOrComplete}
+      onClose={handleClose}
+      onReplace={handleApply}
+      cancelLabel={isComplete ? 'Close' : 'Cancel'}
+      replaceLabel={isReplacing ? 'Applying...' : `Apply to ${includedAssignments.length}`}
+    >
+      {isReplacingOrComplete ? (
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+            height: '100%',
+            padding: '48px 32px',
+          }}
+        >
+          <ProgressIndicator
+            progress={replacementState.progress}
+            current={replacementState.layersProcessed}
+            total={appliedAssignments.length}
+            message={
+              replacementState.replacementState === 'validating'
+                ? 'Validating styles...'
+                : replacementState.replacementState === 'creating_checkpoint'
+                  ? 'Creating version checkpoint...'
+                  : replacementState.replacementState === 'processing'
+                    ? 'Applying styles...'
+                    : isComplete
+                      ? 'Complete!'
+                      : undefined
+            }
+            state={replacementState.replacementState}
+          />
+
+          {isComplete && replacementState.result && (
+            <div
+              style={{
+                marginTop: '32px',
+                padding: '24px',
+                backgroundColor: 'var(--figma-color-bg-secondary)',
+                borderRadius: '8px',
+                width: '100%',
+                maxWidth: '500px',
+                fontSize: '12px',
+                color: 'var(--figma-color-text-secondary)',
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '8px',
+              }}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span>Layers styled:</span>
+                <span style={{ fontWeight: 500, color: 'var(--figma-color-text)' }}>
+                  {replacementState.result.layersUpdated}
+                </span>
+              </div>
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span>Layers failed:</span>
+                <span
+                  style={{
+                    fontWeight: 500,
+                    color:
+                      replacementState.result.layersFailed > 0
+                        ? 'var(--figma-color-text-danger)'
+                        : 'var(--figma-color-text)',
+                  }}
+                >
+                  {replacementState.result.layersFailed}
+                </span>
+              </div>
+              {replacementState.result.checkpointTitle && (
+                <div
+                  style={{
+                    marginTop: '8px',
+                    paddingTop: '8px',
+                    borderTop: '1px solid var(--figma-color-border)',
+                    fontSize: '11px',
+                  }}
+                >
+                  <span>Version checkpoint: </span>
+                  <span style={{ fontWeight: 500 }}>{replacementState.result.checkpointTitle}</span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+          {/* Threshold + select all */}
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 'var(--figma-space-md)',
+              padding: '8px 16px',
+              borderBottom: '1px solid var(--figma-color-border)',
+              fontSize: '12px',
+              color: 'var(--figma-color-text-secondary)',
+              flexShrink: 0,
+            }}
+          >
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={allIncluded}
+                disabled={candidates.length === 0}
+                onChange={toggleAll}
+                aria-label="Include all layers"
+              />
+              Select all
+            </label>
+            <label
+              style={{ display: 'flex', alignItems: 'center', gap: '8px', marginLeft: 'auto' }}
+            >
+              Minimum similarity
+              <input
+                type="range"
+                min={minThreshold}
+                max={1}
+                step={0.01}
+                value={threshold}
+                onChange={(e) => setThreshold(Number(e.target.value))}
+              />
+              <span style={{ width: '36px', fontWeight: 500, color: 'var(--figma-color-text)' }}>
+                {formatSimilarity(threshold)}
+              </span>
+            </label>
+          </div>
+
+          {/* Preview rows */}
+          <div style={{ flex: 1, overflow: 'auto', minHeight: 0 }}>
+            {candidates.length === 0 ? (
+              <div
+                style={{
+                  padding: '48px 16px',
+                  textAlign: 'center',
+                  fontSize: '12px',
+                  color: 'var(--figma-color-text-secondary)',
+                }}
+              >
+                No unstyled layers have a suggestion at or above {formatSimilarity(threshold)}.
+              </div>
+            ) : (
+              candidates.map(({ layer, suggestion }) => {
+                const included = !excludedLayerIds.has(layer.id);
+                return (
+                  <label
+                    key={layer.id}
+                    className="flex items-start gap-3 px-4 py-2 border-b border-figma-border cursor-pointer hover:bg-figma-bg-secondary"
+                    style={{ opacity: included ? 1 : 0.5 }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={included}
+                      onChange={() => toggleLayer(layer.id)}
+                      aria-label={`Include ${layer.name}`}
+                      className="mt-0.5"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between gap-2 text-xs">
+                        <span
+                          className="font-medium text-figma-text truncate"
+                          title={layer.pageName}
+                        >
+                          {layer.name}
+                        </span>
+                        <span className="flex-shrink-0 font-semibold text-figma-text-secondary">
+                          {formatSimilarity(suggestion.similarityScore)}
+                        </span>
+                      </div>
+                      <div className="text-xs text-figma-text-secondary truncate">
+                        → {suggestion.suggestedStyleName}
+                        <span className="text-figma-text-tertiary">
+                          {' '}
+                          · {suggestion.libraryName}
+                        </span>
+                      </div>
+                      <div className="mt-0.5 font-mono text-[10px] text-figma-text-secondary">
+                        {suggestion.differingProperties.length > 0
+                          ? suggestion.differingProperties
+                              .map(
+                                (diff) =>
+                                  `${PROPERTY_LABELS[diff.property]}: ${diff.textValue} → ${diff.styleValue}`
+                              )
+                              .join(' · ')
+                          : 'No visible change'}
+                      </div>
+                    </div>
+                  </label>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+    </ReplacementPanel>
+  );
+}
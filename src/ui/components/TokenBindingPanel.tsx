@@ -0,0 +1,264 @@
+import { useState, useMemo } from 'react';
+import ReplacementPanel from './ReplacementPanel';
+import ProgressIndicator from './ProgressIndicator';
+import { useReplacementState } from '../hooks/useReplacementState';
+import {
+  getGroupBindings,
+  groupTokenValueMatches,
+  PROPERTY_LABELS,
+  TOKEN_VALUE_PROPERTIES,
+  type TokenValueGroup,
+} from '../utils/tokenValueMatches';
+import type { DesignToken, TextLayer, TokenValueBinding } from '@/shared/types';
+
+export interface TokenBindingPanelProps {
+  /** Whether the panel is open */
+  isOpen: boolean;
+  /** Audited layers, with their token value matches */
+  layers: TextLayer[];
+  /** Tokens found by the audit */
+  tokens: DesignToken[];
+  /** Callback when panel should close */
+  onClose: () => void;
+  /** Callback when the user confirms the reviewed bindings */
+  onBind: (bindings: TokenValueBinding[]) => void;
+  /** Optional error message to display at top of panel */
+  error?: string;
+}
+
+/**
+ * Token Binding Panel Component
+ *
+ * Slide-over listing hard-coded values that already equal a token, grouped by
+ * property and value. Each group proposes the most specific, most used token
+ * and can be switched to another candidate or skipped. Binding leaves every
+ * layer looking the same; it only raises token adoption.
+ *
+ * Features:
+ * - One section per property, most common values first
+ * - Candidate tokens scoped to the property
+ * - Aggregated progress under a single checkpoint
+ */
+export default function TokenBindingPanel({
+  isOpen,
+  layers,
+  tokens,
+  onClose,
+  onBind,
+  error,
+}: TokenBindingPanelProps) {
+  // Tokens chosen by the user ('' = don't bind), overriding the proposed token
+  const [overrides, setOverrides] = useState<Map<string, string>>(new Map());
+  const [appliedLayerCount, setAppliedLayerCount] = useState(0);
+
+  const replacementState = useReplacementState();
+  const isReplacing = replacementState.isReplacing;
+  const isComplete = replacementState.replacementState === 'complete';
+  const isReplacingOrComplete = isReplacing || isComplete;
+
+  const groups = useMemo(() => groupTokenValueMatches(layers), [layers]);
+  const tokensById = useMemo(() => new Map(tokens.map((token) => [token.id, token])), [tokens]);
+
+  const getToken = (group: TokenValueGroup): string =>
+    overrides.get(group.key) ?? group.tokenIds[0] ?? '';
+
+  const bindings = groups.flatMap((group) => {
+    const tokenId = getToken(group);
+    return tokenId ? getGroupBindings(group, tokenId) : [];
+  });
+  const layerCount = new Set(bindings.map((binding) => binding.layerId)).size;
+
+  const setToken = (groupKey: string, tokenId: string) => {
+    setOverrides((prev) => new Map(prev).set(groupKey, tokenId));
+  };
+
+  const handleBind = () => {
+    if (bindings.length === 0) return;
+    setAppliedLayerCount(layerCount);
+    onBind(bindings);
+  };
+
+  const handleClose = () => {
+    // If replacement is in progress, send cancel message
+    if (isReplacing) {
+      parent.postMessage({ pluginMessage: { type: 'CANCEL_REPLACEMENT' } }, '*');
+    }
+
+    replacementState.reset();
+    setOverrides(new Map());
+    setAppliedLayerCount(0);
+    onClose();
+  };
+
+  const renderRow = (group: TokenValueGroup) => {
+    const tokenId = getToken(group);
+    const bindable = tokenId ? getGroupBindings(group, tokenId).length : 0;
+    const otherMode = tokenId ? group.layers.length - bindable : 0;
+
+    return (
+      <div
+        key={group.key}
+        className="flex items-start gap-3 px-4 py-2 border-b border-figma-border text-xs"
+        style={{ opacity: tokenId ? 1 : 0.6 }}
+      >
+        <div className="flex-1 min-w-0">
+          <div className="font-mono font-medium text-figma-text truncate" title={group.value}>
+            {group.value}
+          </div>
+          <div className="text-figma-text-tertiary">
+            {group.layers.length} layers
+            {otherMode > 0 && ` · ${otherMode} differ in their mode and stay unbound`}
+          </div>
+        </div>
+        <span className="text-figma-text-secondary">→</span>
+        <select
+          value={tokenId}
+          onChange={(e) => setToken(group.key, e.target.value)}
+          aria-label={`Token for ${PROPERTY_LABELS[group.property]} ${group.value}`}
+          className="w-48 px-1 py-0.5 text-xs rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+        >
+          <option value="">Don't bind</option>
+          {group.tokenIds.map((id) => (
+            <option key={id} value={id}>
+              {tokensById.get(id)?.name ?? id}
+            </option>
+          ))}
+        </select>
+      </div>
+    );
+  };
+
+  const renderSection = (property: TokenValueGroup['property']) => {
+    const rows = groups.filter((group) => group.property === property);
+    return (
+      rows.length > 0 && (
+        <section key={property}>
+          <h3 className="px-4 py-2 text-xs font-semibold text-figma-text bg-figma-bg-secondary border-b border-figma-border">
+            {PROPERTY_LABELS[property]} ({rows.length})
+          </h3>
+          {rows.map(renderRow)}
+        </section>
+      )
+    );
+  };
+
+  return (
+    <ReplacementPanel
+      isOpen={isOpen}
+      title="Bind Tokens"
+      description={
+        isComplete
+          ? 'Tokens bound!'
+          : isReplacing
+            ? 'Binding tokens...'
+            : `${groups.length} hard-coded values already match a token`
+      }
+      error={error}
+      disableReplace={bindings.length === 0 || isReplacingOrComplete}
+      onClose={handleClose}
+      onReplace={handleBind}
+      cancelLabel={isComplete ? 'Close' : 'Cancel'}
+      replaceLabel={isReplacing ? 'Binding...' : `Bind ${layerCount} layers`}
+    >
+      {isReplacingOrComplete ? (
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            height: '100%',
+            overflow: 'auto',
+            padding: '48px 32px',
+          }}
+        >
+          <ProgressIndicator
+            progress={replacementState.progress}
+            current={replacementState.layersProcessed}
+            total={appliedLayerCount}
+            message={
+              replacementState.replacementState === 'validating'
+                ? 'Checking tokens...'
+                : replacementState.replacementState === 'creating_checkpoint'
+                  ? 'Creating version checkpoint...'
+                  : replacementState.replacementState === 'processing'
+                    ? 'Binding tokens...'
+                    : isComplete
+                      ? 'Complete!'
+                      : undefined
+            }
+            state={replacementState.replacementState}
+          />
+
+          {isComplete && replacementState.result && (
+            <div
+              style={{
+                marginTop: '32px',
+                padding: '24px',
+                backgroundColor: 'var(--figma-color-bg-secondary)',
+                borderRadius: '8px',
+                width: '100%',
+                maxWidth: '500px',
+                fontSize: '12px',
+                color: 'var(--figma-color-text-secondary)',
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '8px',
+              }}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span>Layers updated:</span>
+                <span style={{ fontWeight: 500, color: 'var(--figma-color-text)' }}>
+                  {replacementState.result.layersUpdated}
+                </span>
+              </div>
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span>Layers failed:</span>
+                <span
+                  style={{
+                    fontWeight: 500,
+                    color:
+                      replacementState.result.layersFailed > 0
+                        ? 'var(--figma-color-text-danger)'
+                        : 'var(--figma-color-text)',
+                  }}
+                >
+                  {replacementState.result.layersFailed}
+                </span>
+              </div>
+              {replacementState.result.checkpointTitle && (
+                <div
+                  style={{
+                    marginTop: '8px',
+                    paddingTop: '8px',
+                    borderTop: '1px solid var(--figma-color-border)',
+                    fontSize: '11px',
+                  }}
+                >
+                  <span>Version checkpoint: </span>
+                  <span style={{ fontWeight: 500 }}>{replacementState.result.checkpointTitle}</span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div style={{ flex: 1, overflow: 'auto', height: '100%' }}>
+          {groups.length === 0 ? (
+            <div
+              style={{
+                padding: '48px 16px',
+                textAlign: 'center',
+                fontSize: '12px',
+                color: 'var(--figma-color-text-secondary)',
+              }}
+            >
+              No hard-coded values match a token.
+            </div>
+          ) : (
+            TOKEN_VALUE_PROPERTIES.map(renderSection)
+          )}
+        </div>
+      )}
+    </ReplacementPanel>
+  );
+}
@@ -0,0 +1,423 @@
+import { useState, useMemo, useEffect, useRef, type ChangeEvent } from 'react';
+import ReplacementPanel from './ReplacementPanel';
+import ProgressIndicator from './ProgressIndicator';
+import ConfirmationDialog from './ConfirmationDialog';
+import { useReplacementState } from '../hooks/useReplacementState';
+import { useTokenCleanupPreview } from '../hooks/useTokenCleanupPreview';
+import {
+  findUnusedLocalTokens,
+  generateTokenBackupJSON,
+  getTokenCleanupBlocker,
+  parseTokenBackup,
+  type UnusedToken,
+} from '../utils/tokenCleanup';
+import { getCollectionLabel } from '../utils/tokenLayering';
+import { downloadFile } from '../utils/exportUtils';
+import type {
+  DesignToken,
+  TextStyle,
+  TokenCleanupAction,
+  TokenCleanupBackup,
+} from '@/shared/types';
+
+export interface TokenCleanupPanelProps {
+  /** Whether the panel is open */
+  isOpen: boolean;
+  /** Tokens found by the audit */
+  tokens: DesignToken[];
+  /** Styles found by the audit (to find tokens a style binds) */
+  styles: TextStyle[];
+  /** Document name, used for the backup filename */
+  documentName: string;
+  /** Callback when panel should close */
+  onClose: () => void;
+  /** Callback when the user confirms removing the selected variables */
+  onCleanup: (tokenIds: string[], action: TokenCleanupAction, includePublished: boolean) => void;
+  /** Callback when the user picks a backup to restore */
+  onRestore: (backup: TokenCleanupBackup) => void;
+}
+
+const ACTION_LABELS: Record<TokenCleanupAction, string> = {
+  delete: 'Delete',
+  deprecate: 'Move to "Deprecated"',
+};
+
+/**
+ * Token Cleanup Panel Component
+ *
+ * Slide-over listing local variables no audited layer binds, grouped by
+ * collection. On open, each one is checked again across the whole document
+ * and for its publish status; variables another variable aliases or any layer
+ * or style binds are shown but cannot be selected, and published ones are only
+ * removed when allowed explicitly. Once confirmed, the selection is deleted or
+ * moved into a "Deprecated" collection under a single checkpoint; a JSON
+ * backup of the removed variables downloads on completion and can be
+ * restored from here later.
+ *
+ * Features:
+ * - Per-variable references and publish status
+ * - Delete or deprecate, confirmed before anything runs
+ * - Backup download and restore
+ */
+export default function TokenCleanupPanel({
+  isOpen,
+  tokens,
+  styles,
+  documentName,
+  onClose,
+  onCleanup,
+  onRestore,
+}: TokenCleanupPanelProps) {
+  const [action, setAction] = useState<TokenCleanupAction>('delete');
+  const [includePublished, setIncludePublished] = useState(false);
+  // Removable variables the user left out
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [confirming, setConfirming] = useState(false);
+  const [importError, setImportError] = useState<string | undefined>();
+  const [appliedCount, setAppliedCount] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const replacementState = useReplacementState();
+  const isReplacing = replacementState.isReplacing;
+  const isComplete = replacementState.replacementState === 'complete';
+  const isReplacingOrComplete = isReplacing || isComplete;
+  const backup = replacementState.tokenBackup;
+
+  const preview = useTokenCleanupPreview();
+  const { requestPreview, clear: clearPreview } = preview;
+
+  const unused = useMemo(() => findUnusedLocalTokens(tokens, styles), [tokens, styles]);
+  const blockers = new Map(
+    unused.map((entry) => [
+      entry.token.id,
+      getTokenCleanupBlocker(entry, preview.previews.get(entry.token.id), includePublished),
+    ])
+  );
+  const removable = unused.filter((entry) => blockers.get(entry.token.id) === null);
+  const selected = removable.filter((entry) => !excluded.has(entry.token.id));
+  const publishedCount = unused.filter(
+    (entry) =>
+      (preview.previews.get(entry.token.id)?.publishStatus ?? 'UNPUBLISHED') !== 'UNPUBLISHED'
+  ).length;
+
+  // The audit only counts text layers it scanned, so check the whole document
+  useEffect(() => {
+    if (!isOpen) return;
+    requestPreview(unused.map((entry) => entry.token.id));
+  }, [isOpen, unused, requestPreview]);
+
+  // Keep a copy of the removed variables before anything else can happen
+  useEffect(() => {
+    if (!isOpen || !backup || backup.variables.length === 0) return;
+    const file = generateTokenBackupJSON(backup, documentName);
+    downloadFile(file.content, file.filename, 'application/json');
+  }, [isOpen, backup, documentName]);
+
+  const toggle = (tokenId: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(tokenId)) next.delete(tokenId);
+      else next.add(tokenId);
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    // Clears the error of a previous attempt
+    replacementState.reset();
+    setConfirming(false);
+    setAppliedCount(selected.length);
+    onCleanup(
+      selected.map((entry) => entry.token.id),
+      action,
+      includePublished
+    );
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const restored = parseTokenBackup(await file.text());
+      replacementState.reset();
+      setImportError(undefined);
+      setAppliedCount(restored.variables.length);
+      onRestore(restored);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDownloadBackup = () => {
+    if (!backup) return;
+    const file = generateTokenBackupJSON(backup, documentName);
+    downloadFile(file.content, file.filename, 'application/json');
+  };
+
+  const handleClose = () => {
+    // If replacement is in progress, send cancel message
+    if (isReplacing) {
+      parent.postMessage({ pluginMessage: { type: 'CANCEL_REPLACEMENT' } }, '*');
+    }
+
+    replacementState.reset();
+    clearPreview();
+    setExcluded(new Set());
+    setConfirming(false);
+    setImportError(undefined);
+    setAppliedCount(0);
+    onClose();
+  };
+
+  const renderRow = (entry: UnusedToken) => {
+    const blocker = blockers.get(entry.token.id);
+    const removable = blocker === null;
+    const checked = removable && !excluded.has(entry.token.id);
+    const published =
+      (preview.previews.get(entry.token.id)?.publishStatus ?? 'UNPUBLISHED') !== 'UNPUBLISHED';
+
+    return (
+      <label
+        key={entry.token.id}
+        className="flex items-start gap-3 px-4 py-2 border-b border-figma-border text-xs"
+        style={{ opacity: removable ? 1 : 0.6, cursor: removable ? 'pointer' : 'default' }}
+      >
+        <input
+          type="checkbox"
+          checked={checked}
+          disabled={!removable}
+          onChange={() => toggle(entry.token.id)}
+          style={{ marginTop: '2px' }}
+        />
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-figma-text truncate" title={entry.token.name}>
+            {entry.token.name}
+          </div>
+          <div className="text-figma-text-tertiary">
+            {removable
+              ? published
+                ? 'No references · published'
+                : 'No references'
+              : `Kept: ${blocker}`}
+          </div>
+        </div>
+        <span className="font-mono text-figma-text-secondary truncate" style={{ maxWidth: '40%' }}>
+          {String(entry.token.value)}
+        </span>
+      </label>
+    );
+  };
+
+  const collections = Array.from(new Set(unused.map((entry) => entry.token.collectionName)));
+
+  return (
+    <ReplacementPanel
+      isOpen={isOpen}
+      title="Clean Up Tokens"
+      description={
+        isComplete
+          ? backup
+            ? 'Token cleanup complete!'
+            : 'Backup restored!'
+          : isReplacing
+            ? 'Cleaning up tokens...'
+            : preview.isLoading
+              ? 'Checking references across the document...'
+              : `${unused.length} unused local variables · ${removable.length} can be removed`
+      }
+      error={replacementState.error ?? importError ?? preview.error ?? undefined}
+      disableReplace={selected.length === 0 || preview.isLoading || isReplacingOrComplete}
+      onClose={handleClose}
+      onReplace={() => setConfirming(selected.length > 0)}
+      cancelLabel={isComplete ? 'Close' : 'Cancel'}
+      replaceLabel={
+        isReplacing ? 'Cleaning up...' : `${ACTION_LABELS[action]} ${selected.length} variables`
+      }
+    >
+      {isReplacingOrComplete ? (
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            height: '100%',
+            overflow: 'auto',
+            padding: '48px 32px',
+          }}
+        >
+          <ProgressIndicator
+            progress={replacementState.progress}
+            current={replacementState.layersProcessed}
+            total={appliedCount}
+            message={
+              replacementState.replacementState === 'validating'
+                ? 'Checking references...'
+                : replacementState.replacementState === 'creating_checkpoint'
+                  ? 'Creating version checkpoint...'
+                  : replacementState.replacementState === 'processing'
+                    ? 'Updating variables...'
+                    : isComplete
+                      ? 'Complete!'
+                      : undefined
+            }
+            state={replacementState.replacementState}
+          />
+
+          {isComplete && replacementState.result && (
+            <div
+              style={{
+                marginTop: '32px',
+                padding: '24px',
+                backgroundColor: 'var(--figma-color-bg-secondary)',
+                borderRadius: '8px',
+                width: '100%',
+                maxWidth: '500px',
+                fontSize: '12px',
+                color: 'var(--figma-color-text-secondary)',
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '8px',
+              }}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span>{backup ? 'Variables removed:' : 'Variables restored:'}</span>
+                <span style={{ fontWeight: 500, color: 'var(--figma-color-text)' }}>
+                  {replacementState.result.layersUpdated}
+                </span>
+              </div>
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span>Variables failed:</span>
+                <span
+                  style={{
+                    fontWeight: 500,
+                    color:
+                      replacementState.result.layersFailed > 0
+                        ? 'var(--figma-color-text-danger)'
+                        : 'var(--figma-color-text)',
+                  }}
+                >
+                  {replacementState.result.layersFailed}
+                </span>
+              </div>
+              {replacementState.result.failedLayers.map((failed) => (
+                <div key={failed.layerId} style={{ fontSize: '11px' }}>
+                  {failed.layerName}: {failed.reason}
+                </div>
+              ))}
+              {replacementState.result.checkpointTitle && (
+                <div
+                  style={{
+                    marginTop: '8px',
+                    paddingTop: '8px',
+                    borderTop: '1px solid var(--figma-color-border)',
+                    fontSize: '11px',
+                  }}
+                >
+                  <span>Version checkpoint: </span>
+                  <span style={{ fontWeight: 500 }}>{replacementState.result.checkpointTitle}</span>
+                </div>
+              )}
+              {backup && backup.variables.length > 0 && (
+                <button
+                  onClick={handleDownloadBackup}
+                  className="self-start px-2 py-1 text-xs rounded border border-figma-border text-figma-text hover:bg-figma-bg transition-colors"
+                >
+                  Download backup again
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+          {/* Action + restore */}
+          <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-figma-border text-xs text-figma-text-secondary flex-shrink-0">
+            <label className="flex items-center gap-1">
+              Action
+              <select
+                value={action}
+                onChange={(e) => setAction(e.target.value as TokenCleanupAction)}
+                className="px-1 py-0.5 text-xs rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+              >
+                {(Object.keys(ACTION_LABELS) as TokenCleanupAction[]).map((value) => (
+                  <option key={value} value={value}>
+                    {ACTION_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {publishedCount > 0 && (
+              <label className="flex items-center gap-1" style={{ cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={includePublished}
+                  onChange={(e) => setIncludePublished(e.target.checked)}
+                />
+                Also remove {publishedCount} published
+              </label>
+            )}
+            <span className="text-figma-text-tertiary">
+              A backup JSON of the removed variables downloads when the cleanup completes.
+            </span>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="ml-auto px-2 py-1 text-xs rounded border border-figma-border text-figma-text hover:bg-figma-bg-secondary transition-colors"
+            >
+              Restore backup…
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              style={{ display: 'none' }}
+            />
+          </div>
+
+          {/* Unused variables by collection */}
+          <div style={{ flex: 1, overflow: 'auto', minHeight: 0 }}>
+            {unused.length === 0 ? (
+              <div
+                style={{
+                  padding: '48px 16px',
+                  textAlign: 'center',
+                  fontSize: '12px',
+                  color: 'var(--figma-color-text-secondary)',
+                }}
+              >
+                Every local variable is bound to an audited layer.
+              </div>
+            ) : (
+              collections.map((collectionName) => {
+                const rows = unused.filter(
+                  (entry) => entry.token.collectionName === collectionName
+                );
+                return (
+                  <section key={collectionName}>
+                    <h3 className="px-4 py-2 text-xs font-semibold text-figma-text bg-figma-bg-secondary border-b border-figma-border">
+                      {getCollectionLabel(collectionName)} ({rows.length})
+                    </h3>
+                    {rows.map(renderRow)}
+                  </section>
+                );
+              })
+            )}
+          </div>
+
+          <ConfirmationDialog
+            isOpen={confirming}
+            title={action === 'delete' ? 'Delete Variables' : 'Deprecate Variables'}
+            message={`${action === 'delete' ? 'Delete' : 'Move'} ${selected.length} unused variable${selected.length !== 1 ? 's' : ''}${action === 'delete' ? '' : ' into the "Deprecated" collection'}?\n\nThis will create a version checkpoint and download a backup to restore them from.`}
+            confirmLabel={ACTION_LABELS[action]}
+            cancelLabel="Cancel"
+            variant={action === 'delete' ? 'danger' : 'warning'}
+            onConfirm={handleConfirm}
+            onCancel={() => setConfirming(false)}
+          />
+        </div>
+      )}
+    </ReplacementPanel>
+  );
+}
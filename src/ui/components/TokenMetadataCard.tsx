@@ -1,9 +1,12 @@
 import { useState } from 'react';
 import { ChevronDown, ChevronRight } from 'lucide-react';
 import type { DesignToken } from '@/shared/types';
+import { getChainEnd, getReferencingTokens } from '../utils/tokenAliases';
 
 interface TokenMetadataCardProps {
   token: DesignToken;
+  /** All audited tokens, to list the tokens aliasing this one */
+  tokens?: DesignToken[];
 }
 
 /**
@@ -14,11 +17,12 @@ interface TokenMetadataCardProps {
  * - Type and collection metadata
  * - Current value with proper formatting
  * - Multi-mode values (expandable)
- * - Alias chain (if aliased token)
+ * - Alias chain per mode, down to the raw value (if aliased token)
+ * - Tokens that alias this one (when all tokens are passed)
  *
  * Part of Token Details View enhancement sidequest
  */
-export default function TokenMetadataCard({ token }: TokenMetadataCardProps) {
+export default function TokenMetadataCard({ token, tokens }: TokenMetadataCardProps) {
   const [showAllModes, setShowAllModes] = useState(false);
 
   // Format token value for display
@@ -60,6 +64,17 @@ export default function TokenMetadataCard({ token }: TokenMetadataCardProps) {
 
   const currentValueFormatted = formatValue(token.currentValue, token.type);
   const hasMultipleModes = token.modes && Object.keys(token.modes).length > 1;
+  const aliasChains = token.isAlias ? (token.aliasChains ?? []) : [];
+  const referencingTokens = tokens ? getReferencingTokens(token, tokens) : [];
+
+  const sectionLabelStyle = {
+    fontSize: '11px',
+    fontWeight: 600,
+    color: 'var(--figma-color-text-secondary)',
+    marginBottom: '6px',
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.5px',
+  };
 
   // Get type badge color
   const getTypeColor = (): string => {
@@ -159,9 +174,95 @@ export default function TokenMetadataCard({ token }: TokenMetadataCardProps) {
         </div>
       </div>
 
+      {/* Alias Chain: this token → referenced tokens → raw value */}
+      {aliasChains.length > 0 && (
+        <div
+          style={{
+            marginTop: '12px',
+            paddingTop: '12px',
+            borderTop: '1px solid var(--figma-color-border)',
+          }}
+        >
+          <div style={sectionLabelStyle}>Alias chain</div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            {aliasChains.map((chain) => (
+              <div key={chain.modeId} style={{ fontSize: '11px', lineHeight: '18px' }}>
+                {aliasChains.length > 1 && (
+                  <span style={{ color: 'var(--figma-color-text-tertiary)', marginRight: '6px' }}>
+                    {chain.modeName}
+                  </span>
+                )}
+                <span style={{ color: 'var(--figma-color-text)', fontWeight: 500 }}>
+                  {token.name}
+                </span>
+                {chain.references.map((reference, index) => (
+                  <span key={`${reference.tokenId}-${index}`}>
+                    <span style={{ color: 'var(--figma-color-text-tertiary)' }}> → </span>
+                    <span
+                      style={{ color: 'var(--figma-color-text)' }}
+                      title={reference.collectionName}
+                    >
+                      {reference.name}
+                    </span>
+                  </span>
+                ))}
+                <span style={{ color: 'var(--figma-color-text-tertiary)' }}> → </span>
+                <span
+                  style={{
+                    fontFamily: chain.error ? undefined : 'monospace',
+                    color: chain.error
+                      ? 'var(--figma-color-text-danger)'
+                      : 'var(--figma-color-text-secondary)',
+                  }}
+                >
+                  {getChainEnd(chain)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Tokens aliasing this one */}
+      {referencingTokens.length > 0 && (
+        <div
+          style={{
+            marginTop: '12px',
+            paddingTop: '12px',
+            borderTop: '1px solid var(--figma-color-border)',
+          }}
+        >
+          <div style={sectionLabelStyle}>Referenced by ({referencingTokens.length})</div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+            {referencingTokens.map((referencing) => (
+              <span
+                key={referencing.id}
+                title={referencing.collectionName}
+                style={{
+                  fontSize: '11px',
+                  padding: '2px 6px',
+                  borderRadius: '4px',
+                  backgroundColor: 'var(--figma-color-bg)',
+                  border: '1px solid var(--figma-color-border)',
+                  color: 'var(--figma-color-text)',
+                }}
+              >
+                {referencing.name}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Multi-Mode Values */}
       {hasMultipleModes && (
-        <div style={{ marginTop: '12px', paddingTop: '12px', borderTop: '1px solid var(--figma-color-border)' }}>
+        <div
+          style={{
+            marginTop: '12px',
+            paddingTop: '12px',
+            borderTop: '1px solid var(--figma-color-border)',
+          }}
+        >
           <button
             onClick={() => setShowAllModes(!showAllModes)}
             style={{
@@ -0,0 +1,467 @@
+import { useState, useMemo, useEffect, type ReactNode } from 'react';
+import ReplacementPanel from './ReplacementPanel';
+import ProgressIndicator from './ProgressIndicator';
+import { useReplacementState } from '../hooks/useReplacementState';
+import { useTokenRemapPreview } from '../hooks/useTokenRemapPreview';
+import {
+  getTokenCollections,
+  matchCollectionTokens,
+  type TokenCollection,
+  type TokenRemapMatch,
+} from '../utils/tokenRemap';
+import type { DesignToken, TokenMapping, TokenRemapPairPreview } from '@/shared/types';
+
+export interface TokenRemapPanelProps {
+  /** Whether the panel is open */
+  isOpen: boolean;
+  /** Tokens found by the audit */
+  tokens: DesignToken[];
+  /** Callback when panel should close */
+  onClose: () => void;
+  /** Callback when the user confirms the reviewed remap */
+  onRemap: (mappings: Array<TokenMapping & { affectedLayerIds: string[] }>) => void;
+  /** Optional error message to display at top of panel */
+  error?: string;
+}
+
+const MATCH_LABELS: Record<TokenRemapMatch['matchedBy'], string> = {
+  name: 'Same name',
+  path: 'Same path',
+};
+
+/**
+ * A preview that blocks its pair from the remap
+ */
+const isBlocked = (preview: TokenRemapPairPreview): boolean =>
+  !!preview.error || !!preview.typeMismatch || preview.missingModes.length > 0;
+
+/**
+ * Token Remap Panel Component
+ *
+ * Slide-over that rebinds every token of one collection to its counterpart in
+ * another by name path (e.g. from a legacy collection to a primitives and
+ * semantic split). Each selected pair is checked in the main thread: types
+ * must match and the target needs a value for every source mode. The values
+ * that would change are listed per mode, and the remap runs as one operation.
+ *
+ * Features:
+ * - Needs review / type mismatch / no counterpart / matched sections
+ * - Per-mode value changes for the selected target
+ * - Aggregated progress under a single checkpoint
+ */
+export default function TokenRemapPanel({
+  isOpen,
+  tokens,
+  onClose,
+  onRemap,
+  error,
+}: TokenRemapPanelProps) {
+  const [sourceId, setSourceId] = useState('');
+  const [targetId, setTargetId] = useState('');
+  // Targets chosen by the user ('' = don't remap), overriding the proposed match
+  const [overrides, setOverrides] = useState<Map<string, string>>(new Map());
+  const [appliedLayerCount, setAppliedLayerCount] = useState(0);
+
+  const replacementState = useReplacementState();
+  const isReplacing = replacementState.isReplacing;
+  const isComplete = replacementState.replacementState === 'complete';
+  const isReplacingOrComplete = isReplacing || isComplete;
+  const preview = useTokenRemapPreview();
+
+  const collections = useMemo(() => getTokenCollections(tokens), [tokens]);
+
+  // Default to the first two collections
+  useEffect(() => {
+    if (!isOpen || sourceId || collections.length < 2) return;
+    setSourceId(collections[0].id);
+    setTargetId(collections[1].id);
+  }, [isOpen, collections, sourceId]);
+
+  const tokensById = useMemo(() => new Map(tokens.map((token) => [token.id, token])), [tokens]);
+
+  const match = useMemo(
+    () =>
+      sourceId && targetId && sourceId !== targetId
+        ? matchCollectionTokens(tokens, sourceId, targetId)
+        : { matches: [], typeMismatches: [], ambiguous: [], orphans: [] },
+    [tokens, sourceId, targetId]
+  );
+
+  const targetTokens = useMemo(
+    () => Array.from(tokensById.values()).filter((token) => token.collectionId === targetId),
+    [tokensById, targetId]
+  );
+
+  const proposedTargets = useMemo(
+    () => new Map(match.matches.map((m) => [m.sourceTokenId, m.targetTokenId])),
+    [match]
+  );
+
+  const getTarget = (sourceTokenId: string): string =>
+    overrides.get(sourceTokenId) ?? proposedTargets.get(sourceTokenId) ?? '';
+
+  const sourceTokenIds = [
+    ...match.matches.map((m) => m.sourceTokenId),
+    ...match.ambiguous.map((a) => a.sourceTokenId),
+    ...match.typeMismatches.map((m) => m.sourceTokenId),
+    ...match.orphans,
+  ];
+
+  const selectedPairs: TokenMapping[] = sourceTokenIds
+    .map((sourceTokenId) => ({ sourceTokenId, targetTokenId: getTarget(sourceTokenId) }))
+    .filter((pair) => pair.targetTokenId);
+
+  // Compare per-mode values whenever the selected pairs change
+  const pairsKey = selectedPairs.map((p) => `${p.sourceTokenId}>${p.targetTokenId}`).join('|');
+  const { requestPreview, clear: clearPreview } = preview;
+  useEffect(() => {
+    if (!isOpen) return;
+    requestPreview(selectedPairs);
+    // selectedPairs is rebuilt on every render; pairsKey identifies its contents
+  }, [isOpen, pairsKey, requestPreview]);
+
+  const getPreview = (pair: TokenMapping): TokenRemapPairPreview | undefined => {
+    const found = preview.previews.get(pair.sourceTokenId);
+    return found?.targetTokenId === pair.targetTokenId ? found : undefined;
+  };
+
+  // Only checked pairs of tokens bound to layers can be remapped
+  const mappings = selectedPairs
+    .filter((pair) => {
+      const pairPreview = getPreview(pair);
+      return pairPreview && !isBlocked(pairPreview);
+    })
+    .map((pair) => ({
+      ...pair,
+      affectedLayerIds: tokensById.get(pair.sourceTokenId)?.layerIds ?? [],
+    }))
+    .filter((mapping) => mapping.affectedLayerIds.length > 0);
+
+  const setTarget = (sourceTokenId: string, targetTokenId: string) => {
+    setOverrides((prev) => new Map(prev).set(sourceTokenId, targetTokenId));
+  };
+
+  const changeCollection = (setter: (id: string) => void, id: string) => {
+    setter(id);
+    setOverrides(new Map());
+  };
+
+  const handleRemap = () => {
+    if (mappings.length === 0) return;
+    setAppliedLayerCount(mappings.reduce((sum, m) => sum + m.affectedLayerIds.length, 0));
+    onRemap(mappings);
+  };
+
+  const handleClose = () => {
+    // If replacement is in progress, send cancel message
+    if (isReplacing) {
+      parent.postMessage({ pluginMessage: { type: 'CANCEL_REPLACEMENT' } }, '*');
+    }
+
+    replacementState.reset();
+    clearPreview();
+    setOverrides(new Map());
+    setSourceId('');
+    setTargetId('');
+    setAppliedLayerCount(0);
+    onClose();
+  };
+
+  const renderPreview = (pairPreview: TokenRemapPairPreview | undefined) => {
+    if (!pairPreview) {
+      return preview.isLoading ? (
+        <div className="mt-0.5 text-[10px] text-figma-text-tertiary">Checking modes...</div>
+      ) : null;
+    }
+
+    const problem = pairPreview.error
+      ? pairPreview.error
+      : pairPreview.typeMismatch
+        ? `Type mismatch: ${pairPreview.typeMismatch.sourceType} → ${pairPreview.typeMismatch.targetType}`
+        : pairPreview.missingModes.length > 0
+          ? `No target value for ${pairPreview.missingModes.join(', ')}`
+          : null;
+    if (problem) {
+      return (
+        <div className="mt-0.5 text-[10px]" style={{ color: 'var(--figma-color-text-danger)' }}>
+          {problem}
+        </div>
+      );
+    }
+
+    const changed = pairPreview.modes.filter((mode) => mode.changed);
+    return (
+      <div className="mt-0.5 font-mono text-[10px] text-figma-text-secondary">
+        {changed.length === 0
+          ? 'Same value in every mode'
+          : changed
+              .map((mode) => `${mode.modeName}: ${mode.sourceValue} → ${mode.targetValue}`)
+              .join(' · ')}
+      </div>
+    );
+  };
+
+  const renderRow = (sourceTokenId: string, badge: string, candidateIds?: string[]) => {
+    const token = tokensById.get(sourceTokenId);
+    if (!token) return null;
+
+    const layerCount = token.layerIds.length;
+    const selected = tokensById.get(getTarget(sourceTokenId));
+    const candidates = new Set(candidateIds);
+    const pairPreview = selected
+      ? getPreview({ sourceTokenId, targetTokenId: selected.id })
+      : undefined;
+
+    return (
+      <div
+        key={sourceTokenId}
+        className="flex items-start gap-3 px-4 py-2 border-b border-figma-border text-xs"
+        style={{ opacity: selected && layerCount > 0 ? 1 : 0.6 }}
+      >
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-figma-text truncate" title={token.name}>
+            {token.name}
+          </div>
+          <div className="text-figma-text-tertiary">
+            {layerCount > 0 ? `${layerCount} layers` : 'Not used'} · {token.type} · {badge}
+          </div>
+          {selected && renderPreview(pairPreview)}
+        </div>
+        <span className="text-figma-text-secondary">→</span>
+        <select
+          value={selected?.id ?? ''}
+          onChange={(e) => setTarget(sourceTokenId, e.target.value)}
+          aria-label={`Target for ${token.name}`}
+          className="w-48 px-1 py-0.5 text-xs rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+        >
+          <option value="">Don't remap</option>
+          {candidateIds && (
+            <optgroup label="Candidates">
+              {candidateIds.map((id) => (
+                <option key={id} value={id}>
+                  {tokensById.get(id)?.name ?? id}
+                </option>
+              ))}
+            </optgroup>
+          )}
+          <optgroup label={`${token.type} tokens`}>
+            {targetTokens
+              .filter((t) => t.type === token.type && !candidates.has(t.id))
+              .map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+          </optgroup>
+        </select>
+      </div>
+    );
+  };
+
+  const renderSection = (title: string, count: number, rows: ReactNode) =>
+    count > 0 && (
+      <section>
+        <h3 className="px-4 py-2 text-xs font-semibold text-figma-text bg-figma-bg-secondary border-b border-figma-border">
+          {title} ({count})
+        </h3>
+        {rows}
+      </section>
+    );
+
+  return (
+    <ReplacementPanel
+      isOpen={isOpen}
+      title="Remap Tokens"
+      description={
+        isComplete
+          ? 'Token remap applied!'
+          : isReplacing
+            ? 'Remapping tokens...'
+            : `${match.matches.length} matched · ${match.ambiguous.length} to review · ${match.typeMismatches.length} type mismatches · ${match.orphans.length} without counterpart`
+      }
+      error={error ?? preview.error ?? undefined}
+      disableReplace={mappings.length === 0 || preview.isLoading || isReplacingOrComplete}
+      onClose={handleClose}
+      onReplace={handleRemap}
+      cancelLabel={isComplete ? 'Close' : 'Cancel'}
+      replaceLabel={isReplacing ? 'Remapping...' : `Remap ${mappings.length} tokens`}
+    >
+      {isReplacingOrComplete ? (
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            height: '100%',
+            overflow: 'auto',
+            padding: '48px 32px',
+          }}
+        >
+          <ProgressIndicator
+            progress={replacementState.progress}
+            current={replacementState.layersProcessed}
+            total={appliedLayerCount}
+            message={
+              replacementState.replacementState === 'validating'
+                ? 'Checking types and modes...'
+                : replacementState.replacementState === 'creating_checkpoint'
+                  ? 'Creating version checkpoint...'
+                  : replacementState.replacementState === 'processing'
+                    ? 'Remapping tokens...'
+                    : isComplete
+                      ? 'Complete!'
+                      : undefined
+            }
+            state={replacementState.replacementState}
+          />
+
+          {isComplete && replacementState.result && (
+            <div
+              style={{
+                marginTop: '32px',
+                padding: '24px',
+                backgroundColor: 'var(--figma-color-bg-secondary)',
+                borderRadius: '8px',
+                width: '100%',
+                maxWidth: '500px',
+                fontSize: '12px',
+                color: 'var(--figma-color-text-secondary)',
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '8px',
+              }}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span>Layers updated:</span>
+                <span style={{ fontWeight: 500, color: 'var(--figma-color-text)' }}>
+                  {replacementState.result.layersUpdated}
+                </span>
+              </div>
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span>Layers failed:</span>
+                <span
+                  style={{
+                    fontWeight: 500,
+                    color:
+                      replacementState.result.layersFailed > 0
+                        ? 'var(--figma-color-text-danger)'
+                        : 'var(--figma-color-text)',
+                  }}
+                >
+                  {replacementState.result.layersFailed}
+                </span>
+              </div>
+              {replacementState.result.checkpointTitle && (
+                <div
+                  style={{
+                    marginTop: '8px',
+                    paddingTop: '8px',
+                    borderTop: '1px solid var(--figma-color-border)',
+                    fontSize: '11px',
+                  }}
+                >
+                  <span>Version checkpoint: </span>
+                  <span style={{ fontWeight: 500 }}>{replacementState.result.checkpointTitle}</span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+          {/* Collection pickers */}
+          <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-figma-border text-xs text-figma-text-secondary flex-shrink-0">
+            <label className="flex items-center gap-1">
+              From
+              <CollectionSelect
+                collections={collections}
+                value={sourceId}
+                onChange={(id) => changeCollection(setSourceId, id)}
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              To
+              <CollectionSelect
+                collections={collections}
+                value={targetId}
+                onChange={(id) => changeCollection(setTargetId, id)}
+              />
+            </label>
+          </div>
+
+          {/* Mapping sections */}
+          <div style={{ flex: 1, overflow: 'auto', minHeight: 0 }}>
+            {sourceTokenIds.length === 0 ? (
+              <div
+                style={{
+                  padding: '48px 16px',
+                  textAlign: 'center',
+                  fontSize: '12px',
+                  color: 'var(--figma-color-text-secondary)',
+                }}
+              >
+                {sourceId && targetId && sourceId !== targetId
+                  ? 'The source collection has no tokens to remap.'
+                  : 'Choose two different collections to compare.'}
+              </div>
+            ) : (
+              <>
+                {renderSection(
+                  'Needs review',
+                  match.ambiguous.length,
+                  match.ambiguous.map((a) =>
+                    renderRow(a.sourceTokenId, 'Several candidates', a.candidateIds)
+                  )
+                )}
+                {renderSection(
+                  'Type mismatch',
+                  match.typeMismatches.length,
+                  match.typeMismatches.map((m) =>
+                    renderRow(
+                      m.sourceTokenId,
+                      `"${tokensById.get(m.targetTokenId)?.name}" is ${tokensById.get(m.targetTokenId)?.type}`
+                    )
+                  )
+                )}
+                {renderSection(
+                  'No counterpart',
+                  match.orphans.length,
+                  match.orphans.map((id) => renderRow(id, 'No match'))
+                )}
+                {renderSection(
+                  'Matched',
+                  match.matches.length,
+                  match.matches.map((m) => renderRow(m.sourceTokenId, MATCH_LABELS[m.matchedBy]))
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </ReplacementPanel>
+  );
+}
+
+function CollectionSelect({
+  collections,
+  value,
+  onChange,
+}: {
+  collections: TokenCollection[];
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-1 py-0.5 text-xs rounded bg-figma-bg-secondary border border-figma-border text-figma-text"
+    >
+      {collections.map((collection) => (
+        <option key={collection.id} value={collection.id}>
+          {collection.name} ({collection.tokenCount})
+        </option>
+      ))}
+    </select>
+  );
+}
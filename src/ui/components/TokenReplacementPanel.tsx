@@ -1,11 +1,13 @@
 import { useState, useMemo, useEffect } from 'react';
 import ReplacementPanel from './ReplacementPanel';
-import { TokenReplacementPreview } from './ReplacementPreview';
+import { DryRunSummary, TokenReplacementPreview } from './ReplacementPreview';
 import TokenView from './TokenView';
 import FilterToolbar from './FilterToolbar';
+import ReplacementScopeControls from './ReplacementScopeControls';
 import ProgressIndicator from './ProgressIndicator';
 import { useReplacementState } from '../hooks/useReplacementState';
-import type { DesignToken, TextLayer } from '@/shared/types';
+import { useReplacementDryRun } from '../hooks/useReplacementDryRun';
+import type { DesignToken, ReplacementScope, TextLayer } from '@/shared/types';
 
 export interface TokenReplacementPanelProps {
   /** Whether the panel is open */
@@ -21,7 +23,7 @@ export interface TokenReplacementPanelProps {
   /** Callback when panel should close */
   onClose: () => void;
   /** Callback when replacement is confirmed */
-  onReplace: (sourceToken: DesignToken, targetToken: DesignToken) => void;
+  onReplace: (sourceToken: DesignToken, targetToken: DesignToken, scope: ReplacementScope) => void;
   /** Optional error message to display at top of panel */
   error?: string;
 }
@@ -36,6 +38,8 @@ export interface TokenReplacementPanelProps {
  * - Source vs Target token preview with TokenMetadataCard
  * - Visual color swatches for COLOR tokens
  * - Multi-mode value display
+ * - Scope limiting the replacement to the selection, pages or components
+ * - Dry run reporting layers that would fail and properties that would change
  * - TokenView with collection grouping, search, and coverage filters
  * - Disabled Replace button until target selected
  * - Error banner support
@@ -60,6 +64,8 @@ export default function TokenReplacementPanel({
   // Get replacement state
   const replacementState = useReplacementState();
   const isReplacing = replacementState.isReplacing;
+  const [scope, setScope] = useState<ReplacementScope>({});
+  const dryRun = useReplacementDryRun();
 
   // Don't auto-close when complete - let user review and manually close
   // useEffect(() => {
@@ -83,11 +89,29 @@ export default function TokenReplacementPanel({
     return Array.from(types).sort();
   }, [availableTokens]);
 
+  // A report only describes the target it was run for
+  const handleTargetSelect = (token: DesignToken) => {
+    setSelectedTargetToken(token);
+    dryRun.clear();
+  };
+
+  // ...and the scope it was run with
+  const handleScopeChange = (next: ReplacementScope) => {
+    setScope(next);
+    dryRun.clear();
+  };
+
+  const handleDryRun = () => {
+    if (!selectedTargetToken) return;
+    dryRun.runTokenDryRun(sourceToken.id, selectedTargetToken.id, affectedLayerIds, scope);
+  };
+
   // Handle replacement
   const handleReplace = () => {
     if (!selectedTargetToken) return;
-    onReplace(sourceToken, selectedTargetToken);
+    onReplace(sourceToken, selectedTargetToken, scope);
     setSelectedTargetToken(null); // Reset selection
+    dryRun.clear();
   };
 
   // Handle close/cancel
@@ -104,6 +128,8 @@ export default function TokenReplacementPanel({
     replacementState.reset();
 
     setSelectedTargetToken(null); // Reset selection
+    setScope({});
+    dryRun.clear();
     setSearchQuery(''); // Reset filters
     setSourceFilter('all');
     setTypeFilter('all');
@@ -129,7 +155,17 @@ export default function TokenReplacementPanel({
       previewSection={
         // Show preview during selection, hide during replacement/completion
         !isReplacingOrComplete ? (
-          <TokenReplacementPreview source={sourceToken} target={selectedTargetToken} />
+          <>
+            <TokenReplacementPreview source={sourceToken} target={selectedTargetToken} />
+            <ReplacementScopeControls scope={scope} onChange={handleScopeChange} />
+            <DryRunSummary
+              report={dryRun.report}
+              error={dryRun.error}
+              isRunning={dryRun.isRunning}
+              disabled={!selectedTargetToken || affectedLayerIds.length === 0}
+              onRun={handleDryRun}
+            />
+          </>
         ) : undefined
       }
       disableReplace={!selectedTargetToken || isReplacing}
@@ -266,7 +302,7 @@ export default function TokenReplacementPanel({
             <TokenView
               tokens={availableTokens}
               allLayers={allLayers}
-              onTokenSelect={setSelectedTargetToken}
+              onTokenSelect={handleTargetSelect}
               selectedTokenId={selectedTargetToken?.id}
               searchQuery={searchQuery}
               sourceFilter={sourceFilter}
@@ -148,7 +148,11 @@ const sanitizeTokenData = (token: DesignToken): DesignToken => {
     modes: {}, // Empty object - not needed for rendering
     isAlias: Boolean(token.isAlias),
     aliasedTokenId: token.aliasedTokenId ? String(token.aliasedTokenId) : undefined,
-    aliasChain: [], // Empty array - not needed for rendering
+    aliasChain: token.aliasChain ? token.aliasChain.map(String) : [],
+    aliasChains: token.aliasChains?.map((chain) => ({
+      ...chain,
+      references: chain.references.map((reference) => ({ ...reference })),
+    })),
     usageCount: Number(token.usageCount ?? 0),
     layerIds: [], // Empty array - not needed for rendering
     propertyTypes: [], // Empty array - not needed for rendering
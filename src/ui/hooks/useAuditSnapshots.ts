@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from 'react';
+import type {
+  AuditSnapshot,
+  AuditState,
+  MainToUIMessage,
+  StyleGovernanceAuditResult,
+  UIToMainMessage,
+} from '@/shared/types';
+import { createAuditSnapshot } from '@/ui/utils/auditSnapshot';
+
+/**
+ * Audit history hook
+ *
+ * Loads the document's persisted audit snapshots and records a new snapshot
+ * once per completed audit. Live deltas and optimistic updates keep the
+ * audit's timestamp, so they never create extra snapshots.
+ */
+export function useAuditSnapshots(
+  result: StyleGovernanceAuditResult | null,
+  auditState: AuditState
+) {
+  const [snapshots, setSnapshots] = useState<AuditSnapshot[]>([]);
+  const savedTimestampRef = useRef<string | null>(null);
+
+  // Load history once and keep it in sync with every save
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const msg = event.data.pluginMessage as MainToUIMessage;
+      if (msg?.type === 'AUDIT_SNAPSHOTS_LOADED') {
+        setSnapshots(msg.payload.snapshots);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    sendMessage({ type: 'GET_AUDIT_SNAPSHOTS' });
+
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  // Metrics are final once the audit reaches 'complete'
+  useEffect(() => {
+    if (auditState !== 'complete' || !result || result.layers.length === 0) return;
+
+    const snapshot = createAuditSnapshot(result);
+    if (savedTimestampRef.current === snapshot.timestamp) return;
+
+    savedTimestampRef.current = snapshot.timestamp;
+    sendMessage({ type: 'SAVE_AUDIT_SNAPSHOT', payload: { snapshot } });
+  }, [result, auditState]);
+
+  return { snapshots };
+}
+
+function sendMessage(message: UIToMainMessage) {
+  parent.postMessage({ pluginMessage: message }, '*');
+}
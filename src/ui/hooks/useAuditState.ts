@@ -1,6 +1,13 @@
 import { useState, useEffect } from 'react';
-import type { AuditResult, AuditState, StyleGovernanceAuditResult } from '@/shared/types';
+import type {
+  AuditResult,
+  AuditState,
+  StyleAuditDelta,
+  StyleGovernanceAuditResult,
+} from '@/shared/types';
 import { calculateOptimizedMetrics } from '@/ui/utils/metricsCalculator';
+import { attachStyleMatches, DEFAULT_STYLE_MATCH_OPTIONS } from '@/ui/utils/styleMatcher';
+import { applyAuditDelta } from '@/ui/utils/auditDelta';
 
 /**
  * Audit state store using React hooks with 7-state machine
@@ -35,6 +42,7 @@ let currentStep = '';
 let error: string | null = null;
 let isStale = false; // Document modified since audit
 let auditStartTime: number | null = null; // Track when audit started
+let suggestionThreshold = DEFAULT_STYLE_MATCH_OPTIONS.threshold; // From the governance config
 
 const listeners = new Set<() => void>();
 
@@ -218,6 +226,14 @@ export function useAuditState() {
       // Update the result with calculated metrics
       styleGovernanceResult.metrics = calculatedMetrics;
 
+      // Suggest the closest styles for unstyled and partially styled layers
+      const matchedLayerCount = attachStyleMatches(
+        styleGovernanceResult.layers,
+        styleGovernanceResult.styles,
+        { threshold: suggestionThreshold }
+      );
+      console.log(`[AuditState] Style suggestions found for ${matchedLayerCount} layers`);
+
       console.log('[AuditState] Metrics calculated:', {
         styleAdoptionRate: calculatedMetrics.styleAdoptionRate.toFixed(1) + '%',
         tokenAdoptionRate: calculatedMetrics.tokenAdoptionRate.toFixed(1) + '%',
@@ -228,6 +244,41 @@ export function useAuditState() {
       notifyListeners();
     },
 
+    // LIVE: Merge layers re-processed after a document edit into the completed result
+    applyDelta: (delta: StyleAuditDelta) => {
+      if (!styleGovernanceResult || auditState !== 'complete') {
+        console.warn('[AuditState] Ignoring delta - no completed audit');
+        return;
+      }
+
+      styleGovernanceResult = applyAuditDelta(styleGovernanceResult, delta, {
+        threshold: suggestionThreshold,
+      });
+      console.log(
+        `[AuditState] Delta applied: ${delta.updatedLayers.length} updated, ` +
+        `${delta.removedLayerIds.length} removed, ${styleGovernanceResult.layers.length} total layers`
+      );
+
+      notifyListeners();
+    },
+
+    // Minimum similarity (0-1) for style suggestions; re-scores a completed audit
+    setSuggestionThreshold: (threshold: number) => {
+      if (threshold === suggestionThreshold) return;
+      suggestionThreshold = threshold;
+
+      if (!styleGovernanceResult || auditState !== 'complete') return;
+
+      attachStyleMatches(styleGovernanceResult.layers, styleGovernanceResult.styles, { threshold });
+      // New references so memoized views pick up the changed suggestions
+      styleGovernanceResult = {
+        ...styleGovernanceResult,
+        layers: [...styleGovernanceResult.layers],
+      };
+
+      notifyListeners();
+    },
+
     // Merge missing fonts data from the final result into the accumulated result
     mergeMissingFontsData: (data: {
       layersWithMissingFonts: number;
@@ -248,6 +299,19 @@ export function useAuditState() {
       notifyListeners();
     },
 
+    // Accumulated results start without document details; the final result has them
+    setDocumentInfo: (documentId: string, documentName: string) => {
+      if (!styleGovernanceResult) {
+        console.warn('[AuditState] Cannot set document info - no accumulated result');
+        return;
+      }
+
+      styleGovernanceResult.documentId = documentId;
+      styleGovernanceResult.documentName = documentName;
+
+      notifyListeners();
+    },
+
     // Set audit duration from the main thread (more accurate than UI-calculated)
     setAuditDuration: (duration: number) => {
       if (!styleGovernanceResult) {
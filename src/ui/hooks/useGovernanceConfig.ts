@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { GovernanceConfig, MainToUIMessage, UIToMainMessage } from '@/shared/types';
+import { DEFAULT_GOVERNANCE_CONFIG, parseGovernanceConfig } from '@/ui/utils/governanceConfig';
+
+/**
+ * Governance config hook
+ *
+ * Loads the config shared through the document (falling back to the
+ * defaults) and saves every change back to it, so all collaborators audit
+ * and lint with the same settings. A stored config that fails validation is
+ * reported through `loadError` and replaced by the defaults until saved over.
+ */
+export function useGovernanceConfig() {
+  const [config, setConfig] = useState<GovernanceConfig>(DEFAULT_GOVERNANCE_CONFIG);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const msg = event.data.pluginMessage as MainToUIMessage;
+      if (msg?.type !== 'GOVERNANCE_CONFIG_LOADED') return;
+
+      if (msg.payload.config === null) {
+        setConfig(DEFAULT_GOVERNANCE_CONFIG);
+        setLoadError(null);
+        return;
+      }
+
+      try {
+        setConfig(parseGovernanceConfig(msg.payload.config));
+        setLoadError(null);
+      } catch (error) {
+        setConfig(DEFAULT_GOVERNANCE_CONFIG);
+        setLoadError(error instanceof Error ? error.message : 'Invalid governance config');
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    sendMessage({ type: 'GET_GOVERNANCE_CONFIG' });
+
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const updateConfig = useCallback((nextConfig: GovernanceConfig) => {
+    setConfig(nextConfig);
+    setLoadError(null);
+    sendMessage({ type: 'SAVE_GOVERNANCE_CONFIG', payload: { config: nextConfig } });
+  }, []);
+
+  return { config, loadError, updateConfig };
+}
+
+function sendMessage(message: UIToMainMessage) {
+  parent.postMessage({ pluginMessage: message }, '*');
+}
@@ -1,5 +1,17 @@
 import { useEffect } from 'react';
-import type { MainToUIMessage, UIToMainMessage } from '@/shared/types';
+import type {
+  MainToUIMessage,
+  ReplacementScope,
+  StyleCleanupAction,
+  StyleCleanupBackup,
+  StyleMapping,
+  StyleReplacementLayerOptions,
+  TokenCleanupAction,
+  TokenCleanupBackup,
+  TokenMapping,
+  TokenValueBinding,
+  UIToMainMessage,
+} from '@/shared/types';
 import { useAuditState } from './useAuditState';
 import { useReplacementState } from './useReplacementState';
 
@@ -7,7 +19,7 @@ import { useReplacementState } from './useReplacementState';
  * Hook for handling postMessage communication with the main context
  *
  * Supports both legacy font audit messages (AUDIT_*) and new style governance
- * messages (STYLE_AUDIT_*, REPLACEMENT_*, EXPORT_*).
+ * messages (STYLE_AUDIT_*, REPLACEMENT_*).
  */
 export function useMessageHandler() {
   const auditState = useAuditState();
@@ -79,7 +91,7 @@ export function useMessageHandler() {
           );
           console.log(
             `[StyleAudit] Partial result accumulated: Page ${msg.payload.pageNumber}/${msg.payload.totalPages} ("${msg.payload.pageName}") ` +
-            `added ${msg.payload.newLayers.length} layers, ${msg.payload.newStyles.length} styles, ${msg.payload.newTokens.length} tokens`
+              `added ${msg.payload.newLayers.length} layers, ${msg.payload.newStyles.length} styles, ${msg.payload.newTokens.length} tokens`
           );
           break;
 
@@ -100,6 +112,10 @@ export function useMessageHandler() {
               missingFontLayerNames: msg.payload.result.missingFontLayerNames || [],
               missingFontLayerIds: msg.payload.result.missingFontLayerIds || [],
             });
+            auditState.setDocumentInfo(
+              msg.payload.result.documentId,
+              msg.payload.result.documentName
+            );
           }
 
           auditState.transitionTo('complete');
@@ -117,6 +133,11 @@ export function useMessageHandler() {
           console.log('[StyleAudit] Cancelled by user');
           break;
 
+        case 'STYLE_AUDIT_DELTA':
+          // LIVE: Main thread re-processed only the layers touched by an edit
+          auditState.applyDelta(msg.payload);
+          break;
+
         case 'STYLE_AUDIT_INVALIDATED':
           auditState.invalidate();
           console.log('[StyleAudit] Results invalidated:', msg.payload.reason);
@@ -164,6 +185,9 @@ export function useMessageHandler() {
             duration: msg.payload.duration,
             hasWarnings: msg.payload.hasWarnings,
           });
+          replacementState.setMigrationResults(msg.payload.migrationResults ?? null);
+          replacementState.setTokenBackup(msg.payload.tokenBackup ?? null);
+          replacementState.setStyleBackup(msg.payload.styleBackup ?? null);
           console.log('[Replacement] Complete:', msg.payload);
           break;
 
@@ -178,21 +202,6 @@ export function useMessageHandler() {
           console.log('[Replacement] Cancelled by user');
           break;
 
-        // ====================================================================
-        // Export Messages
-        // ====================================================================
-        case 'EXPORT_PDF_STARTED':
-          console.log('[Export] PDF generation started');
-          break;
-
-        case 'EXPORT_PDF_COMPLETE':
-          console.log('[Export] PDF saved to:', msg.payload.filePath);
-          break;
-
-        case 'EXPORT_PDF_ERROR':
-          console.error('[Export] PDF error:', msg.payload.error);
-          break;
-
         // ====================================================================
         // Navigation Messages
         // ====================================================================
@@ -255,7 +264,9 @@ export function useMessageHandler() {
   const replaceStyle = (
     sourceStyleId: string,
     targetStyleId: string,
-    affectedLayerIds: string[]
+    affectedLayerIds: string[],
+    layerOptions: StyleReplacementLayerOptions = {},
+    scope?: ReplacementScope
   ) => {
     sendMessage({
       type: 'REPLACE_STYLE',
@@ -263,6 +274,8 @@ export function useMessageHandler() {
         sourceStyleId,
         targetStyleId,
         affectedLayerIds,
+        ...layerOptions,
+        scope,
       },
     });
   };
@@ -270,7 +283,8 @@ export function useMessageHandler() {
   const replaceToken = (
     sourceTokenId: string,
     targetTokenId: string,
-    affectedLayerIds: string[]
+    affectedLayerIds: string[],
+    scope?: ReplacementScope
   ) => {
     sendMessage({
       type: 'REPLACE_TOKEN',
@@ -278,28 +292,100 @@ export function useMessageHandler() {
         sourceTokenId,
         targetTokenId,
         affectedLayerIds,
+        scope,
       },
     });
   };
 
-  const rollbackToCheckpoint = (checkpointId: string) => {
+  const applySuggestedStyles = (assignments: Array<{ layerId: string; styleId: string }>) => {
     sendMessage({
-      type: 'ROLLBACK_TO_CHECKPOINT',
+      type: 'APPLY_SUGGESTED_STYLES',
       payload: {
-        checkpointId,
+        assignments,
       },
     });
   };
 
-  // ======================================================================
-  // Export Helpers
-  // ======================================================================
+  const migrateStyles = (mappings: Array<StyleMapping & { affectedLayerIds: string[] }>) => {
+    sendMessage({
+      type: 'MIGRATE_STYLES',
+      payload: {
+        mappings,
+      },
+    });
+  };
+
+  const remapTokens = (mappings: Array<TokenMapping & { affectedLayerIds: string[] }>) => {
+    sendMessage({
+      type: 'REMAP_TOKENS',
+      payload: {
+        mappings,
+      },
+    });
+  };
+
+  const bindTokens = (bindings: TokenValueBinding[]) => {
+    sendMessage({
+      type: 'BIND_TOKENS',
+      payload: {
+        bindings,
+      },
+    });
+  };
+
+  const cleanupTokens = (
+    tokenIds: string[],
+    action: TokenCleanupAction,
+    includePublished: boolean
+  ) => {
+    sendMessage({
+      type: 'CLEANUP_TOKENS',
+      payload: {
+        tokenIds,
+        action,
+        includePublished,
+      },
+    });
+  };
 
-  const exportPDF = (auditResult: any) => {
+  const restoreTokenBackup = (backup: TokenCleanupBackup) => {
     sendMessage({
-      type: 'EXPORT_PDF',
+      type: 'RESTORE_TOKEN_BACKUP',
       payload: {
-        auditResult,
+        backup,
+      },
+    });
+  };
+
+  const cleanupStyles = (
+    styleIds: string[],
+    action: StyleCleanupAction,
+    includePublished: boolean
+  ) => {
+    sendMessage({
+      type: 'CLEANUP_STYLES',
+      payload: {
+        styleIds,
+        action,
+        includePublished,
+      },
+    });
+  };
+
+  const restoreStyleBackup = (backup: StyleCleanupBackup) => {
+    sendMessage({
+      type: 'RESTORE_STYLE_BACKUP',
+      payload: {
+        backup,
+      },
+    });
+  };
+
+  const rollbackToCheckpoint = (checkpointId: string) => {
+    sendMessage({
+      type: 'ROLLBACK_TO_CHECKPOINT',
+      payload: {
+        checkpointId,
       },
     });
   };
@@ -328,11 +414,16 @@ export function useMessageHandler() {
     // Replacement operations
     replaceStyle,
     replaceToken,
+    applySuggestedStyles,
+    migrateStyles,
+    remapTokens,
+    bindTokens,
+    cleanupTokens,
+    restoreTokenBackup,
+    cleanupStyles,
+    restoreStyleBackup,
     rollbackToCheckpoint,
 
-    // Export
-    exportPDF,
-
     // Navigation
     navigateToLayer,
   };
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from 'react';
+import type {
+  MainToUIMessage,
+  ReplacementDryRunReport,
+  ReplacementScope,
+  StyleReplacementLayerOptions,
+  UIToMainMessage,
+} from '@/shared/types';
+
+/**
+ * Replacement dry-run hook
+ *
+ * Sends a style or token replacement with dryRun set and keeps the latest
+ * report. Dry runs never touch useReplacementState: nothing is written and
+ * no checkpoint is created, so there is no progress to track.
+ */
+export function useReplacementDryRun() {
+  const [report, setReport] = useState<ReplacementDryRunReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const msg = event.data.pluginMessage as MainToUIMessage;
+      if (msg?.type === 'REPLACEMENT_DRY_RUN_COMPLETE') {
+        setReport(msg.payload.report);
+        setIsRunning(false);
+      } else if (msg?.type === 'REPLACEMENT_DRY_RUN_ERROR') {
+        setError(msg.payload.error);
+        setIsRunning(false);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const start = useCallback((message: UIToMainMessage) => {
+    setReport(null);
+    setError(null);
+    setIsRunning(true);
+    sendMessage(message);
+  }, []);
+
+  const runStyleDryRun = useCallback(
+    (
+      sourceStyleId: string,
+      targetStyleId: string,
+      affectedLayerIds: string[],
+      layerOptions: StyleReplacementLayerOptions = {},
+      scope?: ReplacementScope
+    ) => {
+      start({
+        type: 'REPLACE_STYLE',
+        payload: {
+          sourceStyleId,
+          targetStyleId,
+          affectedLayerIds,
+          ...layerOptions,
+          scope,
+          dryRun: true,
+        },
+      });
+    },
+    [start]
+  );
+
+  const runTokenDryRun = useCallback(
+    (
+      sourceTokenId: string,
+      targetTokenId: string,
+      affectedLayerIds: string[],
+      scope?: ReplacementScope
+    ) => {
+      start({
+        type: 'REPLACE_TOKEN',
+        payload: { sourceTokenId, targetTokenId, affectedLayerIds, scope, dryRun: true },
+      });
+    },
+    [start]
+  );
+
+  const clear = useCallback(() => {
+    setReport(null);
+    setError(null);
+    setIsRunning(false);
+  }, []);
+
+  return { report, error, isRunning, runStyleDryRun, runTokenDryRun, clear };
+}
+
+function sendMessage(message: UIToMainMessage) {
+  parent.postMessage({ pluginMessage: message }, '*');
+}
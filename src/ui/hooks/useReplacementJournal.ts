@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { MainToUIMessage, ReplacementJournalEntry, UIToMainMessage } from '@/shared/types';
+
+/**
+ * Undo journal hook
+ *
+ * Loads the document's log of replacement operations (newest first) and
+ * keeps it current: the main context resends it whenever an operation ends
+ * or is reverted. Reverting runs through the regular replacement flow, so
+ * progress and results arrive via useReplacementState.
+ */
+export function useReplacementJournal() {
+  const [entries, setEntries] = useState<ReplacementJournalEntry[]>([]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const msg = event.data.pluginMessage as MainToUIMessage;
+      if (msg?.type !== 'REPLACEMENT_JOURNAL_LOADED') return;
+      setEntries(msg.payload.entries);
+    };
+
+    window.addEventListener('message', handleMessage);
+    sendMessage({ type: 'GET_REPLACEMENT_JOURNAL' });
+
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const revertOperation = useCallback((entryId: string) => {
+    sendMessage({ type: 'REVERT_OPERATION', payload: { entryId } });
+  }, []);
+
+  return { entries, revertOperation };
+}
+
+function sendMessage(message: UIToMainMessage) {
+  parent.postMessage({ pluginMessage: message }, '*');
+}
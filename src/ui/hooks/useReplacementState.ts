@@ -1,5 +1,11 @@
 import { useState, useEffect } from 'react';
-import type { ReplacementState, ReplacementResult } from '@/shared/types';
+import type {
+  ReplacementState,
+  ReplacementResult,
+  StyleCleanupBackup,
+  StyleMigrationPairResult,
+  TokenCleanupBackup,
+} from '@/shared/types';
 
 /**
  * Replacement state store using React hooks with 7-state machine
@@ -36,6 +42,9 @@ let failedLayersCount = 0;
 let checkpointTitle: string | null = null;
 let error: string | null = null;
 let result: ReplacementResult | null = null;
+let migrationResults: StyleMigrationPairResult[] | null = null; // Per-pair results of a style migration
+let tokenBackup: TokenCleanupBackup | null = null; // Variables removed by a token cleanup
+let styleBackup: StyleCleanupBackup | null = null; // Text styles deleted by a style cleanup
 
 const listeners = new Set<() => void>();
 
@@ -69,6 +78,9 @@ export function useReplacementState() {
     checkpointTitle,
     error,
     result,
+    migrationResults,
+    tokenBackup,
+    styleBackup,
 
     // Computed
     isReplacing: replacementState !== 'idle' && replacementState !== 'complete' && replacementState !== 'error',
@@ -139,6 +151,21 @@ export function useReplacementState() {
       notifyListeners();
     },
 
+    setMigrationResults: (value: StyleMigrationPairResult[] | null) => {
+      migrationResults = value;
+      notifyListeners();
+    },
+
+    setTokenBackup: (value: TokenCleanupBackup | null) => {
+      tokenBackup = value;
+      notifyListeners();
+    },
+
+    setStyleBackup: (value: StyleCleanupBackup | null) => {
+      styleBackup = value;
+      notifyListeners();
+    },
+
     reset: () => {
       replacementState = 'idle';
       operationType = null;
@@ -151,6 +178,9 @@ export function useReplacementState() {
       checkpointTitle = null;
       error = null;
       result = null;
+      migrationResults = null;
+      tokenBackup = null;
+      styleBackup = null;
       notifyListeners();
     },
   };
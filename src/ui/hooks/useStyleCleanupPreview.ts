@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { MainToUIMessage, StyleCleanupPreview, UIToMainMessage } from '@/shared/types';
+
+/**
+ * Style cleanup preview hook
+ *
+ * Asks the main thread how many layers apply each style across the whole
+ * document and whether it is published, keyed by style ID. Nothing is
+ * written, so like dry runs this never touches useReplacementState.
+ */
+export function useStyleCleanupPreview() {
+  const [previews, setPreviews] = useState<Map<string, StyleCleanupPreview>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const msg = event.data.pluginMessage as MainToUIMessage;
+      if (msg?.type === 'STYLE_CLEANUP_PREVIEW') {
+        setPreviews(new Map(msg.payload.previews.map((preview) => [preview.styleId, preview])));
+        setIsLoading(false);
+      } else if (msg?.type === 'STYLE_CLEANUP_PREVIEW_ERROR') {
+        setError(msg.payload.error);
+        setIsLoading(false);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const requestPreview = useCallback((styleIds: string[]) => {
+    setError(null);
+    if (styleIds.length === 0) {
+      setPreviews(new Map());
+      return;
+    }
+    setIsLoading(true);
+    sendMessage({ type: 'PREVIEW_STYLE_CLEANUP', payload: { styleIds } });
+  }, []);
+
+  const clear = useCallback(() => {
+    setPreviews(new Map());
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  return { previews, error, isLoading, requestPreview, clear };
+}
+
+function sendMessage(message: UIToMainMessage) {
+  parent.postMessage({ pluginMessage: message }, '*');
+}
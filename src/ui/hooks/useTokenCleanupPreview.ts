@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { MainToUIMessage, TokenCleanupPreview, UIToMainMessage } from '@/shared/types';
+
+/**
+ * Token cleanup preview hook
+ *
+ * Asks the main thread what still references each variable anywhere in the
+ * document, on layers of any type and in any local style, and whether it is
+ * published, keyed by variable ID. Nothing is written, so like dry runs this
+ * never touches useReplacementState.
+ */
+export function useTokenCleanupPreview() {
+  const [previews, setPreviews] = useState<Map<string, TokenCleanupPreview>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const msg = event.data.pluginMessage as MainToUIMessage;
+      if (msg?.type === 'TOKEN_CLEANUP_PREVIEW') {
+        setPreviews(new Map(msg.payload.previews.map((preview) => [preview.tokenId, preview])));
+        setIsLoading(false);
+      } else if (msg?.type === 'TOKEN_CLEANUP_PREVIEW_ERROR') {
+        setError(msg.payload.error);
+        setIsLoading(false);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const requestPreview = useCallback((tokenIds: string[]) => {
+    setError(null);
+    if (tokenIds.length === 0) {
+      setPreviews(new Map());
+      return;
+    }
+    setIsLoading(true);
+    sendMessage({ type: 'PREVIEW_TOKEN_CLEANUP', payload: { tokenIds } });
+  }, []);
+
+  const clear = useCallback(() => {
+    setPreviews(new Map());
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  return { previews, error, isLoading, requestPreview, clear };
+}
+
+function sendMessage(message: UIToMainMessage) {
+  parent.postMessage({ pluginMessage: message }, '*');
+}
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from 'react';
+import type {
+  MainToUIMessage,
+  TokenMapping,
+  TokenRemapPairPreview,
+  UIToMainMessage,
+} from '@/shared/types';
+
+/**
+ * Token remap preview hook
+ *
+ * Asks the main thread to compare the per-mode values of each remap pair and
+ * keeps the latest previews by source token. Nothing is written, so like dry
+ * runs this never touches useReplacementState.
+ */
+export function useTokenRemapPreview() {
+  const [previews, setPreviews] = useState<Map<string, TokenRemapPairPreview>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const msg = event.data.pluginMessage as MainToUIMessage;
+      if (msg?.type === 'TOKEN_REMAP_PREVIEW') {
+        setPreviews(
+          new Map(msg.payload.previews.map((preview) => [preview.sourceTokenId, preview]))
+        );
+        setIsLoading(false);
+      } else if (msg?.type === 'TOKEN_REMAP_PREVIEW_ERROR') {
+        setError(msg.payload.error);
+        setIsLoading(false);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const requestPreview = useCallback((mappings: TokenMapping[]) => {
+    setError(null);
+    if (mappings.length === 0) {
+      setPreviews(new Map());
+      return;
+    }
+    setIsLoading(true);
+    sendMessage({ type: 'PREVIEW_TOKEN_REMAP', payload: { mappings } });
+  }, []);
+
+  const clear = useCallback(() => {
+    setPreviews(new Map());
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  return { previews, error, isLoading, requestPreview, clear };
+}
+
+function sendMessage(message: UIToMainMessage) {
+  parent.postMessage({ pluginMessage: message }, '*');
+}
@@ -0,0 +1,202 @@
+/**
+ * Audit Delta - Merge Live Re-Audit Updates
+ *
+ * The main context re-processes only the layers touched by a document edit
+ * and sends them as a StyleAuditDelta. Layers are replaced or removed by ID,
+ * style and token usage is adjusted by the difference between the previous
+ * and updated layers, and metrics are updated incrementally rather than
+ * recalculated over every layer.
+ */
+
+import type {
+  DesignToken,
+  LibrarySource,
+  StyleAuditDelta,
+  StyleGovernanceAuditResult,
+  TextLayer,
+  TextStyle,
+} from '@/shared/types';
+import { updateMetricsIncremental } from './metricsCalculator';
+import { attachStyleMatches, type StyleMatchOptions } from './styleMatcher';
+
+/**
+ * Merge a delta into a completed audit result
+ *
+ * Returns a new result; the input result is not mutated.
+ *
+ * @param matchOptions - Options for the suggestions attached to updated layers
+ */
+export function applyAuditDelta(
+  result: StyleGovernanceAuditResult,
+  delta: StyleAuditDelta,
+  matchOptions: Partial<StyleMatchOptions> = {}
+): StyleGovernanceAuditResult {
+  const updatedById = new Map(delta.updatedLayers.map((layer) => [layer.id, layer]));
+  const removedIds = new Set(delta.removedLayerIds);
+
+  // Keep document order: updated layers take their predecessor's place
+  const previousLayers: TextLayer[] = [];
+  const layers: TextLayer[] = [];
+  const placedIds = new Set<string>();
+
+  for (const layer of result.layers) {
+    const updated = updatedById.get(layer.id);
+    if (updated) {
+      previousLayers.push(layer);
+      layers.push(updated);
+      placedIds.add(layer.id);
+    } else if (removedIds.has(layer.id)) {
+      previousLayers.push(layer);
+    } else {
+      layers.push(layer);
+    }
+  }
+
+  // Layers not in the previous result were created by the edit
+  for (const layer of delta.updatedLayers) {
+    if (!placedIds.has(layer.id)) {
+      layers.push(layer);
+    }
+  }
+
+  const styles = mergeStyles(
+    result.styles,
+    delta.updatedStyles,
+    previousLayers,
+    delta.updatedLayers
+  );
+  const tokens = mergeTokens(
+    result.tokens,
+    delta.updatedTokens,
+    previousLayers,
+    delta.updatedLayers
+  );
+  const libraries = mergeLibraries(result.libraries, delta.updatedLibraries);
+
+  // Suggestions are only needed for the layers that changed
+  attachStyleMatches(delta.updatedLayers, styles, matchOptions);
+
+  return {
+    ...result,
+    layers,
+    styles,
+    tokens,
+    libraries,
+    styledLayers: layers.filter((layer) => layer.assignmentStatus !== 'unstyled'),
+    unstyledLayers: layers.filter((layer) => layer.assignmentStatus === 'unstyled'),
+    totalTextLayers: layers.length,
+    metrics: updateMetricsIncremental(
+      { ...result.metrics, totalTokenCount: tokens.length },
+      delta.updatedLayers,
+      layers.length,
+      previousLayers
+    ),
+  };
+}
+
+// ============================================================================
+// Entity Merging
+// ============================================================================
+
+/**
+ * Refresh style properties and shift usage from previous to updated layers
+ *
+ * The processor only sees the changed layers, so usage fields on delta
+ * styles are ignored in favour of the counts already in the result.
+ */
+function mergeStyles(
+  styles: TextStyle[],
+  updatedStyles: TextStyle[],
+  previousLayers: TextLayer[],
+  updatedLayers: TextLayer[]
+): TextStyle[] {
+  const usageDelta = new Map<string, number>();
+  for (const layer of previousLayers) {
+    if (layer.styleId) usageDelta.set(layer.styleId, (usageDelta.get(layer.styleId) ?? 0) - 1);
+  }
+  for (const layer of updatedLayers) {
+    if (layer.styleId) usageDelta.set(layer.styleId, (usageDelta.get(layer.styleId) ?? 0) + 1);
+  }
+
+  const updatedById = new Map(updatedStyles.map((style) => [style.id, style]));
+  const merged = styles.map((style) => {
+    const updated = updatedById.get(style.id);
+    updatedById.delete(style.id);
+    return {
+      ...(updated ?? style),
+      usageCount: Math.max(0, style.usageCount + (usageDelta.get(style.id) ?? 0)),
+      pageDistribution: style.pageDistribution,
+      componentUsage: style.componentUsage,
+    };
+  });
+
+  // Styles first used by the edit
+  for (const style of updatedById.values()) {
+    merged.push({ ...style, usageCount: Math.max(0, usageDelta.get(style.id) ?? 0) });
+  }
+
+  return merged;
+}
+
+/**
+ * Refresh token values and move bindings from previous to updated layers
+ */
+function mergeTokens(
+  tokens: DesignToken[],
+  updatedTokens: DesignToken[],
+  previousLayers: TextLayer[],
+  updatedLayers: TextLayer[]
+): DesignToken[] {
+  const changedLayerIds = new Set(previousLayers.map((layer) => layer.id));
+  const bindingDelta = new Map<string, number>();
+  for (const layer of previousLayers) {
+    for (const binding of layer.tokens) {
+      bindingDelta.set(binding.tokenId, (bindingDelta.get(binding.tokenId) ?? 0) - 1);
+    }
+  }
+
+  const boundLayerIds = new Map<string, string[]>();
+  for (const layer of updatedLayers) {
+    changedLayerIds.add(layer.id);
+    for (const binding of layer.tokens) {
+      bindingDelta.set(binding.tokenId, (bindingDelta.get(binding.tokenId) ?? 0) + 1);
+      const layerIds = boundLayerIds.get(binding.tokenId) ?? [];
+      if (!layerIds.includes(layer.id)) layerIds.push(layer.id);
+      boundLayerIds.set(binding.tokenId, layerIds);
+    }
+  }
+
+  const updatedById = new Map(updatedTokens.map((token) => [token.id, token]));
+  const mergeToken = (token: DesignToken, base?: DesignToken): DesignToken => {
+    if (!bindingDelta.has(token.id)) return token;
+
+    const unchangedLayerIds = base ? base.layerIds.filter((id) => !changedLayerIds.has(id)) : [];
+    return {
+      ...token,
+      usageCount: Math.max(0, (base?.usageCount ?? 0) + (bindingDelta.get(token.id) ?? 0)),
+      layerIds: [...unchangedLayerIds, ...(boundLayerIds.get(token.id) ?? [])],
+    };
+  };
+
+  const knownIds = new Set(tokens.map((token) => token.id));
+  const merged = tokens.map((token) => mergeToken(updatedById.get(token.id) ?? token, token));
+
+  // Tokens first bound by the edit
+  for (const token of updatedTokens) {
+    if (!knownIds.has(token.id)) merged.push(mergeToken(token));
+  }
+
+  return merged;
+}
+
+/**
+ * Add libraries first referenced by the edit (deduplicated by ID)
+ */
+function mergeLibraries(
+  libraries: LibrarySource[],
+  updatedLibraries: LibrarySource[]
+): LibrarySource[] {
+  const knownIds = new Set(libraries.map((library) => library.id));
+  const added = updatedLibraries.filter((library) => !knownIds.has(library.id));
+  return added.length > 0 ? [...libraries, ...added] : libraries;
+}
@@ -0,0 +1,377 @@
+/**
+ * Audit Diff - Compare Two Audits
+ *
+ * Compares a baseline audit with a later one (a saved snapshot, the current
+ * audit, or an audit JSON exported from another file or branch) and reports
+ * what changed for typography governance: style usage, layer styling status,
+ * libraries and token adoption per collection.
+ *
+ * Layers are matched by node ID, which Figma preserves between a main file
+ * and its branches. Snapshots do not keep layers, so layer changes are only
+ * available when both sides are full audits. Styles are matched by ID within
+ * a document; across documents, where IDs differ, by style key and then name.
+ */
+
+import type { AuditSnapshot, StyleGovernanceAuditResult, TextLayer } from '@/shared/types';
+import { createAuditSnapshot } from './auditSnapshot';
+import { buildExportFilename, toDate } from './exportUtils';
+
+type AssignmentStatus = TextLayer['assignmentStatus'];
+type StyleUsage = AuditSnapshot['styleUsage'][number];
+
+/**
+ * One side of a comparison, normalised from a snapshot or a full audit
+ */
+export interface AuditDiffSource {
+  label: string;
+  snapshot: AuditSnapshot;
+  /** Present only for full audits */
+  layers?: Array<{
+    id: string;
+    name: string;
+    pageName: string;
+    assignmentStatus: AssignmentStatus;
+    styleName?: string;
+  }>;
+}
+
+export interface StyleUsageChange {
+  styleId: string;
+  styleName: string;
+  before: number;
+  after: number;
+  change: number;
+}
+
+export interface LayerStatusChange {
+  layerId: string;
+  layerName: string;
+  pageName: string;
+  before: AssignmentStatus;
+  after: AssignmentStatus;
+  styleName?: string;
+}
+
+export interface NumericChange {
+  label: string;
+  before: number;
+  after: number;
+  change: number;
+  /** Whether an increase is an improvement (drives review colouring) */
+  higherIsBetter: boolean;
+}
+
+export interface AuditDiff {
+  base: { label: string; documentName: string; timestamp: string };
+  compare: { label: string; documentName: string; timestamp: string };
+  metrics: NumericChange[];
+  styles: {
+    added: StyleUsageChange[];
+    removed: StyleUsageChange[];
+    changed: StyleUsageChange[];
+  };
+  /** null when either side is a snapshot without layers */
+  layers: {
+    becameUnstyled: LayerStatusChange[];
+    becameStyled: LayerStatusChange[];
+  } | null;
+  libraries: { added: string[]; removed: string[] } | null;
+  tokenCollections: NumericChange[] | null;
+}
+
+/** Metrics summarised at the top of a diff */
+const DIFF_METRICS: Array<{
+  label: string;
+  key: keyof AuditSnapshot['metrics'];
+  higherIsBetter: boolean;
+}> = [
+  { label: 'Style Adoption %', key: 'styleAdoptionRate', higherIsBetter: true },
+  { label: 'Token Adoption %', key: 'tokenAdoptionRate', higherIsBetter: true },
+  { label: 'Fully Styled Layers', key: 'fullyStyledCount', higherIsBetter: true },
+  { label: 'Partially Styled Layers', key: 'partiallyStyledCount', higherIsBetter: false },
+  { label: 'Unstyled Layers', key: 'unstyledCount', higherIsBetter: false },
+  { label: 'Deprecated Style Usage', key: 'deprecatedStyleCount', higherIsBetter: false },
+  { label: 'Token Bindings', key: 'totalTokenBindings', higherIsBetter: true },
+];
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+/**
+ * Build a comparison source from a full audit result
+ */
+export function sourceFromAuditResult(
+  result: StyleGovernanceAuditResult,
+  label: string
+): AuditDiffSource {
+  return {
+    label,
+    snapshot: createAuditSnapshot(result),
+    layers: result.layers.map((layer) => ({
+      id: layer.id,
+      name: layer.name,
+      pageName: layer.pageName,
+      assignmentStatus: layer.assignmentStatus,
+      styleName: layer.styleName,
+    })),
+  };
+}
+
+/**
+ * Build a comparison source from a persisted snapshot
+ */
+export function sourceFromSnapshot(snapshot: AuditSnapshot, label?: string): AuditDiffSource {
+  return {
+    label: label ?? toDate(snapshot.timestamp).toLocaleDateString(),
+    snapshot,
+  };
+}
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+/**
+ * Compare a baseline audit with a later audit
+ */
+export function diffAudits(base: AuditDiffSource, compare: AuditDiffSource): AuditDiff {
+  const before = base.snapshot;
+  const after = compare.snapshot;
+
+  return {
+    base: { label: base.label, documentName: before.documentName, timestamp: before.timestamp },
+    compare: {
+      label: compare.label,
+      documentName: after.documentName,
+      timestamp: after.timestamp,
+    },
+    metrics: DIFF_METRICS.map(({ label, key, higherIsBetter }) =>
+      toNumericChange(label, before.metrics[key], after.metrics[key], higherIsBetter)
+    ),
+    styles: diffStyleUsage(
+      before.styleUsage,
+      after.styleUsage,
+      before.documentId !== after.documentId
+    ),
+    layers: base.layers && compare.layers ? diffLayerStatus(base.layers, compare.layers) : null,
+    libraries:
+      before.libraryNames && after.libraryNames
+        ? {
+            added: after.libraryNames.filter((name) => !before.libraryNames?.includes(name)),
+            removed: before.libraryNames.filter((name) => !after.libraryNames?.includes(name)),
+          }
+        : null,
+    tokenCollections:
+      before.tokenBindingsByCollection && after.tokenBindingsByCollection
+        ? diffCounts(before.tokenBindingsByCollection, after.tokenBindingsByCollection)
+        : null,
+  };
+}
+
+/**
+ * Whether a diff found any change worth reviewing
+ */
+export function hasAuditChanges(diff: AuditDiff): boolean {
+  return (
+    diff.metrics.some((metric) => metric.change !== 0) ||
+    diff.styles.added.length + diff.styles.removed.length + diff.styles.changed.length > 0 ||
+    (diff.layers?.becameStyled.length ?? 0) + (diff.layers?.becameUnstyled.length ?? 0) > 0 ||
+    (diff.libraries?.added.length ?? 0) + (diff.libraries?.removed.length ?? 0) > 0 ||
+    (diff.tokenCollections?.some((collection) => collection.change !== 0) ?? false)
+  );
+}
+
+function diffStyleUsage(
+  before: StyleUsage[],
+  after: StyleUsage[],
+  acrossDocuments: boolean
+): AuditDiff['styles'] {
+  const previousByStyle = matchStyleUsage(before, after, acrossDocuments);
+  const matched = new Set(previousByStyle.values());
+  const added: StyleUsageChange[] = [];
+  const removed: StyleUsageChange[] = [];
+  const changed: StyleUsageChange[] = [];
+
+  for (const style of after) {
+    const previous = previousByStyle.get(style);
+    const change = {
+      styleId: style.styleId,
+      styleName: style.styleName,
+      before: previous?.usageCount ?? 0,
+      after: style.usageCount,
+      change: style.usageCount - (previous?.usageCount ?? 0),
+    };
+
+    if (!previous) {
+      added.push(change);
+    } else if (change.change !== 0) {
+      changed.push(change);
+    }
+  }
+
+  for (const style of before) {
+    if (!matched.has(style)) {
+      removed.push({
+        styleId: style.styleId,
+        styleName: style.styleName,
+        before: style.usageCount,
+        after: 0,
+        change: -style.usageCount,
+      });
+    }
+  }
+
+  const byMagnitude = (a: StyleUsageChange, b: StyleUsageChange) =>
+    Math.abs(b.change) - Math.abs(a.change) || a.styleName.localeCompare(b.styleName);
+
+  return {
+    added: added.sort(byMagnitude),
+    removed: removed.sort(byMagnitude),
+    changed: changed.sort(byMagnitude),
+  };
+}
+
+/**
+ * Pair each later style with its baseline entry
+ *
+ * Style IDs are specific to a document, so across documents styles left
+ * unmatched by ID are paired by library key, then by name.
+ */
+function matchStyleUsage(
+  before: StyleUsage[],
+  after: StyleUsage[],
+  acrossDocuments: boolean
+): Map<StyleUsage, StyleUsage> {
+  const identities: Array<(style: StyleUsage) => string | undefined> = [
+    (style) => style.styleId,
+    ...(acrossDocuments
+      ? [
+          (style: StyleUsage) => style.styleKey,
+          (style: StyleUsage) => style.styleName.trim().toLowerCase(),
+        ]
+      : []),
+  ];
+  const matches = new Map<StyleUsage, StyleUsage>();
+  const unmatched = new Set(before);
+
+  for (const identify of identities) {
+    const byIdentity = new Map<string, StyleUsage>();
+    for (const style of unmatched) {
+      const identity = identify(style);
+      if (identity && !byIdentity.has(identity)) byIdentity.set(identity, style);
+    }
+
+    for (const style of after) {
+      const identity = identify(style);
+      const previous = identity ? byIdentity.get(identity) : undefined;
+      if (matches.has(style) || !previous || !unmatched.has(previous)) continue;
+      matches.set(style, previous);
+      unmatched.delete(previous);
+    }
+  }
+
+  return matches;
+}
+
+function diffLayerStatus(
+  before: NonNullable<AuditDiffSource['layers']>,
+  after: NonNullable<AuditDiffSource['layers']>
+): NonNullable<AuditDiff['layers']> {
+  const beforeById = new Map(before.map((layer) => [layer.id, layer]));
+  const becameUnstyled: LayerStatusChange[] = [];
+  const becameStyled: LayerStatusChange[] = [];
+
+  for (const layer of after) {
+    const previous = beforeById.get(layer.id);
+    if (!previous) continue;
+
+    const wasUnstyled = previous.assignmentStatus === 'unstyled';
+    const isUnstyled = layer.assignmentStatus === 'unstyled';
+    if (wasUnstyled === isUnstyled) continue;
+
+    const change: LayerStatusChange = {
+      layerId: layer.id,
+      layerName: layer.name,
+      pageName: layer.pageName,
+      before: previous.assignmentStatus,
+      after: layer.assignmentStatus,
+      styleName: isUnstyled ? previous.styleName : layer.styleName,
+    };
+    (isUnstyled ? becameUnstyled : becameStyled).push(change);
+  }
+
+  return { becameUnstyled, becameStyled };
+}
+
+function diffCounts(before: Record<string, number>, after: Record<string, number>) {
+  const names = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  return names.map((name) => toNumericChange(name, before[name] ?? 0, after[name] ?? 0, true));
+}
+
+function toNumericChange(
+  label: string,
+  before: number,
+  after: number,
+  higherIsBetter: boolean
+): NumericChange {
+  // Rates carry floating point noise; keep changes readable
+  return { label, before, after, change: Math.round((after - before) * 100) / 100, higherIsBetter };
+}
+
+// ============================================================================
+// Audit JSON (comparing across files)
+// ============================================================================
+
+/**
+ * Serialize an audit so it can be loaded as a comparison baseline elsewhere
+ */
+export function generateAuditJSON(result: StyleGovernanceAuditResult): {
+  filename: string;
+  content: string;
+} {
+  return {
+    filename: buildExportFilename(result.documentName, new Date(), 'json'),
+    content: JSON.stringify(result),
+  };
+}
+
+/**
+ * Parse an audit JSON export
+ *
+ * @throws Error if the file is not a Typescope audit export
+ */
+export function parseAuditJSON(content: string): StyleGovernanceAuditResult {
+  let parsed: Partial<StyleGovernanceAuditResult>;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (
+    !parsed ||
+    !Array.isArray(parsed.layers) ||
+    !Array.isArray(parsed.styles) ||
+    !Array.isArray(parsed.tokens) ||
+    !parsed.metrics
+  ) {
+    throw new Error('File is not a Typescope audit export');
+  }
+
+  return {
+    ...(parsed as StyleGovernanceAuditResult),
+    libraries: parsed.libraries ?? [],
+    timestamp: toDate(parsed.timestamp ?? new Date()),
+  };
+}
+
+/**
+ * Serialize a diff for review tools
+ */
+export function generateDiffJSON(diff: AuditDiff): { filename: string; content: string } {
+  return {
+    filename: buildExportFilename(diff.compare.documentName, new Date(), 'json', 'diff'),
+    content: JSON.stringify(diff, null, 2),
+  };
+}
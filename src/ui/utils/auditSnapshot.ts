@@ -0,0 +1,85 @@
+/**
+ * Audit Snapshot - Trend history entries
+ *
+ * Reduces a completed audit to the numbers tracked over time. Snapshots are
+ * persisted by the main context (document plugin data) and shown as the
+ * adoption trend in the analytics dashboard.
+ */
+
+import type { AuditSnapshot, StyleGovernanceAuditResult } from '@/shared/types';
+import { toDate } from './exportUtils';
+
+/**
+ * Build a snapshot from a completed audit
+ */
+export function createAuditSnapshot(result: StyleGovernanceAuditResult): AuditSnapshot {
+  const { metrics } = result;
+
+  return {
+    documentId: result.documentId,
+    documentName: result.documentName,
+    timestamp: toDate(result.timestamp).toISOString(),
+    metrics: {
+      styleAdoptionRate: metrics.styleAdoptionRate,
+      fullyStyledCount: metrics.fullyStyledCount,
+      partiallyStyledCount: metrics.partiallyStyledCount,
+      unstyledCount: metrics.unstyledCount,
+      mixedStyleCount: metrics.mixedStyleCount,
+      tokenAdoptionRate: metrics.tokenAdoptionRate,
+      tokenCoverageRate: metrics.tokenCoverageRate,
+      elementCount: metrics.elementCount,
+      elementsWithTokens: metrics.elementsWithTokens,
+      totalTokenBindings: metrics.totalTokenBindings,
+      deprecatedStyleCount: metrics.deprecatedStyleCount,
+    },
+    styleUsage: countStyleUsage(result),
+    tokenBindingsByCollection: countTokenBindingsByCollection(result),
+    libraryNames: result.libraries.map((library) => library.name).sort(),
+  };
+}
+
+/**
+ * Count layers per applied style, most used first
+ */
+function countStyleUsage(result: StyleGovernanceAuditResult): AuditSnapshot['styleUsage'] {
+  const stylesById = new Map(result.styles.map((style) => [style.id, style]));
+  const usage = new Map<string, AuditSnapshot['styleUsage'][number]>();
+
+  for (const layer of result.layers) {
+    if (!layer.styleId) continue;
+
+    const entry = usage.get(layer.styleId) ?? {
+      styleId: layer.styleId,
+      styleKey: stylesById.get(layer.styleId)?.key,
+      styleName: stylesById.get(layer.styleId)?.name ?? layer.styleName ?? 'Unknown',
+      usageCount: 0,
+    };
+    entry.usageCount++;
+    usage.set(layer.styleId, entry);
+  }
+
+  return Array.from(usage.values()).sort(
+    (a, b) => b.usageCount - a.usageCount || a.styleName.localeCompare(b.styleName)
+  );
+}
+
+/**
+ * Count token bindings on layers per variable collection
+ */
+export function countTokenBindingsByCollection(
+  result: StyleGovernanceAuditResult
+): Record<string, number> {
+  const collectionByTokenId = new Map(
+    result.tokens.map((token) => [token.id, token.collectionName])
+  );
+  const counts: Record<string, number> = {};
+
+  for (const layer of result.layers) {
+    for (const binding of layer.tokens) {
+      const collectionName = collectionByTokenId.get(binding.tokenId) ?? 'Unknown';
+      counts[collectionName] = (counts[collectionName] ?? 0) + 1;
+    }
+  }
+
+  return counts;
+}
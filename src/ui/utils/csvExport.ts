@@ -0,0 +1,402 @@
+/**
+ * CSV Export - Per-Entity Audit Sheets
+ *
+ * Flattens a StyleGovernanceAuditResult into one CSV file per entity
+ * (layers, styles, tokens, libraries) using papaparse. Audit history
+ * snapshots export to a separate trend sheet, and audit comparisons to a
+ * single diff sheet.
+ */
+
+import Papa from 'papaparse';
+import type {
+  AuditSnapshot,
+  CSVExportOptions,
+  DesignToken,
+  LibrarySource,
+  StyleGovernanceAuditResult,
+  TextLayer,
+  TextStyle,
+} from '@/shared/types';
+import type { AuditDiff } from './auditDiff';
+import { formatTokenValue } from './tokenFormatters';
+import { buildExportFilename } from './exportUtils';
+
+export type CSVEntity = 'layers' | 'styles' | 'tokens' | 'libraries';
+
+/**
+ * Generated CSV file ready for download
+ */
+export interface GeneratedCSVFile {
+  entity: CSVEntity;
+  filename: string;
+  content: string;
+  rowCount: number;
+}
+
+type CSVValue = string | number | boolean;
+
+/**
+ * Generate one CSV file per audit entity
+ *
+ * @param auditResult - Completed style governance audit
+ * @param options - Export options (header row, delimiter)
+ */
+export function generateCSVExport(
+  auditResult: StyleGovernanceAuditResult,
+  options: CSVExportOptions = {}
+): GeneratedCSVFile[] {
+  const exportTimestamp = new Date();
+
+  const sheets: Array<{ entity: CSVEntity; fields: string[]; rows: CSVValue[][] }> = [
+    { entity: 'layers', fields: LAYER_FIELDS, rows: auditResult.layers.map(toLayerRow) },
+    { entity: 'styles', fields: STYLE_FIELDS, rows: auditResult.styles.map(toStyleRow) },
+    { entity: 'tokens', fields: TOKEN_FIELDS, rows: auditResult.tokens.map(toTokenRow) },
+    {
+      entity: 'libraries',
+      fields: LIBRARY_FIELDS,
+      rows: auditResult.libraries.map(toLibraryRow),
+    },
+  ];
+
+  return sheets.map(({ entity, fields, rows }) => ({
+    entity,
+    filename: buildExportFilename(auditResult.documentName, exportTimestamp, 'csv', entity),
+    content: toCSV(fields, rows, options),
+    rowCount: rows.length,
+  }));
+}
+
+/**
+ * Generate a CSV of the audit history, one row per snapshot (oldest first)
+ *
+ * @param snapshots - Persisted audit snapshots for the document
+ * @param documentName - Used for the download filename
+ */
+export function generateTrendCSV(
+  snapshots: AuditSnapshot[],
+  documentName: string,
+  options: CSVExportOptions = {}
+): Omit<GeneratedCSVFile, 'entity'> {
+  const rows = snapshots.map(toSnapshotRow);
+
+  return {
+    filename: buildExportFilename(documentName, new Date(), 'csv', 'trend'),
+    content: toCSV(SNAPSHOT_FIELDS, rows, options),
+    rowCount: rows.length,
+  };
+}
+
+/**
+ * Generate a CSV of an audit comparison, one row per change
+ *
+ * @param diff - Comparison between a baseline and a later audit
+ */
+export function generateDiffCSV(
+  diff: AuditDiff,
+  options: CSVExportOptions = {}
+): Omit<GeneratedCSVFile, 'entity'> {
+  const rows = toDiffRows(diff);
+
+  return {
+    filename: buildExportFilename(diff.compare.documentName, new Date(), 'csv', 'diff'),
+    content: toCSV(DIFF_FIELDS, rows, options),
+    rowCount: rows.length,
+  };
+}
+
+/**
+ * Serialize rows with papaparse, honouring header and delimiter options
+ */
+function toCSV(fields: string[], rows: CSVValue[][], options: CSVExportOptions): string {
+  const { includeHeaders = true, delimiter = ',' } = options;
+
+  return Papa.unparse(
+    { fields, data: rows },
+    {
+      header: includeHeaders,
+      delimiter,
+      newline: '\r\n',
+      // Prevent spreadsheet apps from evaluating layer names such as "=SUM(...)"
+      escapeFormulae: true,
+    }
+  );
+}
+
+// ============================================================================
+// Row Builders
+// ============================================================================
+
+const LAYER_FIELDS = [
+  'Layer ID',
+  'Layer Name',
+  'Page',
+  'Parent Type',
+  'Component Path',
+  'Assignment Status',
+  'Style ID',
+  'Style Name',
+  'Style Source',
+  'Has Overrides',
+  'Overridden Properties',
+  'Font Family',
+  'Font Size',
+  'Font Weight',
+  'Line Height',
+  'Letter Spacing',
+  'Color',
+  'Tokens',
+  'Styled Ranges',
+  'Visible',
+  'Opacity',
+  'Characters',
+  'Content',
+];
+
+function toLayerRow(layer: TextLayer): CSVValue[] {
+  const overriddenProperties =
+    layer.propertyOverrides?.map((override) => override.property) ??
+    layer.overriddenProperties ??
+    [];
+
+  return [
+    layer.id,
+    layer.name,
+    layer.pageName,
+    layer.parentType,
+    layer.componentPath ?? '',
+    layer.assignmentStatus,
+    layer.styleId ?? '',
+    layer.styleName ?? '',
+    layer.styleSource ?? '',
+    layer.hasOverrides,
+    overriddenProperties.join('; '),
+    layer.fontFamily ?? '',
+    layer.fontSize ?? '',
+    layer.fontWeight ?? '',
+    formatOptional(layer.lineHeight, 'lineHeight'),
+    formatOptional(layer.letterSpacing, 'letterSpacing'),
+    formatOptional(layer.fills?.[0], 'fills'),
+    layer.tokens.map((token) => `${token.property}: ${token.tokenName}`).join('; '),
+    (layer.segments ?? [])
+      .map(
+        (segment) =>
+          `${segment.start}-${segment.end}: ${segment.styleName ?? 'No style'} (${segment.fontFamily} ${segment.fontSize}px)`
+      )
+      .join('; '),
+    layer.visible,
+    layer.opacity,
+    layer.characters,
+    layer.textContent,
+  ];
+}
+
+const STYLE_FIELDS = [
+  'Style ID',
+  'Style Name',
+  'Key',
+  'Source Type',
+  'Library',
+  'Usage Count',
+  'Pages',
+  'Main Component Usage',
+  'Instance Usage',
+  'Plain Layer Usage',
+  'Override Count',
+  'Deprecated',
+  'Font Family',
+  'Font Size',
+  'Font Weight',
+  'Line Height',
+  'Letter Spacing',
+  'Color',
+  'Tokens',
+];
+
+function toStyleRow(style: TextStyle): CSVValue[] {
+  return [
+    style.id,
+    style.name,
+    style.key,
+    style.sourceType,
+    style.libraryName,
+    style.usageCount,
+    style.pageDistribution.map((page) => `${page.pageName} (${page.layerCount})`).join('; '),
+    style.componentUsage.mainComponentCount,
+    style.componentUsage.instanceCount,
+    style.componentUsage.plainLayerCount,
+    style.componentUsage.overrideCount,
+    style.isDeprecated,
+    style.fontFamily,
+    style.fontSize,
+    style.fontWeight,
+    formatOptional(style.lineHeight, 'lineHeight'),
+    formatOptional(style.letterSpacing, 'letterSpacing'),
+    formatOptional(style.fills[0], 'fills'),
+    style.tokens.map((token) => `${token.property}: ${token.tokenName}`).join('; '),
+  ];
+}
+
+const TOKEN_FIELDS = [
+  'Token ID',
+  'Token Name',
+  'Key',
+  'Type',
+  'Collection',
+  'Mode',
+  'Value',
+  'Is Alias',
+  'Usage Count',
+  'Properties',
+];
+
+function toTokenRow(token: DesignToken): CSVValue[] {
+  return [
+    token.id,
+    token.name,
+    token.key,
+    token.type,
+    token.collectionName,
+    token.modeName,
+    formatTokenCellValue(token),
+    token.isAlias,
+    token.usageCount,
+    token.propertyTypes.join('; '),
+  ];
+}
+
+const LIBRARY_FIELDS = [
+  'Library ID',
+  'Library Name',
+  'Type',
+  'Enabled',
+  'Available',
+  'Style Count',
+  'Usage Count',
+  'Usage %',
+];
+
+function toLibraryRow(library: LibrarySource): CSVValue[] {
+  return [
+    library.id,
+    library.name,
+    library.type,
+    library.isEnabled,
+    library.isAvailable,
+    library.styleCount,
+    library.totalUsageCount,
+    Number(library.usagePercentage.toFixed(1)),
+  ];
+}
+
+const SNAPSHOT_FIELDS = [
+  'Audit Date',
+  'Total Layers',
+  'Style Adoption %',
+  'Fully Styled',
+  'Partially Styled',
+  'Mixed Styles',
+  'Unstyled',
+  'Deprecated Style Usage',
+  'Token Adoption %',
+  'Token Coverage %',
+  'Layers With Tokens',
+  'Token Bindings',
+  'Top Styles',
+];
+
+function toSnapshotRow(snapshot: AuditSnapshot): CSVValue[] {
+  const { metrics } = snapshot;
+
+  return [
+    snapshot.timestamp,
+    metrics.elementCount,
+    Number(metrics.styleAdoptionRate.toFixed(1)),
+    metrics.fullyStyledCount,
+    metrics.partiallyStyledCount,
+    metrics.mixedStyleCount,
+    metrics.unstyledCount,
+    metrics.deprecatedStyleCount,
+    Number(metrics.tokenAdoptionRate.toFixed(1)),
+    Number(metrics.tokenCoverageRate.toFixed(1)),
+    metrics.elementsWithTokens,
+    metrics.totalTokenBindings,
+    snapshot.styleUsage
+      .slice(0, 10)
+      .map((style) => `${style.styleName} (${style.usageCount})`)
+      .join('; '),
+  ];
+}
+
+const DIFF_FIELDS = ['Section', 'Item', 'Page', 'Before', 'After', 'Change'];
+
+function toDiffRows(diff: AuditDiff): CSVValue[][] {
+  const rows: CSVValue[][] = [];
+
+  for (const metric of diff.metrics) {
+    rows.push(['Metric', metric.label, '', metric.before, metric.after, metric.change]);
+  }
+
+  const styleSections = [
+    ['Style Added', diff.styles.added],
+    ['Style Removed', diff.styles.removed],
+    ['Style Usage Changed', diff.styles.changed],
+  ] as const;
+  for (const [section, changes] of styleSections) {
+    for (const style of changes) {
+      rows.push([section, style.styleName, '', style.before, style.after, style.change]);
+    }
+  }
+
+  const layerSections = [
+    ['Layer Became Unstyled', diff.layers?.becameUnstyled ?? []],
+    ['Layer Became Styled', diff.layers?.becameStyled ?? []],
+  ] as const;
+  for (const [section, changes] of layerSections) {
+    for (const layer of changes) {
+      rows.push([section, layer.layerName, layer.pageName, layer.before, layer.after, '']);
+    }
+  }
+
+  for (const name of diff.libraries?.added ?? []) {
+    rows.push(['Library Added', name, '', '', '', '']);
+  }
+  for (const name of diff.libraries?.removed ?? []) {
+    rows.push(['Library Removed', name, '', '', '', '']);
+  }
+
+  for (const collection of diff.tokenCollections ?? []) {
+    if (collection.change === 0) continue;
+    rows.push([
+      'Token Bindings',
+      collection.label,
+      '',
+      collection.before,
+      collection.after,
+      collection.change,
+    ]);
+  }
+
+  return rows;
+}
+
+// ============================================================================
+// Formatting Helpers
+// ============================================================================
+
+function formatOptional(
+  value: unknown,
+  property: 'fills' | 'lineHeight' | 'letterSpacing'
+): string {
+  return value === undefined || value === null ? '' : formatTokenValue(value, property).display;
+}
+
+function formatTokenCellValue(token: DesignToken): CSVValue {
+  const value = token.currentValue ?? token.value;
+  if (token.type === 'color') {
+    return formatOptional(value, 'fills');
+  }
+  if (typeof value === 'object' && value !== null) {
+    return JSON.stringify(value);
+  }
+  return value ?? '';
+}
@@ -0,0 +1,63 @@
+/**
+ * Export Utilities
+ *
+ * Helpers shared by the PDF and CSV exporters. Reports are generated in the UI
+ * context: the audit result already lives here, and the main sandbox can
+ * neither load the export libraries nor create Blob URLs.
+ */
+
+/**
+ * Normalize a timestamp that may have lost its Date prototype in transit
+ */
+export function toDate(value: Date | string | number): Date {
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+/**
+ * Build a download filename such as "my-file-typography-audit-2024-05-01.pdf"
+ */
+export function buildExportFilename(
+  documentName: string,
+  exportTimestamp: Date,
+  extension: string,
+  suffix?: string
+): string {
+  const slug =
+    documentName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'untitled';
+  const date = exportTimestamp.toISOString().slice(0, 10);
+  const parts = [slug, 'typography-audit', suffix, date].filter(Boolean);
+
+  return `${parts.join('-')}.${extension}`;
+}
+
+/**
+ * Trigger a browser download for in-memory file contents
+ */
+export function downloadFile(data: Uint8Array | string, filename: string, mimeType: string): void {
+  const blob = new Blob([data as BlobPart], { type: mimeType });
+  const blobUrl = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = blobUrl;
+  link.download = filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(blobUrl), 1000);
+}
+
+/**
+ * Format a byte count for display (e.g. "12.4 KB")
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
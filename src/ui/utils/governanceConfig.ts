@@ -0,0 +1,303 @@
+/**
+ * Governance Config - Shared audit and lint settings
+ *
+ * A GovernanceConfig is stored in the document (see main/utils/governanceConfig)
+ * and can be exchanged between files as JSON. Everything read from storage or
+ * an imported file is validated against GOVERNANCE_CONFIG_SCHEMA, a JSON
+ * Schema describing the exported format.
+ */
+
+import type { CoverageThreshold, GovernanceConfig } from '@/shared/types';
+import { WCAG_LEVELS } from '@/shared/contrast';
+import { buildExportFilename } from './exportUtils';
+import { DEFAULT_LINT_RULES, LINT_SEVERITIES } from './lintEngine';
+import { DEFAULT_STYLE_MATCH_OPTIONS } from './styleMatcher';
+
+/**
+ * Config used until a collaborator saves one to the document
+ */
+export const DEFAULT_GOVERNANCE_CONFIG: GovernanceConfig = {
+  version: 1,
+  thresholds: {
+    styleAdoption: { good: 80, warning: 50 },
+    tokenAdoption: { good: 80, warning: 40 },
+    tokenCoverage: { good: 60, warning: 30 },
+  },
+  allowedLibraries: [],
+  deprecatedStylePatterns: [],
+  suggestionThreshold: DEFAULT_STYLE_MATCH_OPTIONS.threshold * 100,
+  ignoredPages: [],
+  ignoredLayerNames: [],
+  lintRules: DEFAULT_LINT_RULES,
+  primitiveCollections: [],
+  semanticCollections: [],
+};
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/**
+ * The subset of JSON Schema understood by validateAgainstSchema
+ */
+export interface JSONSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  enum?: (string | number)[];
+  const?: string | number;
+  minimum?: number;
+  maximum?: number;
+  oneOf?: JSONSchema[];
+}
+
+const stringList: JSONSchema = { type: 'array', items: { type: 'string' } };
+
+const percent: JSONSchema = { type: 'number', minimum: 0, maximum: 100 };
+
+const threshold: JSONSchema = {
+  type: 'object',
+  properties: { good: percent, warning: percent },
+  required: ['good', 'warning'],
+  additionalProperties: false,
+};
+
+const pixels: JSONSchema = { type: 'number', minimum: 0 };
+
+const condition = (
+  type: string,
+  properties: Record<string, JSONSchema>,
+  optional: Record<string, JSONSchema> = {}
+): JSONSchema => ({
+  type: 'object',
+  properties: { type: { const: type }, ...properties, ...optional },
+  required: ['type', ...Object.keys(properties)],
+  additionalProperties: false,
+});
+
+export const GOVERNANCE_CONFIG_SCHEMA: JSONSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Typescope governance config',
+  type: 'object',
+  properties: {
+    version: { const: 1 },
+    thresholds: {
+      type: 'object',
+      properties: {
+        styleAdoption: threshold,
+        tokenAdoption: threshold,
+        tokenCoverage: threshold,
+      },
+      additionalProperties: false,
+    },
+    allowedLibraries: stringList,
+    deprecatedStylePatterns: stringList,
+    suggestionThreshold: percent,
+    ignoredPages: stringList,
+    ignoredLayerNames: stringList,
+    lintRules: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          severity: { enum: LINT_SEVERITIES },
+          enabled: { type: 'boolean' },
+          ignoredPages: stringList,
+          condition: {
+            oneOf: [
+              condition('require-style', { allowPartial: { type: 'boolean' } }),
+              condition('require-token', { properties: stringList }),
+              condition('disallow-library', { libraries: stringList }),
+              condition(
+                'min-line-height',
+                { ratio: { type: 'number', minimum: 0 } },
+                { maxFontSize: pixels }
+              ),
+              condition('min-font-size', { size: pixels, frames: stringList }),
+              condition('no-negative-letter-spacing', { maxFontSize: pixels }),
+              condition('min-contrast', { level: { enum: WCAG_LEVELS } }),
+              condition('disallow-overrides', { properties: stringList }),
+              condition('semantic-tokens-only', {}),
+            ],
+          },
+        },
+        required: ['id', 'name', 'severity', 'enabled', 'condition'],
+        additionalProperties: false,
+      },
+    },
+    primitiveCollections: stringList,
+    semanticCollections: stringList,
+  },
+  required: ['version'],
+  additionalProperties: false,
+};
+
+/**
+ * Validate a value against a schema
+ *
+ * @returns One message per problem, e.g. "thresholds.styleAdoption.good must be ≤ 100"
+ */
+export function validateAgainstSchema(value: unknown, schema: JSONSchema, path = ''): string[] {
+  const at = path || 'config';
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(
+      (option) => validateAgainstSchema(value, option, path).length === 0
+    );
+    return matches.length === 1 ? [] : [`${at} does not match any allowed shape`];
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    return [`${at} must be ${JSON.stringify(schema.const)}`];
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return [`${at} must be one of ${schema.enum.join(', ')}`];
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${at} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const key of schema.required ?? []) {
+        if (!(key in record)) errors.push(`${join(path, key)} is required`);
+      }
+      for (const [key, child] of Object.entries(record)) {
+        const childSchema = schema.properties?.[key];
+        if (childSchema) {
+          errors.push(...validateAgainstSchema(child, childSchema, join(path, key)));
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${join(path, key)} is not a known setting`);
+        }
+      }
+      return errors;
+    }
+    case 'array':
+      if (!Array.isArray(value)) return [`${at} must be a list`];
+      return schema.items
+        ? value.flatMap((item, index) =>
+            validateAgainstSchema(item, schema.items as JSONSchema, `${at}[${index}]`)
+          )
+        : [];
+    case 'string':
+    case 'boolean':
+      return typeof value === schema.type ? [] : [`${at} must be a ${schema.type}`];
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || isNaN(value)) return [`${at} must be a number`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        return [`${at} must be a whole number`];
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return [`${at} must be ≥ ${schema.minimum}`];
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return [`${at} must be ≤ ${schema.maximum}`];
+      }
+      return [];
+    }
+    default:
+      return [];
+  }
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+// ============================================================================
+// Parsing / Export
+// ============================================================================
+
+/**
+ * Validate a stored or imported config and fill in missing settings from the defaults
+ *
+ * @throws Error listing every problem when the config is invalid
+ */
+export function parseGovernanceConfig(value: unknown): GovernanceConfig {
+  const errors = validateAgainstSchema(value, GOVERNANCE_CONFIG_SCHEMA);
+
+  // Threshold bounds are relational, which the schema cannot express
+  const thresholds = (value as Partial<GovernanceConfig> | null)?.thresholds ?? {};
+  for (const [name, bounds] of Object.entries(thresholds) as [string, CoverageThreshold][]) {
+    if (bounds && bounds.warning > bounds.good) {
+      errors.push(`thresholds.${name}.warning must not exceed thresholds.${name}.good`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid governance config: ${errors.join('; ')}`);
+  }
+
+  const config = value as Partial<GovernanceConfig>;
+  return {
+    ...DEFAULT_GOVERNANCE_CONFIG,
+    ...config,
+    version: 1,
+    thresholds: { ...DEFAULT_GOVERNANCE_CONFIG.thresholds, ...config.thresholds },
+  };
+}
+
+/**
+ * Parse a governance config JSON file
+ *
+ * @throws Error if the file is not valid JSON or not a valid config
+ */
+export function parseGovernanceConfigJSON(content: string): GovernanceConfig {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  return parseGovernanceConfig(parsed);
+}
+
+/**
+ * Serialize a config for sharing with other files
+ */
+export function generateGovernanceConfigJSON(
+  config: GovernanceConfig,
+  documentName: string
+): { filename: string; content: string } {
+  return {
+    filename: buildExportFilename(documentName, new Date(), 'json', 'governance'),
+    content: JSON.stringify(config, null, 2),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Colour variant for a coverage percentage
+ */
+export function getCoverageVariant(
+  value: number,
+  threshold: CoverageThreshold
+): 'success' | 'warning' | 'danger' {
+  if (value >= threshold.good) return 'success';
+  if (value >= threshold.warning) return 'warning';
+  return 'danger';
+}
+
+/**
+ * Whether styles from a library are allowed (every library is when the list is empty)
+ */
+export function isLibraryAllowed(libraryName: string, allowedLibraries: string[]): boolean {
+  if (allowedLibraries.length === 0 || libraryName === 'Local') return true;
+
+  const name = libraryName.trim().toLowerCase();
+  return allowedLibraries.some((library) => library.trim().toLowerCase() === name);
+}
@@ -0,0 +1,531 @@
+/**
+ * Lint Engine - Rule-Based Typography Linting
+ *
+ * Evaluates audited TextLayers against declarative LintRules and reports
+ * one LintViolation per broken rule per layer. Rules only read data the audit
+ * already collected (assignment status, styleSource, token bindings,
+ * propertyOverrides, segments and contrast samples), so linting never touches
+ * the document.
+ *
+ * Typography rules (font size, line height, letter spacing) also run on the
+ * text styles themselves: fully styled layers carry no typography of their
+ * own, and a style that breaks a rule is fixed once at the source. So does
+ * the token layering rule, which needs the token inventory (TokenLayering).
+ */
+
+import type {
+  LetterSpacing,
+  LineHeight,
+  LintRule,
+  LintRuleCondition,
+  LintSeverity,
+  LintStyleViolation,
+  LintViolation,
+  TextLayer,
+  TextStyle,
+  TokenBinding,
+  WcagLevel,
+} from '@/shared/types';
+import { checkContrast, formatContrastRatio, getRequiredContrast } from '@/shared/contrast';
+import { matchesAnyGlob } from '@/shared/glob';
+import { findPrimitiveBinding, type TokenLayering } from './tokenLayering';
+
+/**
+ * Rules used until the user configures their own
+ */
+export const DEFAULT_LINT_RULES: LintRule[] = [
+  {
+    id: 'no-unstyled-text',
+    name: 'No unstyled text outside drafts',
+    severity: 'error',
+    enabled: true,
+    condition: { type: 'require-style', allowPartial: true },
+    ignoredPages: ['Drafts*', '/Drafts*'],
+  },
+  {
+    id: 'font-size-token',
+    name: 'Font size must be bound to a token',
+    severity: 'warning',
+    enabled: false,
+    condition: { type: 'require-token', properties: ['fontSize'] },
+  },
+  {
+    id: 'no-disallowed-library',
+    name: 'No styles from disallowed libraries',
+    severity: 'error',
+    enabled: false,
+    condition: { type: 'disallow-library', libraries: [] },
+  },
+  {
+    id: 'min-line-height',
+    name: 'Line height at least 1.2× font size',
+    severity: 'warning',
+    enabled: true,
+    condition: { type: 'min-line-height', ratio: 1.2 },
+  },
+  {
+    id: 'body-line-height',
+    name: 'Body text line height at least 1.5×',
+    severity: 'warning',
+    enabled: true,
+    condition: { type: 'min-line-height', ratio: 1.5, maxFontSize: 18 },
+  },
+  {
+    id: 'min-font-size-mobile',
+    name: 'Text at least 12px on mobile frames',
+    severity: 'warning',
+    enabled: true,
+    condition: { type: 'min-font-size', size: 12, frames: ['*mobile*', '*iphone*', '*android*'] },
+  },
+  {
+    id: 'no-tight-small-text',
+    name: 'No negative letter spacing on small text',
+    severity: 'warning',
+    enabled: true,
+    condition: { type: 'no-negative-letter-spacing', maxFontSize: 14 },
+  },
+  {
+    id: 'min-contrast',
+    name: 'Text contrast meets WCAG AA',
+    severity: 'error',
+    enabled: true,
+    condition: { type: 'min-contrast', level: 'AA' },
+  },
+  {
+    id: 'no-fill-overrides',
+    name: 'No local fill overrides',
+    severity: 'warning',
+    enabled: true,
+    condition: { type: 'disallow-overrides', properties: ['fills'] },
+  },
+  {
+    id: 'semantic-tokens-only',
+    name: 'Bind semantic tokens, not primitives',
+    severity: 'warning',
+    enabled: true,
+    condition: { type: 'semantic-tokens-only' },
+  },
+];
+
+/** Ways to group violations in reports */
+export type LintGrouping = 'rule' | 'page' | 'style';
+
+/** Display order: most severe first */
+export const LINT_SEVERITIES: LintSeverity[] = ['error', 'warning', 'info'];
+
+/** Human-readable condition names, also used as default rule names */
+export const CONDITION_LABELS: Record<LintRuleCondition['type'], string> = {
+  'require-style': 'Require a text style',
+  'require-token': 'Require token bindings',
+  'disallow-library': 'Disallow libraries',
+  'min-line-height': 'Minimum line height',
+  'min-font-size': 'Minimum font size',
+  'no-negative-letter-spacing': 'No negative letter spacing on small text',
+  'min-contrast': 'Minimum contrast (WCAG)',
+  'disallow-overrides': 'Disallow local overrides',
+  'semantic-tokens-only': 'Bind semantic tokens only',
+};
+
+/**
+ * Run every enabled rule over the layers
+ *
+ * @param layering - Token tiers for the layering rule (skipped without it)
+ * @returns Violations ordered by severity, then rule, then page
+ */
+export function lintLayers(
+  layers: TextLayer[],
+  rules: LintRule[],
+  layering?: TokenLayering
+): LintViolation[] {
+  const violations: LintViolation[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+
+    for (const layer of layers) {
+      if (matchesAnyGlob(layer.pageName, rule.ignoredPages)) continue;
+
+      const message = checkCondition(rule.condition, layer, layering);
+      if (message) {
+        violations.push({
+          ruleId: rule.id,
+          severity: rule.severity,
+          layerId: layer.id,
+          layerName: layer.name,
+          pageName: layer.pageName,
+          message,
+          styleId: layer.styleId,
+          styleName: layer.styleName,
+        });
+      }
+    }
+  }
+
+  const ruleOrder = new Map(rules.map((rule, index) => [rule.id, index]));
+  return violations.sort(
+    (a, b) =>
+      LINT_SEVERITIES.indexOf(a.severity) - LINT_SEVERITIES.indexOf(b.severity) ||
+      (ruleOrder.get(a.ruleId) ?? 0) - (ruleOrder.get(b.ruleId) ?? 0) ||
+      a.pageName.localeCompare(b.pageName)
+  );
+}
+
+/**
+ * Run every enabled typography and token layering rule over the text styles
+ *
+ * A style is reported when its own values or token bindings break the rule.
+ * Rules limited to some frames only report styles used in those frames.
+ *
+ * @returns Style violations ordered by severity, then rule, then most used
+ */
+export function lintStyles(
+  styles: TextStyle[],
+  layers: TextLayer[],
+  rules: LintRule[],
+  layering?: TokenLayering
+): LintStyleViolation[] {
+  const violations: LintStyleViolation[] = [];
+
+  for (const rule of rules) {
+    const { condition } = rule;
+    if (!rule.enabled) continue;
+
+    for (const style of styles) {
+      const message = isTypographyCondition(condition)
+        ? checkTypography(condition, [style])
+        : condition.type === 'semantic-tokens-only' && layering
+          ? checkSemanticTokens(style.tokens, layering)
+          : null;
+      if (!message) continue;
+
+      const layerCount = layers.filter(
+        (layer) =>
+          usesStyle(layer, style.id) &&
+          !matchesAnyGlob(layer.pageName, rule.ignoredPages) &&
+          isInFrames(layer, condition)
+      ).length;
+      if (condition.type === 'min-font-size' && condition.frames.length > 0 && layerCount === 0) {
+        continue;
+      }
+
+      violations.push({
+        ruleId: rule.id,
+        severity: rule.severity,
+        styleId: style.id,
+        styleName: style.name,
+        layerCount,
+        message,
+      });
+    }
+  }
+
+  const ruleOrder = new Map(rules.map((rule, index) => [rule.id, index]));
+  return violations.sort(
+    (a, b) =>
+      LINT_SEVERITIES.indexOf(a.severity) - LINT_SEVERITIES.indexOf(b.severity) ||
+      (ruleOrder.get(a.ruleId) ?? 0) - (ruleOrder.get(b.ruleId) ?? 0) ||
+      b.layerCount - a.layerCount
+  );
+}
+
+/**
+ * Group violations by rule ID, page name or style name, keeping their order
+ */
+export function groupViolations(
+  violations: LintViolation[],
+  grouping: LintGrouping
+): Map<string, LintViolation[]> {
+  const groups = new Map<string, LintViolation[]>();
+  for (const violation of violations) {
+    const key =
+      grouping === 'rule'
+        ? violation.ruleId
+        : grouping === 'page'
+          ? violation.pageName
+          : (violation.styleName ?? 'No text style');
+    const group = groups.get(key) ?? [];
+    group.push(violation);
+    groups.set(key, group);
+  }
+  return groups;
+}
+
+/**
+ * Count violations per severity
+ */
+export function countBySeverity(violations: LintViolation[]): Record<LintSeverity, number> {
+  const counts: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const violation of violations) {
+    counts[violation.severity]++;
+  }
+  return counts;
+}
+
+/**
+ * Create a new rule with sensible defaults for its condition type
+ */
+export function createLintRule(type: LintRuleCondition['type']): LintRule {
+  const conditions: Record<LintRuleCondition['type'], LintRuleCondition> = {
+    'require-style': { type: 'require-style', allowPartial: true },
+    'require-token': { type: 'require-token', properties: ['fontSize'] },
+    'disallow-library': { type: 'disallow-library', libraries: [] },
+    'min-line-height': { type: 'min-line-height', ratio: 1.2 },
+    'min-font-size': { type: 'min-font-size', size: 12, frames: [] },
+    'no-negative-letter-spacing': { type: 'no-negative-letter-spacing', maxFontSize: 14 },
+    'min-contrast': { type: 'min-contrast', level: 'AA' },
+    'disallow-overrides': { type: 'disallow-overrides', properties: ['fills'] },
+    'semantic-tokens-only': { type: 'semantic-tokens-only' },
+  };
+
+  return {
+    id: `${type}-${Date.now().toString(36)}`,
+    name: CONDITION_LABELS[type],
+    severity: 'warning',
+    enabled: true,
+    condition: conditions[type],
+  };
+}
+
+// ============================================================================
+// Conditions
+// ============================================================================
+
+/**
+ * Check one condition on one layer
+ *
+ * @returns Violation message, or null when the layer passes
+ */
+function checkCondition(
+  condition: LintRuleCondition,
+  layer: TextLayer,
+  layering?: TokenLayering
+): string | null {
+  switch (condition.type) {
+    case 'require-style':
+      return checkRequireStyle(layer, condition.allowPartial);
+    case 'require-token':
+      return checkRequireToken(layer, condition.properties);
+    case 'disallow-library':
+      return checkDisallowLibrary(layer, condition.libraries);
+    case 'min-line-height':
+    case 'min-font-size':
+    case 'no-negative-letter-spacing':
+      return isInFrames(layer, condition)
+        ? checkTypography(condition, getTypographyRanges(layer))
+        : null;
+    case 'min-contrast':
+      return checkMinContrast(layer, condition.level);
+    case 'disallow-overrides':
+      return checkDisallowOverrides(layer, condition.properties);
+    case 'semantic-tokens-only':
+      return layering ? checkSemanticTokens(layer.tokens, layering) : null;
+  }
+}
+
+function checkRequireStyle(layer: TextLayer, allowPartial: boolean): string | null {
+  switch (layer.assignmentStatus) {
+    case 'unstyled':
+      return 'Text has no text style';
+    case 'partially-styled':
+      return allowPartial ? null : 'Text style has local overrides';
+    case 'mixed': {
+      const segments = layer.segments ?? [];
+      const unstyled = segments.filter((segment) => !segment.styleId).length;
+      return unstyled > 0
+        ? `${unstyled} of ${segments.length} text ranges have no text style`
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function checkRequireToken(
+  layer: TextLayer,
+  properties: Extract<LintRuleCondition, { type: 'require-token' }>['properties']
+): string | null {
+  const bound = new Set(layer.tokens.map((binding) => binding.property));
+  const segments = layer.segments ?? [];
+
+  // Multi-range layers can bind per range; every range must be bound
+  const missing = properties.filter(
+    (property) =>
+      !bound.has(property) &&
+      !(segments.length > 0 && segments.every((segment) => segment.boundVariables[property]))
+  );
+
+  return missing.length > 0 ? `${missing.join(', ')} not bound to a token` : null;
+}
+
+function checkDisallowLibrary(layer: TextLayer, libraries: string[]): string | null {
+  if (!layer.styleSource) return null;
+
+  const source = layer.styleSource.toLowerCase();
+  const disallowed = libraries.some((library) => library.trim().toLowerCase() === source);
+  return disallowed ? `Uses style from disallowed library "${layer.styleSource}"` : null;
+}
+
+/**
+ * Check a typography condition on the ranges of a layer, or on a style
+ */
+function checkTypography(condition: TypographyCondition, ranges: Typography[]): string | null {
+  switch (condition.type) {
+    case 'min-line-height':
+      return checkMinLineHeight(ranges, condition.ratio, condition.maxFontSize);
+    case 'min-font-size':
+      return checkMinFontSize(ranges, condition.size);
+    case 'no-negative-letter-spacing':
+      return checkNegativeLetterSpacing(ranges, condition.maxFontSize);
+  }
+}
+
+function checkMinLineHeight(
+  ranges: Typography[],
+  minRatio: number,
+  maxFontSize?: number
+): string | null {
+  // Report the tightest range (mixed layers are checked per range)
+  let tightest: number | null = null;
+  for (const range of ranges) {
+    if (maxFontSize !== undefined && (range.fontSize ?? 0) > maxFontSize) continue;
+
+    const ratio = getLineHeightRatio(range.lineHeight, range.fontSize);
+    if (ratio !== null && (tightest === null || ratio < tightest)) {
+      tightest = ratio;
+    }
+  }
+
+  // Small epsilon so 19.2px on 16px text passes a 1.2× rule
+  return tightest !== null && tightest < minRatio - 0.001
+    ? `Line height is ${tightest.toFixed(2)}× font size (minimum ${minRatio}×)`
+    : null;
+}
+
+function checkMinFontSize(ranges: Typography[], minSize: number): string | null {
+  const sizes = ranges.flatMap((range) => (range.fontSize ? [range.fontSize] : []));
+  const smallest = Math.min(...sizes);
+
+  return sizes.length > 0 && smallest < minSize
+    ? `Font size is ${smallest}px (minimum ${minSize}px)`
+    : null;
+}
+
+function checkNegativeLetterSpacing(ranges: Typography[], maxFontSize: number): string | null {
+  const tight = ranges.find(
+    (range) =>
+      range.fontSize !== undefined &&
+      range.fontSize <= maxFontSize &&
+      range.letterSpacing !== undefined &&
+      range.letterSpacing.value < 0
+  );
+  if (!tight?.letterSpacing) return null;
+
+  const unit = tight.letterSpacing.unit === 'PERCENT' ? '%' : 'px';
+  return `Letter spacing is ${tight.letterSpacing.value}${unit} on ${tight.fontSize}px text`;
+}
+
+function checkMinContrast(layer: TextLayer, level: WcagLevel): string | null {
+  // No sample when the text or its background is not a solid colour
+  if (!layer.contrast) return null;
+
+  const { ratio, largeText, failedLevels } = checkContrast(layer.contrast);
+  if (!failedLevels.includes(level)) return null;
+
+  // An AAA rule still says when the text fails AA as well
+  return (
+    `Contrast ${formatContrastRatio(ratio)} fails WCAG ${failedLevels.join(' and ')} ` +
+    `(${level} needs ${getRequiredContrast(level, largeText)}:1 for ${largeText ? 'large' : 'normal'} text)`
+  );
+}
+
+function checkDisallowOverrides(
+  layer: TextLayer,
+  properties: Extract<LintRuleCondition, { type: 'disallow-overrides' }>['properties']
+): string | null {
+  const overridden = new Set<string>([
+    ...(layer.propertyOverrides ?? []).map((override) => override.property),
+    ...(layer.overriddenProperties ?? []),
+  ]);
+  const found = properties.filter((property) => overridden.has(property));
+
+  return found.length > 0 ? `Local override on ${found.join(', ')}` : null;
+}
+
+function checkSemanticTokens(bindings: TokenBinding[], layering: TokenLayering): string | null {
+  const messages = bindings.flatMap((binding) => {
+    const primitive = findPrimitiveBinding(binding, layering);
+    if (!primitive) return [];
+
+    const [suggestion] = primitive.suggestions;
+    return [
+      suggestion
+        ? `${binding.property} uses primitive ${primitive.token.name}; bind ${suggestion.name} instead`
+        : `${binding.property} uses primitive ${primitive.token.name}, which no semantic token aliases`,
+    ];
+  });
+
+  return messages.length > 0 ? messages.join('; ') : null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Typography of a text range or style, as far as the audit extracted it
+ */
+interface Typography {
+  fontSize?: number;
+  lineHeight?: LineHeight;
+  letterSpacing?: LetterSpacing;
+}
+
+type TypographyCondition = Extract<
+  LintRuleCondition,
+  { type: 'min-line-height' | 'min-font-size' | 'no-negative-letter-spacing' }
+>;
+
+function isTypographyCondition(condition: LintRuleCondition): condition is TypographyCondition {
+  return (
+    condition.type === 'min-line-height' ||
+    condition.type === 'min-font-size' ||
+    condition.type === 'no-negative-letter-spacing'
+  );
+}
+
+/**
+ * Ranges to check: each segment of a multi-range layer, otherwise the layer itself
+ */
+function getTypographyRanges(layer: TextLayer): Typography[] {
+  return layer.segments && layer.segments.length > 0 ? layer.segments : [layer];
+}
+
+/**
+ * Whether a layer sits in a frame a frame-limited rule applies to
+ */
+function isInFrames(layer: TextLayer, condition: LintRuleCondition): boolean {
+  if (condition.type !== 'min-font-size' || condition.frames.length === 0) return true;
+  return !!layer.frameName && matchesAnyGlob(layer.frameName, condition.frames);
+}
+
+function usesStyle(layer: TextLayer, styleId: string): boolean {
+  return (
+    layer.styleId === styleId || !!layer.segments?.some((segment) => segment.styleId === styleId)
+  );
+}
+
+/**
+ * Line height as a multiple of font size (null for AUTO or unknown values)
+ */
+function getLineHeightRatio(lineHeight?: LineHeight, fontSize?: number): number | null {
+  if (!lineHeight || !fontSize) return null;
+
+  switch (lineHeight.unit) {
+    case 'PIXELS':
+      return lineHeight.value / fontSize;
+    case 'PERCENT':
+      return lineHeight.value / 100;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Mode Breakdown - which variable modes token bindings resolve under
+ *
+ * Each binding records the mode of its variable's collection on that layer
+ * (inherited from the nearest frame that sets one, else the collection
+ * default). Counting layers per collection and mode shows whether dark or
+ * compact screens really render with their own values.
+ */
+
+import type { DesignToken, TextLayer } from '@/shared/types';
+
+/**
+ * Layers resolving a collection's tokens under one mode
+ */
+export interface ModeUsage {
+  modeId: string;
+  modeName: string;
+  layerCount: number;
+  /** Layers where a frame sets the mode, rather than falling back to the default */
+  explicitLayerCount: number;
+  /** Pages with layers in this mode, sorted */
+  pageNames: string[];
+}
+
+/**
+ * Mode usage for one collection, most used mode first
+ */
+export interface CollectionModeBreakdown {
+  collectionName: string;
+  modes: ModeUsage[];
+}
+
+/**
+ * Break token bindings down by collection and mode
+ *
+ * Collections resolving under a single default mode everywhere are left out:
+ * there is nothing mode-specific to verify.
+ *
+ * @returns Collections sorted by name
+ */
+export function getModeBreakdown(
+  layers: TextLayer[],
+  tokens: DesignToken[]
+): CollectionModeBreakdown[] {
+  const collectionNames = new Map(tokens.map((token) => [token.id, token.collectionName]));
+  const usage = new Map<string, Map<string, ModeUsage>>();
+  const counted = new Set<string>();
+
+  for (const layer of layers) {
+    for (const binding of layer.tokens) {
+      if (!binding.modeId) continue;
+
+      const collectionName = collectionNames.get(binding.tokenId) ?? 'Unknown collection';
+      const modes = usage.get(collectionName) ?? new Map<string, ModeUsage>();
+      usage.set(collectionName, modes);
+
+      const mode = modes.get(binding.modeId) ?? {
+        modeId: binding.modeId,
+        modeName: binding.modeName ?? binding.modeId,
+        layerCount: 0,
+        explicitLayerCount: 0,
+        pageNames: [],
+      };
+      modes.set(binding.modeId, mode);
+
+      // A layer counts once per mode, however many of its properties are bound
+      const key = `${collectionName}|${binding.modeId}|${layer.id}`;
+      if (counted.has(key)) continue;
+      counted.add(key);
+      mode.layerCount++;
+      if (binding.explicitMode) mode.explicitLayerCount++;
+      if (!mode.pageNames.includes(layer.pageName)) mode.pageNames.push(layer.pageName);
+    }
+  }
+
+  return Array.from(usage.entries())
+    .map(([collectionName, modes]) => ({
+      collectionName,
+      modes: Array.from(modes.values())
+        .map((mode) => ({ ...mode, pageNames: mode.pageNames.sort() }))
+        .sort((a, b) => b.layerCount - a.layerCount),
+    }))
+    .filter(({ modes }) => modes.length > 1 || modes.some((mode) => mode.explicitLayerCount > 0))
+    .sort((a, b) => a.collectionName.localeCompare(b.collectionName));
+}
@@ -0,0 +1,526 @@
+/**
+ * PDF Export - Style Governance Audit Report
+ *
+ * Renders a StyleGovernanceAuditResult into a PDF report using jsPDF and
+ * jspdf-autotable. Runs in the UI context: jsPDF lazy-loads optional
+ * dependencies with import(), which the main sandbox rejects.
+ */
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable/es';
+import type {
+  ExportMetadata,
+  PDFExportOptions,
+  StyleGovernanceAuditResult,
+  TextLayer,
+} from '@/shared/types';
+import { buildExportFilename, toDate } from './exportUtils';
+
+/**
+ * Generated PDF report ready for download
+ */
+export interface GeneratedPDF {
+  data: Uint8Array;
+  filename: string;
+  fileSize: number;
+  metadata: ExportMetadata;
+}
+
+type AutoTableDocument = jsPDF & { lastAutoTable?: { finalY: number } };
+
+const MARGIN = 40;
+const SECTION_GAP = 24;
+
+// Colors are RGB tuples matching the dashboard's status palette
+const COLOR_TEXT: [number, number, number] = [34, 34, 34];
+const COLOR_MUTED: [number, number, number] = [120, 120, 120];
+const COLOR_HEADER: [number, number, number] = [24, 160, 251];
+const COLOR_SUCCESS: [number, number, number] = [27, 196, 125];
+const COLOR_WARNING: [number, number, number] = [255, 199, 0];
+const COLOR_DANGER: [number, number, number] = [242, 72, 34];
+const COLOR_MIXED: [number, number, number] = [151, 71, 255];
+const COLOR_TRACK: [number, number, number] = [235, 235, 235];
+
+/**
+ * Generate a PDF audit report
+ *
+ * @param auditResult - Completed style governance audit
+ * @param options - Export options (charts, detailed tables, orientation)
+ * @param pluginVersion - Plugin version stamped into the report footer
+ */
+export function generatePDFReport(
+  auditResult: StyleGovernanceAuditResult,
+  options: PDFExportOptions = {},
+  pluginVersion: string = 'unknown'
+): GeneratedPDF {
+  const {
+    includeCharts = true,
+    includeDetailedTables = true,
+    pageOrientation = 'portrait',
+  } = options;
+
+  const exportTimestamp = new Date();
+  const auditTimestamp = toDate(auditResult.timestamp);
+  const doc = new jsPDF({ orientation: pageOrientation, unit: 'pt', format: 'a4' });
+
+  let cursorY = renderTitle(doc, auditResult, auditTimestamp, exportTimestamp);
+  cursorY = renderSummary(doc, auditResult, cursorY);
+
+  if (includeCharts) {
+    cursorY = renderAssignmentChart(doc, auditResult, cursorY);
+  }
+
+  cursorY = renderTopStyles(doc, auditResult, cursorY);
+  cursorY = renderLibraryDistribution(doc, auditResult, cursorY, includeCharts);
+  cursorY = renderTokenCoverage(doc, auditResult, cursorY);
+
+  if (includeDetailedTables) {
+    cursorY = renderUnstyledLayers(doc, auditResult.layers, cursorY);
+    renderPartiallyStyledLayers(doc, auditResult.layers, cursorY);
+  }
+
+  renderFooters(doc, `Typescope v${pluginVersion}`);
+
+  const data = new Uint8Array(doc.output('arraybuffer'));
+
+  return {
+    data,
+    filename: buildExportFilename(auditResult.documentName, exportTimestamp, 'pdf'),
+    fileSize: data.byteLength,
+    metadata: {
+      documentName: auditResult.documentName,
+      auditTimestamp,
+      totalTextLayers: auditResult.totalTextLayers,
+      totalStyles: auditResult.styles.length,
+      totalTokens: auditResult.tokens.length,
+      exportTimestamp,
+      pluginVersion,
+    },
+  };
+}
+
+// ============================================================================
+// Sections
+// ============================================================================
+
+function renderTitle(
+  doc: jsPDF,
+  auditResult: StyleGovernanceAuditResult,
+  auditTimestamp: Date,
+  exportTimestamp: Date
+): number {
+  doc.setTextColor(...COLOR_TEXT);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text('Typography Audit Report', MARGIN, MARGIN + 10);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor(...COLOR_MUTED);
+  doc.text(auditResult.documentName || 'Untitled document', MARGIN, MARGIN + 30);
+  doc.text(
+    `Audited ${formatDateTime(auditTimestamp)} · Exported ${formatDateTime(exportTimestamp)}`,
+    MARGIN,
+    MARGIN + 44
+  );
+
+  return MARGIN + 44 + SECTION_GAP;
+}
+
+function renderSummary(
+  doc: jsPDF,
+  auditResult: StyleGovernanceAuditResult,
+  startY: number
+): number {
+  const { metrics } = auditResult;
+  let y = renderHeading(doc, 'Summary', startY);
+
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    theme: 'plain',
+    styles: { fontSize: 10, cellPadding: 4 },
+    columnStyles: { 1: { halign: 'right', fontStyle: 'bold' } },
+    body: [
+      ['Pages scanned', formatNumber(auditResult.totalPages)],
+      ['Text layers', formatNumber(auditResult.totalTextLayers)],
+      ['Style adoption', formatPercent(metrics.styleAdoptionRate)],
+      ['Fully styled layers', formatNumber(metrics.fullyStyledCount)],
+      ['Partially styled layers', formatNumber(metrics.partiallyStyledCount)],
+      ['Unstyled layers', formatNumber(metrics.unstyledCount)],
+      ['Mixed-style layers', formatNumber(metrics.mixedStyleCount)],
+      ['Text styles', formatNumber(auditResult.styles.length)],
+      ['Token adoption', formatPercent(metrics.tokenAdoptionRate)],
+      ['Token coverage', formatPercent(metrics.tokenCoverageRate)],
+      ['Layers with missing fonts', formatNumber(auditResult.layersWithMissingFonts)],
+    ],
+  });
+
+  y = getFinalY(doc, y);
+  return y + SECTION_GAP;
+}
+
+function renderAssignmentChart(
+  doc: jsPDF,
+  auditResult: StyleGovernanceAuditResult,
+  startY: number
+): number {
+  const { metrics } = auditResult;
+  const bars = [
+    { label: 'Fully styled', value: metrics.fullyStyledCount, color: COLOR_SUCCESS },
+    { label: 'Partially styled', value: metrics.partiallyStyledCount, color: COLOR_WARNING },
+    { label: 'Unstyled', value: metrics.unstyledCount, color: COLOR_DANGER },
+    { label: 'Mixed', value: metrics.mixedStyleCount, color: COLOR_MIXED },
+  ];
+
+  let y = ensureSpace(doc, startY, 40 + bars.length * 22);
+  y = renderHeading(doc, 'Style Assignment', y);
+  y = renderBarChart(doc, bars, auditResult.totalTextLayers, y);
+
+  return y + SECTION_GAP;
+}
+
+function renderTopStyles(
+  doc: jsPDF,
+  auditResult: StyleGovernanceAuditResult,
+  startY: number
+): number {
+  const { topStyles } = auditResult.metrics;
+  let y = ensureSpace(doc, startY, 80);
+  y = renderHeading(doc, 'Top Styles', y);
+
+  if (topStyles.length === 0) {
+    return renderEmptyNote(doc, 'No text styles are in use.', y);
+  }
+
+  const sourceById = new Map(auditResult.styles.map((style) => [style.id, style.libraryName]));
+
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    headStyles: { fillColor: COLOR_HEADER },
+    styles: { fontSize: 9 },
+    columnStyles: { 3: { halign: 'right' }, 4: { halign: 'right' } },
+    head: [['#', 'Style', 'Source', 'Layers', 'Share']],
+    body: topStyles.map((style, index) => [
+      String(index + 1),
+      style.styleName,
+      sourceById.get(style.styleId) ?? 'Unknown',
+      formatNumber(style.usageCount),
+      formatPercent(percentOf(style.usageCount, auditResult.totalTextLayers)),
+    ]),
+  });
+
+  return getFinalY(doc, y) + SECTION_GAP;
+}
+
+function renderLibraryDistribution(
+  doc: jsPDF,
+  auditResult: StyleGovernanceAuditResult,
+  startY: number,
+  includeCharts: boolean
+): number {
+  const entries = Object.entries(auditResult.metrics.libraryDistribution).sort(
+    (a, b) => b[1] - a[1]
+  );
+  let y = ensureSpace(doc, startY, includeCharts ? 220 : 80);
+  y = renderHeading(doc, 'Library Distribution', y);
+
+  if (entries.length === 0) {
+    return renderEmptyNote(doc, 'No library usage recorded.', y);
+  }
+
+  const totalUsage = entries.reduce((sum, [, count]) => sum + count, 0);
+
+  if (includeCharts) {
+    y = renderBarChart(
+      doc,
+      entries.slice(0, 8).map(([label, value]) => ({ label, value, color: COLOR_HEADER })),
+      totalUsage,
+      y
+    );
+    y += 8;
+  }
+
+  const libraryByName = new Map(auditResult.libraries.map((library) => [library.name, library]));
+
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    headStyles: { fillColor: COLOR_HEADER },
+    styles: { fontSize: 9 },
+    columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' } },
+    head: [['Library', 'Type', 'Styles', 'Layers', 'Share']],
+    body: entries.map(([name, count]) => {
+      const library = libraryByName.get(name);
+      return [
+        name,
+        library ? formatLibraryType(library.type) : '—',
+        library ? formatNumber(library.styleCount) : '—',
+        formatNumber(count),
+        formatPercent(percentOf(count, totalUsage)),
+      ];
+    }),
+  });
+
+  return getFinalY(doc, y) + SECTION_GAP;
+}
+
+function renderTokenCoverage(
+  doc: jsPDF,
+  auditResult: StyleGovernanceAuditResult,
+  startY: number
+): number {
+  const { metrics } = auditResult;
+  let y = ensureSpace(doc, startY, 120);
+  y = renderHeading(doc, 'Token Coverage', y);
+
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    headStyles: { fillColor: COLOR_HEADER },
+    styles: { fontSize: 9 },
+    columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' } },
+    head: [['Coverage', 'Layers', 'Rate']],
+    body: [
+      [
+        'Full (all properties)',
+        formatNumber(metrics.fullTokenCoverageCount),
+        formatPercent(metrics.fullTokenCoverageRate),
+      ],
+      [
+        'Partial',
+        formatNumber(metrics.partialTokenCoverageCount),
+        formatPercent(metrics.partialTokenCoverageRate),
+      ],
+      [
+        'None',
+        formatNumber(metrics.noTokenCoverageCount),
+        formatPercent(metrics.noTokenCoverageRate),
+      ],
+    ],
+  });
+  y = getFinalY(doc, y) + 12;
+
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    theme: 'plain',
+    styles: { fontSize: 9, cellPadding: 3 },
+    columnStyles: { 1: { halign: 'right', fontStyle: 'bold' } },
+    body: [
+      ['Tokens available', formatNumber(metrics.totalTokenCount)],
+      ['Unique tokens used', formatNumber(metrics.uniqueTokensUsed)],
+      ['Unused tokens', formatNumber(metrics.unusedTokenCount)],
+      ['Total token bindings', formatNumber(metrics.totalTokenBindings)],
+    ],
+  });
+
+  const collections = Object.entries(metrics.tokensByCollection).sort((a, b) => b[1] - a[1]);
+  if (collections.length > 0) {
+    y = getFinalY(doc, y) + 12;
+    autoTable(doc, {
+      startY: y,
+      margin: { left: MARGIN, right: MARGIN },
+      headStyles: { fillColor: COLOR_HEADER },
+      styles: { fontSize: 9 },
+      columnStyles: { 1: { halign: 'right' } },
+      head: [['Collection', 'Tokens']],
+      body: collections.map(([name, count]) => [name, formatNumber(count)]),
+    });
+  }
+
+  return getFinalY(doc, y) + SECTION_GAP;
+}
+
+function renderUnstyledLayers(doc: jsPDF, layers: TextLayer[], startY: number): number {
+  const unstyled = layers.filter((layer) => layer.assignmentStatus === 'unstyled');
+  let y = ensureSpace(doc, startY, 80);
+  y = renderHeading(doc, `Unstyled Text (${formatNumber(unstyled.length)})`, y);
+
+  if (unstyled.length === 0) {
+    return renderEmptyNote(doc, 'Every text layer has a style assigned.', y);
+  }
+
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    headStyles: { fillColor: COLOR_DANGER },
+    styles: { fontSize: 8, overflow: 'ellipsize' },
+    head: [['Layer', 'Page', 'Content', 'Font', 'Size', 'Weight']],
+    body: unstyled.map((layer) => [
+      layer.name,
+      layer.pageName,
+      layer.textContent,
+      layer.fontFamily ?? '—',
+      layer.fontSize !== undefined ? String(layer.fontSize) : '—',
+      layer.fontWeight !== undefined ? String(layer.fontWeight) : '—',
+    ]),
+  });
+
+  return getFinalY(doc, y) + SECTION_GAP;
+}
+
+function renderPartiallyStyledLayers(doc: jsPDF, layers: TextLayer[], startY: number): number {
+  const partial = layers.filter((layer) => layer.assignmentStatus === 'partially-styled');
+  let y = ensureSpace(doc, startY, 80);
+  y = renderHeading(doc, `Partially Styled Text (${formatNumber(partial.length)})`, y);
+
+  if (partial.length === 0) {
+    return renderEmptyNote(doc, 'No styled layers have local overrides.', y);
+  }
+
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    headStyles: { fillColor: COLOR_WARNING, textColor: COLOR_TEXT },
+    styles: { fontSize: 8, overflow: 'ellipsize' },
+    head: [['Layer', 'Page', 'Style', 'Overridden properties']],
+    body: partial.map((layer) => [
+      layer.name,
+      layer.pageName,
+      layer.styleName ?? '—',
+      formatOverrides(layer),
+    ]),
+  });
+
+  return getFinalY(doc, y) + SECTION_GAP;
+}
+
+function renderFooters(doc: jsPDF, label: string): void {
+  const pageCount = doc.getNumberOfPages();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(...COLOR_MUTED);
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.text(label, MARGIN, pageHeight - 20);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, pageHeight - 20, {
+      align: 'right',
+    });
+  }
+}
+
+// ============================================================================
+// Drawing Helpers
+// ============================================================================
+
+function renderHeading(doc: jsPDF, title: string, y: number): number {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.setTextColor(...COLOR_TEXT);
+  doc.text(title, MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  return y + 10;
+}
+
+function renderEmptyNote(doc: jsPDF, message: string, y: number): number {
+  doc.setFontSize(9);
+  doc.setTextColor(...COLOR_MUTED);
+  doc.text(message, MARGIN, y + 10);
+  return y + 10 + SECTION_GAP;
+}
+
+/**
+ * Draw horizontal bars scaled against a total
+ */
+function renderBarChart(
+  doc: jsPDF,
+  bars: Array<{ label: string; value: number; color: [number, number, number] }>,
+  total: number,
+  startY: number
+): number {
+  const labelWidth = 140;
+  const valueWidth = 70;
+  const trackWidth = doc.internal.pageSize.getWidth() - MARGIN * 2 - labelWidth - valueWidth;
+  let y = startY + 6;
+
+  doc.setFontSize(9);
+  for (const bar of bars) {
+    const ratio = total > 0 ? Math.min(bar.value / total, 1) : 0;
+
+    doc.setTextColor(...COLOR_TEXT);
+    doc.text(truncate(bar.label, 28), MARGIN, y + 9);
+
+    doc.setFillColor(...COLOR_TRACK);
+    doc.rect(MARGIN + labelWidth, y, trackWidth, 12, 'F');
+    if (ratio > 0) {
+      doc.setFillColor(...bar.color);
+      doc.rect(MARGIN + labelWidth, y, trackWidth * ratio, 12, 'F');
+    }
+
+    doc.setTextColor(...COLOR_MUTED);
+    doc.text(
+      `${formatNumber(bar.value)} (${formatPercent(ratio * 100)})`,
+      MARGIN + labelWidth + trackWidth + 6,
+      y + 9
+    );
+    y += 20;
+  }
+
+  return y;
+}
+
+/**
+ * Start a new page when the remaining space cannot fit the next block
+ */
+function ensureSpace(doc: jsPDF, y: number, needed: number): number {
+  const pageHeight = doc.internal.pageSize.getHeight();
+  if (y + needed > pageHeight - MARGIN) {
+    doc.addPage();
+    return MARGIN + 10;
+  }
+  return y;
+}
+
+function getFinalY(doc: jsPDF, fallback: number): number {
+  return (doc as AutoTableDocument).lastAutoTable?.finalY ?? fallback;
+}
+
+// ============================================================================
+// Formatting Helpers
+// ============================================================================
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('en-US');
+}
+
+function formatPercent(value: number): string {
+  return `${value.toFixed(1)}%`;
+}
+
+function percentOf(value: number, total: number): number {
+  return total > 0 ? (value / total) * 100 : 0;
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+}
+
+function formatLibraryType(type: string): string {
+  switch (type) {
+    case 'local':
+      return 'Local';
+    case 'team_library':
+      return 'Team library';
+    default:
+      return 'Published';
+  }
+}
+
+function formatOverrides(layer: TextLayer): string {
+  if (layer.propertyOverrides && layer.propertyOverrides.length > 0) {
+    return layer.propertyOverrides
+      .map((override) => `${override.property}: ${override.displayOverrideValue}`)
+      .join(', ');
+  }
+  return layer.overriddenProperties?.join(', ') || '—';
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+}
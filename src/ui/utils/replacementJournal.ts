@@ -0,0 +1,56 @@
+/**
+ * Replacement Journal - Views over the document's undo journal
+ *
+ * The journal is recorded and persisted by the main context. These helpers
+ * turn its entries into what the UI shows: the per-style replacement history
+ * used by the style tree and detail panel, and short summaries for the
+ * operation log.
+ */
+
+import type { ReplacementJournalEntry } from '@/shared/types';
+
+/**
+ * Replacement of one original style: where its layers went and how many
+ */
+export interface StyleReplacementRecord {
+  targetStyleId: string;
+  targetStyleName: string;
+  count: number;
+}
+
+/**
+ * Build the replacement history keyed by original style ID
+ *
+ * Operations are applied oldest first so a style's latest target wins while
+ * its layer counts add up. Reverted operations are left out.
+ */
+export function buildReplacementHistory(
+  entries: ReplacementJournalEntry[]
+): Map<string, StyleReplacementRecord> {
+  const history = new Map<string, StyleReplacementRecord>();
+  const oldestFirst = [...entries].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  for (const entry of oldestFirst) {
+    if (entry.revertedAt) continue;
+
+    for (const change of entry.styleChanges) {
+      history.set(change.fromStyleId, {
+        targetStyleId: change.toStyleId,
+        targetStyleName: change.toStyleName,
+        count: (history.get(change.fromStyleId)?.count ?? 0) + change.layerCount,
+      });
+    }
+  }
+
+  return history;
+}
+
+/**
+ * Status shown next to an operation in the log
+ */
+export function getJournalEntryStatus(
+  entry: ReplacementJournalEntry
+): 'reverted' | 'incomplete' | 'applied' {
+  if (entry.revertedAt) return 'reverted';
+  return entry.completed ? 'applied' : 'incomplete';
+}
@@ -0,0 +1,104 @@
+/**
+ * Style Cleanup - unused local text styles and the backups of deleted ones
+ *
+ * The audit's usage count only covers the pages it scanned, so the main thread
+ * reports every candidate's consumers across the document and its publish
+ * status before anything is selected. Other files cannot be searched; a
+ * published style may still be applied there, so deleting one is opt-in.
+ */
+
+import type {
+  StyleCleanupAction,
+  StyleCleanupBackup,
+  StyleCleanupPreview,
+  TextStyle,
+} from '@/shared/types';
+import { buildExportFilename } from './exportUtils';
+
+export const DEPRECATED_STYLE_PREFIX = 'zz-deprecated/';
+
+/**
+ * Local text styles no audited layer applies, by name
+ *
+ * Same split as categorizeStylesByUsage, limited to styles this file owns.
+ */
+export function findUnusedLocalStyles(styles: TextStyle[]): TextStyle[] {
+  return styles
+    .filter((style) => style.sourceType === 'local' && style.usageCount === 0)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Whether a style was already renamed by a deprecate cleanup
+ */
+export function isDeprecatedStyleName(name: string): boolean {
+  return name.startsWith(DEPRECATED_STYLE_PREFIX);
+}
+
+/**
+ * Why a style cannot be cleaned up with the given action, or null when it can
+ */
+export function getStyleCleanupBlocker(
+  style: TextStyle,
+  preview: StyleCleanupPreview | undefined,
+  action: StyleCleanupAction,
+  includePublished: boolean
+): string | null {
+  if (!preview) return 'not checked yet';
+  if (preview.error) return preview.error;
+  if (preview.consumerCount > 0) {
+    return `applied to ${preview.consumerCount} layer${preview.consumerCount !== 1 ? 's' : ''}`;
+  }
+  if (action === 'delete' && preview.publishStatus !== 'UNPUBLISHED' && !includePublished) {
+    return 'published, so other files may use it';
+  }
+  if (action === 'deprecate' && isDeprecatedStyleName(style.name)) {
+    return 'already deprecated';
+  }
+  return null;
+}
+
+/**
+ * Backup JSON of a cleanup, ready to download
+ */
+export function generateStyleBackupJSON(
+  backup: StyleCleanupBackup,
+  documentName: string
+): { filename: string; content: string } {
+  return {
+    filename: buildExportFilename(documentName, new Date(backup.createdAt), 'json', 'style-backup'),
+    content: JSON.stringify(backup, null, 2),
+  };
+}
+
+/**
+ * Read a downloaded cleanup backup back in
+ */
+export function parseStyleBackup(content: string): StyleCleanupBackup {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const backup = parsed as Partial<StyleCleanupBackup> | null;
+  if (backup?.version !== 1 || !Array.isArray(backup.styles)) {
+    throw new Error('File is not a style cleanup backup');
+  }
+
+  backup.styles.forEach((style, index) => {
+    if (
+      typeof style?.name !== 'string' ||
+      typeof style.fontName?.family !== 'string' ||
+      typeof style.fontSize !== 'number'
+    ) {
+      throw new Error(`Style ${index + 1} is missing its name, font or size`);
+    }
+  });
+  if (backup.styles.length === 0) {
+    throw new Error('Backup has no styles to restore');
+  }
+
+  return backup as StyleCleanupBackup;
+}
@@ -0,0 +1,397 @@
+/**
+ * Style Matcher - Similarity Engine for Style Suggestions
+ *
+ * Scores unstyled and partially styled text layers against every known text
+ * style (local and library) and returns the closest matches. Each property is
+ * scored 0-1 and combined with a weighted average; properties a layer does not
+ * report are left out of the average rather than counted as mismatches.
+ */
+
+import type {
+  DifferingProperty,
+  LetterSpacing,
+  LineHeight,
+  RGBA,
+  StyleMatchSuggestion,
+  TextLayer,
+  TextStyle,
+} from '@/shared/types';
+import { formatTokenValue } from './tokenFormatters';
+
+export type MatchProperty = DifferingProperty['property'];
+
+export interface StyleMatchOptions {
+  /** Minimum similarity score (0-1) for a style to be suggested */
+  threshold: number;
+  /** Maximum suggestions returned per layer */
+  maxSuggestions: number;
+  /** Relative importance of each property (normalized internally) */
+  weights: Record<MatchProperty, number>;
+}
+
+export const DEFAULT_STYLE_MATCH_OPTIONS: StyleMatchOptions = {
+  threshold: 0.8,
+  maxSuggestions: 3,
+  weights: {
+    fontFamily: 0.3,
+    fontSize: 0.25,
+    fontWeight: 0.15,
+    lineHeight: 0.1,
+    letterSpacing: 0.1,
+    color: 0.1,
+  },
+};
+
+/** Scores at or above this are treated as an exact property match */
+const EXACT_MATCH_SCORE = 0.999;
+
+/** Figma renders AUTO line height at roughly 1.2x the font size */
+const AUTO_LINE_HEIGHT_RATIO = 1.2;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Find the best matching styles for a single layer
+ *
+ * Fully styled and mixed layers and deprecated styles are skipped, as is the
+ * style a partially styled layer already uses.
+ */
+export function findStyleMatches(
+  layer: TextLayer,
+  styles: TextStyle[],
+  options: Partial<StyleMatchOptions> = {}
+): StyleMatchSuggestion[] {
+  const { threshold, maxSuggestions, weights } = { ...DEFAULT_STYLE_MATCH_OPTIONS, ...options };
+
+  // A single style would flatten a mixed layer's ranges, so never suggest one
+  if (layer.assignmentStatus === 'fully-styled' || layer.assignmentStatus === 'mixed') {
+    return [];
+  }
+
+  const suggestions: StyleMatchSuggestion[] = [];
+
+  for (const style of styles) {
+    if (style.isDeprecated || style.id === layer.styleId) continue;
+
+    const suggestion = scoreStyleMatch(layer, style, weights);
+    if (suggestion && suggestion.similarityScore >= threshold) {
+      suggestions.push(suggestion);
+    }
+  }
+
+  return suggestions
+    .sort(
+      (a, b) =>
+        b.similarityScore - a.similarityScore ||
+        a.suggestedStyleName.localeCompare(b.suggestedStyleName)
+    )
+    .slice(0, maxSuggestions);
+}
+
+/**
+ * Attach match suggestions to every unstyled and partially styled layer
+ *
+ * Mutates the layers in place so references held by styledLayers and
+ * unstyledLayers stay in sync. Returns the number of layers with suggestions.
+ */
+export function attachStyleMatches(
+  layers: TextLayer[],
+  styles: TextStyle[],
+  options: Partial<StyleMatchOptions> = {}
+): number {
+  let matchedCount = 0;
+
+  for (const layer of layers) {
+    if (layer.assignmentStatus === 'fully-styled' || layer.assignmentStatus === 'mixed') continue;
+
+    const matchSuggestions = findStyleMatches(layer, styles, options);
+    if (matchSuggestions.length > 0) {
+      layer.matchSuggestions = matchSuggestions;
+      matchedCount++;
+    } else {
+      delete layer.matchSuggestions;
+    }
+  }
+
+  return matchedCount;
+}
+
+/**
+ * Unstyled layer paired with the style a bulk apply would assign to it
+ */
+export interface SuggestedAssignment {
+  layer: TextLayer;
+  suggestion: StyleMatchSuggestion;
+}
+
+/**
+ * Collect every unstyled layer whose best suggestion meets the threshold
+ *
+ * Relies on suggestions already attached by attachStyleMatches. Results are
+ * ordered by score (highest first) so the most confident changes lead the preview.
+ */
+export function buildSuggestedAssignments(
+  layers: TextLayer[],
+  threshold: number = DEFAULT_STYLE_MATCH_OPTIONS.threshold
+): SuggestedAssignment[] {
+  const assignments: SuggestedAssignment[] = [];
+
+  for (const layer of layers) {
+    const best = layer.matchSuggestions?.[0];
+    if (layer.assignmentStatus === 'unstyled' && best && best.similarityScore >= threshold) {
+      assignments.push({ layer, suggestion: best });
+    }
+  }
+
+  return assignments.sort(
+    (a, b) =>
+      b.suggestion.similarityScore - a.suggestion.similarityScore ||
+      a.layer.name.localeCompare(b.layer.name)
+  );
+}
+
+/**
+ * Score how closely a style matches a layer's visible text properties
+ *
+ * @returns Suggestion with score and property breakdown, or null when the
+ * layer has no comparable properties
+ */
+export function scoreStyleMatch(
+  layer: TextLayer,
+  style: TextStyle,
+  weights: Record<MatchProperty, number> = DEFAULT_STYLE_MATCH_OPTIONS.weights
+): StyleMatchSuggestion | null {
+  const matchingProperties: string[] = [];
+  const differingProperties: DifferingProperty[] = [];
+  let weightedScore = 0;
+  let totalWeight = 0;
+
+  const record = (
+    property: MatchProperty,
+    score: number | null,
+    textValue: string,
+    styleValue: string
+  ) => {
+    if (score === null) return;
+
+    weightedScore += score * weights[property];
+    totalWeight += weights[property];
+
+    if (score >= EXACT_MATCH_SCORE) {
+      matchingProperties.push(property);
+    } else {
+      differingProperties.push({ property, textValue, styleValue });
+    }
+  };
+
+  record(
+    'fontFamily',
+    layer.fontFamily !== undefined ? scoreFontFamily(layer.fontFamily, style.fontFamily) : null,
+    layer.fontFamily ?? '',
+    style.fontFamily
+  );
+  record(
+    'fontSize',
+    layer.fontSize !== undefined ? scoreRelative(layer.fontSize, style.fontSize) : null,
+    `${layer.fontSize}px`,
+    `${style.fontSize}px`
+  );
+  record(
+    'fontWeight',
+    layer.fontWeight !== undefined ? scoreFontWeight(layer.fontWeight, style.fontWeight) : null,
+    String(layer.fontWeight),
+    String(style.fontWeight)
+  );
+  record(
+    'lineHeight',
+    layer.lineHeight !== undefined
+      ? scoreLineHeight(
+          layer.lineHeight,
+          layer.fontSize ?? style.fontSize,
+          style.lineHeight,
+          style.fontSize
+        )
+      : null,
+    formatValue(layer.lineHeight, 'lineHeight'),
+    formatValue(style.lineHeight, 'lineHeight')
+  );
+  record(
+    'letterSpacing',
+    layer.letterSpacing !== undefined
+      ? scoreLetterSpacing(
+          layer.letterSpacing,
+          layer.fontSize ?? style.fontSize,
+          style.letterSpacing,
+          style.fontSize
+        )
+      : null,
+    formatValue(layer.letterSpacing, 'letterSpacing'),
+    formatValue(style.letterSpacing, 'letterSpacing')
+  );
+  record(
+    'color',
+    layer.fills?.[0] && style.fills?.[0] ? scoreColor(layer.fills[0], style.fills[0]) : null,
+    formatValue(layer.fills?.[0], 'fills'),
+    formatValue(style.fills?.[0], 'fills')
+  );
+
+  if (totalWeight === 0) return null;
+
+  return {
+    suggestedStyleId: style.id,
+    suggestedStyleName: style.name,
+    libraryName: style.libraryName,
+    similarityScore: Math.round((weightedScore / totalWeight) * 1000) / 1000,
+    matchingProperties,
+    differingProperties,
+  };
+}
+
+/**
+ * Base properties compared between two styles (colour is left out: library
+ * versions often recolour text styles without changing their role)
+ */
+export const STYLE_PAIR_WEIGHTS: Record<Exclude<MatchProperty, 'color'>, number> = {
+  fontFamily: 0.35,
+  fontSize: 0.3,
+  fontWeight: 0.15,
+  lineHeight: 0.1,
+  letterSpacing: 0.1,
+};
+
+/**
+ * Score how closely two styles' base properties match
+ *
+ * @returns Similarity (0-1) and the properties that differ, worded from `a` to `b`
+ */
+export function scoreStyleSimilarity(
+  a: TextStyle,
+  b: TextStyle
+): { similarityScore: number; differingProperties: DifferingProperty[] } {
+  const scores: Array<[Exclude<MatchProperty, 'color'>, number, string, string]> = [
+    ['fontFamily', scoreFontFamily(a.fontFamily, b.fontFamily), a.fontFamily, b.fontFamily],
+    ['fontSize', scoreRelative(a.fontSize, b.fontSize), `${a.fontSize}px`, `${b.fontSize}px`],
+    [
+      'fontWeight',
+      scoreFontWeight(a.fontWeight, b.fontWeight),
+      String(a.fontWeight),
+      String(b.fontWeight),
+    ],
+    [
+      'lineHeight',
+      scoreLineHeight(a.lineHeight, a.fontSize, b.lineHeight, b.fontSize),
+      formatValue(a.lineHeight, 'lineHeight'),
+      formatValue(b.lineHeight, 'lineHeight'),
+    ],
+    [
+      'letterSpacing',
+      scoreLetterSpacing(a.letterSpacing, a.fontSize, b.letterSpacing, b.fontSize),
+      formatValue(a.letterSpacing, 'letterSpacing'),
+      formatValue(b.letterSpacing, 'letterSpacing'),
+    ],
+  ];
+
+  let weightedScore = 0;
+  let totalWeight = 0;
+  const differingProperties: DifferingProperty[] = [];
+
+  for (const [property, score, textValue, styleValue] of scores) {
+    weightedScore += score * STYLE_PAIR_WEIGHTS[property];
+    totalWeight += STYLE_PAIR_WEIGHTS[property];
+    if (score < EXACT_MATCH_SCORE) {
+      differingProperties.push({ property, textValue, styleValue });
+    }
+  }
+
+  return {
+    similarityScore: Math.round((weightedScore / totalWeight) * 1000) / 1000,
+    differingProperties,
+  };
+}
+
+// ============================================================================
+// Property Scorers (each returns 0-1)
+// ============================================================================
+
+function scoreFontFamily(a: string, b: string): number {
+  return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+}
+
+/**
+ * Relative difference scorer: a 10% difference scores 0.8, 50% or more scores 0
+ */
+function scoreRelative(a: number, b: number): number {
+  if (a === b) return 1;
+  const max = Math.max(Math.abs(a), Math.abs(b));
+  if (max === 0) return 1;
+  return clamp01(1 - (Math.abs(a - b) / max) * 2);
+}
+
+/**
+ * One weight step (100) scores 0.75, four steps or more score 0
+ */
+function scoreFontWeight(a: number, b: number): number {
+  return clamp01(1 - Math.abs(a - b) / 400);
+}
+
+function scoreLineHeight(
+  layerValue: LineHeight,
+  layerFontSize: number,
+  styleValue: LineHeight,
+  styleFontSize: number
+): number {
+  if (layerValue.unit === 'AUTO' && styleValue.unit === 'AUTO') return 1;
+  return scoreRelative(
+    resolveLineHeight(layerValue, layerFontSize),
+    resolveLineHeight(styleValue, styleFontSize)
+  );
+}
+
+/**
+ * Compared in pixels: a difference of 10% of the font size or more scores 0
+ */
+function scoreLetterSpacing(
+  layerValue: LetterSpacing,
+  layerFontSize: number,
+  styleValue: LetterSpacing,
+  styleFontSize: number
+): number {
+  const a = resolveLetterSpacing(layerValue, layerFontSize);
+  const b = resolveLetterSpacing(styleValue, styleFontSize);
+  if (Math.abs(a - b) < 0.01) return 1;
+  const tolerance = Math.max(layerFontSize, styleFontSize) * 0.1;
+  return tolerance > 0 ? clamp01(1 - Math.abs(a - b) / tolerance) : 0;
+}
+
+/**
+ * Euclidean RGB distance normalized to the largest possible distance
+ */
+function scoreColor(a: RGBA, b: RGBA): number {
+  const distance = Math.sqrt((a.r - b.r) ** 2 + (a.g - b.g) ** 2 + (a.b - b.b) ** 2);
+  const alphaDifference = Math.abs((a.a ?? 1) - (b.a ?? 1));
+  return clamp01(1 - distance / Math.sqrt(3) - alphaDifference);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function resolveLineHeight(value: LineHeight, fontSize: number): number {
+  if (value.unit === 'AUTO') return fontSize * AUTO_LINE_HEIGHT_RATIO;
+  if (value.unit === 'PERCENT') return (fontSize * value.value) / 100;
+  return value.value;
+}
+
+function resolveLetterSpacing(value: LetterSpacing, fontSize: number): number {
+  return value.unit === 'PERCENT' ? (fontSize * value.value) / 100 : value.value;
+}
+
+function formatValue(value: unknown, property: 'fills' | 'lineHeight' | 'letterSpacing'): string {
+  return value === undefined || value === null ? '—' : formatTokenValue(value, property).display;
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
@@ -0,0 +1,360 @@
+/**
+ * Style Migration - Mapping tables for bulk style replacement
+ *
+ * A migration replaces many source styles with target styles in one run
+ * (e.g. moving from library v1 to v2). Mappings can be proposed by matching
+ * style names, hierarchy paths and base properties across libraries,
+ * imported from a CSV or JSON table, or edited by hand. Tables refer to styles by ID, key or name;
+ * names are resolved against the source and target libraries respectively.
+ */
+
+import Papa from 'papaparse';
+import type { LibrarySource, StyleMapping, TextLayer, TextStyle } from '@/shared/types';
+import { scoreStyleSimilarity } from './styleMatcher';
+
+/**
+ * A mapping and how it was found
+ */
+export interface ProposedStyleMapping extends StyleMapping {
+  matchedBy: 'name' | 'path' | 'properties' | 'imported' | 'manual';
+}
+
+/**
+ * One row of an imported mapping table, before resolution
+ */
+export interface StyleMappingRow {
+  source: string;
+  target: string;
+}
+
+const SOURCE_COLUMNS = ['source', 'source style', 'sourcestyleid', 'source style id', 'from'];
+const TARGET_COLUMNS = ['target', 'target style', 'targetstyleid', 'target style id', 'to'];
+
+// ============================================================================
+// Library Matching
+// ============================================================================
+
+export interface LibraryMatchOptions {
+  /** Property similarity (0-1) at which a match is accepted without review */
+  confidentScore: number;
+  /** Lowest property similarity still offered as a candidate */
+  candidateScore: number;
+  /** How far the best candidate must lead the runner-up to be accepted */
+  margin: number;
+  /** Candidates listed per ambiguous style */
+  maxCandidates: number;
+}
+
+export const DEFAULT_LIBRARY_MATCH_OPTIONS: LibraryMatchOptions = {
+  confidentScore: 0.9,
+  candidateScore: 0.7,
+  margin: 0.05,
+  maxCandidates: 3,
+};
+
+/**
+ * A source style paired with its counterpart
+ */
+export interface LibraryStyleMatch extends StyleMapping {
+  matchedBy: 'name' | 'path' | 'properties';
+  /** Base property similarity between the two styles (0-1) */
+  similarity: number;
+}
+
+/**
+ * A source style with several plausible counterparts, best first
+ */
+export interface AmbiguousStyleMatch {
+  sourceStyleId: string;
+  candidates: Array<{ styleId: string; similarity: number }>;
+}
+
+export interface LibraryMatchResult {
+  matches: LibraryStyleMatch[];
+  ambiguous: AmbiguousStyleMatch[];
+  /** Source styles with no counterpart in the target library */
+  orphans: string[];
+}
+
+/**
+ * Match every style of one library against the styles of another
+ *
+ * Each source style is matched on its normalized name first, then on the
+ * longest hierarchy path suffix it shares with target styles ("Typography/
+ * Heading/H1" → "Heading/H1"), then on base property similarity. A suffix of
+ * one segment ("Display/Large/Bold" and "Caption/Bold") is only accepted when
+ * the properties match confidently too. Ties at any step are broken by
+ * property similarity when one candidate clearly leads; otherwise the style
+ * is reported as ambiguous for review.
+ */
+export function matchLibraryStyles(
+  styles: TextStyle[],
+  source: LibrarySource,
+  target: LibrarySource,
+  options: LibraryMatchOptions = DEFAULT_LIBRARY_MATCH_OPTIONS
+): LibraryMatchResult {
+  const stylesById = new Map(styles.map((style) => [style.id, style]));
+  const pick = (ids: string[]) =>
+    ids.map((id) => stylesById.get(id)).filter((style): style is TextStyle => !!style);
+
+  return matchStyles(pick(source.styleIds), pick(target.styleIds), options);
+}
+
+function matchStyles(
+  sources: TextStyle[],
+  targets: TextStyle[],
+  options: LibraryMatchOptions
+): LibraryMatchResult {
+  const result: LibraryMatchResult = { matches: [], ambiguous: [], orphans: [] };
+
+  for (const source of sources) {
+    const candidates = targets.filter((target) => target.id !== source.id);
+    const rank = (styles: TextStyle[]) =>
+      styles
+        .map((style) => ({
+          styleId: style.id,
+          similarity: scoreStyleSimilarity(source, style).similarityScore,
+        }))
+        .sort((a, b) => b.similarity - a.similarity);
+
+    const byName = candidates.filter(
+      (target) => normalizeName(target.name) === normalizeName(source.name)
+    );
+    const byPath =
+      byName.length > 0 ? { styles: [], length: 0 } : findByPathSuffix(source, candidates);
+    const named = byName.length > 0 ? byName : byPath.styles;
+    const matchedBy = byName.length > 0 ? 'name' : 'path';
+    // A single shared segment ("Bold") says little on its own, so properties must agree too
+    const weakPath = byName.length === 0 && byPath.length < 2;
+
+    if (named.length === 1) {
+      const [best] = rank(named);
+      if (!weakPath || best.similarity >= options.confidentScore) {
+        result.matches.push({
+          sourceStyleId: source.id,
+          targetStyleId: best.styleId,
+          matchedBy,
+          similarity: best.similarity,
+        });
+        continue;
+      }
+    }
+
+    // Properties decide among targets sharing the name or path, or among all targets when none do
+    const ranked = named.length > 1 ? rank(named) : rank(candidates);
+    const [best, runnerUp] = ranked;
+    const leads = best && (!runnerUp || best.similarity - runnerUp.similarity >= options.margin);
+
+    if (best && leads && best.similarity >= options.confidentScore) {
+      result.matches.push({
+        sourceStyleId: source.id,
+        targetStyleId: best.styleId,
+        matchedBy: named.length > 1 ? matchedBy : 'properties',
+        similarity: best.similarity,
+      });
+      continue;
+    }
+
+    const plausible = (
+      named.length > 1 ? ranked : ranked.filter((c) => c.similarity >= options.candidateScore)
+    ).slice(0, options.maxCandidates);
+    if (plausible.length > 0) {
+      result.ambiguous.push({ sourceStyleId: source.id, candidates: plausible });
+    } else {
+      result.orphans.push(source.id);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Propose a target for every used style of the source library
+ *
+ * Only confident matches from matchLibraryStyles are proposed.
+ */
+export function proposeStyleMappings(
+  styles: TextStyle[],
+  sourceLibrary: string,
+  targetLibrary: string
+): ProposedStyleMapping[] {
+  const sources = styles.filter((s) => s.libraryName === sourceLibrary && s.usageCount > 0);
+  const targets = styles.filter((s) => s.libraryName === targetLibrary);
+
+  return matchStyles(sources, targets, DEFAULT_LIBRARY_MATCH_OPTIONS).matches.map(
+    ({ sourceStyleId, targetStyleId, matchedBy }) => ({ sourceStyleId, targetStyleId, matchedBy })
+  );
+}
+
+/**
+ * Targets sharing the longest hierarchy path suffix with the source, and how
+ * many segments that suffix has
+ */
+function findByPathSuffix(
+  source: TextStyle,
+  targets: TextStyle[]
+): { styles: TextStyle[]; length: number } {
+  const sourcePath = getPath(source);
+
+  for (let length = sourcePath.length; length > 0; length--) {
+    const suffix = sourcePath.slice(-length).join('/');
+    const matches = targets.filter((target) => getPath(target).slice(-length).join('/') === suffix);
+    if (matches.length > 0) return { styles: matches, length };
+  }
+
+  return { styles: [], length: 0 };
+}
+
+function getPath(style: TextStyle): string[] {
+  const path = style.hierarchyPath.length > 0 ? style.hierarchyPath : style.name.split('/');
+  return path.map(normalizeName).filter(Boolean);
+}
+
+function normalizeName(name: string): string {
+  return name
+    .split('/')
+    .map((part) => part.trim().replace(/\s+/g, ' '))
+    .join('/')
+    .toLowerCase();
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Parse a mapping table exported as JSON or CSV
+ *
+ * JSON: an array (or `{ "mappings": [...] }`) of `{ "source", "target" }`
+ * objects; `sourceStyleId` / `targetStyleId` are accepted too.
+ * CSV: a header row with Source and Target columns.
+ *
+ * @throws Error if the table has no readable rows
+ */
+export function parseStyleMappingTable(content: string): StyleMappingRow[] {
+  const trimmed = content.replace(/^\uFEFF/, '').trim();
+  const rows =
+    trimmed.startsWith('[') || trimmed.startsWith('{')
+      ? parseJSONTable(trimmed)
+      : parseCSVTable(trimmed);
+
+  if (rows.length === 0) {
+    throw new Error('Mapping table has no rows');
+  }
+  return rows;
+}
+
+function parseJSONTable(content: string): StyleMappingRow[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { mappings?: unknown } | null)?.mappings;
+  if (!Array.isArray(entries)) {
+    throw new Error('JSON mapping table must be a list of { "source", "target" } objects');
+  }
+
+  return entries.map((entry, index) => {
+    const record = (entry ?? {}) as Record<string, unknown>;
+    const source = record.source ?? record.sourceStyleId;
+    const target = record.target ?? record.targetStyleId;
+    if (typeof source !== 'string' || typeof target !== 'string') {
+      throw new Error(`Mapping ${index + 1} needs a "source" and a "target"`);
+    }
+    return { source: source.trim(), target: target.trim() };
+  });
+}
+
+function parseCSVTable(content: string): StyleMappingRow[] {
+  const [header, ...records] = Papa.parse<string[]>(content, { skipEmptyLines: 'greedy' }).data;
+  const columns = (header ?? []).map((column) => column.trim().toLowerCase());
+  const sourceIndex = columns.findIndex((column) => SOURCE_COLUMNS.includes(column));
+  const targetIndex = columns.findIndex((column) => TARGET_COLUMNS.includes(column));
+
+  if (sourceIndex === -1 || targetIndex === -1) {
+    throw new Error('CSV mapping table needs "Source" and "Target" columns');
+  }
+
+  return records
+    .map((record) => ({
+      source: (record[sourceIndex] ?? '').trim(),
+      target: (record[targetIndex] ?? '').trim(),
+    }))
+    .filter((row) => row.source || row.target);
+}
+
+/**
+ * Resolve table rows to style IDs
+ *
+ * Each side may be a style ID, key or name. Names are looked up in the given
+ * library (any library when omitted) and must be unambiguous.
+ *
+ * @returns Resolved mappings plus one message per row that could not be resolved
+ */
+export function resolveStyleMappings(
+  rows: StyleMappingRow[],
+  styles: TextStyle[],
+  sourceLibrary?: string,
+  targetLibrary?: string
+): { mappings: ProposedStyleMapping[]; errors: string[] } {
+  const mappings: ProposedStyleMapping[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    const source = resolveStyle(row.source, styles, sourceLibrary);
+    const target = resolveStyle(row.target, styles, targetLibrary);
+
+    if (typeof source === 'string') {
+      errors.push(`Row ${index + 1}: ${source}`);
+    } else if (typeof target === 'string') {
+      errors.push(`Row ${index + 1}: ${target}`);
+    } else if (source.id === target.id) {
+      errors.push(`Row ${index + 1}: "${row.source}" maps to itself`);
+    } else {
+      mappings.push({ sourceStyleId: source.id, targetStyleId: target.id, matchedBy: 'imported' });
+    }
+  });
+
+  return { mappings, errors };
+}
+
+/**
+ * Find a style by ID, key or name
+ *
+ * @returns The style, or a message explaining why none was found
+ */
+function resolveStyle(
+  reference: string,
+  styles: TextStyle[],
+  library?: string
+): TextStyle | string {
+  if (!reference) return 'Missing style';
+
+  const exact = styles.find((style) => style.id === reference || style.key === reference);
+  if (exact) return exact;
+
+  const name = normalizeName(reference);
+  const matches = styles.filter(
+    (style) => normalizeName(style.name) === name && (!library || style.libraryName === library)
+  );
+
+  if (matches.length === 1) return matches[0];
+  if (matches.length > 1) return `"${reference}" matches ${matches.length} styles`;
+  return `Style "${reference}" not found${library ? ` in ${library}` : ''}`;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Layers directly assigned a style (the layers a migration of that style updates)
+ */
+export function getLayerIdsForStyle(layers: TextLayer[], styleId: string): string[] {
+  return layers.filter((layer) => layer.styleId === styleId).map((layer) => layer.id);
+}
@@ -0,0 +1,38 @@
+/**
+ * Token Aliases - the reference graph between tokens
+ *
+ * Alias chains are resolved per mode during the audit. These helpers read them
+ * for display, and walk them backwards so a primitive token can list the
+ * semantic tokens built on it.
+ */
+
+import type { DesignToken, TokenAliasChain } from '@/shared/types';
+
+const CHAIN_ERRORS: Record<NonNullable<TokenAliasChain['error']>, string> = {
+  cycle: 'Circular reference',
+  missing: 'Missing variable',
+};
+
+/**
+ * Tokens that alias this token directly, in any mode, sorted by name
+ */
+export function getReferencingTokens(token: DesignToken, tokens: DesignToken[]): DesignToken[] {
+  const referencing = new Map<string, DesignToken>();
+
+  for (const candidate of tokens) {
+    if (candidate.id === token.id || referencing.has(candidate.id)) continue;
+    const aliasesToken = candidate.aliasChains?.some(
+      (chain) => chain.references[0]?.tokenId === token.id
+    );
+    if (aliasesToken) referencing.set(candidate.id, candidate);
+  }
+
+  return Array.from(referencing.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * What a chain ends in: the raw value, or why it could not be resolved
+ */
+export function getChainEnd(chain: TokenAliasChain): string {
+  return chain.error ? CHAIN_ERRORS[chain.error] : chain.value;
+}
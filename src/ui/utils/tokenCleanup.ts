@@ -0,0 +1,116 @@
+/**
+ * Token Cleanup - unused local variables and the backups of removed ones
+ *
+ * A local variable no audited layer binds can still be load-bearing: another
+ * variable may alias it, a style may bind it, or a frame or shape outside the
+ * audit may. The main thread reports those across the whole document along
+ * with the publish status, and checks them all again before removing anything.
+ * A published variable may be used by other files, so removing one is opt-in.
+ */
+
+import type {
+  DesignToken,
+  TextStyle,
+  TokenCleanupBackup,
+  TokenCleanupPreview,
+} from '@/shared/types';
+import { buildExportFilename } from './exportUtils';
+import { getReferencingTokens } from './tokenAliases';
+
+/**
+ * An unused local variable and what still depends on it
+ */
+export interface UnusedToken {
+  token: DesignToken;
+  /** Variables aliasing it directly */
+  aliasedBy: DesignToken[];
+  /** Text styles binding it */
+  boundByStyles: TextStyle[];
+}
+
+/**
+ * Local variables no audited layer binds, by collection and name
+ */
+export function findUnusedLocalTokens(tokens: DesignToken[], styles: TextStyle[]): UnusedToken[] {
+  return tokens
+    .filter((token) => token.key.startsWith('local/') && token.usageCount === 0)
+    .map((token) => ({
+      token,
+      aliasedBy: getReferencingTokens(token, tokens),
+      boundByStyles: styles.filter((style) =>
+        style.tokens.some((binding) => binding.tokenId === token.id)
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        a.token.collectionName.localeCompare(b.token.collectionName) ||
+        a.token.name.localeCompare(b.token.name)
+    );
+}
+
+/**
+ * Why a variable cannot be removed, or null when it can
+ */
+export function getTokenCleanupBlocker(
+  unused: UnusedToken,
+  preview: TokenCleanupPreview | undefined,
+  includePublished: boolean
+): string | null {
+  const references = [
+    ...unused.aliasedBy.map((token) => `aliased by ${token.name}`),
+    ...unused.boundByStyles.map((style) => `bound by style ${style.name}`),
+  ];
+  if (references.length > 0) return references.join(', ');
+  if (!preview) return 'not checked yet';
+  if (preview.error) return preview.error;
+  if (preview.blocker) return preview.blocker;
+  if (preview.publishStatus !== 'UNPUBLISHED' && !includePublished) {
+    return 'published, so other files may use it';
+  }
+  return null;
+}
+
+/**
+ * Backup JSON of a cleanup, ready to download
+ */
+export function generateTokenBackupJSON(
+  backup: TokenCleanupBackup,
+  documentName: string
+): { filename: string; content: string } {
+  return {
+    filename: buildExportFilename(documentName, new Date(backup.createdAt), 'json', 'token-backup'),
+    content: JSON.stringify(backup, null, 2),
+  };
+}
+
+/**
+ * Read a downloaded cleanup backup back in
+ */
+export function parseTokenBackup(content: string): TokenCleanupBackup {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const backup = parsed as Partial<TokenCleanupBackup> | null;
+  if (backup?.version !== 1 || !Array.isArray(backup.variables)) {
+    throw new Error('File is not a token cleanup backup');
+  }
+
+  backup.variables.forEach((variable, index) => {
+    if (
+      typeof variable?.name !== 'string' ||
+      typeof variable.collectionName !== 'string' ||
+      !Array.isArray(variable.values)
+    ) {
+      throw new Error(`Variable ${index + 1} is missing its name, collection or values`);
+    }
+  });
+  if (backup.variables.length === 0) {
+    throw new Error('Backup has no variables to restore');
+  }
+
+  return backup as TokenCleanupBackup;
+}
@@ -0,0 +1,171 @@
+/**
+ * Token Layering - semantic vs primitive token collections
+ *
+ * Primitive collections hold raw values ("gray/900"); semantic collections
+ * alias them under purpose names ("text/body"). Layers and styles should bind
+ * semantic tokens, so a theme or brand change only touches the aliases.
+ *
+ * Collections are tagged by name in the governance config. When neither list
+ * is set, tiers are inferred from the alias chains found by the audit: a
+ * collection made mostly of aliases is semantic, and a collection of raw
+ * values that aliases point to is primitive.
+ */
+
+import type { CollectionTier, DesignToken, GovernanceConfig, TokenBinding } from '@/shared/types';
+import { matchesAnyGlob } from '@/shared/glob';
+
+/**
+ * Everything needed to check bindings against the collection tiers
+ */
+export interface TokenLayering {
+  /** Tier per collection name; untiered collections are absent */
+  tiers: Map<string, CollectionTier>;
+  tokensById: Map<string, DesignToken>;
+  /** Semantic tokens resolving through each token, at any depth */
+  aliasesByTarget: Map<string, DesignToken[]>;
+}
+
+/**
+ * A binding to a primitive token, with semantic tokens to bind instead
+ */
+export interface PrimitiveBinding {
+  token: DesignToken;
+  /** Semantic tokens aliasing it, best first */
+  suggestions: DesignToken[];
+}
+
+type TierConfig = Pick<GovernanceConfig, 'primitiveCollections' | 'semanticCollections'>;
+
+/**
+ * Tier of every collection, from the config or inferred from aliases
+ */
+export function getCollectionTiers(
+  tokens: DesignToken[],
+  config: TierConfig
+): Map<string, CollectionTier> {
+  const { primitiveCollections, semanticCollections } = config;
+  if (primitiveCollections.length === 0 && semanticCollections.length === 0) {
+    return inferCollectionTiers(tokens);
+  }
+
+  const tiers = new Map<string, CollectionTier>();
+  for (const { collectionName } of tokens) {
+    const names = [collectionName, getCollectionLabel(collectionName)];
+    if (names.some((name) => matchesAnyGlob(name, semanticCollections))) {
+      tiers.set(collectionName, 'semantic');
+    } else if (names.some((name) => matchesAnyGlob(name, primitiveCollections))) {
+      tiers.set(collectionName, 'primitive');
+    }
+  }
+  return tiers;
+}
+
+/**
+ * Infer tiers from the alias structure
+ *
+ * Collections fitting neither shape (a few aliases among raw values, or raw
+ * values nothing points to) stay untiered.
+ */
+export function inferCollectionTiers(tokens: DesignToken[]): Map<string, CollectionTier> {
+  const unique = dedupeTokens(tokens);
+  const referenced = new Set(
+    unique.flatMap((token) =>
+      (token.aliasChains ?? []).flatMap((chain) => chain.references.map((ref) => ref.tokenId))
+    )
+  );
+
+  const stats = new Map<string, { total: number; aliases: number; referenced: number }>();
+  for (const token of unique) {
+    const collection = stats.get(token.collectionName) ?? { total: 0, aliases: 0, referenced: 0 };
+    collection.total++;
+    if (token.isAlias) collection.aliases++;
+    if (referenced.has(token.id)) collection.referenced++;
+    stats.set(token.collectionName, collection);
+  }
+
+  const tiers = new Map<string, CollectionTier>();
+  for (const [collectionName, collection] of stats) {
+    if (collection.aliases * 2 > collection.total) {
+      tiers.set(collectionName, 'semantic');
+    } else if (collection.aliases === 0 && collection.referenced > 0) {
+      tiers.set(collectionName, 'primitive');
+    }
+  }
+  return tiers;
+}
+
+/**
+ * Index the tokens for checking bindings
+ */
+export function buildTokenLayering(tokens: DesignToken[], config: TierConfig): TokenLayering {
+  const unique = dedupeTokens(tokens);
+  const tiers = getCollectionTiers(unique, config);
+
+  const aliasesByTarget = new Map<string, DesignToken[]>();
+  for (const token of unique) {
+    if (tiers.get(token.collectionName) !== 'semantic') continue;
+
+    const targets = new Set(
+      (token.aliasChains ?? []).flatMap((chain) => chain.references.map((ref) => ref.tokenId))
+    );
+    for (const targetId of targets) {
+      aliasesByTarget.set(targetId, [...(aliasesByTarget.get(targetId) ?? []), token]);
+    }
+  }
+
+  return {
+    tiers,
+    tokensById: new Map(unique.map((token) => [token.id, token])),
+    aliasesByTarget,
+  };
+}
+
+/**
+ * Check whether a binding points at a primitive token
+ *
+ * Suggestions prefer tokens already bound to the same property, then direct
+ * aliases, then the most used.
+ *
+ * @returns The primitive and its semantic alternatives, or null when the binding is fine
+ */
+export function findPrimitiveBinding(
+  binding: TokenBinding,
+  layering: TokenLayering
+): PrimitiveBinding | null {
+  const token = layering.tokensById.get(binding.tokenId);
+  if (!token || layering.tiers.get(token.collectionName) !== 'primitive') return null;
+
+  const propertyRank = (alias: DesignToken) =>
+    alias.propertyTypes.includes(binding.property) ? 0 : 1;
+  const directRank = (alias: DesignToken) =>
+    (alias.aliasChains ?? []).some((chain) => chain.references[0]?.tokenId === token.id) ? 0 : 1;
+
+  const suggestions = [...(layering.aliasesByTarget.get(token.id) ?? [])].sort(
+    (a, b) =>
+      propertyRank(a) - propertyRank(b) ||
+      directRank(a) - directRank(b) ||
+      b.usageCount - a.usageCount ||
+      a.name.localeCompare(b.name)
+  );
+
+  return { token, suggestions };
+}
+
+/**
+ * Collection name without the " (local)" / " (remote)" suffix the audit adds
+ */
+export function getCollectionLabel(collectionName: string): string {
+  return collectionName.replace(/ \((local|remote)\)$/, '');
+}
+
+/**
+ * Library tokens appear twice in the audit's token list; keep one entry per token
+ */
+function dedupeTokens(tokens: DesignToken[]): DesignToken[] {
+  const seen = new Set<string>();
+  return tokens.filter((token) => {
+    if (seen.has(token.id)) return false;
+    seen.add(token.id);
+    return true;
+  });
+}
@@ -0,0 +1,153 @@
+/**
+ * Token Remap - Pair the tokens of two collections
+ *
+ * Moving to a new collection (e.g. splitting a legacy "Typography" collection
+ * into primitives and semantic tokens) rebinds each source token to the
+ * target token with the same name path. Per-mode values are compared in the
+ * main thread, where the collections' modes are known.
+ */
+
+import type { DesignToken, TokenMapping } from '@/shared/types';
+
+/**
+ * A collection found by the audit
+ */
+export interface TokenCollection {
+  id: string;
+  name: string;
+  tokenCount: number;
+}
+
+/**
+ * A source token paired with its counterpart
+ */
+export interface TokenRemapMatch extends TokenMapping {
+  matchedBy: 'name' | 'path';
+}
+
+export interface CollectionMatchResult {
+  matches: TokenRemapMatch[];
+  /** Source tokens whose only counterparts have a different type */
+  typeMismatches: TokenMapping[];
+  /** Source tokens with several counterparts of the same type */
+  ambiguous: Array<{ sourceTokenId: string; candidateIds: string[] }>;
+  /** Source tokens with no counterpart in the target collection */
+  orphans: string[];
+}
+
+/**
+ * Collections of the audited tokens, in order of appearance
+ */
+export function getTokenCollections(tokens: DesignToken[]): TokenCollection[] {
+  const collections = new Map<string, TokenCollection>();
+  for (const token of uniqueTokens(tokens)) {
+    const collection = collections.get(token.collectionId);
+    if (collection) {
+      collection.tokenCount++;
+    } else {
+      collections.set(token.collectionId, {
+        id: token.collectionId,
+        name: token.collectionName,
+        tokenCount: 1,
+      });
+    }
+  }
+  return Array.from(collections.values());
+}
+
+/**
+ * Match every token of one collection against the tokens of another
+ *
+ * Each source token is matched on its normalized name first, then on a name
+ * path that ends with the other ("Typography/Body/Size" → "Body/Size"), the
+ * longest shared path winning. Only counterparts of the same type are accepted;
+ * several of them leave the token ambiguous for review.
+ */
+export function matchCollectionTokens(
+  tokens: DesignToken[],
+  sourceCollectionId: string,
+  targetCollectionId: string
+): CollectionMatchResult {
+  const unique = uniqueTokens(tokens);
+  const sources = unique.filter((token) => token.collectionId === sourceCollectionId);
+  const targets = unique.filter((token) => token.collectionId === targetCollectionId);
+  const result: CollectionMatchResult = {
+    matches: [],
+    typeMismatches: [],
+    ambiguous: [],
+    orphans: [],
+  };
+
+  for (const source of sources) {
+    const candidates = targets.filter((target) => target.id !== source.id);
+    const byName = candidates.filter(
+      (target) => getPath(target).join('/') === getPath(source).join('/')
+    );
+    const named = byName.length > 0 ? byName : findByPathSuffix(source, candidates);
+    const sameType = named.filter((target) => target.type === source.type);
+
+    if (sameType.length === 1) {
+      result.matches.push({
+        sourceTokenId: source.id,
+        targetTokenId: sameType[0].id,
+        matchedBy: byName.length > 0 ? 'name' : 'path',
+      });
+    } else if (sameType.length > 1) {
+      result.ambiguous.push({
+        sourceTokenId: source.id,
+        candidateIds: sameType.map((target) => target.id),
+      });
+    } else if (named.length > 0) {
+      result.typeMismatches.push({ sourceTokenId: source.id, targetTokenId: named[0].id });
+    } else {
+      result.orphans.push(source.id);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Targets whose name path ends with the source's, or the other way round,
+ * sharing the most segments
+ */
+function findByPathSuffix(source: DesignToken, targets: DesignToken[]): DesignToken[] {
+  const sourcePath = getPath(source);
+  const endsWith = (path: string[], suffix: string[]) =>
+    suffix.length <= path.length && path.slice(-suffix.length).join('/') === suffix.join('/');
+
+  let best: DesignToken[] = [];
+  let bestLength = 0;
+  for (const target of targets) {
+    const targetPath = getPath(target);
+    if (!endsWith(sourcePath, targetPath) && !endsWith(targetPath, sourcePath)) continue;
+
+    const length = Math.min(sourcePath.length, targetPath.length);
+    if (length > bestLength) {
+      best = [target];
+      bestLength = length;
+    } else if (length === bestLength) {
+      best.push(target);
+    }
+  }
+  return best;
+}
+
+function getPath(token: DesignToken): string[] {
+  return token.name
+    .split('/')
+    .map((part) => part.trim().replace(/\s+/g, ' ').toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Library tokens can be listed under two IDs; keep each token once
+ */
+function uniqueTokens(tokens: DesignToken[]): DesignToken[] {
+  const seen = new Set<string>();
+  return tokens.filter((token) => {
+    if (seen.has(token.id)) return false;
+    seen.add(token.id);
+    return true;
+  });
+}
@@ -0,0 +1,86 @@
+/**
+ * Token Value Matches - Group hard-coded values that already equal a token
+ *
+ * The audit flags each unbound layer property whose value equals a token in
+ * the layer's mode. Grouping them by property and value turns hundreds of
+ * layers into a short list of "16px → Body/Size" decisions.
+ */
+
+import type { TextLayer, TokenBinding, TokenValueBinding } from '@/shared/types';
+
+/**
+ * Layers sharing one hard-coded value for one property
+ */
+export interface TokenValueGroup {
+  key: string;
+  property: TokenBinding['property'];
+  value: string;
+  /** Candidate tokens across the group, best first */
+  tokenIds: string[];
+  /** Each layer with the tokens that hold the value in its own mode */
+  layers: Array<{ layerId: string; tokenIds: string[] }>;
+}
+
+export const TOKEN_VALUE_PROPERTIES: TokenBinding['property'][] = [
+  'fontFamily',
+  'fontSize',
+  'lineHeight',
+  'letterSpacing',
+  'fills',
+];
+
+export const PROPERTY_LABELS: Record<TokenBinding['property'], string> = {
+  fontFamily: 'Font family',
+  fontSize: 'Font size',
+  lineHeight: 'Line height',
+  letterSpacing: 'Letter spacing',
+  fills: 'Fill color',
+};
+
+/**
+ * Group token value matches by property and value, most layers first
+ */
+export function groupTokenValueMatches(layers: TextLayer[]): TokenValueGroup[] {
+  const groups = new Map<string, TokenValueGroup>();
+
+  for (const layer of layers) {
+    for (const match of layer.tokenValueMatches ?? []) {
+      const key = `${match.property}|${match.value}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = { key, property: match.property, value: match.value, tokenIds: [], layers: [] };
+        groups.set(key, group);
+      }
+
+      group.layers.push({ layerId: layer.id, tokenIds: match.tokenIds });
+      for (const tokenId of match.tokenIds) {
+        if (!group.tokenIds.includes(tokenId)) group.tokenIds.push(tokenId);
+      }
+    }
+  }
+
+  return Array.from(groups.values()).sort(
+    (a, b) =>
+      TOKEN_VALUE_PROPERTIES.indexOf(a.property) - TOKEN_VALUE_PROPERTIES.indexOf(b.property) ||
+      b.layers.length - a.layers.length
+  );
+}
+
+/**
+ * Layers of a group that the token can be bound to without changing how they look
+ *
+ * A token can equal the value in one mode and not another, so layers whose
+ * own mode gives a different value are left out.
+ */
+export function getGroupBindings(group: TokenValueGroup, tokenId: string): TokenValueBinding[] {
+  return group.layers
+    .filter((layer) => layer.tokenIds.includes(tokenId))
+    .map((layer) => ({ layerId: layer.layerId, property: group.property, tokenId }));
+}
+
+/**
+ * Number of layers with at least one value that could be bound to a token
+ */
+export function countLayersWithTokenValueMatches(layers: TextLayer[]): number {
+  return layers.filter((layer) => (layer.tokenValueMatches?.length ?? 0) > 0).length;
+}
@@ -1,5 +1,5 @@
 import { Plugin } from 'vite';
-import { readFileSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
 import { resolve } from 'path';
 
 /**
@@ -12,6 +12,18 @@ export function figmaPlugin(): Plugin {
   return {
     name: 'vite-plugin-figma',
     
+    // Only the main bundle gets the UI injected
+    applyToEnvironment(environment) {
+      return environment.name === 'main';
+    },
+
+    // In watch mode, rebuild main.js whenever the UI build rewrites ui.js
+    buildStart() {
+      if (this.meta.watchMode) {
+        this.addWatchFile(resolve('build', 'ui.js'));
+      }
+    },
+
     // Hook that runs after the build is complete
     writeBundle(options, bundle) {
       const outputDir = options.dir || 'build';
@@ -19,6 +31,9 @@ export function figmaPlugin(): Plugin {
       const uiJsPath = resolve(outputDir, 'ui.js');
       const uiCssPath = resolve(outputDir, 'ui.css');
 
+      // Watch mode builds both environments at once; main.js is rebuilt once ui.js is written
+      if (!existsSync(uiJsPath)) return;
+
       try {
         // Read the generated UI assets
         const uiJs = readFileSync(uiJsPath, 'utf-8');
@@ -45,7 +60,11 @@ export function figmaPlugin(): Plugin {
         let mainJs = readFileSync(mainJsPath, 'utf-8');
 
         // Inject __html__ with inlined assets
-        const htmlInjection = `const __html__ = ${JSON.stringify(uiHtml)};\n`;
+        // The main sandbox rejects any "import(" text, even inside strings, so
+        // escape the parenthesis (it decodes back to the same HTML at runtime).
+        // jsPDF ships lazy import() calls for optional dependencies.
+        const htmlLiteral = JSON.stringify(uiHtml).replace(/\bimport\(/g, 'import\\u0028');
+        const htmlInjection = `const __html__ = ${htmlLiteral};\n`;
         mainJs = htmlInjection + mainJs;
 
         // Write the modified main.js back
@@ -4,6 +4,10 @@ import path from 'path';
 import { figmaPlugin } from './vite-plugin-figma';
 
 // Vite configuration for Figma plugin dual-context build
+//
+// The UI and the main sandbox are built as separate environments, one entry
+// each, so modules under src/shared are bundled into both files instead of
+// being split into a chunk neither context can load.
 export default defineConfig({
   plugins: [react(), figmaPlugin()],
 
@@ -15,17 +19,12 @@ export default defineConfig({
 
   build: {
     outDir: 'build',
-    emptyOutDir: true,
     minify: false, // Disable for easier debugging
 
     // Target ES2017 for Figma compatibility (main context)
     target: 'es2017',
 
     rollupOptions: {
-      input: {
-        main: path.resolve(__dirname, 'src/main/code.ts'),
-        ui: path.resolve(__dirname, 'src/ui/index.html'),
-      },
       output: {
         entryFileNames: '[name].js',
         chunkFileNames: '[name].js',
@@ -33,4 +32,29 @@ export default defineConfig({
       },
     },
   },
+
+  environments: {
+    // Built first: main.js inlines the built UI
+    ui: {
+      consumer: 'client',
+      build: {
+        emptyOutDir: true,
+        rollupOptions: { input: { ui: path.resolve(__dirname, 'src/ui/index.html') } },
+      },
+    },
+    main: {
+      consumer: 'client',
+      build: {
+        emptyOutDir: false,
+        rollupOptions: { input: { main: path.resolve(__dirname, 'src/main/code.ts') } },
+      },
+    },
+  },
+
+  builder: {
+    async buildApp(builder) {
+      await builder.build(builder.environments.ui);
+      await builder.build(builder.environments.main);
+    },
+  },
 });